@@ -0,0 +1,321 @@
+/**
+ * Alerts Routes
+ */
+
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import {
+    createAcknowledgmentLinks,
+    createAlertEscalationService,
+    createAlertScheduler
+} from '../../lib/weather-engine';
+import type { WeatherAlert } from '../../lib/weather-engine';
+import { createSiteRegistryService, RegistryAlertContactAdapter } from '../../lib/site-registry';
+
+export const alertsRoutes = new OpenAPIHono();
+
+const alertSchema = z.object({
+    id: z.string(),
+    siteId: z.string(),
+    channel: z.enum(['sms', 'push', 'email']),
+    recipient: z.string(),
+    recipientType: z.string(),
+    language: z.string(),
+    message: z.string(),
+    subject: z.string().nullable(),
+    priority: z.enum(['low', 'medium', 'high', 'critical']),
+    triggerEventId: z.string(),
+    status: z.enum(['pending', 'sent', 'delivered', 'failed', 'acknowledged']),
+    createdAt: z.string(),
+    acknowledgedAt: z.string().nullable(),
+    acknowledgedBy: z.string().nullable(),
+    escalationLevel: z.number(),
+    escalatedFromAlertId: z.string().nullable(),
+    failureReason: z.string().nullable(),
+    deliveryAttempts: z.array(z.object({
+        attempt: z.number(),
+        attemptedAt: z.string(),
+        success: z.boolean(),
+        deliveredAt: z.string().optional(),
+        errorMessage: z.string().optional(),
+    })),
+});
+
+const alertParamsSchema = z.object({
+    id: z.string(),
+});
+
+const alertResponse = (description: string) => ({
+    description,
+    content: {
+        'application/json': {
+            schema: alertSchema,
+        },
+    },
+});
+
+const listDeadLettersRoute = createRoute({
+    method: 'get',
+    path: '/alerts/dead-letters',
+    tags: ['Alerts'],
+    summary: 'List alerts that exhausted their delivery retries',
+    responses: {
+        200: {
+            description: 'Dead-lettered alerts',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        alerts: z.array(alertSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const replayDeadLetterRoute = createRoute({
+    method: 'post',
+    path: '/alerts/dead-letters/{id}/replay',
+    tags: ['Alerts'],
+    summary: 'Retry delivery of a dead-lettered alert',
+    request: {
+        params: alertParamsSchema,
+    },
+    responses: {
+        200: alertResponse('Replayed alert (dead-lettered again if delivery still fails)'),
+        404: {
+            description: 'Alert not in the dead-letter queue',
+        },
+    },
+});
+
+const getAlertRoute = createRoute({
+    method: 'get',
+    path: '/alerts/{id}',
+    tags: ['Alerts'],
+    summary: 'Get an alert with its acknowledgment state',
+    request: {
+        params: alertParamsSchema,
+    },
+    responses: {
+        200: alertResponse('Alert'),
+        404: {
+            description: 'Alert not found',
+        },
+    },
+});
+
+const acknowledgeAlertRoute = createRoute({
+    method: 'post',
+    path: '/alerts/{id}/acknowledge',
+    tags: ['Alerts'],
+    summary: 'Acknowledge an alert',
+    request: {
+        params: alertParamsSchema,
+        body: {
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        acknowledgedBy: z.string().min(1),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: alertResponse('Acknowledged alert'),
+        404: {
+            description: 'Alert not found',
+        },
+    },
+});
+
+const acknowledgeLinkQuerySchema = z.object({
+    expires: z.string().transform(Number),
+    signature: z.string(),
+});
+
+const htmlPageResponse = (description: string) => ({
+    description,
+    content: {
+        'text/html': {
+            schema: z.string(),
+        },
+    },
+});
+
+const confirmAcknowledgeLinkRoute = createRoute({
+    method: 'get',
+    path: '/alerts/{id}/ack',
+    tags: ['Alerts'],
+    summary: 'Confirmation page for a signed one-click acknowledgment link',
+    description: 'Opening the link changes nothing, so mail and link scanners cannot acknowledge alerts; '
+        + 'the page posts the acknowledgment back to the same link.',
+    request: {
+        params: alertParamsSchema,
+        query: acknowledgeLinkQuerySchema,
+    },
+    responses: {
+        200: htmlPageResponse('Confirmation page'),
+        403: {
+            description: 'Invalid or expired link',
+        },
+        404: {
+            description: 'Alert not found',
+        },
+    },
+});
+
+const acknowledgeLinkRoute = createRoute({
+    method: 'post',
+    path: '/alerts/{id}/ack',
+    tags: ['Alerts'],
+    summary: 'Acknowledge an alert from a signed one-click link',
+    request: {
+        params: alertParamsSchema,
+        query: acknowledgeLinkQuerySchema,
+    },
+    responses: {
+        200: htmlPageResponse('Acknowledgment page'),
+        403: {
+            description: 'Invalid or expired link',
+        },
+        404: {
+            description: 'Alert not found',
+        },
+    },
+});
+
+function createEscalationService() {
+    return createAlertEscalationService(new RegistryAlertContactAdapter(createSiteRegistryService()));
+}
+
+function toAlertResponse(alert: WeatherAlert) {
+    return {
+        id: alert.id,
+        siteId: alert.siteId,
+        channel: alert.channel,
+        recipient: alert.recipient,
+        recipientType: alert.recipientType,
+        language: alert.language,
+        message: alert.message,
+        subject: alert.subject,
+        priority: alert.priority,
+        triggerEventId: alert.triggerEventId,
+        status: alert.status,
+        createdAt: alert.createdAt.toISOString(),
+        acknowledgedAt: alert.acknowledgedAt?.toISOString() ?? null,
+        acknowledgedBy: alert.acknowledgedBy,
+        escalationLevel: alert.escalationLevel,
+        escalatedFromAlertId: alert.escalatedFromAlertId,
+        failureReason: alert.failureReason,
+        deliveryAttempts: alert.deliveryAttempts.map(a => ({
+            attempt: a.attempt,
+            attemptedAt: a.attemptedAt.toISOString(),
+            success: a.success,
+            deliveredAt: a.deliveredAt?.toISOString(),
+            errorMessage: a.errorMessage,
+        })),
+    };
+}
+
+// Registered before /alerts/{id} so the static path wins
+alertsRoutes.openapi(listDeadLettersRoute, async (c) => {
+    const alerts = await createAlertScheduler().getDeadLetters();
+
+    return c.json({ alerts: alerts.map(toAlertResponse) });
+});
+
+alertsRoutes.openapi(replayDeadLetterRoute, async (c) => {
+    const { id } = c.req.valid('param');
+
+    const alert = await createAlertScheduler().replayDeadLetter(id);
+    if (!alert) {
+        return c.json({ error: 'Alert not in dead-letter queue' }, 404);
+    }
+
+    await createEscalationService().track([alert]);
+    return c.json(toAlertResponse(alert), 200);
+});
+
+alertsRoutes.openapi(getAlertRoute, async (c) => {
+    const { id } = c.req.valid('param');
+
+    const alert = await createEscalationService().getAlert(id);
+    if (!alert) {
+        return c.json({ error: 'Alert not found' }, 404);
+    }
+
+    return c.json(toAlertResponse(alert), 200);
+});
+
+alertsRoutes.openapi(acknowledgeAlertRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const { acknowledgedBy } = c.req.valid('json');
+
+    const alert = await createEscalationService().acknowledge(id, acknowledgedBy);
+    if (!alert) {
+        return c.json({ error: 'Alert not found' }, 404);
+    }
+
+    return c.json(toAlertResponse(alert), 200);
+});
+
+alertsRoutes.openapi(confirmAcknowledgeLinkRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const { expires, signature } = c.req.valid('query');
+
+    if (!createAcknowledgmentLinks().verify(id, { expires, signature })) {
+        return c.json({ error: 'Invalid or expired acknowledgment link' }, 403);
+    }
+
+    const alert = await createEscalationService().getAlert(id);
+    if (!alert) {
+        return c.json({ error: 'Alert not found' }, 404);
+    }
+
+    // An empty form action posts back to this URL, signature included
+    const body = alert.isAcknowledged()
+        ? `<p>Already acknowledged by ${escapeHtml(alert.acknowledgedBy ?? '')}.</p>`
+        : '<form method="post" action=""><button type="submit">Acknowledge alert</button></form>';
+    return c.html(renderAcknowledgmentPage(alert, body), 200);
+});
+
+// The link is the credential, so the acknowledger is the recipient it was sent to
+alertsRoutes.openapi(acknowledgeLinkRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const { expires, signature } = c.req.valid('query');
+
+    if (!createAcknowledgmentLinks().verify(id, { expires, signature })) {
+        return c.json({ error: 'Invalid or expired acknowledgment link' }, 403);
+    }
+
+    const service = createEscalationService();
+    const existing = await service.getAlert(id);
+    if (!existing) {
+        return c.json({ error: 'Alert not found' }, 404);
+    }
+
+    const alert = await service.acknowledge(id, existing.recipient) ?? existing;
+    const acknowledgedAt = alert.acknowledgedAt?.toISOString() ?? '';
+    return c.html(renderAcknowledgmentPage(alert, `<p>Acknowledged at ${escapeHtml(acknowledgedAt)}. Thank you.</p>`), 200);
+});
+
+function renderAcknowledgmentPage(alert: WeatherAlert, body: string): string {
+    return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Acknowledge alert</title></head>
+<body style="font-family:sans-serif;max-width:560px;margin:24px auto;padding:0 16px">
+  <h2>${escapeHtml(alert.subject ?? 'ESCACS alert')}</h2>
+  <p>${escapeHtml(alert.message)}</p>
+  ${body}
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
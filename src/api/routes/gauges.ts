@@ -0,0 +1,251 @@
+/**
+ * Rain Gauge Routes
+ */
+
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { createSiteRegistryService } from '../../lib/site-registry';
+import type { Site, SiteRegistryService } from '../../lib/site-registry';
+import {
+    createGaugeIngestionService,
+    createGaugeReadingRepository,
+    createRainfallEventRepository
+} from '../../lib/weather-engine';
+import type { GaugeReading, InspectionWindow, RainfallEvent, SitePermit } from '../../lib/weather-engine';
+
+export const gaugesRoutes = new OpenAPIHono();
+
+const siteParamsSchema = z.object({
+    id: z.string(),
+});
+
+const observationSchema = z.object({
+    observedAt: z.string().datetime().openapi({ description: 'End of the reporting interval' }),
+    intervalMinutes: z.number().positive().default(5),
+    tipCount: z.number().int().nonnegative().optional(),
+    precipitationInches: z.number().nonnegative().optional(),
+}).refine(o => (o.tipCount === undefined) !== (o.precipitationInches === undefined), {
+    message: 'Provide either tipCount or precipitationInches',
+});
+
+const readingSchema = z.object({
+    id: z.string(),
+    deviceId: z.string(),
+    observedAt: z.string(),
+    intervalMinutes: z.number(),
+    precipitationInches: z.number(),
+    tipCount: z.number().nullable(),
+});
+
+const rainfallEventSchema = z.object({
+    id: z.string(),
+    deviceId: z.string().nullable(),
+    source: z.string(),
+    startTime: z.string(),
+    endTime: z.string().nullable(),
+    lastRainAt: z.string(),
+    intensityInchesPerHour: z.number(),
+    totalAccumulationInches: z.number(),
+});
+
+const inspectionWindowSchema = z.object({
+    id: z.string(),
+    rainfallEventId: z.string(),
+    stormEndTime: z.string(),
+    deadlineTime: z.string(),
+    jurisdictionHours: z.number(),
+});
+
+const ingestReadingsRoute = createRoute({
+    method: 'post',
+    path: '/sites/{id}/gauge-readings',
+    tags: ['Rain Gauges'],
+    summary: 'Ingest on-site rain gauge readings',
+    request: {
+        params: siteParamsSchema,
+        body: {
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        deviceId: z.string().min(1),
+                        inchesPerTip: z.number().positive().optional().openapi({
+                            description: 'Tipping-bucket resolution (default 0.01 in)',
+                        }),
+                        readings: z.array(observationSchema).min(1),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        201: {
+            description: 'Readings stored and rainfall events updated',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        accepted: z.number(),
+                        duplicates: z.number(),
+                        openedEvents: z.array(rainfallEventSchema),
+                        closedEvents: z.array(rainfallEventSchema),
+                        inspectionWindows: z.array(inspectionWindowSchema),
+                    }),
+                },
+            },
+        },
+        400: {
+            description: 'Invalid readings',
+        },
+        404: {
+            description: 'Site not found',
+        },
+    },
+});
+
+const listReadingsRoute = createRoute({
+    method: 'get',
+    path: '/sites/{id}/gauge-readings',
+    tags: ['Rain Gauges'],
+    summary: 'List stored rain gauge readings',
+    request: {
+        params: siteParamsSchema,
+        query: z.object({
+            since: z.string().datetime().optional(),
+            deviceId: z.string().optional(),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Readings in observation order',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        readings: z.array(readingSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const listRainfallEventsRoute = createRoute({
+    method: 'get',
+    path: '/sites/{id}/rainfall-events',
+    tags: ['Rain Gauges'],
+    summary: 'List rainfall events detected from gauge readings',
+    request: {
+        params: siteParamsSchema,
+    },
+    responses: {
+        200: {
+            description: 'Rainfall events, most recent first',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        events: z.array(rainfallEventSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+/**
+ * Inspection windows need no contacts, so sites without any still record rain
+ */
+function buildGaugePermit(registry: SiteRegistryService, site: Site): SitePermit {
+    try {
+        return registry.buildSitePermit(site);
+    } catch {
+        return {
+            siteId: site.id,
+            thresholdInchesPerHour: site.rainThresholdInchesPerHour,
+            jurisdictionInspectionHours: site.inspectionDeadlineHours,
+            inspectionPolicy: registry.getRulePack(site)?.toInspectionPolicy(registry.getRuleConditions(site)),
+            siteName: site.name,
+            timeZone: site.timeZone,
+        };
+    }
+}
+
+function toReadingResponse(reading: GaugeReading) {
+    return {
+        id: reading.id,
+        deviceId: reading.deviceId,
+        observedAt: reading.observedAt.toISOString(),
+        intervalMinutes: reading.intervalMinutes,
+        precipitationInches: reading.precipitationInches,
+        tipCount: reading.tipCount,
+    };
+}
+
+function toEventResponse(event: RainfallEvent) {
+    return {
+        id: event.id,
+        deviceId: event.deviceId,
+        source: event.source,
+        startTime: event.startTime.toISOString(),
+        endTime: event.endTime?.toISOString() ?? null,
+        lastRainAt: event.lastRainAt.toISOString(),
+        intensityInchesPerHour: event.intensityInchesPerHour,
+        totalAccumulationInches: event.totalAccumulationInches,
+    };
+}
+
+function toWindowResponse(window: InspectionWindow) {
+    return {
+        id: window.id,
+        rainfallEventId: window.rainfallEventId,
+        stormEndTime: window.stormEndTime.toISOString(),
+        deadlineTime: window.deadlineTime.toISOString(),
+        jurisdictionHours: window.jurisdictionHours,
+    };
+}
+
+gaugesRoutes.openapi(ingestReadingsRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const { deviceId, inchesPerTip, readings } = c.req.valid('json');
+    const registry = createSiteRegistryService();
+
+    const site = await registry.getSite(id);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    try {
+        const result = await createGaugeIngestionService().ingest(buildGaugePermit(registry, site), {
+            deviceId,
+            inchesPerTip,
+            observations: readings.map(r => ({ ...r, observedAt: new Date(r.observedAt) })),
+        });
+
+        return c.json({
+            accepted: result.accepted.length,
+            duplicates: result.duplicates,
+            openedEvents: result.opened.map(toEventResponse),
+            closedEvents: result.closed.map(toEventResponse),
+            inspectionWindows: result.inspectionWindows.map(toWindowResponse),
+        }, 201);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 400);
+    }
+});
+
+gaugesRoutes.openapi(listReadingsRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const { since, deviceId } = c.req.valid('query');
+
+    const readings = await createGaugeReadingRepository().findBySite(id, since ? new Date(since) : undefined);
+
+    return c.json({
+        readings: readings
+            .filter(r => !deviceId || r.deviceId === deviceId)
+            .map(toReadingResponse),
+    }, 200);
+});
+
+gaugesRoutes.openapi(listRainfallEventsRoute, async (c) => {
+    const { id } = c.req.valid('param');
+
+    const events = await createRainfallEventRepository().findBySite(id);
+
+    return c.json({ events: events.map(toEventResponse) }, 200);
+});
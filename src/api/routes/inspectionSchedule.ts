@@ -0,0 +1,127 @@
+/**
+ * Inspection Schedule Routes
+ *
+ * Routine and post-storm inspection tasks as JSON and as a subscribable iCalendar feed.
+ */
+
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { createSiteRegistryService, RegistryInspectionSiteAdapter } from '../../lib/site-registry';
+import { createInspectionScheduler, InspectionCalendarRenderer } from '../../lib/inspection-scheduler';
+import type { InspectionScheduler, InspectionTask } from '../../lib/inspection-scheduler';
+
+export const inspectionScheduleRoutes = new OpenAPIHono();
+
+const scheduleQuerySchema = z.object({
+    siteId: z.string().optional(),
+    inspectorId: z.string().optional().openapi({ description: 'Site contact id of the inspector' }),
+    days: z.coerce.number().int().min(1).max(366).optional().openapi({ description: 'Horizon, default 28 days' }),
+});
+
+const taskSchema = z.object({
+    id: z.string(),
+    type: z.enum(['routine', 'storm']),
+    siteId: z.string(),
+    siteName: z.string(),
+    timeZone: z.string(),
+    dueAt: z.string(),
+    overdue: z.boolean(),
+    assignee: z.object({
+        contactId: z.string(),
+        name: z.string(),
+    }).nullable(),
+    inspectionWindowId: z.string().nullable(),
+});
+
+const scheduleRoute = createRoute({
+    method: 'get',
+    path: '/inspection-schedule',
+    tags: ['Inspection Schedule'],
+    summary: 'Overdue and upcoming inspection tasks',
+    request: {
+        query: scheduleQuerySchema,
+    },
+    responses: {
+        200: {
+            description: 'Inspection tasks, earliest due first',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        from: z.string(),
+                        until: z.string(),
+                        tasks: z.array(taskSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const calendarRoute = createRoute({
+    method: 'get',
+    path: '/inspection-schedule.ics',
+    tags: ['Inspection Schedule'],
+    summary: 'Inspection tasks as an iCalendar feed to subscribe to',
+    request: {
+        query: scheduleQuerySchema,
+    },
+    responses: {
+        200: {
+            description: 'iCalendar feed',
+            content: {
+                'text/calendar': {
+                    schema: z.string(),
+                },
+            },
+        },
+    },
+});
+
+function createScheduler(): InspectionScheduler {
+    return createInspectionScheduler(new RegistryInspectionSiteAdapter(createSiteRegistryService()));
+}
+
+function toTaskResponse(task: InspectionTask, now: Date) {
+    return {
+        id: task.id,
+        type: task.type,
+        siteId: task.siteId,
+        siteName: task.siteName,
+        timeZone: task.timeZone,
+        dueAt: task.dueAt.toISOString(),
+        overdue: task.isOverdue(now),
+        assignee: task.assignee ? { contactId: task.assignee.contactId, name: task.assignee.name } : null,
+        inspectionWindowId: task.inspectionWindowId,
+    };
+}
+
+inspectionScheduleRoutes.openapi(scheduleRoute, async (c) => {
+    const query = c.req.valid('query');
+    const now = new Date();
+
+    const schedule = await createScheduler().getSchedule(query, now);
+
+    return c.json({
+        from: schedule.from.toISOString(),
+        until: schedule.until.toISOString(),
+        tasks: schedule.tasks.map(task => toTaskResponse(task, now)),
+    }, 200);
+});
+
+inspectionScheduleRoutes.openapi(calendarRoute, async (c) => {
+    const query = c.req.valid('query');
+    const now = new Date();
+
+    const schedule = await createScheduler().getSchedule(query, now);
+    const inspector = query.inspectorId
+        ? schedule.tasks.find(task => task.isAssignedTo(query.inspectorId ?? ''))?.assignee?.name
+        : undefined;
+    const calendar = new InspectionCalendarRenderer().render(schedule.tasks, {
+        name: inspector ? `ESCACS inspections: ${inspector}` : 'ESCACS inspections',
+        generatedAt: now,
+    });
+
+    return c.body(calendar, 200, {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="inspections.ics"',
+    });
+});
@@ -0,0 +1,365 @@
+/**
+ * Inspection Window Routes
+ *
+ * Post-storm inspection windows and the checklist submissions that close them.
+ */
+
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { createSiteRegistryService, RegistryAlertContactAdapter } from '../../lib/site-registry';
+import { createInspectionWindowService } from '../../lib/weather-engine';
+import { createChecklistRepository, InspectionChecklist } from '../../lib/checklist-engine';
+import type { AuditEntry, InspectionWindow, InspectionWindowService } from '../../lib/weather-engine';
+
+export const inspectionWindowsRoutes = new OpenAPIHono();
+
+const windowStatusSchema = z.enum(['open', 'overdue', 'completed']);
+
+const inspectionWindowSchema = z.object({
+    id: z.string(),
+    siteId: z.string(),
+    rainfallEventId: z.string(),
+    stormEndTime: z.string(),
+    deadlineTime: z.string(),
+    status: windowStatusSchema,
+    remainingHours: z.number(),
+    inspectionId: z.string().nullable(),
+    inspectionCompletedAt: z.string().nullable(),
+    overdueAlertedAt: z.string().nullable(),
+});
+
+const auditEntrySchema = z.object({
+    id: z.string(),
+    occurredAt: z.string(),
+    action: z.string(),
+    details: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()])),
+});
+
+const windowParamsSchema = z.object({
+    id: z.string(),
+});
+
+const listWindowsRoute = createRoute({
+    method: 'get',
+    path: '/inspection-windows',
+    tags: ['Inspection Windows'],
+    summary: 'List post-storm inspection windows',
+    request: {
+        query: z.object({
+            siteId: z.string().optional().openapi({ description: 'Without a site, open windows of all sites are listed' }),
+            status: windowStatusSchema.optional(),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Inspection windows',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        windows: z.array(inspectionWindowSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const sweepRoute = createRoute({
+    method: 'post',
+    path: '/inspection-windows/sweep',
+    tags: ['Inspection Windows'],
+    summary: 'Alert on windows that have become overdue (also runs with every monitoring run)',
+    responses: {
+        200: {
+            description: 'Newly overdue windows and the alerts sent',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        overdueWindows: z.array(inspectionWindowSchema),
+                        alertsSent: z.number(),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const getWindowRoute = createRoute({
+    method: 'get',
+    path: '/inspection-windows/{id}',
+    tags: ['Inspection Windows'],
+    summary: 'Get an inspection window with its audit trail',
+    request: {
+        params: windowParamsSchema,
+    },
+    responses: {
+        200: {
+            description: 'Inspection window',
+            content: {
+                'application/json': {
+                    schema: inspectionWindowSchema.extend({
+                        auditTrail: z.array(auditEntrySchema),
+                    }),
+                },
+            },
+        },
+        404: {
+            description: 'Inspection window not found',
+        },
+    },
+});
+
+const completeWindowRoute = createRoute({
+    method: 'post',
+    path: '/inspection-windows/{id}/complete',
+    tags: ['Inspection Windows'],
+    summary: 'Close an inspection window with an inspection record',
+    request: {
+        params: windowParamsSchema,
+        body: {
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        inspectionId: z.string().min(1),
+                        completedAt: z.string().datetime().optional(),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: 'Closed inspection window',
+            content: {
+                'application/json': {
+                    schema: inspectionWindowSchema,
+                },
+            },
+        },
+        404: {
+            description: 'Inspection window not found',
+        },
+        409: {
+            description: 'Inspection window already completed',
+        },
+    },
+});
+
+const checklistItemSchema = z.object({
+    id: z.string(),
+    category: z.enum(['erosion_control', 'sediment_control', 'pollution_prevention', 'administrative']),
+    question: z.string(),
+    response: z.enum(['compliant', 'non_compliant', 'not_applicable']),
+    comment: z.string().optional(),
+    photoIds: z.array(z.string()).default([]),
+});
+
+const checklistSchema = z.object({
+    id: z.string(),
+    siteId: z.string(),
+    inspectorId: z.string(),
+    status: z.string(),
+    scheduledAt: z.string(),
+    submittedAt: z.string().nullable(),
+    overallCompliance: z.boolean(),
+    items: z.array(checklistItemSchema),
+});
+
+const siteParamsSchema = z.object({
+    id: z.string(),
+});
+
+const submitChecklistRoute = createRoute({
+    method: 'post',
+    path: '/sites/{id}/checklists',
+    tags: ['Inspection Windows'],
+    summary: 'Submit an inspection checklist; closes open windows for storms that ended before it and records the site inspection',
+    request: {
+        params: siteParamsSchema,
+        body: {
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        inspectorId: z.string().min(1),
+                        scheduledAt: z.string().datetime().optional(),
+                        submittedAt: z.string().datetime().optional(),
+                        items: z.array(checklistItemSchema).min(1),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        201: {
+            description: 'Submitted checklist and the inspection windows it closed',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        checklist: checklistSchema,
+                        closedWindows: z.array(inspectionWindowSchema),
+                    }),
+                },
+            },
+        },
+        404: {
+            description: 'Site not found',
+        },
+    },
+});
+
+const listChecklistsRoute = createRoute({
+    method: 'get',
+    path: '/sites/{id}/checklists',
+    tags: ['Inspection Windows'],
+    summary: "List a site's checklists, newest first",
+    request: {
+        params: siteParamsSchema,
+    },
+    responses: {
+        200: {
+            description: 'Checklists',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        checklists: z.array(checklistSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+function createWindowService(): InspectionWindowService {
+    return createInspectionWindowService(new RegistryAlertContactAdapter(createSiteRegistryService()));
+}
+
+function toWindowResponse(window: InspectionWindow, now: Date = new Date()) {
+    return {
+        id: window.id,
+        siteId: window.siteId,
+        rainfallEventId: window.rainfallEventId,
+        stormEndTime: window.stormEndTime.toISOString(),
+        deadlineTime: window.deadlineTime.toISOString(),
+        status: window.getStatus(now),
+        remainingHours: window.isCompleted() ? 0 : Math.round(window.getRemainingHours(now) * 10) / 10,
+        inspectionId: window.inspectionId,
+        inspectionCompletedAt: window.inspectionCompletedAt?.toISOString() ?? null,
+        overdueAlertedAt: window.overdueAlertedAt?.toISOString() ?? null,
+    };
+}
+
+function toChecklistResponse(checklist: InspectionChecklist) {
+    const props = checklist.toProps();
+    return {
+        id: props.id,
+        siteId: props.siteId,
+        inspectorId: props.inspectorId,
+        status: props.status,
+        scheduledAt: props.scheduledAt.toISOString(),
+        submittedAt: props.submittedAt?.toISOString() ?? null,
+        overallCompliance: props.overallCompliance,
+        items: props.items,
+    };
+}
+
+function toAuditResponse(entry: AuditEntry) {
+    return {
+        id: entry.id,
+        occurredAt: entry.occurredAt.toISOString(),
+        action: entry.action,
+        details: entry.details,
+    };
+}
+
+inspectionWindowsRoutes.openapi(listWindowsRoute, async (c) => {
+    const { siteId, status } = c.req.valid('query');
+    const now = new Date();
+
+    const windows = await createWindowService().listWindows(siteId, status, now);
+
+    return c.json({ windows: windows.map(w => toWindowResponse(w, now)) }, 200);
+});
+
+inspectionWindowsRoutes.openapi(sweepRoute, async (c) => {
+    const now = new Date();
+    const result = await createWindowService().sweepOverdue(now);
+
+    return c.json({
+        overdueWindows: result.overdueWindows.map(w => toWindowResponse(w, now)),
+        alertsSent: result.alerts.length,
+    }, 200);
+});
+
+inspectionWindowsRoutes.openapi(getWindowRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const service = createWindowService();
+
+    const window = await service.getWindow(id);
+    if (!window) {
+        return c.json({ error: 'Inspection window not found' }, 404);
+    }
+
+    const auditTrail = await service.getAuditTrail(id);
+    return c.json({ ...toWindowResponse(window), auditTrail: auditTrail.map(toAuditResponse) }, 200);
+});
+
+inspectionWindowsRoutes.openapi(completeWindowRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    let window: InspectionWindow | null;
+    try {
+        window = await createWindowService().completeWindow(
+            id,
+            body.inspectionId,
+            body.completedAt ? new Date(body.completedAt) : new Date()
+        );
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 409);
+    }
+
+    if (!window) {
+        return c.json({ error: 'Inspection window not found' }, 404);
+    }
+    return c.json(toWindowResponse(window), 200);
+});
+
+inspectionWindowsRoutes.openapi(submitChecklistRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const body = c.req.valid('json');
+
+    const registry = createSiteRegistryService();
+    const site = await registry.getSite(id);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    const submittedAt = body.submittedAt ? new Date(body.submittedAt) : new Date();
+    const checklist = InspectionChecklist.create({
+        id: crypto.randomUUID(),
+        siteId: site.id,
+        inspectorId: body.inspectorId,
+        scheduledAt: body.scheduledAt ? new Date(body.scheduledAt) : submittedAt,
+        items: body.items,
+    });
+    checklist.submit(submittedAt);
+    await createChecklistRepository().save(checklist);
+
+    const closed = await createWindowService().recordInspection(site.id, checklist.id, submittedAt);
+    // Restarts the routine inspection cycle unless a later inspection is already on record
+    if (!site.lastInspectionAt || site.lastInspectionAt < submittedAt) {
+        await registry.updateSite(site.id, { lastInspectionAt: submittedAt });
+    }
+
+    return c.json({
+        checklist: toChecklistResponse(checklist),
+        closedWindows: closed.map(w => toWindowResponse(w)),
+    }, 201);
+});
+
+inspectionWindowsRoutes.openapi(listChecklistsRoute, async (c) => {
+    const { id } = c.req.valid('param');
+
+    const checklists = await createChecklistRepository().findBySite(id);
+
+    return c.json({ checklists: checklists.map(toChecklistResponse) }, 200);
+});
@@ -3,7 +3,12 @@
  */
 
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
-import { createDefectDetectionService, InspectionPhoto } from '../../lib/photo-inspection';
+import {
+    createDefectDetectionService,
+    createInspectionRepository,
+    InspectionPhoto
+} from '../../lib/photo-inspection';
+import type { AnalysisResult } from '../../lib/photo-inspection';
 import { Buffer } from 'node:buffer';
 
 export const inspectionsRoutes = new OpenAPIHono();
@@ -31,6 +36,18 @@ const analysisResultSchema = z.object({
     processingTimeMs: z.number(),
 });
 
+const inspectionRecordSchema = analysisResultSchema.extend({
+    siteId: z.string(),
+    inspectorId: z.string(),
+    capturedAt: z.string(),
+    analyzedAt: z.string().nullable(),
+    gpsCoordinates: z.object({
+        latitude: z.number(),
+        longitude: z.number(),
+        accuracy: z.number(),
+    }).nullable(),
+});
+
 const analyzeRoute = createRoute({
     method: 'post',
     path: '/inspections/analyze',
@@ -78,7 +95,7 @@ const getInspectionRoute = createRoute({
             description: 'Inspection result',
             content: {
                 'application/json': {
-                    schema: analysisResultSchema,
+                    schema: inspectionRecordSchema,
                 },
             },
         },
@@ -88,8 +105,69 @@ const getInspectionRoute = createRoute({
     },
 });
 
-// In-memory store for demo
-const inspectionResults = new Map<string, object>();
+const listInspectionsRoute = createRoute({
+    method: 'get',
+    path: '/inspections',
+    tags: ['Inspections'],
+    summary: 'List stored inspection results',
+    request: {
+        query: z.object({
+            siteId: z.string().optional(),
+            inspectorId: z.string().optional(),
+            from: z.string().datetime().optional(),
+            to: z.string().datetime().optional(),
+            compliant: z.enum(['true', 'false']).optional(),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Inspection results, newest first',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        inspections: z.array(inspectionRecordSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+function toAnalysisResponse(result: AnalysisResult) {
+    return {
+        photoId: result.photo.id,
+        defects: result.defects.map(d => ({
+            id: d.id,
+            defectClass: d.defectClass,
+            confidence: d.confidence,
+            severity: d.severity,
+            boundingBox: d.boundingBox,
+            recommendedAction: d.recommendedAction,
+        })),
+        isCompliant: result.isCompliant,
+        requiresManualReview: result.requiresManualReview,
+        reviewReason: result.reviewReason,
+        processingTimeMs: result.processingTimeMs,
+    };
+}
+
+function toInspectionRecordResponse(result: AnalysisResult) {
+    const { photo } = result;
+    return {
+        ...toAnalysisResponse(result),
+        siteId: photo.siteId,
+        inspectorId: photo.inspectorId,
+        capturedAt: photo.capturedAt.toISOString(),
+        analyzedAt: photo.analyzedAt?.toISOString() ?? null,
+        gpsCoordinates: photo.gpsCoordinates
+            ? {
+                latitude: photo.gpsCoordinates.latitude,
+                longitude: photo.gpsCoordinates.longitude,
+                accuracy: photo.gpsCoordinates.accuracy,
+            }
+            : null,
+    };
+}
 
 inspectionsRoutes.openapi(analyzeRoute, async (c) => {
     const body = c.req.valid('json');
@@ -114,34 +192,32 @@ inspectionsRoutes.openapi(analyzeRoute, async (c) => {
 
     const result = await service.analyzePhoto(photo, imageData);
 
-    const response = {
-        photoId: result.photo.id,
-        defects: result.defects.map(d => ({
-            id: d.id,
-            defectClass: d.defectClass,
-            confidence: d.confidence,
-            severity: d.severity,
-            boundingBox: d.boundingBox,
-            recommendedAction: d.recommendedAction,
-        })),
-        isCompliant: result.isCompliant,
-        requiresManualReview: result.requiresManualReview,
-        reviewReason: result.reviewReason,
-        processingTimeMs: result.processingTimeMs,
-    };
+    await createInspectionRepository().save(result);
+
+    return c.json(toAnalysisResponse(result));
+});
+
+inspectionsRoutes.openapi(listInspectionsRoute, async (c) => {
+    const query = c.req.valid('query');
 
-    inspectionResults.set(result.photo.id, response);
+    const results = await createInspectionRepository().find({
+        siteId: query.siteId,
+        inspectorId: query.inspectorId,
+        capturedFrom: query.from ? new Date(query.from) : undefined,
+        capturedTo: query.to ? new Date(query.to) : undefined,
+        isCompliant: query.compliant === undefined ? undefined : query.compliant === 'true',
+    });
 
-    return c.json(response);
+    return c.json({ inspections: results.map(toInspectionRecordResponse) });
 });
 
 inspectionsRoutes.openapi(getInspectionRoute, async (c) => {
     const { id } = c.req.valid('param');
 
-    const result = inspectionResults.get(id);
+    const result = await createInspectionRepository().findById(id);
     if (!result) {
         return c.json({ error: 'Inspection not found' }, 404);
     }
 
-    return c.json(result);
+    return c.json(toInspectionRecordResponse(result), 200);
 });
@@ -0,0 +1,65 @@
+/**
+ * Monitoring Routes
+ */
+
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { createMonitoringRunRepository } from '../../lib/weather-engine';
+
+export const monitoringRoutes = new OpenAPIHono();
+
+const monitoringRunSchema = z.object({
+    id: z.string(),
+    startedAt: z.string(),
+    completedAt: z.string().nullable(),
+    durationMs: z.number().nullable(),
+    sitesEvaluated: z.number(),
+    alertsProduced: z.number(),
+    outcomes: z.array(z.object({
+        siteId: z.string(),
+        alertsProduced: z.number(),
+        error: z.string().optional(),
+        warning: z.string().optional(),
+    })),
+});
+
+const listRunsRoute = createRoute({
+    method: 'get',
+    path: '/monitoring/runs',
+    tags: ['Monitoring'],
+    summary: 'List recent weather monitoring runs',
+    request: {
+        query: z.object({
+            limit: z.string().optional().default('50').transform(Number),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Monitoring runs, most recent first',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        runs: z.array(monitoringRunSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+monitoringRoutes.openapi(listRunsRoute, async (c) => {
+    const { limit } = c.req.valid('query');
+
+    const runs = await createMonitoringRunRepository().findRecent(limit);
+
+    return c.json({
+        runs: runs.map(run => ({
+            id: run.id,
+            startedAt: run.startedAt.toISOString(),
+            completedAt: run.completedAt?.toISOString() ?? null,
+            durationMs: run.getDurationMs(),
+            sitesEvaluated: run.getSitesEvaluated(),
+            alertsProduced: run.getAlertsProduced(),
+            outcomes: run.outcomes,
+        })),
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Web Push Routes
+ */
+
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { createPushSubscriptionRepository } from '../../lib/weather-engine';
+import process from 'node:process';
+
+export const pushRoutes = new OpenAPIHono();
+
+const subscriptionSchema = z.object({
+    endpoint: z.string().url(),
+    keys: z.object({
+        p256dh: z.string().min(1),
+        auth: z.string().min(1),
+    }),
+});
+
+const vapidKeyRoute = createRoute({
+    method: 'get',
+    path: '/push/vapid-public-key',
+    tags: ['Push'],
+    summary: 'Get the VAPID public key browsers subscribe with',
+    responses: {
+        200: {
+            description: 'VAPID application server key',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        publicKey: z.string(),
+                    }),
+                },
+            },
+        },
+        503: {
+            description: 'Web Push is not configured',
+        },
+    },
+});
+
+const registerSubscriptionRoute = createRoute({
+    method: 'post',
+    path: '/push/subscriptions',
+    tags: ['Push'],
+    summary: 'Register a browser push subscription for an alert recipient',
+    request: {
+        body: {
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        recipient: z.string().min(1),
+                        subscription: subscriptionSchema,
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        201: {
+            description: 'Subscription registered',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        recipient: z.string(),
+                        endpoint: z.string(),
+                        createdAt: z.string(),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const removeSubscriptionRoute = createRoute({
+    method: 'delete',
+    path: '/push/subscriptions',
+    tags: ['Push'],
+    summary: 'Remove a browser push subscription',
+    request: {
+        body: {
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        endpoint: z.string().url(),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        204: {
+            description: 'Subscription removed',
+        },
+    },
+});
+
+pushRoutes.openapi(vapidKeyRoute, (c) => {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    if (!publicKey) {
+        return c.json({ error: 'Web Push is not configured' }, 503);
+    }
+
+    return c.json({ publicKey }, 200);
+});
+
+pushRoutes.openapi(registerSubscriptionRoute, async (c) => {
+    const { recipient, subscription } = c.req.valid('json');
+    const createdAt = new Date();
+
+    await createPushSubscriptionRepository().save({ recipient, ...subscription, createdAt });
+
+    return c.json({ recipient, endpoint: subscription.endpoint, createdAt: createdAt.toISOString() }, 201);
+});
+
+pushRoutes.openapi(removeSubscriptionRoute, async (c) => {
+    const { endpoint } = c.req.valid('json');
+
+    await createPushSubscriptionRepository().delete(endpoint);
+
+    return c.body(null, 204);
+});
@@ -3,15 +3,67 @@
  */
 
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
-import { createRiskCalculationService, SiteCondition } from '../../lib/risk-engine';
+import {
+    createPortfolioRiskService,
+    createRiskCalculationService,
+    createRiskHistoryService,
+    createRiskModelRegistry,
+    createRiskSimulationService,
+    createRiskTimelineService,
+    SiteCondition,
+} from '../../lib/risk-engine';
+import type {
+    HourlyRainfall,
+    PortfolioRisk,
+    RiskModel,
+    RiskScore,
+    RiskScoreChange,
+    RiskSimulation,
+    RiskTimeline,
+    RiskTimelinePoint,
+    WeatherInput,
+} from '../../lib/risk-engine';
+import { createSiteRegistryService, RegistryPortfolioSiteAdapter } from '../../lib/site-registry';
+import type { SiteConditionOverrides } from '../../lib/site-registry';
+import {
+    createGaugeReadingRepository,
+    createInspectionWindowRepository,
+    createWeatherDataPort,
+} from '../../lib/weather-engine';
 
 export const riskRoutes = new OpenAPIHono();
 
+const phaseSchema = z.enum(['clearing', 'grading', 'paving', 'stabilization', 'completed']);
+const levelSchema = z.enum(['low', 'moderate', 'high', 'critical']);
+const soilTypeSchema = z.enum(['sandy', 'loam', 'clay', 'rocky']);
+const soilTextureSchema = z.enum([
+    'sand', 'loamy_sand', 'sandy_loam', 'loam', 'silt_loam', 'silt',
+    'sandy_clay_loam', 'clay_loam', 'silty_clay_loam', 'sandy_clay', 'silty_clay', 'clay',
+]);
+
+const riskModelRefSchema = z.object({
+    id: z.string(),
+    version: z.number().int().positive(),
+});
+
+const riskInputsSchema = z.object({
+    slopePercent: z.number(),
+    soilType: soilTypeSchema,
+    phase: phaseSchema,
+    acreage: z.number(),
+    daysSinceLastInspection: z.number(),
+    historicalNOVCount: z.number(),
+    precipitationInches: z.number().openapi({ description: "Forecast precipitation for the score's horizon" }),
+    soilLossTonsPerAcre: z.number().openapi({ description: "RUSLE soil loss estimate for the horizon's rain" }),
+    poorBmpCount: z.number().int().nonnegative(),
+    staleBmpCount: z.number().int().nonnegative().openapi({ description: 'BMPs not inspected since the last storm' }),
+});
+
 const riskScoreSchema = z.object({
     id: z.string(),
     siteId: z.string(),
     score: z.number(),
-    level: z.enum(['low', 'moderate', 'high', 'critical']),
+    level: levelSchema,
     factors: z.array(z.object({
         name: z.string(),
         contribution: z.number(),
@@ -23,10 +75,83 @@ const riskScoreSchema = z.object({
         estimatedTimeHours: z.number(),
     })),
     horizonHours: z.number(),
+    model: riskModelRefSchema.openapi({ description: 'Risk model version that produced the score' }),
+    weatherSource: z.enum(['provider_forecast', 'supplied']).nullable().openapi({
+        description: 'Where the forecast rain came from; null when scored from recorded inputs or hourly rain',
+    }),
+    inputs: riskInputsSchema,
     calculatedAt: z.string(),
     expiresAt: z.string(),
 });
 
+const riskModelSchema = z.object({
+    id: z.string(),
+    version: z.number(),
+    name: z.string(),
+    description: z.string().optional(),
+    appliesTo: z.object({
+        organizations: z.array(z.string()).optional(),
+        jurisdictions: z.array(z.string()).optional(),
+    }).optional(),
+    factors: z.array(z.object({
+        name: z.string(),
+        input: z.string(),
+        curve: z.record(z.string(), z.unknown()),
+        weight: z.number(),
+        cap: z.number().optional(),
+        reportAbove: z.number().optional(),
+        namesAbove: z.array(z.object({ above: z.number(), name: z.string() })).optional(),
+        description: z.string(),
+    })),
+    levels: z.object({
+        moderate: z.number(),
+        high: z.number(),
+        critical: z.number(),
+    }),
+});
+
+// Site fields are optional for registered sites; provided values override stored ones
+const siteFieldsInputSchema = z.object({
+    siteId: z.string(),
+    phase: phaseSchema.optional(),
+    slopePercent: z.number().optional(),
+    soilType: soilTypeSchema.optional(),
+    soilTexture: soilTextureSchema.optional(),
+    slopeLengthFeet: z.number().positive().optional(),
+    acreage: z.number().optional(),
+    daysSinceLastInspection: z.number().optional(),
+    historicalNOVCount: z.number().optional(),
+});
+
+const weatherInputSchema = z.object({
+    precipitationInchesNext24h: z.number(),
+    precipitationInchesNext48h: z.number(),
+    precipitationInchesNext72h: z.number(),
+});
+
+const siteInputSchema = siteFieldsInputSchema.extend({
+    weather: weatherInputSchema,
+});
+
+const scoringInputSchema = siteFieldsInputSchema.extend({
+    weather: weatherInputSchema.optional().openapi({
+        description: 'Forecast rain totals; registered sites default to the weather provider forecast. '
+            + 'Scores are recorded in the history only without weather or site field overrides.',
+    }),
+});
+
+const scoringErrorResponses = {
+    400: {
+        description: 'Weather missing for an unregistered site',
+    },
+    404: {
+        description: 'Site not registered and site fields missing',
+    },
+    503: {
+        description: 'Weather provider unavailable',
+    },
+};
+
 const calculateRiskRoute = createRoute({
     method: 'post',
     path: '/risk/calculate',
@@ -36,19 +161,7 @@ const calculateRiskRoute = createRoute({
         body: {
             content: {
                 'application/json': {
-                    schema: z.object({
-                        siteId: z.string(),
-                        phase: z.enum(['clearing', 'grading', 'paving', 'stabilization', 'completed']),
-                        slopePercent: z.number(),
-                        soilType: z.enum(['sandy', 'loam', 'clay', 'rocky']),
-                        acreage: z.number(),
-                        daysSinceLastInspection: z.number(),
-                        historicalNOVCount: z.number().optional().default(0),
-                        weather: z.object({
-                            precipitationInchesNext24h: z.number(),
-                            precipitationInchesNext48h: z.number(),
-                            precipitationInchesNext72h: z.number(),
-                        }),
+                    schema: scoringInputSchema.extend({
                         horizonHours: z.enum(['24', '48', '72']).optional().default('48'),
                     }),
                 },
@@ -64,6 +177,7 @@ const calculateRiskRoute = createRoute({
                 },
             },
         },
+        ...scoringErrorResponses,
     },
 });
 
@@ -74,20 +188,53 @@ const getForecastRoute = createRoute({
     summary: 'Get 72-hour risk forecast',
     request: {
         body: {
+            content: {
+                'application/json': {
+                    schema: scoringInputSchema,
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: 'Risk forecast for 24/48/72 hour horizons',
             content: {
                 'application/json': {
                     schema: z.object({
-                        siteId: z.string(),
-                        phase: z.enum(['clearing', 'grading', 'paving', 'stabilization', 'completed']),
-                        slopePercent: z.number(),
-                        soilType: z.enum(['sandy', 'loam', 'clay', 'rocky']),
-                        acreage: z.number(),
-                        daysSinceLastInspection: z.number(),
-                        historicalNOVCount: z.number().optional().default(0),
-                        weather: z.object({
-                            precipitationInchesNext24h: z.number(),
-                            precipitationInchesNext48h: z.number(),
-                            precipitationInchesNext72h: z.number(),
+                        forecasts: z.array(riskScoreSchema),
+                    }),
+                },
+            },
+        },
+        ...scoringErrorResponses,
+    },
+});
+
+const timelinePointSchema = z.object({
+    timestamp: z.string(),
+    precipitationInches: z.number(),
+    antecedentRainInches: z.number().openapi({ description: 'Earlier rain still held in the soil' }),
+    effectiveRainInches: z.number().openapi({ description: 'Antecedent rain plus the hour\'s rain weighted by intensity' }),
+    score: z.number(),
+    level: levelSchema,
+});
+
+const timelineRoute = createRoute({
+    method: 'post',
+    path: '/risk/timeline',
+    tags: ['Risk'],
+    summary: 'Hour-by-hour risk over the forecast with the peak hour and the latest safe time to finish preventive work',
+    request: {
+        body: {
+            content: {
+                'application/json': {
+                    schema: siteFieldsInputSchema.extend({
+                        hoursAhead: z.number().int().min(1).max(168).optional().default(72),
+                        forecasts: z.array(z.object({
+                            timestamp: z.string().datetime({ offset: true }),
+                            precipitationInchesPerHour: z.number().nonnegative(),
+                        })).min(1).optional().openapi({
+                            description: 'Hourly forecast; fetched for the site location when omitted',
                         }),
                     }),
                 },
@@ -96,40 +243,436 @@ const getForecastRoute = createRoute({
     },
     responses: {
         200: {
-            description: 'Risk forecast for 24/48/72 hour horizons',
+            description: 'Risk timeline',
             content: {
                 'application/json': {
                     schema: z.object({
-                        forecasts: z.array(riskScoreSchema),
+                        siteId: z.string(),
+                        model: riskModelRefSchema,
+                        points: z.array(timelinePointSchema),
+                        peak: timelinePointSchema,
+                        peakScore: riskScoreSchema,
+                        latestSafeFinishAt: z.string().nullable(),
+                        startWorkBy: z.string().nullable(),
                     }),
                 },
             },
         },
+        400: {
+            description: 'No forecast given for an unregistered site',
+        },
+        404: {
+            description: 'Site not registered and site fields missing',
+        },
+        503: {
+            description: 'Forecast unavailable',
+        },
     },
 });
 
-riskRoutes.openapi(calculateRiskRoute, async (c) => {
-    const body = c.req.valid('json');
-    const service = createRiskCalculationService();
+const horizonQuerySchema = z.enum(['24', '48', '72']).optional().openapi({ description: 'Default all horizons' });
+
+const historyRoute = createRoute({
+    method: 'get',
+    path: '/risk/history/{siteId}',
+    tags: ['Risk'],
+    summary: 'Risk score history of a site as a time series with its trend',
+    request: {
+        params: z.object({
+            siteId: z.string(),
+        }),
+        query: z.object({
+            since: z.string().datetime({ offset: true }).optional(),
+            until: z.string().datetime({ offset: true }).optional(),
+            horizonHours: horizonQuerySchema,
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Score history, oldest first',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        siteId: z.string(),
+                        trend: z.object({
+                            direction: z.enum(['rising', 'falling', 'steady']),
+                            change: z.number(),
+                            minScore: z.number(),
+                            maxScore: z.number(),
+                        }).nullable(),
+                        points: z.array(z.object({
+                            id: z.string(),
+                            calculatedAt: z.string(),
+                            score: z.number(),
+                            level: levelSchema,
+                            horizonHours: z.number(),
+                            model: riskModelRefSchema,
+                        })),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const historyDiffRoute = createRoute({
+    method: 'get',
+    path: '/risk/history/{siteId}/diff',
+    tags: ['Risk'],
+    summary: 'Explain why the risk score moved between two calculations',
+    request: {
+        params: z.object({
+            siteId: z.string(),
+        }),
+        query: z.object({
+            from: z.string().optional().openapi({ description: 'Score id; default the latest score a week before `to`' }),
+            to: z.string().optional().openapi({ description: 'Score id; default the latest score' }),
+            horizonHours: horizonQuerySchema,
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Score change with the factor and input changes behind it',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        siteId: z.string(),
+                        from: riskScoreSchema,
+                        to: riskScoreSchema,
+                        scoreChange: z.number(),
+                        levelChange: z.object({ before: levelSchema, after: levelSchema }).nullable(),
+                        modelChange: z.object({ before: riskModelRefSchema, after: riskModelRefSchema }).nullable(),
+                        factorChanges: z.array(z.object({
+                            name: z.string(),
+                            before: z.number(),
+                            after: z.number(),
+                            change: z.number(),
+                            description: z.string(),
+                        })),
+                        inputChanges: z.array(z.object({
+                            input: z.string(),
+                            before: z.union([z.number(), z.string()]),
+                            after: z.union([z.number(), z.string()]),
+                        })),
+                        unlistedChange: z.number().openapi({ description: 'Change from factors below their reporting threshold' }),
+                    }),
+                },
+            },
+        },
+        404: {
+            description: 'Fewer than two scores or unknown score id',
+        },
+    },
+});
+
+const portfolioGroupSchema = z.object({
+    key: z.string().openapi({ description: "'unassigned' for sites without one" }),
+    siteCount: z.number(),
+    averageScore: z.number(),
+    maxScore: z.number(),
+    levels: z.object({
+        low: z.number(),
+        moderate: z.number(),
+        high: z.number(),
+        critical: z.number(),
+    }),
+    crewHours: z.number(),
+});
+
+const portfolioRoute = createRoute({
+    method: 'get',
+    path: '/risk/portfolio',
+    tags: ['Risk'],
+    summary: 'Rank all active sites by risk with aggregates and the combined preventive actions',
+    request: {
+        query: z.object({
+            horizonHours: z.enum(['24', '48', '72']).optional().default('48'),
+            region: z.string().optional(),
+            contractor: z.string().optional(),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Portfolio risk, highest risk first',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        generatedAt: z.string(),
+                        horizonHours: z.number(),
+                        sites: z.array(z.object({
+                            rank: z.number(),
+                            siteId: z.string(),
+                            name: z.string(),
+                            region: z.string().nullable(),
+                            contractor: z.string().nullable(),
+                            reused: z.boolean().openapi({ description: 'Unexpired score reused from the history' }),
+                            riskScore: riskScoreSchema,
+                        })),
+                        byRegion: z.array(portfolioGroupSchema),
+                        byContractor: z.array(portfolioGroupSchema),
+                        byPhase: z.array(portfolioGroupSchema),
+                        actions: z.array(z.object({
+                            siteId: z.string(),
+                            siteName: z.string(),
+                            siteRank: z.number(),
+                            action: z.string(),
+                            priority: z.number(),
+                            estimatedTimeHours: z.number(),
+                        })),
+                        totalCrewHours: z.number(),
+                        unavailable: z.array(z.object({
+                            siteId: z.string(),
+                            name: z.string(),
+                            error: z.string(),
+                        })),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const interventionSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('stabilize') }).openapi({ description: 'Cover disturbed ground (stabilization phase)' }),
+    z.object({ type: z.literal('inspect') }).openapi({ description: 'Inspect the site and every BMP today' }),
+    z.object({ type: z.literal('replace_poor_bmps') }),
+    z.object({
+        type: z.literal('install_bmp'),
+        bmpType: z.string().min(1),
+        count: z.number().int().positive(),
+        location: z.string().optional(),
+    }),
+    z.object({ type: z.literal('regrade'), slopePercent: z.number().nonnegative() }),
+]);
+
+const preventiveActionSchema = z.object({
+    action: z.string(),
+    priority: z.number(),
+    estimatedTimeHours: z.number(),
+});
+
+const scenarioSchema = z.object({
+    interventions: z.array(z.number()).openapi({ description: 'Indexes into the interventions' }),
+    score: z.number(),
+    level: levelSchema,
+    scoreChange: z.number(),
+    crewHours: z.number(),
+});
+
+const simulateRoute = createRoute({
+    method: 'post',
+    path: '/risk/simulate',
+    tags: ['Risk'],
+    summary: 'Score every combination of hypothetical interventions and find the cheapest way below high risk',
+    request: {
+        body: {
+            content: {
+                'application/json': {
+                    schema: siteInputSchema.extend({
+                        horizonHours: z.enum(['24', '48', '72']).optional().default('48'),
+                        interventions: z.array(interventionSchema).min(1).max(8),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: 'Simulated scenarios',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        base: riskScoreSchema,
+                        interventions: z.array(z.object({
+                            index: z.number(),
+                            intervention: interventionSchema,
+                            actions: z.array(preventiveActionSchema),
+                            crewHours: z.number(),
+                        })),
+                        scenarios: z.array(scenarioSchema),
+                        cheapestBelowHigh: scenarioSchema.extend({
+                            actions: z.array(preventiveActionSchema),
+                        }).nullable().openapi({ description: 'Fewest crew-hours below high; null when no combination gets there' }),
+                    }),
+                },
+            },
+        },
+        404: {
+            description: 'Site not registered and site fields missing',
+        },
+    },
+});
+
+const listModelsRoute = createRoute({
+    method: 'get',
+    path: '/risk/models',
+    tags: ['Risk'],
+    summary: 'List risk models (latest version of each)',
+    responses: {
+        200: {
+            description: 'Risk models',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        models: z.array(riskModelSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const getModelRoute = createRoute({
+    method: 'get',
+    path: '/risk/models/{id}',
+    tags: ['Risk'],
+    summary: 'Get a risk model version with the list of published versions',
+    request: {
+        params: z.object({
+            id: z.string(),
+        }),
+        query: z.object({
+            version: z.coerce.number().int().positive().optional().openapi({ description: 'Default latest' }),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Risk model definition',
+            content: {
+                'application/json': {
+                    schema: riskModelSchema.extend({
+                        versions: z.array(z.number()),
+                    }),
+                },
+            },
+        },
+        404: {
+            description: 'Risk model or version not found',
+        },
+    },
+});
+
+const reproduceRoute = createRoute({
+    method: 'post',
+    path: '/risk/reproduce',
+    tags: ['Risk'],
+    summary: 'Recalculate a recorded score from its model version and inputs',
+    request: {
+        body: {
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        siteId: z.string(),
+                        horizonHours: z.union([z.literal(24), z.literal(48), z.literal(72)]),
+                        model: riskModelRefSchema,
+                        inputs: riskInputsSchema,
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: 'Recalculated risk score',
+            content: {
+                'application/json': {
+                    schema: riskScoreSchema,
+                },
+            },
+        },
+        404: {
+            description: 'Risk model or version not found',
+        },
+    },
+});
+
+interface SiteRisk {
+    siteCondition: SiteCondition;
+    model: RiskModel;
+    location: { latitude: number; longitude: number } | null;
+}
+
+/**
+ * End of the site's most recent storm that opened an inspection window
+ */
+async function findLastStormEnd(siteId: string): Promise<Date | undefined> {
+    const windows = await createInspectionWindowRepository().findBySite(siteId);
+    return windows
+        .map(w => w.stormEndTime)
+        .reduce<Date | undefined>((latest, end) => (!latest || end > latest ? end : latest), undefined);
+}
+
+/**
+ * Build the SiteCondition from the registry, including its BMP inventory,
+ * falling back to inline fields scored with the default model
+ */
+async function resolveSiteRisk(
+    siteId: string,
+    overrides: SiteConditionOverrides
+): Promise<SiteRisk | null> {
+    const registry = createSiteRegistryService();
+
+    const site = await registry.getSite(siteId);
+    if (site) {
+        const lastStormEndedAt = await findLastStormEnd(site.id);
+        return {
+            siteCondition: registry.buildSiteCondition(site, { lastStormEndedAt, ...overrides }),
+            model: registry.getRiskModel(site),
+            location: site.location,
+        };
+    }
+
+    const { phase, slopePercent, soilType, acreage, daysSinceLastInspection } = overrides;
+    if (!phase || slopePercent === undefined || !soilType || acreage === undefined || daysSinceLastInspection === undefined) {
+        return null;
+    }
 
     const siteCondition = SiteCondition.create({
-        siteId: body.siteId,
-        phase: body.phase,
-        slopePercent: body.slopePercent,
-        soilType: body.soilType,
-        acreage: body.acreage,
-        daysSinceLastInspection: body.daysSinceLastInspection,
+        siteId,
+        phase,
+        slopePercent,
+        soilType,
+        soilTexture: overrides.soilTexture,
+        slopeLengthFeet: overrides.slopeLengthFeet,
+        acreage,
+        daysSinceLastInspection,
         bmpInventory: [],
-        historicalNOVCount: body.historicalNOVCount || 0,
+        historicalNOVCount: overrides.historicalNOVCount ?? 0,
         observedAt: new Date(),
     });
+    return { siteCondition, model: createRiskModelRegistry().getDefault(), location: null };
+}
 
-    const riskScore = service.calculateRisk(
-        { siteCondition, weather: body.weather },
-        parseInt(body.horizonHours, 10) as 24 | 48 | 72
+interface ScoringWeather {
+    weather: WeatherInput;
+    record: boolean;        // scored from the stored site against the provider forecast
+}
+
+/**
+ * Supplied weather, else the provider forecast for a registered site; null when neither is available
+ */
+async function resolveScoringWeather(
+    siteId: string,
+    siteRisk: SiteRisk,
+    weather: WeatherInput | undefined,
+    overrides: SiteConditionOverrides
+): Promise<ScoringWeather | null> {
+    if (weather) return { weather, record: false };
+    if (!siteRisk.location) return null;
+
+    const sites = new RegistryPortfolioSiteAdapter(
+        createSiteRegistryService(),
+        createWeatherDataPort(),
+        createInspectionWindowRepository()
     );
+    return {
+        weather: await sites.getWeather(siteId, new Date()),
+        record: Object.values(overrides).every(value => value === undefined),
+    };
+}
 
-    return c.json({
+function toRiskScoreResponse(riskScore: RiskScore) {
+    return {
         id: riskScore.id,
         siteId: riskScore.siteId,
         score: riskScore.score,
@@ -137,40 +680,265 @@ riskRoutes.openapi(calculateRiskRoute, async (c) => {
         factors: riskScore.factors,
         actions: riskScore.actions,
         horizonHours: riskScore.horizonHours,
+        model: riskScore.model,
+        inputs: riskScore.inputs,
+        weatherSource: riskScore.weatherSource,
         calculatedAt: riskScore.calculatedAt.toISOString(),
         expiresAt: riskScore.expiresAt.toISOString(),
-    });
+    };
+}
+
+riskRoutes.openapi(calculateRiskRoute, async (c) => {
+    const { siteId, weather, horizonHours, ...siteFields } = c.req.valid('json');
+    const service = createRiskCalculationService();
+
+    const siteRisk = await resolveSiteRisk(siteId, siteFields);
+    if (!siteRisk) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    let scoring: ScoringWeather | null;
+    try {
+        scoring = await resolveScoringWeather(siteId, siteRisk, weather, siteFields);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 503);
+    }
+    if (!scoring) {
+        return c.json({ error: 'Weather is required for unregistered sites' }, 400);
+    }
+
+    const riskScore = service.calculateRisk(
+        { siteCondition: siteRisk.siteCondition, weather: scoring.weather },
+        parseInt(horizonHours, 10) as 24 | 48 | 72,
+        siteRisk.model
+    );
+    if (scoring.record) {
+        await createRiskHistoryService().record([riskScore]);
+    }
+
+    return c.json(toRiskScoreResponse(riskScore), 200);
 });
 
 riskRoutes.openapi(getForecastRoute, async (c) => {
-    const body = c.req.valid('json');
+    const { siteId, weather, ...siteFields } = c.req.valid('json');
     const service = createRiskCalculationService();
 
-    const siteCondition = SiteCondition.create({
-        siteId: body.siteId,
-        phase: body.phase,
-        slopePercent: body.slopePercent,
-        soilType: body.soilType,
-        acreage: body.acreage,
-        daysSinceLastInspection: body.daysSinceLastInspection,
-        bmpInventory: [],
-        historicalNOVCount: body.historicalNOVCount || 0,
-        observedAt: new Date(),
-    });
+    const siteRisk = await resolveSiteRisk(siteId, siteFields);
+    if (!siteRisk) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    let scoring: ScoringWeather | null;
+    try {
+        scoring = await resolveScoringWeather(siteId, siteRisk, weather, siteFields);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 503);
+    }
+    if (!scoring) {
+        return c.json({ error: 'Weather is required for unregistered sites' }, 400);
+    }
 
-    const forecasts = service.calculateForecast({ siteCondition, weather: body.weather });
+    const forecasts = service.calculateForecast({ siteCondition: siteRisk.siteCondition, weather: scoring.weather }, siteRisk.model);
+    if (scoring.record) {
+        await createRiskHistoryService().record(forecasts);
+    }
 
     return c.json({
-        forecasts: forecasts.map(f => ({
-            id: f.id,
-            siteId: f.siteId,
-            score: f.score,
-            level: f.level,
-            factors: f.factors,
-            actions: f.actions,
-            horizonHours: f.horizonHours,
-            calculatedAt: f.calculatedAt.toISOString(),
-            expiresAt: f.expiresAt.toISOString(),
+        forecasts: forecasts.map(toRiskScoreResponse),
+    }, 200);
+});
+
+function toScoreChangeResponse(change: RiskScoreChange) {
+    return {
+        ...change,
+        from: toRiskScoreResponse(change.from),
+        to: toRiskScoreResponse(change.to),
+    };
+}
+
+function toPortfolioResponse(portfolio: PortfolioRisk) {
+    return {
+        ...portfolio,
+        generatedAt: portfolio.generatedAt.toISOString(),
+        sites: portfolio.sites.map(site => ({ ...site, riskScore: toRiskScoreResponse(site.riskScore) })),
+    };
+}
+
+function toSimulationResponse(simulation: RiskSimulation) {
+    return { ...simulation, base: toRiskScoreResponse(simulation.base) };
+}
+
+function parseHorizon(horizonHours: '24' | '48' | '72' | undefined): 24 | 48 | 72 | undefined {
+    return horizonHours ? parseInt(horizonHours, 10) as 24 | 48 | 72 : undefined;
+}
+
+function toTimelinePointResponse(point: RiskTimelinePoint) {
+    return { ...point, timestamp: point.timestamp.toISOString() };
+}
+
+function toTimelineResponse(timeline: RiskTimeline) {
+    return {
+        siteId: timeline.siteId,
+        model: timeline.model,
+        points: timeline.points.map(toTimelinePointResponse),
+        peak: toTimelinePointResponse(timeline.peak),
+        peakScore: toRiskScoreResponse(timeline.peakScore),
+        latestSafeFinishAt: timeline.latestSafeFinishAt?.toISOString() ?? null,
+        startWorkBy: timeline.startWorkBy?.toISOString() ?? null,
+    };
+}
+
+// Observed rain older than this is ignored by the timeline
+const ANTECEDENT_LOOKBACK_MS = 72 * 60 * 60 * 1000;
+
+riskRoutes.openapi(timelineRoute, async (c) => {
+    const { siteId, hoursAhead, forecasts: givenForecasts, ...siteFields } = c.req.valid('json');
+
+    const siteRisk = await resolveSiteRisk(siteId, siteFields);
+    if (!siteRisk) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    let forecasts: HourlyRainfall[];
+    if (givenForecasts) {
+        forecasts = givenForecasts.map(f => ({ ...f, timestamp: new Date(f.timestamp) }));
+    } else if (siteRisk.location) {
+        try {
+            const { latitude, longitude } = siteRisk.location;
+            forecasts = (await createWeatherDataPort().getHourlyForecast(latitude, longitude, hoursAhead)).forecasts;
+        } catch (error) {
+            return c.json({ error: (error as Error).message }, 503);
+        }
+    } else {
+        return c.json({ error: 'Forecasts are required for unregistered sites' }, 400);
+    }
+
+    const start = forecasts.reduce((earliest, f) => Math.min(earliest, f.timestamp.getTime()), Infinity);
+    const observedRainfall = await createGaugeReadingRepository()
+        .findBySite(siteId, new Date(start - ANTECEDENT_LOOKBACK_MS));
+
+    const timeline = createRiskTimelineService().calculateTimeline(
+        { siteCondition: siteRisk.siteCondition, forecasts: forecasts.slice(0, hoursAhead), observedRainfall },
+        siteRisk.model
+    );
+
+    return c.json(toTimelineResponse(timeline), 200);
+});
+
+riskRoutes.openapi(historyRoute, async (c) => {
+    const { siteId } = c.req.valid('param');
+    const { since, until, horizonHours } = c.req.valid('query');
+
+    const history = await createRiskHistoryService().getHistory(siteId, {
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined,
+        horizonHours: parseHorizon(horizonHours),
+    });
+
+    return c.json({
+        siteId: history.siteId,
+        trend: history.trend,
+        points: history.scores.map(s => ({
+            id: s.id,
+            calculatedAt: s.calculatedAt.toISOString(),
+            score: s.score,
+            level: s.level,
+            horizonHours: s.horizonHours,
+            model: s.model,
         })),
+    }, 200);
+});
+
+riskRoutes.openapi(historyDiffRoute, async (c) => {
+    const { siteId } = c.req.valid('param');
+    const { from, to, horizonHours } = c.req.valid('query');
+
+    let change: RiskScoreChange | null;
+    try {
+        change = await createRiskHistoryService().explainChange(siteId, {
+            fromId: from,
+            toId: to,
+            horizonHours: parseHorizon(horizonHours),
+        });
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 404);
+    }
+    if (!change) {
+        return c.json({ error: 'Not enough risk scores to compare' }, 404);
+    }
+
+    return c.json(toScoreChangeResponse(change), 200);
+});
+
+riskRoutes.openapi(portfolioRoute, async (c) => {
+    const { horizonHours, region, contractor } = c.req.valid('query');
+    const sites = new RegistryPortfolioSiteAdapter(
+        createSiteRegistryService(),
+        createWeatherDataPort(),
+        createInspectionWindowRepository()
+    );
+
+    const portfolio = await createPortfolioRiskService(sites).rankPortfolio({
+        horizonHours: parseHorizon(horizonHours),
+        region,
+        contractor,
     });
+
+    return c.json(toPortfolioResponse(portfolio), 200);
+});
+
+riskRoutes.openapi(simulateRoute, async (c) => {
+    const { siteId, weather, horizonHours, interventions, ...siteFields } = c.req.valid('json');
+
+    const siteRisk = await resolveSiteRisk(siteId, siteFields);
+    if (!siteRisk) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    const simulation = createRiskSimulationService().simulate(
+        { siteCondition: siteRisk.siteCondition, weather, interventions },
+        parseInt(horizonHours, 10) as 24 | 48 | 72,
+        siteRisk.model
+    );
+
+    return c.json(toSimulationResponse(simulation), 200);
+});
+
+riskRoutes.openapi(listModelsRoute, (c) => {
+    const models = createRiskModelRegistry().list();
+
+    return c.json({ models: models.map(m => m.toDefinition()) }, 200);
+});
+
+riskRoutes.openapi(getModelRoute, (c) => {
+    const { id } = c.req.valid('param');
+    const { version } = c.req.valid('query');
+    const registry = createRiskModelRegistry();
+
+    let model: RiskModel;
+    try {
+        model = registry.resolve(id, version);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 404);
+    }
+
+    return c.json({
+        ...model.toDefinition(),
+        versions: registry.getVersions(id).map(v => v.version),
+    }, 200);
+});
+
+riskRoutes.openapi(reproduceRoute, (c) => {
+    const { siteId, horizonHours, model: ref, inputs } = c.req.valid('json');
+
+    let model: RiskModel;
+    try {
+        model = createRiskModelRegistry().resolve(ref.id, ref.version);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 404);
+    }
+
+    const riskScore = createRiskCalculationService().calculateFromInputs(siteId, inputs, horizonHours, model);
+
+    return c.json(toRiskScoreResponse(riskScore), 200);
 });
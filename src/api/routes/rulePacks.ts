@@ -0,0 +1,240 @@
+/**
+ * Jurisdiction Rule Pack Routes
+ */
+
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { createRulePackRegistry } from '../../lib/jurisdiction-rules';
+import type { JurisdictionRulePack, SiteRuleConditions } from '../../lib/jurisdiction-rules';
+import { createSiteRegistryService } from '../../lib/site-registry';
+
+export const rulePacksRoutes = new OpenAPIHono();
+
+const routineRuleSchema = z.object({
+    every: z.number(),
+    unit: z.enum(['calendar_days', 'business_days']),
+});
+
+const deadlineRuleSchema = z.union([
+    z.object({ type: z.literal('hours'), hours: z.number(), rollToBusinessDay: z.boolean().optional() }),
+    z.object({ type: z.literal('business_days'), businessDays: z.number() }),
+]);
+
+const rulePackSchema = z.object({
+    id: z.string(),
+    version: z.string(),
+    name: z.string(),
+    authority: z.string(),
+    citation: z.string().optional(),
+    routine: routineRuleSchema,
+    stormInspection: z.object({
+        qualifyingRainfallInches: z.number(),
+        deadline: deadlineRuleSchema,
+    }).nullable(),
+    holidayCalendar: z.string(),
+    businessHours: z.object({ start: z.string(), end: z.string() }).optional(),
+    winterExemption: z.object({
+        from: z.string(),
+        to: z.string(),
+        requiresFrozenGround: z.boolean(),
+        routine: routineRuleSchema.nullable(),
+        stormInspections: z.boolean(),
+    }).optional(),
+});
+
+const listRulePacksRoute = createRoute({
+    method: 'get',
+    path: '/rule-packs',
+    tags: ['Rule Packs'],
+    summary: 'List jurisdiction rule packs (latest versions)',
+    responses: {
+        200: {
+            description: 'Available rule packs',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        rulePacks: z.array(rulePackSchema.extend({ versions: z.array(z.string()) })),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const getRulePackRoute = createRoute({
+    method: 'get',
+    path: '/rule-packs/{id}',
+    tags: ['Rule Packs'],
+    summary: 'Get a jurisdiction rule pack',
+    request: {
+        params: z.object({
+            id: z.string(),
+        }),
+        query: z.object({
+            version: z.string().optional(),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Rule pack',
+            content: {
+                'application/json': {
+                    schema: rulePackSchema,
+                },
+            },
+        },
+        404: {
+            description: 'Rule pack or version not found',
+        },
+    },
+});
+
+const listHolidayCalendarsRoute = createRoute({
+    method: 'get',
+    path: '/holiday-calendars',
+    tags: ['Rule Packs'],
+    summary: 'List holiday calendars with their holidays for a year',
+    request: {
+        query: z.object({
+            year: z.string().regex(/^\d{4}$/).optional().openapi({ description: 'Defaults to the current year' }),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Holiday calendars',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        year: z.number(),
+                        calendars: z.array(z.object({
+                            id: z.string(),
+                            name: z.string(),
+                            holidays: z.array(z.object({ date: z.string(), name: z.string() })),
+                        })),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const inspectionRequirementsRoute = createRoute({
+    method: 'get',
+    path: '/sites/{id}/inspection-requirements',
+    tags: ['Rule Packs'],
+    summary: "Get a site's current inspection requirements",
+    request: {
+        params: z.object({
+            id: z.string(),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Inspection requirements in effect today',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        siteId: z.string(),
+                        timeZone: z.string(),
+                        rulePack: z.string().nullable(),
+                        routine: routineRuleSchema.nullable(),
+                        nextRoutineInspectionDue: z.string().nullable(),
+                        stormInspectionRequired: z.boolean(),
+                        qualifyingRainfallInches: z.number().nullable(),
+                        stormDeadline: deadlineRuleSchema.nullable(),
+                        winterExempt: z.boolean(),
+                    }),
+                },
+            },
+        },
+        404: {
+            description: 'Site not found',
+        },
+        422: {
+            description: 'Site references an unknown rule pack or holiday calendar',
+        },
+    },
+});
+
+rulePacksRoutes.openapi(listRulePacksRoute, (c) => {
+    const registry = createRulePackRegistry();
+
+    return c.json({
+        rulePacks: registry.list().map(pack => ({
+            ...pack.toProps(),
+            versions: registry.getVersions(pack.id).map(v => v.version),
+        })),
+    }, 200);
+});
+
+rulePacksRoutes.openapi(getRulePackRoute, (c) => {
+    const { id } = c.req.valid('param');
+    const { version } = c.req.valid('query');
+
+    try {
+        return c.json(createRulePackRegistry().resolve(id, version).toProps(), 200);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 404);
+    }
+});
+
+rulePacksRoutes.openapi(listHolidayCalendarsRoute, (c) => {
+    const { year } = c.req.valid('query');
+    const calendarYear = year ? Number(year) : new Date().getUTCFullYear();
+
+    return c.json({
+        year: calendarYear,
+        calendars: createRulePackRegistry().listHolidayCalendars().map(calendar => ({
+            id: calendar.id,
+            name: calendar.name,
+            holidays: calendar.getHolidays(calendarYear),
+        })),
+    }, 200);
+});
+
+rulePacksRoutes.openapi(inspectionRequirementsRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const registry = createSiteRegistryService();
+
+    const site = await registry.getSite(id);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    let pack: JurisdictionRulePack | null;
+    let conditions: SiteRuleConditions;
+    try {
+        pack = registry.getRulePack(site);
+        conditions = registry.getRuleConditions(site);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 422);
+    }
+
+    const now = new Date();
+    const lastInspection = site.lastInspectionAt ?? site.createdAt;
+    if (!pack) {
+        // Sites without a rule pack inspect weekly and have the fixed post-storm deadline
+        return c.json({
+            siteId: site.id,
+            timeZone: site.timeZone,
+            rulePack: null,
+            routine: registry.getRoutineRule(site, now),
+            nextRoutineInspectionDue: registry.getNextRoutineInspectionDue(site, lastInspection)?.toISOString() ?? null,
+            stormInspectionRequired: true,
+            qualifyingRainfallInches: null,
+            stormDeadline: { type: 'hours' as const, hours: site.inspectionDeadlineHours },
+            winterExempt: false,
+        }, 200);
+    }
+
+    return c.json({
+        siteId: site.id,
+        timeZone: site.timeZone,
+        rulePack: pack.key,
+        routine: pack.getRoutineRule(now, conditions),
+        nextRoutineInspectionDue: pack.getNextRoutineInspectionDue(lastInspection, conditions)?.toISOString() ?? null,
+        stormInspectionRequired: pack.requiresStormInspection(now, conditions),
+        qualifyingRainfallInches: pack.stormInspection?.qualifyingRainfallInches ?? null,
+        stormDeadline: pack.stormInspection?.deadline ?? null,
+        winterExempt: pack.isWinterExempt(now, conditions),
+    }, 200);
+});
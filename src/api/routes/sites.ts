@@ -0,0 +1,370 @@
+/**
+ * Sites Routes
+ */
+
+import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
+import { createSiteRegistryService } from '../../lib/site-registry';
+import type { Site, SiteBMP } from '../../lib/site-registry';
+
+export const sitesRoutes = new OpenAPIHono();
+
+const contactSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    role: z.string().min(1).openapi({
+        description: 'superintendent, inspector, owner, resident_engineer or a site-specific role',
+    }),
+    phone: z.string().optional(),
+    email: z.string().optional(),
+    alertChannels: z.array(z.enum(['sms', 'push', 'email'])).optional(),
+    quietHours: z.object({
+        start: z.string().regex(/^\d{2}:\d{2}$/),
+        end: z.string().regex(/^\d{2}:\d{2}$/),
+        timeZone: z.string(),
+    }).optional(),
+    language: z.string().optional(),
+});
+
+const soilTextureSchema = z.enum([
+    'sand', 'loamy_sand', 'sandy_loam', 'loam', 'silt_loam', 'silt',
+    'sandy_clay_loam', 'clay_loam', 'silty_clay_loam', 'sandy_clay', 'silty_clay', 'clay',
+]);
+
+const siteFieldsSchema = z.object({
+    name: z.string().min(1),
+    location: z.object({
+        latitude: z.number(),
+        longitude: z.number(),
+    }),
+    acreage: z.number(),
+    soilType: z.enum(['sandy', 'loam', 'clay', 'rocky']),
+    soilTexture: soilTextureSchema.optional().openapi({ description: 'USDA texture class; refines soil erodibility' }),
+    slopePercent: z.number(),
+    slopeLengthFeet: z.number().positive().optional().openapi({ description: 'Longest disturbed slope, for soil loss estimates' }),
+    phase: z.enum(['clearing', 'grading', 'paving', 'stabilization', 'completed']),
+    permitNumber: z.string(),
+    jurisdiction: z.string(),
+    organizationId: z.string().optional().openapi({ description: 'Owning organization; selects its risk model' }),
+    region: z.string().optional().openapi({ description: 'Region for portfolio risk, e.g. a PM territory' }),
+    contractor: z.string().optional().openapi({ description: 'General contractor doing the work' }),
+    timeZone: z.string().optional().openapi({ description: 'IANA time zone for local alert times (default UTC)' }),
+    contacts: z.array(contactSchema.partial({ id: true })),
+    rainThresholdInchesPerHour: z.number(),
+    rainAccumulationRules: z.array(z.object({
+        thresholdInches: z.number().positive(),
+        windowHours: z.number().int().min(1).max(72),
+    })).optional().openapi({ description: 'Cumulative rain triggers, e.g. 0.5 in within 24 hours' }),
+    inspectionDeadlineHours: z.union([z.literal(24), z.literal(48), z.literal(72)]),
+    rulePackId: z.string().optional().openapi({ description: 'Jurisdiction rule pack; replaces inspectionDeadlineHours' }),
+    rulePackVersion: z.string().optional().openapi({ description: 'Pinned rule pack version (default latest)' }),
+    frozenGround: z.boolean().optional().openapi({ description: 'Site ground is frozen (enables winter exemptions)' }),
+    holidayCalendarId: z.string().optional().openapi({ description: "Holiday calendar replacing the rule pack's; requires rulePackId" }),
+    riskModelId: z.string().optional().openapi({ description: 'Pinned risk model (default: organization, jurisdiction or default model)' }),
+    riskModelVersion: z.number().int().positive().optional().openapi({ description: 'Pinned risk model version (default latest)' }),
+    historicalNOVCount: z.number(),
+});
+
+const bmpSchema = z.object({
+    id: z.string(),
+    type: z.string().min(1).openapi({ description: 'e.g. silt_fence, inlet_protection, check_dam' }),
+    count: z.number().int().nonnegative(),
+    location: z.string().optional().openapi({ description: 'e.g. north perimeter' }),
+    lastInspectionDate: z.string().datetime(),
+    conditionRating: z.enum(['good', 'fair', 'poor']),
+});
+
+const siteSchema = siteFieldsSchema.extend({
+    id: z.string(),
+    contacts: z.array(contactSchema),
+    bmpInventory: z.array(bmpSchema),
+    lastInspectionAt: z.string().nullable(),
+    status: z.enum(['active', 'archived']),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+const siteParamsSchema = z.object({
+    id: z.string(),
+});
+
+const bmpInventoryResponse = (description: string) => ({
+    description,
+    content: {
+        'application/json': {
+            schema: z.object({
+                bmpInventory: z.array(bmpSchema),
+            }),
+        },
+    },
+});
+
+const siteResponse = (description: string) => ({
+    description,
+    content: {
+        'application/json': {
+            schema: siteSchema,
+        },
+    },
+});
+
+const createSiteRoute = createRoute({
+    method: 'post',
+    path: '/sites',
+    tags: ['Sites'],
+    summary: 'Register a site',
+    request: {
+        body: {
+            content: {
+                'application/json': {
+                    schema: siteFieldsSchema.extend({
+                        id: z.string().optional(),
+                        contacts: siteFieldsSchema.shape.contacts.default([]),
+                        rainThresholdInchesPerHour: z.number().default(0.5),
+                        inspectionDeadlineHours: siteFieldsSchema.shape.inspectionDeadlineHours.default(24),
+                        historicalNOVCount: z.number().default(0),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        201: siteResponse('Registered site'),
+        400: {
+            description: 'Invalid site data',
+        },
+    },
+});
+
+const listSitesRoute = createRoute({
+    method: 'get',
+    path: '/sites',
+    tags: ['Sites'],
+    summary: 'List registered sites',
+    request: {
+        query: z.object({
+            includeArchived: z.enum(['true', 'false']).optional().default('false'),
+        }),
+    },
+    responses: {
+        200: {
+            description: 'Registered sites',
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        sites: z.array(siteSchema),
+                    }),
+                },
+            },
+        },
+    },
+});
+
+const getSiteRoute = createRoute({
+    method: 'get',
+    path: '/sites/{id}',
+    tags: ['Sites'],
+    summary: 'Get site by ID',
+    request: {
+        params: siteParamsSchema,
+    },
+    responses: {
+        200: siteResponse('Site'),
+        404: {
+            description: 'Site not found',
+        },
+    },
+});
+
+const updateSiteRoute = createRoute({
+    method: 'patch',
+    path: '/sites/{id}',
+    tags: ['Sites'],
+    summary: 'Update site details',
+    request: {
+        params: siteParamsSchema,
+        body: {
+            content: {
+                'application/json': {
+                    schema: siteFieldsSchema.partial().extend({
+                        lastInspectionAt: z.string().datetime().optional(),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: siteResponse('Updated site'),
+        400: {
+            description: 'Invalid site data',
+        },
+        404: {
+            description: 'Site not found',
+        },
+    },
+});
+
+const archiveSiteRoute = createRoute({
+    method: 'post',
+    path: '/sites/{id}/archive',
+    tags: ['Sites'],
+    summary: 'Archive a site',
+    request: {
+        params: siteParamsSchema,
+    },
+    responses: {
+        200: siteResponse('Archived site'),
+        404: {
+            description: 'Site not found',
+        },
+    },
+});
+
+const getBmpInventoryRoute = createRoute({
+    method: 'get',
+    path: '/sites/{id}/bmps',
+    tags: ['Sites'],
+    summary: "Get the site's BMP inventory",
+    request: {
+        params: siteParamsSchema,
+    },
+    responses: {
+        200: bmpInventoryResponse('BMP inventory'),
+        404: {
+            description: 'Site not found',
+        },
+    },
+});
+
+const replaceBmpInventoryRoute = createRoute({
+    method: 'put',
+    path: '/sites/{id}/bmps',
+    tags: ['Sites'],
+    summary: "Replace the site's BMP inventory (scored by the risk engine)",
+    request: {
+        params: siteParamsSchema,
+        body: {
+            content: {
+                'application/json': {
+                    schema: z.object({
+                        bmpInventory: z.array(bmpSchema.partial({ id: true })),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: bmpInventoryResponse('Updated BMP inventory'),
+        400: {
+            description: 'Invalid BMP data',
+        },
+        404: {
+            description: 'Site not found',
+        },
+    },
+});
+
+function toBmpResponse(bmp: SiteBMP) {
+    return { ...bmp, lastInspectionDate: bmp.lastInspectionDate.toISOString() };
+}
+
+function toSiteResponse(site: Site) {
+    return {
+        ...site.toProps(),
+        bmpInventory: site.bmpInventory.map(toBmpResponse),
+        lastInspectionAt: site.lastInspectionAt?.toISOString() ?? null,
+        createdAt: site.createdAt.toISOString(),
+        updatedAt: site.updatedAt.toISOString(),
+    };
+}
+
+sitesRoutes.openapi(createSiteRoute, async (c) => {
+    const body = c.req.valid('json');
+    const registry = createSiteRegistryService();
+
+    try {
+        const site = await registry.registerSite(body);
+        return c.json(toSiteResponse(site), 201);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 400);
+    }
+});
+
+sitesRoutes.openapi(listSitesRoute, async (c) => {
+    const { includeArchived } = c.req.valid('query');
+    const registry = createSiteRegistryService();
+
+    const sites = await registry.listSites({ includeArchived: includeArchived === 'true' });
+
+    return c.json({ sites: sites.map(toSiteResponse) });
+});
+
+sitesRoutes.openapi(getSiteRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const registry = createSiteRegistryService();
+
+    const site = await registry.getSite(id);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    return c.json(toSiteResponse(site), 200);
+});
+
+sitesRoutes.openapi(updateSiteRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const { lastInspectionAt, ...changes } = c.req.valid('json');
+    const registry = createSiteRegistryService();
+
+    try {
+        const site = await registry.updateSite(id, {
+            ...changes,
+            lastInspectionAt: lastInspectionAt ? new Date(lastInspectionAt) : undefined,
+        });
+        if (!site) {
+            return c.json({ error: 'Site not found' }, 404);
+        }
+        return c.json(toSiteResponse(site), 200);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 400);
+    }
+});
+
+sitesRoutes.openapi(archiveSiteRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const registry = createSiteRegistryService();
+
+    const site = await registry.archiveSite(id);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    return c.json(toSiteResponse(site), 200);
+});
+
+sitesRoutes.openapi(getBmpInventoryRoute, async (c) => {
+    const { id } = c.req.valid('param');
+
+    const site = await createSiteRegistryService().getSite(id);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    return c.json({ bmpInventory: site.bmpInventory.map(toBmpResponse) }, 200);
+});
+
+sitesRoutes.openapi(replaceBmpInventoryRoute, async (c) => {
+    const { id } = c.req.valid('param');
+    const { bmpInventory } = c.req.valid('json');
+
+    try {
+        const site = await createSiteRegistryService().updateSite(id, {
+            bmpInventory: bmpInventory.map(b => ({ ...b, lastInspectionDate: new Date(b.lastInspectionDate) })),
+        });
+        if (!site) {
+            return c.json({ error: 'Site not found' }, 404);
+        }
+        return c.json({ bmpInventory: site.bmpInventory.map(toBmpResponse) }, 200);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 400);
+    }
+});
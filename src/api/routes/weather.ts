@@ -3,7 +3,10 @@
  */
 
 import { OpenAPIHono, createRoute, z } from '@hono/zod-openapi';
-import { createWeatherTriggerService } from '../../lib/weather-engine';
+import { createWeatherDataPort, createWeatherTriggerService } from '../../lib/weather-engine';
+import type { HourlyForecast, SitePermit } from '../../lib/weather-engine';
+import { createSiteRegistryService, RegistryPreventiveActionAdapter } from '../../lib/site-registry';
+import { createRulePackRegistry } from '../../lib/jurisdiction-rules';
 
 export const weatherRoutes = new OpenAPIHono();
 
@@ -17,8 +20,13 @@ const forecastSchema = z.object({
         temperature: z.number(),
         windSpeed: z.number(),
         humidity: z.number(),
+        source: z.string().optional(),
     })),
     fetchedAt: z.string(),
+    expiresAt: z.string(),
+    stale: z.boolean(),
+    ageMinutes: z.number().optional(),
+    warning: z.string().optional(),
 });
 
 const forecastRoute = createRoute({
@@ -42,6 +50,9 @@ const forecastRoute = createRoute({
                 },
             },
         },
+        503: {
+            description: 'Weather source unavailable and no usable cached forecast',
+        },
     },
 });
 
@@ -52,9 +63,39 @@ const alertSchema = z.object({
         channel: z.string(),
         recipient: z.string(),
         message: z.string(),
+        subject: z.string().nullable(),
+        language: z.string(),
         priority: z.string(),
     })),
     triggerReason: z.string().optional(),
+    firedRules: z.array(z.object({
+        type: z.enum(['intensity', 'accumulation']),
+        threshold: z.number().openapi({ description: 'in/hr for intensity rules, inches for accumulation rules' }),
+        windowHours: z.number().optional(),
+        windowStart: z.string(),
+        windowEnd: z.string(),
+        observedValue: z.number(),
+    })).optional(),
+    dataWarning: z.string().optional(),
+});
+
+// Permit fields are optional for registered sites; provided values override stored ones
+const evaluateBodySchema = z.object({
+    siteId: z.string(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+    thresholdInchesPerHour: z.number().optional().openapi({
+        description: 'For registered sites, replaces the intensity rule; accumulation rules stay in force',
+    }),
+    superintendentPhone: z.string().optional(),
+    inspectorEmails: z.array(z.string()).optional(),
+    ownerEmail: z.string().optional(),
+    inspectionDeadlineHours: z.union([z.literal(24), z.literal(48), z.literal(72)]).optional().openapi({
+        description: 'Post-storm inspection deadline for unregistered sites (default 24)',
+    }),
+    rulePackId: z.string().optional().openapi({
+        description: 'Jurisdiction rule pack for unregistered sites; replaces inspectionDeadlineHours',
+    }),
 });
 
 const evaluateRoute = createRoute({
@@ -66,15 +107,7 @@ const evaluateRoute = createRoute({
         body: {
             content: {
                 'application/json': {
-                    schema: z.object({
-                        siteId: z.string(),
-                        latitude: z.number(),
-                        longitude: z.number(),
-                        thresholdInchesPerHour: z.number(),
-                        superintendentPhone: z.string(),
-                        inspectorEmails: z.array(z.string()),
-                        ownerEmail: z.string(),
-                    }),
+                    schema: evaluateBodySchema,
                 },
             },
         },
@@ -88,45 +121,127 @@ const evaluateRoute = createRoute({
                 },
             },
         },
+        404: {
+            description: 'Site not registered and permit fields missing',
+        },
+        422: {
+            description: 'Registered site lacks required contacts, or unknown rule pack',
+        },
     },
 });
 
+interface ResolvedPermit {
+    permit: SitePermit;
+    latitude: number;
+    longitude: number;
+}
+
+/**
+ * Inline contact fields replace the site's stored contact profiles
+ */
+function contactOverrides(input: z.infer<typeof evaluateBodySchema>): Partial<SitePermit> {
+    const { superintendentPhone, inspectorEmails, ownerEmail } = input;
+    if (!superintendentPhone && !inspectorEmails && !ownerEmail) return {};
+
+    return { recipients: undefined, superintendentPhone, inspectorEmails, ownerEmail };
+}
+
+/**
+ * An inline threshold replaces the site's intensity rule (trigger rules take precedence over the permit threshold)
+ */
+function withThresholdOverride(permit: SitePermit, thresholdInchesPerHour: number | undefined): SitePermit {
+    if (thresholdInchesPerHour === undefined) return permit;
+
+    return {
+        ...permit,
+        thresholdInchesPerHour,
+        triggerRules: permit.triggerRules?.map(rule =>
+            rule.type === 'intensity' ? { ...rule, thresholdInchesPerHour } : rule
+        ),
+    };
+}
+
+/**
+ * Build the permit from the registry, falling back to inline fields
+ */
+async function resolvePermit(input: z.infer<typeof evaluateBodySchema>): Promise<ResolvedPermit | null> {
+    const registry = createSiteRegistryService();
+    const site = await registry.getSite(input.siteId);
+
+    if (site) {
+        const permit = withThresholdOverride(registry.buildSitePermit(site), input.thresholdInchesPerHour);
+        return {
+            permit: { ...permit, ...contactOverrides(input) },
+            latitude: input.latitude ?? site.location.latitude,
+            longitude: input.longitude ?? site.location.longitude,
+        };
+    }
+
+    const { latitude, longitude, thresholdInchesPerHour, superintendentPhone, inspectorEmails, ownerEmail, rulePackId } = input;
+    if (latitude === undefined || longitude === undefined || thresholdInchesPerHour === undefined
+        || !superintendentPhone || !inspectorEmails || !ownerEmail) {
+        return null;
+    }
+
+    return {
+        permit: {
+            siteId: input.siteId,
+            thresholdInchesPerHour,
+            jurisdictionInspectionHours: input.inspectionDeadlineHours ?? 24,
+            inspectionPolicy: rulePackId ? createRulePackRegistry().resolve(rulePackId).toInspectionPolicy() : undefined,
+            superintendentPhone,
+            inspectorEmails,
+            ownerEmail,
+        },
+        latitude,
+        longitude,
+    };
+}
+
 weatherRoutes.openapi(forecastRoute, async (c) => {
     const { lat, lon, hours } = c.req.valid('query');
 
-    // Access the adapter's method directly for forecast
-    const forecast = {
-        siteId: `site-${lat}-${lon}`,
-        latitude: lat,
-        longitude: lon,
-        forecasts: Array.from({ length: hours }, (_, i) => ({
-            timestamp: new Date(Date.now() + i * 60 * 60 * 1000).toISOString(),
-            precipitationInchesPerHour: Math.random() * 0.5,
-            temperature: 65 + Math.random() * 10,
-            windSpeed: 5 + Math.random() * 15,
-            humidity: 60 + Math.random() * 30,
-        })),
-        fetchedAt: new Date().toISOString(),
-    };
+    let forecast: HourlyForecast;
+    try {
+        forecast = await createWeatherDataPort().getHourlyForecast(lat, lon, hours);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 503);
+    }
 
-    return c.json(forecast);
+    return c.json({
+        siteId: forecast.siteId,
+        latitude: forecast.latitude,
+        longitude: forecast.longitude,
+        forecasts: forecast.forecasts.map(f => ({ ...f, timestamp: f.timestamp.toISOString() })),
+        fetchedAt: forecast.fetchedAt.toISOString(),
+        expiresAt: forecast.expiresAt.toISOString(),
+        stale: forecast.stale ?? false,
+        ageMinutes: forecast.ageMinutes,
+        warning: forecast.warning,
+    }, 200);
 });
 
 weatherRoutes.openapi(evaluateRoute, async (c) => {
     const body = c.req.valid('json');
-    const service = createWeatherTriggerService();
+    const service = createWeatherTriggerService(
+        undefined,
+        new RegistryPreventiveActionAdapter(createSiteRegistryService())
+    );
+
+    let resolved: ResolvedPermit | null;
+    try {
+        resolved = await resolvePermit(body);
+    } catch (error) {
+        return c.json({ error: (error as Error).message }, 422);
+    }
+    if (!resolved) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
 
     const result = await service.evaluateTriggers(
-        {
-            siteId: body.siteId,
-            thresholdInchesPerHour: body.thresholdInchesPerHour,
-            jurisdictionInspectionHours: 24,
-            superintendentPhone: body.superintendentPhone,
-            inspectorEmails: body.inspectorEmails,
-            ownerEmail: body.ownerEmail,
-        },
-        body.latitude,
-        body.longitude
+        resolved.permit,
+        resolved.latitude,
+        resolved.longitude
     );
 
     return c.json({
@@ -136,8 +251,19 @@ weatherRoutes.openapi(evaluateRoute, async (c) => {
             channel: a.channel,
             recipient: a.recipient,
             message: a.message,
+            subject: a.subject,
+            language: a.language,
             priority: a.priority,
         })),
         triggerReason: result.triggerReason,
-    });
+        firedRules: result.firedRules?.map(m => ({
+            type: m.rule.type,
+            threshold: m.rule.type === 'intensity' ? m.rule.thresholdInchesPerHour : m.rule.thresholdInches,
+            windowHours: m.rule.type === 'accumulation' ? m.rule.windowHours : undefined,
+            windowStart: m.windowStart.toISOString(),
+            windowEnd: m.windowEnd.toISOString(),
+            observedValue: m.observedValue,
+        })),
+        dataWarning: result.dataWarning,
+    }, 200);
 });
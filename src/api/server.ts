@@ -17,6 +17,22 @@ import { weatherRoutes } from './routes/weather';
 import { inspectionsRoutes } from './routes/inspections';
 import { riskRoutes } from './routes/risk';
 import { reportsRoutes } from './routes/reports';
+import { sitesRoutes } from './routes/sites';
+import { gaugesRoutes } from './routes/gauges';
+import { rulePacksRoutes } from './routes/rulePacks';
+import { inspectionWindowsRoutes } from './routes/inspectionWindows';
+import { inspectionScheduleRoutes } from './routes/inspectionSchedule';
+import { monitoringRoutes } from './routes/monitoring';
+import { alertsRoutes } from './routes/alerts';
+import { pushRoutes } from './routes/push';
+import {
+    createSiteRegistryService,
+    DEMO_SITES,
+    RegistryMonitoredSiteAdapter,
+    RegistryAlertContactAdapter,
+    RegistryPreventiveActionAdapter
+} from '../lib/site-registry';
+import { createWeatherMonitoringScheduler } from '../lib/weather-engine';
 import process from 'node:process';
 
 const app = new OpenAPIHono();
@@ -26,11 +42,24 @@ app.use('*', cors());
 
 // Mount routes
 app.route('/api', healthRoutes);
+app.route('/api', sitesRoutes);
+app.route('/api', gaugesRoutes);
+app.route('/api', rulePacksRoutes);
+app.route('/api', inspectionWindowsRoutes);
+app.route('/api', inspectionScheduleRoutes);
 app.route('/api', weatherRoutes);
 app.route('/api', inspectionsRoutes);
 app.route('/api', riskRoutes);
+app.route('/api', monitoringRoutes);
+app.route('/api', alertsRoutes);
+app.route('/api', pushRoutes);
 app.route('/api/reports', reportsRoutes);
 
+// Seed the Berlin pilot sites for local development
+if (process.env.NODE_ENV !== 'production') {
+    await createSiteRegistryService().seedIfEmpty(DEMO_SITES);
+}
+
 // OpenAPI documentation
 app.doc('/api/openapi.json', {
     openapi: '3.0.0',
@@ -68,4 +97,15 @@ serve({
     port,
 });
 
+// Background weather trigger polling across all registered sites
+if (process.env.WEATHER_MONITORING_ENABLED !== 'false') {
+    const registry = createSiteRegistryService();
+    const monitoring = createWeatherMonitoringScheduler(
+        new RegistryMonitoredSiteAdapter(registry),
+        new RegistryAlertContactAdapter(registry),
+        new RegistryPreventiveActionAdapter(registry)
+    );
+    monitoring.start();
+}
+
 export default app;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Map, { Marker, NavigationControl, Popup } from 'react-map-gl/mapbox';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -10,7 +10,8 @@ import {
     Activity,
     ShieldCheck,
     Menu,
-    Bell
+    Bell,
+    AlertCircle
 } from 'lucide-react';
 
 import { CameraCapture } from './CameraCapture';
@@ -19,51 +20,82 @@ import { RiskAnalysis } from './RiskAnalysis';
 
 const MAPBOX_TOKEN = import.meta.env.VITE_MAPBOX_TOKEN;
 
-// Mock site data for the dashboard
-const MOCK_SITES = [
-    {
-        id: 'site-1',
-        name: 'Berlin North Heights',
-        latitude: 52.5200,
-        longitude: 13.4050,
-        riskScore: 24,
-        riskLevel: 'low' as const,
-        precipInches: 0.05,
-        lastInspection: '2h ago'
-    },
-    {
-        id: 'site-2',
-        name: 'Alexanderplatz Tower Complex',
-        latitude: 52.5219,
-        longitude: 13.4132,
-        riskScore: 68,
-        riskLevel: 'high' as const,
-        precipInches: 0.45,
-        lastInspection: '12h ago'
-    },
-    {
-        id: 'site-3',
-        name: 'Spree Waterfront Residences',
-        latitude: 52.5074,
-        longitude: 13.4300,
-        riskScore: 82,
-        riskLevel: 'critical' as const,
-        precipInches: 1.10,
-        lastInspection: '1h ago'
-    }
-];
+type RiskLevel = 'low' | 'moderate' | 'high' | 'critical';
+
+interface DashboardSite {
+    id: string;
+    name: string;
+    latitude: number;
+    longitude: number;
+    phase: string;
+    permitNumber: string;
+    riskLevel: RiskLevel | null;    // null until the site has been scored
+}
+
+interface SiteResponse {
+    id: string;
+    name: string;
+    location: { latitude: number; longitude: number };
+    phase: string;
+    permitNumber: string;
+}
+
+interface PortfolioResponse {
+    sites: { siteId: string; riskScore: { level: RiskLevel } }[];
+}
 
 type ViewMode = 'map' | 'scan' | 'checklist' | 'risk';
 
 export const MapDashboard: React.FC = () => {
     const [viewMode, setViewMode] = useState<ViewMode>('map');
-    const [selectedSite, setSelectedSite] = useState<any>(null);
+    const [sites, setSites] = useState<DashboardSite[]>([]);
+    const [selectedSite, setSelectedSite] = useState<DashboardSite | null>(null);
+    const [error, setError] = useState<string | null>(null);
     const [viewState, setViewState] = useState({
         latitude: 52.52,
         longitude: 13.405,
         zoom: 12
     });
 
+    useEffect(() => {
+        const loadSites = async () => {
+            let registered: SiteResponse[];
+            try {
+                const response = await fetch('/api/sites');
+                if (!response.ok) throw new Error('Failed to load sites');
+
+                const data: { sites: SiteResponse[] } = await response.json();
+                registered = data.sites;
+            } catch {
+                setError('Site registry unavailable. Please try again.');
+                return;
+            }
+
+            // Latest risk level per site from the portfolio ranking
+            const levels: Record<string, RiskLevel> = {};
+            try {
+                const response = await fetch('/api/risk/portfolio');
+                if (!response.ok) throw new Error('Failed to load risk scores');
+
+                const data: PortfolioResponse = await response.json();
+                data.sites.forEach(s => { levels[s.siteId] = s.riskScore.level; });
+            } catch {
+                setError('Risk scores unavailable. Sites are shown unscored.');
+            }
+
+            setSites(registered.map(site => ({
+                id: site.id,
+                name: site.name,
+                latitude: site.location.latitude,
+                longitude: site.location.longitude,
+                phase: site.phase,
+                permitNumber: site.permitNumber,
+                riskLevel: levels[site.id] ?? null,
+            })));
+        };
+        loadSites();
+    }, []);
+
     const renderContent = () => {
         switch (viewMode) {
             case 'scan':
@@ -85,7 +117,7 @@ export const MapDashboard: React.FC = () => {
                         >
                             <NavigationControl position="top-right" visualizePitch />
 
-                            {MOCK_SITES.map(site => (
+                            {sites.map(site => (
                                 <Marker
                                     key={site.id}
                                     latitude={site.latitude}
@@ -106,10 +138,12 @@ export const MapDashboard: React.FC = () => {
                                             position: 'relative',
                                             background: site.riskLevel === 'critical' ? 'rgba(255, 51, 102, 0.8)' :
                                                 site.riskLevel === 'high' ? 'rgba(255, 204, 0, 0.8)' :
-                                                    'rgba(0, 255, 153, 0.8)',
+                                                    site.riskLevel === null ? 'rgba(255, 255, 255, 0.3)' :
+                                                        'rgba(0, 255, 153, 0.8)',
                                             borderColor: site.riskLevel === 'critical' ? 'var(--danger)' :
                                                 site.riskLevel === 'high' ? 'var(--warning)' :
-                                                    'var(--success)'
+                                                    site.riskLevel === null ? 'rgba(255, 255, 255, 0.5)' :
+                                                        'var(--success)'
                                         }}
                                     >
                                         <Activity size={24} color="white" />
@@ -128,18 +162,18 @@ export const MapDashboard: React.FC = () => {
                                     <div style={{ padding: '4px', minWidth: '180px' }}>
                                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
                                             <h3 style={{ fontSize: '0.875rem', fontWeight: 700, color: 'white', margin: 0 }}>{selectedSite.name}</h3>
-                                            <span className={`status-badge ${selectedSite.riskLevel}`}>
-                                                {selectedSite.riskLevel}
+                                            <span className={`status-badge ${selectedSite.riskLevel ?? ''}`}>
+                                                {selectedSite.riskLevel ?? 'unscored'}
                                             </span>
                                         </div>
                                         <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
                                             <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', color: 'rgba(255,255,255,0.7)' }}>
                                                 <Droplets size={14} color="var(--primary)" />
-                                                <span>{selectedSite.precipInches}" Rain</span>
+                                                <span>Permit {selectedSite.permitNumber}</span>
                                             </div>
                                             <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', color: 'rgba(255,255,255,0.7)' }}>
                                                 <Activity size={14} color="var(--secondary)" />
-                                                <span>Risk: {selectedSite.riskScore}%</span>
+                                                <span>Phase: {selectedSite.phase}</span>
                                             </div>
                                         </div>
                                         <button
@@ -166,6 +200,13 @@ export const MapDashboard: React.FC = () => {
                             )}
                         </Map>
 
+                        {error && (
+                            <div style={{ position: 'absolute', top: '96px', left: '16px', right: '16px', padding: '12px 16px', display: 'flex', alignItems: 'center', gap: '12px', background: 'rgba(255, 51, 102, 0.2)', border: '1px solid rgba(255, 51, 102, 0.4)', borderRadius: '12px', backdropFilter: 'blur(12px)' }}>
+                                <AlertCircle size={20} color="var(--danger)" />
+                                <p style={{ color: 'white', fontSize: '12px', margin: 0 }}>{error}</p>
+                            </div>
+                        )}
+
                         {/* Risk Slider Trigger (Map View Only) */}
                         <div className="floating-panel">
                             <div className="panel-content" onClick={() => setViewMode('risk')} style={{ cursor: 'pointer' }}>
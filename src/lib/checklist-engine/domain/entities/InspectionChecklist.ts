@@ -22,6 +22,7 @@ export interface InspectionChecklistProps {
     scheduledAt: Date;
     startedAt?: Date;
     completedAt?: Date;
+    submittedAt?: Date;
     status: ChecklistStatus;
     items: ChecklistItem[];
     overallCompliance: boolean;
@@ -34,6 +35,7 @@ export class InspectionChecklist {
     readonly scheduledAt: Date;
     private _startedAt: Date | null;
     private _completedAt: Date | null;
+    private _submittedAt: Date | null;
     private _status: ChecklistStatus;
     private _items: ChecklistItem[];
 
@@ -44,14 +46,20 @@ export class InspectionChecklist {
         this.scheduledAt = props.scheduledAt;
         this._startedAt = props.startedAt ?? null;
         this._completedAt = props.completedAt ?? null;
+        this._submittedAt = props.submittedAt ?? null;
         this._status = props.status;
         this._items = props.items;
     }
 
-    static create(props: Omit<InspectionChecklistProps, 'status' | 'overallCompliance'>): InspectionChecklist {
+    /**
+     * Create a draft checklist, or restore a stored one when a status is given
+     */
+    static create(
+        props: Omit<InspectionChecklistProps, 'status' | 'overallCompliance'> & { status?: ChecklistStatus }
+    ): InspectionChecklist {
         return new InspectionChecklist({
             ...props,
-            status: 'draft',
+            status: props.status ?? 'draft',
             overallCompliance: true,
         });
     }
@@ -72,6 +80,10 @@ export class InspectionChecklist {
         return this._completedAt;
     }
 
+    get submittedAt(): Date | null {
+        return this._submittedAt;
+    }
+
     /**
      * Update a checklist item response
      */
@@ -106,6 +118,19 @@ export class InspectionChecklist {
         this._completedAt = new Date();
     }
 
+    /**
+     * Submit the checklist as the inspection record; completes it first if needed
+     */
+    submit(submittedAt: Date = new Date()): void {
+        if (this._status === 'submitted') throw new Error('Checklist already submitted');
+
+        if (this._status !== 'completed') {
+            this._completedAt = submittedAt;
+        }
+        this._status = 'submitted';
+        this._submittedAt = submittedAt;
+    }
+
     /**
      * Add photo to item
      */
@@ -115,4 +140,19 @@ export class InspectionChecklist {
 
         this._items[index].photoIds.push(photoId);
     }
+
+    toProps(): InspectionChecklistProps {
+        return {
+            id: this.id,
+            siteId: this.siteId,
+            inspectorId: this.inspectorId,
+            scheduledAt: this.scheduledAt,
+            startedAt: this._startedAt ?? undefined,
+            completedAt: this._completedAt ?? undefined,
+            submittedAt: this._submittedAt ?? undefined,
+            status: this._status,
+            items: this.items,
+            overallCompliance: this.isOverallCompliant(),
+        };
+    }
 }
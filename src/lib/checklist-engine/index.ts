@@ -12,8 +12,18 @@ export type {
     ChecklistStatus
 } from './domain/entities/InspectionChecklist';
 
+// Ports
+export type { IChecklistRepositoryPort } from './ports/IChecklistRepositoryPort';
+
+// Infrastructure
+export { InMemoryChecklistRepository } from './infrastructure/InMemoryChecklistRepository';
+export { JsonFileChecklistRepository } from './infrastructure/JsonFileChecklistRepository';
+
 // Factory
 import { InspectionChecklist } from './domain/entities/InspectionChecklist';
+import { JsonFileChecklistRepository } from './infrastructure/JsonFileChecklistRepository';
+import type { IChecklistRepositoryPort } from './ports/IChecklistRepositoryPort';
+import { resolveDataPath } from '../shared';
 
 export function createDigitalChecklist(siteId: string, inspectorId: string): InspectionChecklist {
     return InspectionChecklist.create({
@@ -46,3 +56,10 @@ export function createDigitalChecklist(siteId: string, inspectorId: string): Ins
         ],
     });
 }
+
+/**
+ * Create a checklist repository backed by the data directory
+ */
+export function createChecklistRepository(): IChecklistRepositoryPort {
+    return new JsonFileChecklistRepository(resolveDataPath('checklists.json'));
+}
@@ -0,0 +1,26 @@
+/**
+ * InMemoryChecklistRepository - Infrastructure Adapter
+ *
+ * Non-persistent checklist store for development/testing.
+ */
+
+import type { InspectionChecklist } from '../domain/entities/InspectionChecklist';
+import type { IChecklistRepositoryPort } from '../ports/IChecklistRepositoryPort';
+
+export class InMemoryChecklistRepository implements IChecklistRepositoryPort {
+    private readonly checklists = new Map<string, InspectionChecklist>();
+
+    async save(checklist: InspectionChecklist): Promise<void> {
+        this.checklists.set(checklist.id, checklist);
+    }
+
+    async findById(id: string): Promise<InspectionChecklist | null> {
+        return this.checklists.get(id) ?? null;
+    }
+
+    async findBySite(siteId: string): Promise<InspectionChecklist[]> {
+        return [...this.checklists.values()]
+            .filter(c => c.siteId === siteId)
+            .sort((a, b) => b.scheduledAt.getTime() - a.scheduledAt.getTime());
+    }
+}
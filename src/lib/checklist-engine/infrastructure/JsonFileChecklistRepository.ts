@@ -0,0 +1,59 @@
+/**
+ * JsonFileChecklistRepository - Infrastructure Adapter
+ *
+ * File-backed checklist store.
+ */
+
+import { InspectionChecklist } from '../domain/entities/InspectionChecklist';
+import type { InspectionChecklistProps } from '../domain/entities/InspectionChecklist';
+import type { IChecklistRepositoryPort } from '../ports/IChecklistRepositoryPort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+
+type ChecklistRecord = Omit<InspectionChecklistProps, 'scheduledAt' | 'startedAt' | 'completedAt' | 'submittedAt'> & {
+    scheduledAt: string;
+    startedAt?: string;
+    completedAt?: string;
+    submittedAt?: string;
+};
+
+export class JsonFileChecklistRepository implements IChecklistRepositoryPort {
+    private readonly store: JsonFileStore<ChecklistRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<ChecklistRecord>(filePath);
+    }
+
+    async save(checklist: InspectionChecklist): Promise<void> {
+        const props = checklist.toProps();
+        await this.store.upsert({
+            ...props,
+            scheduledAt: props.scheduledAt.toISOString(),
+            startedAt: props.startedAt?.toISOString(),
+            completedAt: props.completedAt?.toISOString(),
+            submittedAt: props.submittedAt?.toISOString(),
+        });
+    }
+
+    async findById(id: string): Promise<InspectionChecklist | null> {
+        const record = await this.store.get(id);
+        return record ? this.toEntity(record) : null;
+    }
+
+    async findBySite(siteId: string): Promise<InspectionChecklist[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => r.siteId === siteId)
+            .map(r => this.toEntity(r))
+            .sort((a, b) => b.scheduledAt.getTime() - a.scheduledAt.getTime());
+    }
+
+    private toEntity(record: ChecklistRecord): InspectionChecklist {
+        return InspectionChecklist.create({
+            ...record,
+            scheduledAt: new Date(record.scheduledAt),
+            startedAt: record.startedAt ? new Date(record.startedAt) : undefined,
+            completedAt: record.completedAt ? new Date(record.completedAt) : undefined,
+            submittedAt: record.submittedAt ? new Date(record.submittedAt) : undefined,
+        });
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * IChecklistRepositoryPort - Port Interface
+ *
+ * Interface for persisting inspection checklists.
+ */
+
+import type { InspectionChecklist } from '../domain/entities/InspectionChecklist';
+
+export interface IChecklistRepositoryPort {
+    /**
+     * Insert or replace a checklist
+     */
+    save(checklist: InspectionChecklist): Promise<void>;
+
+    /**
+     * Get a checklist by id
+     */
+    findById(id: string): Promise<InspectionChecklist | null>;
+
+    /**
+     * List a site's checklists, most recently scheduled first
+     */
+    findBySite(siteId: string): Promise<InspectionChecklist[]>;
+}
@@ -0,0 +1,81 @@
+/**
+ * InspectionTask - Domain Entity
+ *
+ * An inspection a site owes by a due time: a routine inspection from the
+ * permit's frequency, or a post-storm inspection from an open window.
+ */
+
+export type InspectionTaskType = 'routine' | 'storm';
+
+export interface InspectionAssignee {
+    contactId: string;
+    name: string;
+    email?: string;
+}
+
+export interface InspectionTaskProps {
+    id: string;
+    type: InspectionTaskType;
+    siteId: string;
+    siteName: string;
+    timeZone: string;
+    dueAt: Date;
+    assignee: InspectionAssignee | null;
+    inspectionWindowId?: string;    // storm tasks only
+}
+
+export class InspectionTask {
+    readonly id: string;
+    readonly type: InspectionTaskType;
+    readonly siteId: string;
+    readonly siteName: string;
+    readonly timeZone: string;
+    readonly dueAt: Date;
+    readonly assignee: InspectionAssignee | null;
+    readonly inspectionWindowId: string | null;
+
+    private constructor(props: InspectionTaskProps) {
+        this.id = props.id;
+        this.type = props.type;
+        this.siteId = props.siteId;
+        this.siteName = props.siteName;
+        this.timeZone = props.timeZone;
+        this.dueAt = props.dueAt;
+        this.assignee = props.assignee;
+        this.inspectionWindowId = props.inspectionWindowId ?? null;
+    }
+
+    static create(props: InspectionTaskProps): InspectionTask {
+        if (props.type === 'storm' && !props.inspectionWindowId) {
+            throw new Error('Storm inspection tasks require an inspection window');
+        }
+        return new InspectionTask(props);
+    }
+
+    /**
+     * Check if the due time has passed
+     */
+    isOverdue(now: Date = new Date()): boolean {
+        return now > this.dueAt;
+    }
+
+    /**
+     * Check if the task is assigned to the given contact
+     */
+    isAssignedTo(contactId: string): boolean {
+        return this.assignee?.contactId === contactId;
+    }
+
+    toProps(): InspectionTaskProps {
+        return {
+            id: this.id,
+            type: this.type,
+            siteId: this.siteId,
+            siteName: this.siteName,
+            timeZone: this.timeZone,
+            dueAt: this.dueAt,
+            assignee: this.assignee,
+            inspectionWindowId: this.inspectionWindowId ?? undefined,
+        };
+    }
+}
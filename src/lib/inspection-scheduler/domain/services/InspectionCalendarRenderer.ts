@@ -0,0 +1,124 @@
+/**
+ * InspectionCalendarRenderer - Domain Service
+ *
+ * Renders inspection tasks as an iCalendar (RFC 5545) feed that phone and
+ * desktop calendars can subscribe to. Each task is an hour-long event that
+ * ends at the due time, with a reminder an hour before it starts.
+ */
+
+import type { InspectionTask } from '../entities/InspectionTask';
+
+export interface CalendarFeedOptions {
+    name: string;
+    generatedAt?: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+
+const SUMMARY_PREFIX: Record<InspectionTask['type'], string> = {
+    routine: 'Routine inspection due',
+    storm: 'Post-storm inspection due',
+};
+
+const CATEGORY: Record<InspectionTask['type'], string> = {
+    routine: 'Routine inspection',
+    storm: 'Storm inspection',
+};
+
+export class InspectionCalendarRenderer {
+    private readonly encoder = new TextEncoder();
+
+    render(tasks: InspectionTask[], options: CalendarFeedOptions): string {
+        const stamp = this.formatDateTime(options.generatedAt ?? new Date());
+        const lines = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//ESCACS//Inspection Schedule//EN',
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            `X-WR-CALNAME:${this.escapeText(options.name)}`,
+            'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+            'X-PUBLISHED-TTL:PT1H',
+            ...tasks.flatMap(task => this.renderEvent(task, stamp)),
+            'END:VCALENDAR',
+        ];
+
+        return lines.map(line => this.fold(line)).join('\r\n') + '\r\n';
+    }
+
+    private renderEvent(task: InspectionTask, stamp: string): string[] {
+        const summary = `${SUMMARY_PREFIX[task.type]}: ${task.siteName}`;
+
+        return [
+            'BEGIN:VEVENT',
+            `UID:${this.escapeText(task.id)}@escacs`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${this.formatDateTime(new Date(task.dueAt.getTime() - HOUR_MS))}`,
+            `DTEND:${this.formatDateTime(task.dueAt)}`,
+            `SUMMARY:${this.escapeText(summary)}`,
+            `DESCRIPTION:${this.escapeText(this.describe(task))}`,
+            `CATEGORIES:${this.escapeText(CATEGORY[task.type])}`,
+            'STATUS:CONFIRMED',
+            'TRANSP:TRANSPARENT',
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${this.escapeText(summary)}`,
+            'TRIGGER:-PT1H',
+            'END:VALARM',
+            'END:VEVENT',
+        ];
+    }
+
+    private describe(task: InspectionTask): string {
+        const due = new Intl.DateTimeFormat('en-US', {
+            timeZone: task.timeZone,
+            dateStyle: 'medium',
+            timeStyle: 'short',
+        }).format(task.dueAt);
+
+        return [
+            `Due by ${due} (${task.timeZone}).`,
+            task.assignee ? `Assigned to ${task.assignee.name}.` : 'Not assigned to an inspector.',
+        ].join('\n');
+    }
+
+    /**
+     * UTC form, e.g. 20250601T120000Z
+     */
+    private formatDateTime(date: Date): string {
+        return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    }
+
+    private escapeText(value: string): string {
+        return value
+            .replace(/\\/g, '\\\\')
+            .replace(/;/g, '\\;')
+            .replace(/,/g, '\\,')
+            .replace(/\r?\n/g, '\\n');
+    }
+
+    /**
+     * Split lines longer than 75 octets; continuation lines start with a space
+     */
+    private fold(line: string): string {
+        const parts: string[] = [];
+        let current = '';
+        let octets = 0;
+
+        for (const char of line) {
+            const size = this.encoder.encode(char).length;
+            const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+            if (octets + size > limit) {
+                parts.push(current);
+                current = '';
+                octets = 0;
+            }
+            current += char;
+            octets += size;
+        }
+        parts.push(current);
+
+        return parts.join('\r\n ');
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * InspectionScheduler - Domain Service
+ *
+ * Builds the upcoming inspection tasks of every site: routine inspections
+ * from the permit frequency and post-storm inspections from open windows,
+ * each assigned to one of the site's inspectors.
+ */
+
+import { InspectionTask } from '../entities/InspectionTask';
+import type { InspectionAssignee } from '../entities/InspectionTask';
+import type { IInspectionSitePort, ScheduledSite } from '../../ports/IInspectionSitePort';
+import type { IStormInspectionPort, OutstandingStormInspection } from '../../ports/IStormInspectionPort';
+
+export interface InspectionSchedulerConfig {
+    horizonDays: number;
+}
+
+export interface ScheduleQuery {
+    siteId?: string;
+    inspectorId?: string;   // site contact id
+    days?: number;
+}
+
+export interface InspectionSchedule {
+    from: Date;
+    until: Date;
+    tasks: InspectionTask[];
+}
+
+const DEFAULT_CONFIG: InspectionSchedulerConfig = {
+    horizonDays: 28,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InspectionScheduler {
+    private readonly sitePort: IInspectionSitePort;
+    private readonly stormPort: IStormInspectionPort;
+    private readonly config: InspectionSchedulerConfig;
+
+    constructor(
+        sitePort: IInspectionSitePort,
+        stormPort: IStormInspectionPort,
+        config: InspectionSchedulerConfig = DEFAULT_CONFIG
+    ) {
+        this.sitePort = sitePort;
+        this.stormPort = stormPort;
+        this.config = config;
+    }
+
+    /**
+     * Overdue and upcoming tasks within the horizon, earliest due first
+     */
+    async getSchedule(query: ScheduleQuery = {}, now: Date = new Date()): Promise<InspectionSchedule> {
+        const until = new Date(now.getTime() + (query.days ?? this.config.horizonDays) * DAY_MS);
+        const sites = (await this.sitePort.listSites())
+            .filter(site => !query.siteId || site.siteId === query.siteId);
+        const storms = await this.stormPort.listOutstanding();
+
+        const tasks: InspectionTask[] = [];
+        for (const site of sites) {
+            tasks.push(...await this.buildRoutineTasks(site, now, until));
+            tasks.push(...storms
+                .filter(storm => storm.siteId === site.siteId && storm.deadlineTime <= until)
+                .map(storm => this.buildStormTask(site, storm)));
+        }
+
+        return {
+            from: now,
+            until,
+            tasks: tasks
+                .filter(task => !query.inspectorId || task.isAssignedTo(query.inspectorId))
+                .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime()),
+        };
+    }
+
+    private async buildRoutineTasks(site: ScheduledSite, now: Date, until: Date): Promise<InspectionTask[]> {
+        const dueDates = await this.sitePort.getRoutineDueDates(site.siteId, site.lastInspectionAt, until);
+
+        // Missed routine inspections collapse into one overdue task; the next inspection restarts the cycle
+        const [first] = dueDates;
+        const scheduled = dueDates.filter(dueAt => dueAt > now);
+        if (first && first <= now) scheduled.unshift(first);
+
+        return scheduled.map(dueAt => {
+            const id = `routine:${site.siteId}:${dueAt.toISOString()}`;
+            return InspectionTask.create({
+                id,
+                type: 'routine',
+                siteId: site.siteId,
+                siteName: site.siteName,
+                timeZone: site.timeZone,
+                dueAt,
+                assignee: this.assign(site, id),
+            });
+        });
+    }
+
+    private buildStormTask(site: ScheduledSite, storm: OutstandingStormInspection): InspectionTask {
+        const id = `storm:${storm.inspectionWindowId}`;
+        return InspectionTask.create({
+            id,
+            type: 'storm',
+            siteId: site.siteId,
+            siteName: site.siteName,
+            timeZone: site.timeZone,
+            dueAt: storm.deadlineTime,
+            assignee: this.assign(site, id),
+            inspectionWindowId: storm.inspectionWindowId,
+        });
+    }
+
+    /**
+     * Spread tasks over the site's inspectors; a task keeps its inspector between
+     * requests so subscribed calendars do not reshuffle
+     */
+    private assign(site: ScheduledSite, taskId: string): InspectionAssignee | null {
+        if (site.inspectors.length === 0) return null;
+
+        let hash = 0;
+        for (const char of taskId) {
+            hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+        }
+        return site.inspectors[hash % site.inspectors.length];
+    }
+}
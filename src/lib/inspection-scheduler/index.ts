@@ -0,0 +1,70 @@
+/**
+ * Inspection Scheduler Module
+ *
+ * Upcoming inspection tasks per site:
+ * - Routine inspections from the permit frequency
+ * - Post-storm inspections from open inspection windows
+ * - Inspector assignment
+ * - iCalendar feed for subscribed calendars
+ *
+ * @example
+ * ```typescript
+ * import { createInspectionScheduler, InspectionCalendarRenderer } from '@/lib/inspection-scheduler';
+ *
+ * const schedule = await createInspectionScheduler(sitePort).getSchedule({ inspectorId: 'contact-1-insp' });
+ * const ics = new InspectionCalendarRenderer().render(schedule.tasks, { name: 'My inspections' });
+ * ```
+ */
+
+// Domain Layer - Entities
+export { InspectionTask } from './domain/entities/InspectionTask';
+export type {
+    InspectionTaskProps,
+    InspectionTaskType,
+    InspectionAssignee
+} from './domain/entities/InspectionTask';
+
+// Domain Layer - Services
+export { InspectionScheduler } from './domain/services/InspectionScheduler';
+export { InspectionCalendarRenderer } from './domain/services/InspectionCalendarRenderer';
+export type {
+    InspectionSchedulerConfig,
+    ScheduleQuery,
+    InspectionSchedule
+} from './domain/services/InspectionScheduler';
+export type { CalendarFeedOptions } from './domain/services/InspectionCalendarRenderer';
+
+// Ports
+export type {
+    IInspectionSitePort,
+    ScheduledSite
+} from './ports/IInspectionSitePort';
+
+export type {
+    IStormInspectionPort,
+    OutstandingStormInspection
+} from './ports/IStormInspectionPort';
+
+// Infrastructure - Adapters
+export { WindowStormInspectionAdapter } from './infrastructure/WindowStormInspectionAdapter';
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+import { InspectionScheduler } from './domain/services/InspectionScheduler';
+import { WindowStormInspectionAdapter } from './infrastructure/WindowStormInspectionAdapter';
+import type { IInspectionSitePort } from './ports/IInspectionSitePort';
+import { createInspectionWindowRepository } from '../weather-engine';
+import process from 'node:process';
+
+/**
+ * Create the inspection scheduler; the default horizon comes from the environment
+ */
+export function createInspectionScheduler(sitePort: IInspectionSitePort): InspectionScheduler {
+    return new InspectionScheduler(
+        sitePort,
+        new WindowStormInspectionAdapter(createInspectionWindowRepository()),
+        { horizonDays: Number(process.env.INSPECTION_SCHEDULE_DAYS || 28) }
+    );
+}
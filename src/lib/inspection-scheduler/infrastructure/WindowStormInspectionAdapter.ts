@@ -0,0 +1,25 @@
+/**
+ * WindowStormInspectionAdapter - Infrastructure Adapter
+ *
+ * Reads outstanding post-storm inspections from the weather engine's inspection windows.
+ */
+
+import type { IInspectionWindowRepositoryPort } from '../../weather-engine/ports/IInspectionWindowRepositoryPort';
+import type { IStormInspectionPort, OutstandingStormInspection } from '../ports/IStormInspectionPort';
+
+export class WindowStormInspectionAdapter implements IStormInspectionPort {
+    private readonly windows: IInspectionWindowRepositoryPort;
+
+    constructor(windows: IInspectionWindowRepositoryPort) {
+        this.windows = windows;
+    }
+
+    async listOutstanding(): Promise<OutstandingStormInspection[]> {
+        return (await this.windows.findOpen()).map(window => ({
+            inspectionWindowId: window.id,
+            siteId: window.siteId,
+            stormEndTime: window.stormEndTime,
+            deadlineTime: window.deadlineTime,
+        }));
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * IInspectionSitePort - Port Interface
+ *
+ * Interface for the sites inspections are scheduled for and their routine frequency.
+ */
+
+import type { InspectionAssignee } from '../domain/entities/InspectionTask';
+
+export interface ScheduledSite {
+    siteId: string;
+    siteName: string;
+    timeZone: string;
+    inspectors: InspectionAssignee[];
+    lastInspectionAt: Date;
+}
+
+export interface IInspectionSitePort {
+    /**
+     * List active sites that owe inspections
+     */
+    listSites(): Promise<ScheduledSite[]>;
+
+    /**
+     * Routine inspection due times after the last inspection, up to and including `until`
+     */
+    getRoutineDueDates(siteId: string, lastInspectionAt: Date, until: Date): Promise<Date[]>;
+}
@@ -0,0 +1,19 @@
+/**
+ * IStormInspectionPort - Port Interface
+ *
+ * Interface for post-storm inspections that are still outstanding.
+ */
+
+export interface OutstandingStormInspection {
+    inspectionWindowId: string;
+    siteId: string;
+    stormEndTime: Date;
+    deadlineTime: Date;
+}
+
+export interface IStormInspectionPort {
+    /**
+     * List uncompleted post-storm inspections across all sites
+     */
+    listOutstanding(): Promise<OutstandingStormInspection[]>;
+}
@@ -0,0 +1,200 @@
+/**
+ * BusinessCalendar - Domain Entity
+ *
+ * Working days and hours of a site: its IANA time zone, holiday calendar and
+ * optional business hours. Day boundaries, weekends and holidays are evaluated
+ * in the site's zone, and day arithmetic keeps local wall-clock time across
+ * DST transitions.
+ */
+
+import { HolidayCalendar } from './HolidayCalendar';
+
+export interface BusinessHours {
+    start: string;  // HH:MM local
+    end: string;    // HH:MM local
+}
+
+export interface BusinessCalendarProps {
+    timeZone: string;
+    holidays: HolidayCalendar;
+    businessHours?: BusinessHours;
+}
+
+interface LocalTime {
+    date: string;       // YYYY-MM-DD
+    msOfDay: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Guards loops against calendars that declare every day a holiday
+const MAX_SEARCH_DAYS = 366;
+
+export class BusinessCalendar {
+    readonly timeZone: string;
+    readonly holidays: HolidayCalendar;
+    readonly businessHours: BusinessHours | null;
+    private readonly formatter: Intl.DateTimeFormat;
+
+    private constructor(props: BusinessCalendarProps, formatter: Intl.DateTimeFormat) {
+        this.timeZone = props.timeZone;
+        this.holidays = props.holidays;
+        this.businessHours = props.businessHours ?? null;
+        this.formatter = formatter;
+    }
+
+    static create(props: BusinessCalendarProps): BusinessCalendar {
+        let formatter: Intl.DateTimeFormat;
+        try {
+            formatter = new Intl.DateTimeFormat('en-US', {
+                timeZone: props.timeZone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: '2-digit',
+                day: '2-digit',
+                hour: '2-digit',
+                minute: '2-digit',
+                second: '2-digit',
+            });
+        } catch {
+            throw new Error(`Unknown time zone: ${props.timeZone}`);
+        }
+
+        const hours = props.businessHours;
+        if (hours && !(TIME_OF_DAY.test(hours.start) && TIME_OF_DAY.test(hours.end))) {
+            throw new Error('Business hours must be HH:MM');
+        }
+        if (hours && parseMinutes(hours.start) >= parseMinutes(hours.end)) {
+            throw new Error('Business hours must end after they start');
+        }
+        return new BusinessCalendar(props, formatter);
+    }
+
+    /**
+     * UTC calendar with weekends only
+     */
+    static utc(): BusinessCalendar {
+        return BusinessCalendar.create({ timeZone: 'UTC', holidays: HolidayCalendar.empty() });
+    }
+
+    /**
+     * Civil date (YYYY-MM-DD) of an instant in the calendar's zone
+     */
+    getLocalDate(instant: Date): string {
+        return this.toLocal(instant).date;
+    }
+
+    /**
+     * Check if an instant falls on a local weekday that is not a holiday
+     */
+    isBusinessDay(instant: Date): boolean {
+        return this.isBusinessDate(this.getLocalDate(instant));
+    }
+
+    /**
+     * Check if an instant falls on a business day (and inside business hours when set)
+     */
+    isWithinBusinessHours(instant: Date): boolean {
+        const local = this.toLocal(instant);
+        if (!this.isBusinessDate(local.date)) return false;
+        if (!this.businessHours) return true;
+
+        const minutes = local.msOfDay / MINUTE_MS;
+        return minutes >= parseMinutes(this.businessHours.start) && minutes < parseMinutes(this.businessHours.end);
+    }
+
+    /**
+     * Close of business on the instant's local day (last millisecond of the day without business hours)
+     */
+    getCloseOfBusiness(instant: Date): Date {
+        return this.closeOfBusiness(this.getLocalDate(instant));
+    }
+
+    /**
+     * Earliest close of business at or after the instant
+     */
+    getNextCloseOfBusiness(instant: Date): Date {
+        let date = this.getLocalDate(instant);
+        for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+            if (this.isBusinessDate(date)) {
+                const close = this.closeOfBusiness(date);
+                if (close >= instant) return close;
+            }
+            date = addDays(date, 1);
+        }
+        throw new Error(`No business day within ${MAX_SEARCH_DAYS} days in ${this.holidays.id}`);
+    }
+
+    /**
+     * Close of business on the Nth business day after the instant's local day
+     */
+    addBusinessDays(instant: Date, businessDays: number): Date {
+        let date = this.getLocalDate(instant);
+        let counted = 0;
+        for (let i = 0; counted < businessDays; i++) {
+            if (i >= MAX_SEARCH_DAYS) {
+                throw new Error(`No business day within ${MAX_SEARCH_DAYS} days in ${this.holidays.id}`);
+            }
+            date = addDays(date, 1);
+            if (this.isBusinessDate(date)) counted++;
+        }
+        return this.closeOfBusiness(date);
+    }
+
+    /**
+     * Same local wall-clock time N calendar days later (23 or 25 elapsed hours on DST days)
+     */
+    addCalendarDays(instant: Date, days: number): Date {
+        const local = this.toLocal(instant);
+        return this.toInstant(addDays(local.date, days), local.msOfDay);
+    }
+
+    private isBusinessDate(date: string): boolean {
+        const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+        return weekday !== 0 && weekday !== 6 && !this.holidays.isHoliday(date);
+    }
+
+    private closeOfBusiness(date: string): Date {
+        if (this.businessHours) {
+            return this.toInstant(date, parseMinutes(this.businessHours.end) * MINUTE_MS);
+        }
+        return new Date(this.toInstant(addDays(date, 1), 0).getTime() - 1);
+    }
+
+    private toLocal(instant: Date): LocalTime {
+        const parts = Object.fromEntries(
+            this.formatter.formatToParts(instant).map(p => [p.type, p.value])
+        );
+        return {
+            date: `${parts.year}-${parts.month}-${parts.day}`,
+            msOfDay: ((Number(parts.hour) * 60 + Number(parts.minute)) * 60 + Number(parts.second)) * 1000
+                + instant.getUTCMilliseconds(),
+        };
+    }
+
+    /**
+     * UTC instant of a local wall-clock time. Times skipped by a DST jump
+     * resolve to the same offset as just before the jump.
+     */
+    private toInstant(date: string, msOfDay: number): Date {
+        const wallClock = new Date(`${date}T00:00:00Z`).getTime() + msOfDay;
+        const firstGuess = wallClock - this.offsetAt(wallClock);
+        return new Date(wallClock - this.offsetAt(firstGuess));
+    }
+
+    private offsetAt(epochMs: number): number {
+        const instant = new Date(epochMs);
+        const local = this.toLocal(instant);
+        return new Date(`${local.date}T00:00:00Z`).getTime() + local.msOfDay - epochMs;
+    }
+}
+
+function parseMinutes(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+function addDays(date: string, days: number): string {
+    return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
@@ -0,0 +1,175 @@
+/**
+ * HolidayCalendar - Domain Entity
+ *
+ * Named set of holiday rules (e.g. US federal, Virginia state, Berlin) that
+ * expands into the holiday dates of a given year. Dates are civil dates
+ * ("YYYY-MM-DD") with no time zone; BusinessCalendar places them in the
+ * site's zone.
+ */
+
+export type HolidayRule =
+    // Same date every year; `observed` moves Saturday holidays to Friday and Sunday ones to Monday
+    | { type: 'fixed'; name: string; date: string; observed?: boolean }
+    // e.g. 4th Thursday of November; nth -1 is the last one in the month
+    | { type: 'nth_weekday'; name: string; month: number; weekday: number; nth: number; offsetDays?: number }
+    // Relative to Western Easter Sunday, e.g. -2 for Good Friday
+    | { type: 'easter'; name: string; offsetDays: number }
+    // One-off closure
+    | { type: 'date'; name: string; date: string };
+
+export interface HolidayCalendarProps {
+    id: string;
+    name: string;
+    rules: HolidayRule[];
+}
+
+export interface Holiday {
+    date: string;   // YYYY-MM-DD
+    name: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_DAY_FORMAT = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const DATE_FORMAT = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export class HolidayCalendar {
+    readonly id: string;
+    readonly name: string;
+    readonly rules: HolidayRule[];
+    private readonly byYear = new Map<number, Holiday[]>();
+
+    private constructor(props: HolidayCalendarProps) {
+        this.id = props.id;
+        this.name = props.name;
+        this.rules = props.rules;
+    }
+
+    static create(props: HolidayCalendarProps): HolidayCalendar {
+        if (!props.id || !props.name) {
+            throw new Error('Holiday calendar id and name are required');
+        }
+        props.rules.forEach(HolidayCalendar.validateRule);
+        return new HolidayCalendar(props);
+    }
+
+    /**
+     * Calendar without holidays (weekends only)
+     */
+    static empty(): HolidayCalendar {
+        return new HolidayCalendar({ id: 'none', name: 'No holidays', rules: [] });
+    }
+
+    private static validateRule(rule: HolidayRule): void {
+        if (rule.type === 'fixed' && !MONTH_DAY_FORMAT.test(rule.date)) {
+            throw new Error(`Holiday ${rule.name} must be MM-DD`);
+        }
+        if (rule.type === 'date' && !DATE_FORMAT.test(rule.date)) {
+            throw new Error(`Holiday ${rule.name} must be YYYY-MM-DD`);
+        }
+        if (rule.type === 'nth_weekday') {
+            const validNth = rule.nth === -1 || (Number.isInteger(rule.nth) && rule.nth >= 1 && rule.nth <= 4);
+            if (rule.month < 1 || rule.month > 12 || rule.weekday < 0 || rule.weekday > 6 || !validNth) {
+                throw new Error(`Holiday ${rule.name} has an invalid month, weekday or occurrence`);
+            }
+        }
+    }
+
+    /**
+     * Holidays falling in a year, in date order
+     */
+    getHolidays(year: number): Holiday[] {
+        let holidays = this.byYear.get(year);
+        if (!holidays) {
+            holidays = this.rules
+                .flatMap(rule => this.expand(rule, year))
+                .filter(h => h.date.startsWith(`${year}-`))
+                .sort((a, b) => a.date.localeCompare(b.date));
+            this.byYear.set(year, holidays);
+        }
+        return holidays;
+    }
+
+    /**
+     * Check if a civil date (YYYY-MM-DD) is a holiday
+     */
+    isHoliday(date: string): boolean {
+        return this.getHolidays(Number(date.slice(0, 4))).some(h => h.date === date);
+    }
+
+    // Observed dates can cross the year boundary (Jan 1 on a Saturday is observed Dec 31),
+    // so fixed holidays are expanded for the neighbouring years as well
+    private expand(rule: HolidayRule, year: number): Holiday[] {
+        switch (rule.type) {
+            case 'fixed':
+                return [year - 1, year, year + 1].map(y => ({
+                    date: toIsoDate(this.observe(civilDate(y, rule.date), rule.observed)),
+                    name: rule.name,
+                }));
+            case 'nth_weekday':
+                return [{ date: toIsoDate(nthWeekday(year, rule)), name: rule.name }];
+            case 'easter':
+                return [{ date: toIsoDate(new Date(easterSunday(year).getTime() + rule.offsetDays * DAY_MS)), name: rule.name }];
+            case 'date':
+                return [{ date: rule.date, name: rule.name }];
+        }
+    }
+
+    private observe(date: Date, observed = false): Date {
+        if (!observed) return date;
+        const weekday = date.getUTCDay();
+        if (weekday === 6) return new Date(date.getTime() - DAY_MS);
+        if (weekday === 0) return new Date(date.getTime() + DAY_MS);
+        return date;
+    }
+
+    toProps(): HolidayCalendarProps {
+        return {
+            id: this.id,
+            name: this.name,
+            rules: this.rules,
+        };
+    }
+}
+
+function civilDate(year: number, monthDay: string): Date {
+    const [month, day] = monthDay.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toIsoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function nthWeekday(year: number, rule: Extract<HolidayRule, { type: 'nth_weekday' }>): Date {
+    let day: Date;
+    if (rule.nth === -1) {
+        const last = new Date(Date.UTC(year, rule.month, 0));
+        day = new Date(last.getTime() - ((last.getUTCDay() - rule.weekday + 7) % 7) * DAY_MS);
+    } else {
+        const first = new Date(Date.UTC(year, rule.month - 1, 1));
+        const firstMatch = 1 + ((rule.weekday - first.getUTCDay() + 7) % 7);
+        day = new Date(Date.UTC(year, rule.month - 1, firstMatch + (rule.nth - 1) * 7));
+    }
+    return new Date(day.getTime() + (rule.offsetDays ?? 0) * DAY_MS);
+}
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): Date {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return new Date(Date.UTC(year, month - 1, day));
+}
@@ -0,0 +1,256 @@
+/**
+ * JurisdictionRulePack - Domain Entity
+ *
+ * One version of a permit's inspection requirements: the routine inspection
+ * frequency, when a storm triggers an inspection and how soon it is due, the
+ * holiday calendar and business hours deadlines roll over, and any winter
+ * exemption. Days are evaluated in the site's time zone (UTC when not given).
+ */
+
+import { BusinessCalendar } from './BusinessCalendar';
+import type { BusinessHours } from './BusinessCalendar';
+import type { HolidayCalendar } from './HolidayCalendar';
+import type { InspectionPolicy } from '../../../weather-engine/domain/services/WeatherTriggerService';
+
+export type DeadlineRule =
+    // Within N hours of storm end; optionally extended to the next close of
+    // business when the deadline falls outside business days/hours
+    | { type: 'hours'; hours: number; rollToBusinessDay?: boolean }
+    // By the end of the Nth business day after the storm ends
+    | { type: 'business_days'; businessDays: number };
+
+export interface RoutineInspectionRule {
+    every: number;
+    unit: 'calendar_days' | 'business_days';
+}
+
+export interface StormInspectionRule {
+    qualifyingRainfallInches: number;
+    deadline: DeadlineRule;
+}
+
+export interface WinterExemption {
+    from: string;   // MM-DD
+    to: string;     // MM-DD, may wrap into the next year
+    requiresFrozenGround: boolean;
+    routine: RoutineInspectionRule | null;  // null suspends routine inspections
+    stormInspections: boolean;
+}
+
+export interface JurisdictionRulePackProps {
+    id: string;
+    version: string;    // effective date, YYYY-MM-DD
+    name: string;
+    authority: string;
+    citation?: string;
+    routine: RoutineInspectionRule;
+    stormInspection: StormInspectionRule | null;
+    holidayCalendar: string;        // HolidayCalendar id
+    businessHours?: BusinessHours;  // close of business for deadlines; end of day when unset
+    winterExemption?: WinterExemption;
+}
+
+export interface SiteRuleConditions {
+    frozenGround?: boolean;
+    timeZone?: string;
+    holidays?: HolidayCalendar;     // site calendar replacing the pack's
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const VERSION_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_DAY_FORMAT = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export class JurisdictionRulePack {
+    readonly id: string;
+    readonly version: string;
+    readonly name: string;
+    readonly authority: string;
+    readonly citation: string | null;
+    readonly routine: RoutineInspectionRule;
+    readonly stormInspection: StormInspectionRule | null;
+    readonly holidayCalendar: HolidayCalendar;
+    readonly businessHours: BusinessHours | null;
+    readonly winterExemption: WinterExemption | null;
+
+    private constructor(props: JurisdictionRulePackProps, holidayCalendar: HolidayCalendar) {
+        this.id = props.id;
+        this.version = props.version;
+        this.name = props.name;
+        this.authority = props.authority;
+        this.citation = props.citation ?? null;
+        this.routine = props.routine;
+        this.stormInspection = props.stormInspection;
+        this.holidayCalendar = holidayCalendar;
+        this.businessHours = props.businessHours ?? null;
+        this.winterExemption = props.winterExemption ?? null;
+    }
+
+    static create(props: JurisdictionRulePackProps, holidayCalendar: HolidayCalendar): JurisdictionRulePack {
+        if (!props.id || !props.name) {
+            throw new Error('Rule pack id and name are required');
+        }
+        if (!VERSION_FORMAT.test(props.version)) {
+            throw new Error(`Rule pack version must be an effective date (YYYY-MM-DD): ${props.version}`);
+        }
+        JurisdictionRulePack.validateRoutine(props.routine);
+        if (props.stormInspection) {
+            JurisdictionRulePack.validateStormInspection(props.stormInspection);
+        }
+        if (holidayCalendar.id !== props.holidayCalendar) {
+            throw new Error(`Rule pack ${props.id} uses holiday calendar ${props.holidayCalendar}, got ${holidayCalendar.id}`);
+        }
+        if (props.winterExemption) {
+            JurisdictionRulePack.validateWinterExemption(props.winterExemption);
+        }
+        if (props.businessHours) {
+            // Validates the hours format and order
+            BusinessCalendar.create({ timeZone: 'UTC', holidays: holidayCalendar, businessHours: props.businessHours });
+        }
+        return new JurisdictionRulePack(props, holidayCalendar);
+    }
+
+    private static validateRoutine(routine: RoutineInspectionRule): void {
+        if (!Number.isInteger(routine.every) || routine.every < 1) {
+            throw new Error('Routine inspection interval must be a positive whole number');
+        }
+    }
+
+    private static validateStormInspection(rule: StormInspectionRule): void {
+        if (rule.qualifyingRainfallInches <= 0) {
+            throw new Error('Qualifying rainfall must be positive');
+        }
+        const { deadline } = rule;
+        if (deadline.type === 'hours' && deadline.hours <= 0) {
+            throw new Error('Storm inspection deadline must be positive');
+        }
+        if (deadline.type === 'business_days' && (!Number.isInteger(deadline.businessDays) || deadline.businessDays < 1)) {
+            throw new Error('Storm inspection deadline must be at least one business day');
+        }
+    }
+
+    private static validateWinterExemption(exemption: WinterExemption): void {
+        if (!MONTH_DAY_FORMAT.test(exemption.from) || !MONTH_DAY_FORMAT.test(exemption.to)) {
+            throw new Error('Winter exemption dates must be MM-DD');
+        }
+        if (exemption.routine) {
+            JurisdictionRulePack.validateRoutine(exemption.routine);
+        }
+    }
+
+    /**
+     * Pack identifier including its version, e.g. "epa-cgp-14day-storm@2022-02-17"
+     */
+    get key(): string {
+        return `${this.id}@${this.version}`;
+    }
+
+    /**
+     * Business calendar for a site: its time zone with the pack's (or the site's) holidays
+     */
+    getBusinessCalendar(conditions: SiteRuleConditions = {}): BusinessCalendar {
+        return BusinessCalendar.create({
+            timeZone: conditions.timeZone ?? 'UTC',
+            holidays: conditions.holidays ?? this.holidayCalendar,
+            businessHours: this.businessHours ?? undefined,
+        });
+    }
+
+    /**
+     * Check if a date is a local weekday that is not a holiday
+     */
+    isBusinessDay(date: Date, conditions: SiteRuleConditions = {}): boolean {
+        return this.getBusinessCalendar(conditions).isBusinessDay(date);
+    }
+
+    /**
+     * Check if the winter exemption is in effect on a date
+     */
+    isWinterExempt(on: Date, conditions: SiteRuleConditions = {}): boolean {
+        const exemption = this.winterExemption;
+        if (!exemption) return false;
+        if (exemption.requiresFrozenGround && !conditions.frozenGround) return false;
+
+        const day = this.getBusinessCalendar(conditions).getLocalDate(on).slice(5);
+        return exemption.from <= exemption.to
+            ? day >= exemption.from && day <= exemption.to
+            : day >= exemption.from || day <= exemption.to;
+    }
+
+    /**
+     * Check if a storm ending at the given time requires an inspection
+     */
+    requiresStormInspection(stormEnd: Date, conditions: SiteRuleConditions = {}): boolean {
+        if (!this.stormInspection) return false;
+        return !this.isWinterExempt(stormEnd, conditions) || this.winterExemption?.stormInspections === true;
+    }
+
+    /**
+     * Deadline for the inspection after a storm ending at the given time
+     */
+    getStormInspectionDeadline(stormEnd: Date, conditions: SiteRuleConditions = {}): Date {
+        if (!this.stormInspection) {
+            throw new Error(`Rule pack ${this.key} does not require storm inspections`);
+        }
+
+        const calendar = this.getBusinessCalendar(conditions);
+        const { deadline } = this.stormInspection;
+        if (deadline.type === 'business_days') {
+            return calendar.addBusinessDays(stormEnd, deadline.businessDays);
+        }
+
+        const due = new Date(stormEnd.getTime() + deadline.hours * HOUR_MS);
+        return deadline.rollToBusinessDay && !calendar.isWithinBusinessHours(due)
+            ? calendar.getNextCloseOfBusiness(due)
+            : due;
+    }
+
+    /**
+     * Routine frequency in effect on a date (null while inspections are suspended)
+     */
+    getRoutineRule(on: Date, conditions: SiteRuleConditions = {}): RoutineInspectionRule | null {
+        if (this.winterExemption && this.isWinterExempt(on, conditions)) {
+            return this.winterExemption.routine;
+        }
+        return this.routine;
+    }
+
+    /**
+     * When the next routine inspection is due after the last one
+     * (null while routine inspections are suspended)
+     */
+    getNextRoutineInspectionDue(lastInspection: Date, conditions: SiteRuleConditions = {}): Date | null {
+        const rule = this.getRoutineRule(lastInspection, conditions);
+        if (!rule) return null;
+
+        const calendar = this.getBusinessCalendar(conditions);
+        return rule.unit === 'calendar_days'
+            ? calendar.addCalendarDays(lastInspection, rule.every)
+            : calendar.addBusinessDays(lastInspection, rule.every);
+    }
+
+    /**
+     * Storm inspection rules bound to a site's current conditions
+     */
+    toInspectionPolicy(conditions: SiteRuleConditions = {}): InspectionPolicy {
+        return {
+            qualifyingRainfallInches: this.stormInspection?.qualifyingRainfallInches ?? Infinity,
+            requiresStormInspection: stormEnd => this.requiresStormInspection(stormEnd, conditions),
+            getStormInspectionDeadline: stormEnd => this.getStormInspectionDeadline(stormEnd, conditions),
+        };
+    }
+
+    toProps(): JurisdictionRulePackProps {
+        return {
+            id: this.id,
+            version: this.version,
+            name: this.name,
+            authority: this.authority,
+            citation: this.citation ?? undefined,
+            routine: this.routine,
+            stormInspection: this.stormInspection,
+            holidayCalendar: this.holidayCalendar.id,
+            businessHours: this.businessHours ?? undefined,
+            winterExemption: this.winterExemption ?? undefined,
+        };
+    }
+}
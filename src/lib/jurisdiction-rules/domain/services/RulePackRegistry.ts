@@ -0,0 +1,82 @@
+/**
+ * RulePackRegistry - Domain Service
+ *
+ * Looks up jurisdiction rule packs by id and version, and the holiday
+ * calendars they (or individual sites) use. Sites that do not pin a version
+ * follow the most recent one.
+ */
+
+import { JurisdictionRulePack } from '../entities/JurisdictionRulePack';
+import type { JurisdictionRulePackProps } from '../entities/JurisdictionRulePack';
+import { HolidayCalendar } from '../entities/HolidayCalendar';
+import type { HolidayCalendarProps } from '../entities/HolidayCalendar';
+
+export class RulePackRegistry {
+    private readonly packs = new Map<string, JurisdictionRulePack[]>();
+    private readonly calendars = new Map<string, HolidayCalendar>();
+
+    constructor(packs: JurisdictionRulePackProps[], holidayCalendars: HolidayCalendarProps[] = []) {
+        for (const props of holidayCalendars) {
+            this.calendars.set(props.id, HolidayCalendar.create(props));
+        }
+        for (const props of packs) {
+            const pack = JurisdictionRulePack.create(props, this.getHolidayCalendar(props.holidayCalendar));
+            const versions = this.packs.get(pack.id) ?? [];
+            if (versions.some(v => v.version === pack.version)) {
+                throw new Error(`Duplicate rule pack version: ${pack.key}`);
+            }
+            versions.push(pack);
+            versions.sort((a, b) => b.version.localeCompare(a.version));
+            this.packs.set(pack.id, versions);
+        }
+    }
+
+    /**
+     * Latest version of every pack
+     */
+    list(): JurisdictionRulePack[] {
+        return [...this.packs.values()].map(versions => versions[0]);
+    }
+
+    /**
+     * All versions of a pack, newest first
+     */
+    getVersions(id: string): JurisdictionRulePack[] {
+        return this.packs.get(id) ?? [];
+    }
+
+    /**
+     * Resolve a pack by id, using the latest version when none is given
+     */
+    resolve(id: string, version?: string): JurisdictionRulePack {
+        const versions = this.getVersions(id);
+        if (versions.length === 0) {
+            throw new Error(`Unknown rule pack: ${id}`);
+        }
+        if (!version) return versions[0];
+
+        const pack = versions.find(v => v.version === version);
+        if (!pack) {
+            throw new Error(`Unknown version ${version} of rule pack ${id}`);
+        }
+        return pack;
+    }
+
+    /**
+     * All holiday calendars
+     */
+    listHolidayCalendars(): HolidayCalendar[] {
+        return [...this.calendars.values()];
+    }
+
+    /**
+     * Look up a holiday calendar by id
+     */
+    getHolidayCalendar(id: string): HolidayCalendar {
+        const calendar = this.calendars.get(id);
+        if (!calendar) {
+            throw new Error(`Unknown holiday calendar: ${id}`);
+        }
+        return calendar;
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Jurisdiction Rules Module
+ *
+ * Versioned permit inspection requirements:
+ * - Storm inspection deadlines (hours or business days, weekend/holiday aware)
+ * - Routine inspection frequencies
+ * - Frozen-ground / winter exemptions
+ * - Holiday calendars and business hours, evaluated in the site's time zone
+ *
+ * @example
+ * ```typescript
+ * import { createRulePackRegistry } from '@/lib/jurisdiction-rules';
+ *
+ * const pack = createRulePackRegistry().resolve('epa-cgp-14day-storm');
+ * const conditions = { timeZone: 'America/New_York', frozenGround: false };
+ * const deadline = pack.getStormInspectionDeadline(stormEnd, conditions);
+ * const nextDue = pack.getNextRoutineInspectionDue(lastInspection, conditions);
+ * ```
+ */
+
+// Domain Layer - Entities
+export { JurisdictionRulePack } from './domain/entities/JurisdictionRulePack';
+export type {
+    JurisdictionRulePackProps,
+    DeadlineRule,
+    RoutineInspectionRule,
+    StormInspectionRule,
+    WinterExemption,
+    SiteRuleConditions
+} from './domain/entities/JurisdictionRulePack';
+
+export { HolidayCalendar } from './domain/entities/HolidayCalendar';
+export type {
+    HolidayCalendarProps,
+    HolidayRule,
+    Holiday
+} from './domain/entities/HolidayCalendar';
+
+export { BusinessCalendar } from './domain/entities/BusinessCalendar';
+export type {
+    BusinessCalendarProps,
+    BusinessHours
+} from './domain/entities/BusinessCalendar';
+
+// Domain Layer - Services
+export { RulePackRegistry } from './domain/services/RulePackRegistry';
+
+// Infrastructure Layer
+export { BUILT_IN_RULE_PACKS } from './infrastructure/builtInRulePacks';
+export { BUILT_IN_HOLIDAY_CALENDARS } from './infrastructure/builtInHolidayCalendars';
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+import { RulePackRegistry } from './domain/services/RulePackRegistry';
+import { BUILT_IN_RULE_PACKS } from './infrastructure/builtInRulePacks';
+import { BUILT_IN_HOLIDAY_CALENDARS } from './infrastructure/builtInHolidayCalendars';
+
+/**
+ * Create a registry of the built-in rule packs and holiday calendars
+ */
+export function createRulePackRegistry(): RulePackRegistry {
+    return new RulePackRegistry(BUILT_IN_RULE_PACKS, BUILT_IN_HOLIDAY_CALENDARS);
+}
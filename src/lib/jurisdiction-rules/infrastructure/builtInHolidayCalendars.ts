@@ -0,0 +1,57 @@
+/**
+ * Built-in Holiday Calendars - Seed Data
+ *
+ * Holiday calendars rule packs and sites can select. Add one-off closures
+ * (e.g. a state emergency) as `date` rules.
+ */
+
+import type { HolidayCalendarProps, HolidayRule } from '../domain/entities/HolidayCalendar';
+
+const MONDAY = 1;
+const THURSDAY = 4;
+
+const US_FEDERAL_RULES: HolidayRule[] = [
+    { type: 'fixed', name: "New Year's Day", date: '01-01', observed: true },
+    { type: 'nth_weekday', name: 'Martin Luther King Jr. Day', month: 1, weekday: MONDAY, nth: 3 },
+    { type: 'nth_weekday', name: "Washington's Birthday", month: 2, weekday: MONDAY, nth: 3 },
+    { type: 'nth_weekday', name: 'Memorial Day', month: 5, weekday: MONDAY, nth: -1 },
+    { type: 'fixed', name: 'Juneteenth', date: '06-19', observed: true },
+    { type: 'fixed', name: 'Independence Day', date: '07-04', observed: true },
+    { type: 'nth_weekday', name: 'Labor Day', month: 9, weekday: MONDAY, nth: 1 },
+    { type: 'nth_weekday', name: 'Columbus Day', month: 10, weekday: MONDAY, nth: 2 },
+    { type: 'fixed', name: 'Veterans Day', date: '11-11', observed: true },
+    { type: 'nth_weekday', name: 'Thanksgiving Day', month: 11, weekday: THURSDAY, nth: 4 },
+    { type: 'fixed', name: 'Christmas Day', date: '12-25', observed: true },
+];
+
+export const BUILT_IN_HOLIDAY_CALENDARS: HolidayCalendarProps[] = [
+    {
+        id: 'us-federal',
+        name: 'US federal holidays',
+        rules: US_FEDERAL_RULES,
+    },
+    {
+        id: 'us-va',
+        name: 'Virginia state holidays',
+        rules: [
+            ...US_FEDERAL_RULES,
+            { type: 'nth_weekday', name: 'Day after Thanksgiving', month: 11, weekday: THURSDAY, nth: 4, offsetDays: 1 },
+        ],
+    },
+    {
+        id: 'de-be',
+        name: 'Berlin public holidays',
+        rules: [
+            { type: 'fixed', name: 'Neujahr', date: '01-01' },
+            { type: 'fixed', name: 'Internationaler Frauentag', date: '03-08' },
+            { type: 'easter', name: 'Karfreitag', offsetDays: -2 },
+            { type: 'easter', name: 'Ostermontag', offsetDays: 1 },
+            { type: 'fixed', name: 'Tag der Arbeit', date: '05-01' },
+            { type: 'easter', name: 'Christi Himmelfahrt', offsetDays: 39 },
+            { type: 'easter', name: 'Pfingstmontag', offsetDays: 50 },
+            { type: 'fixed', name: 'Tag der Deutschen Einheit', date: '10-03' },
+            { type: 'fixed', name: '1. Weihnachtstag', date: '12-25' },
+            { type: 'fixed', name: '2. Weihnachtstag', date: '12-26' },
+        ],
+    },
+];
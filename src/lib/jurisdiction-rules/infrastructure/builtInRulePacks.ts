@@ -0,0 +1,71 @@
+/**
+ * Built-in Rule Packs - Seed Data
+ *
+ * Inspection requirements of the construction general permits we support
+ * out of the box. Add a new entry with a later version when a permit is
+ * reissued; existing sites can stay pinned to the version they were permitted under.
+ */
+
+import type { JurisdictionRulePackProps, WinterExemption } from '../domain/entities/JurisdictionRulePack';
+
+// CGP Part 4.4: frozen ground allows monthly inspections and no storm inspections
+const CGP_FROZEN_GROUND: WinterExemption = {
+    from: '11-01',
+    to: '03-31',
+    requiresFrozenGround: true,
+    routine: { every: 30, unit: 'calendar_days' },
+    stormInspections: false,
+};
+
+export const BUILT_IN_RULE_PACKS: JurisdictionRulePackProps[] = [
+    {
+        id: 'epa-cgp-7day',
+        version: '2022-02-17',
+        name: 'EPA CGP - every 7 calendar days',
+        authority: 'US EPA',
+        citation: '2022 CGP Part 4.2.2',
+        routine: { every: 7, unit: 'calendar_days' },
+        stormInspection: null,
+        holidayCalendar: 'us-federal',
+        winterExemption: CGP_FROZEN_GROUND,
+    },
+    {
+        id: 'epa-cgp-14day-storm',
+        version: '2022-02-17',
+        name: 'EPA CGP - every 14 days and within 24 hours of a 0.25" storm',
+        authority: 'US EPA',
+        citation: '2022 CGP Part 4.2.2',
+        routine: { every: 14, unit: 'calendar_days' },
+        stormInspection: {
+            qualifyingRainfallInches: 0.25,
+            deadline: { type: 'hours', hours: 24, rollToBusinessDay: true },
+        },
+        holidayCalendar: 'us-federal',
+        winterExemption: CGP_FROZEN_GROUND,
+    },
+    {
+        id: 'va-vsmp-5bd',
+        version: '2024-07-01',
+        name: 'Virginia VSMP - every 5 business days',
+        authority: 'Virginia DEQ',
+        citation: '9VAC25-880-70 Part II.G',
+        routine: { every: 5, unit: 'business_days' },
+        stormInspection: null,
+        holidayCalendar: 'us-va',
+        businessHours: { start: '08:00', end: '17:00' },
+    },
+    {
+        id: 'va-vsmp-10bd-storm',
+        version: '2024-07-01',
+        name: 'Virginia VSMP - every 10 business days and within 48 hours of a 0.25" storm',
+        authority: 'Virginia DEQ',
+        citation: '9VAC25-880-70 Part II.G',
+        routine: { every: 10, unit: 'business_days' },
+        stormInspection: {
+            qualifyingRainfallInches: 0.25,
+            deadline: { type: 'hours', hours: 48, rollToBusinessDay: true },
+        },
+        holidayCalendar: 'us-va',
+        businessHours: { start: '08:00', end: '17:00' },
+    },
+];
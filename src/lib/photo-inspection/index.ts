@@ -47,9 +47,16 @@ export type {
     AnalysisOutput
 } from './ports/IVisionModelPort';
 
+export type {
+    IInspectionRepositoryPort,
+    InspectionQuery
+} from './ports/IInspectionRepositoryPort';
+
 // Infrastructure - Adapters
 export { MockVisionAdapter } from './infrastructure/MockVisionAdapter';
 export type { MockPhotoType } from './infrastructure/MockVisionAdapter';
+export { InMemoryInspectionRepository } from './infrastructure/InMemoryInspectionRepository';
+export { JsonLinesInspectionRepository } from './infrastructure/JsonLinesInspectionRepository';
 
 // ============================================================================
 // Factory Functions
@@ -57,6 +64,9 @@ export type { MockPhotoType } from './infrastructure/MockVisionAdapter';
 
 import { DefectDetectionService } from './domain/services/DefectDetectionService';
 import { MockVisionAdapter } from './infrastructure/MockVisionAdapter';
+import { JsonLinesInspectionRepository } from './infrastructure/JsonLinesInspectionRepository';
+import type { IInspectionRepositoryPort } from './ports/IInspectionRepositoryPort';
+import { resolveDataPath } from '../shared';
 
 /**
  * Create a defect detection service with mock adapter
@@ -65,3 +75,10 @@ export function createDefectDetectionService(): DefectDetectionService {
     const adapter = new MockVisionAdapter();
     return new DefectDetectionService(adapter);
 }
+
+/**
+ * Create an inspection repository backed by the data directory
+ */
+export function createInspectionRepository(): IInspectionRepositoryPort {
+    return new JsonLinesInspectionRepository(resolveDataPath('inspections.jsonl'));
+}
@@ -0,0 +1,37 @@
+/**
+ * InMemoryInspectionRepository - Infrastructure Adapter
+ *
+ * Non-persistent inspection repository for development/testing.
+ */
+
+import type { AnalysisResult } from '../domain/services/DefectDetectionService';
+import type { IInspectionRepositoryPort, InspectionQuery } from '../ports/IInspectionRepositoryPort';
+
+/**
+ * Apply query filters and order newest capture first
+ */
+export function filterInspections(results: AnalysisResult[], query: InspectionQuery): AnalysisResult[] {
+    return results
+        .filter(r => !query.siteId || r.photo.siteId === query.siteId)
+        .filter(r => !query.inspectorId || r.photo.inspectorId === query.inspectorId)
+        .filter(r => !query.capturedFrom || r.photo.capturedAt >= query.capturedFrom)
+        .filter(r => !query.capturedTo || r.photo.capturedAt <= query.capturedTo)
+        .filter(r => query.isCompliant === undefined || r.isCompliant === query.isCompliant)
+        .sort((a, b) => b.photo.capturedAt.getTime() - a.photo.capturedAt.getTime());
+}
+
+export class InMemoryInspectionRepository implements IInspectionRepositoryPort {
+    private readonly results = new Map<string, AnalysisResult>();
+
+    async save(result: AnalysisResult): Promise<void> {
+        this.results.set(result.photo.id, result);
+    }
+
+    async findById(photoId: string): Promise<AnalysisResult | null> {
+        return this.results.get(photoId) ?? null;
+    }
+
+    async find(query: InspectionQuery = {}): Promise<AnalysisResult[]> {
+        return filterInspections([...this.results.values()], query);
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * JsonLinesInspectionRepository - Infrastructure Adapter
+ *
+ * Append-only file-backed inspection repository. Every analysis is written
+ * as one JSON line so evidence survives API restarts and is never rewritten.
+ */
+
+import { BMPDefect } from '../domain/entities/BMPDefect';
+import type { BMPDefectProps } from '../domain/entities/BMPDefect';
+import { InspectionPhoto } from '../domain/entities/InspectionPhoto';
+import type { InspectionPhotoProps } from '../domain/entities/InspectionPhoto';
+import type { AnalysisResult } from '../domain/services/DefectDetectionService';
+import type { IInspectionRepositoryPort, InspectionQuery } from '../ports/IInspectionRepositoryPort';
+import { filterInspections } from './InMemoryInspectionRepository';
+import { JsonLinesFileStore } from '../../shared/infrastructure/JsonLinesFileStore';
+
+type PhotoRecord = Omit<InspectionPhotoProps, 'capturedAt' | 'analyzedAt'> & {
+    capturedAt: string;
+    analyzedAt: string | null;
+};
+
+type DefectRecord = Omit<BMPDefectProps, 'detectedAt'> & {
+    detectedAt: string;
+};
+
+interface InspectionRecord {
+    photo: PhotoRecord;
+    defects: DefectRecord[];
+    isCompliant: boolean;
+    requiresManualReview: boolean;
+    reviewReason?: string;
+    processingTimeMs: number;
+    recordedAt: string;
+}
+
+export class JsonLinesInspectionRepository implements IInspectionRepositoryPort {
+    private readonly store: JsonLinesFileStore<InspectionRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonLinesFileStore<InspectionRecord>(filePath);
+    }
+
+    async save(result: AnalysisResult): Promise<void> {
+        await this.store.append(this.toRecord(result));
+    }
+
+    async findById(photoId: string): Promise<AnalysisResult | null> {
+        const results = await this.loadAll();
+        return results.find(r => r.photo.id === photoId) ?? null;
+    }
+
+    async find(query: InspectionQuery = {}): Promise<AnalysisResult[]> {
+        return filterInspections(await this.loadAll(), query);
+    }
+
+    /**
+     * Load all results; a later line for the same photo supersedes earlier ones
+     */
+    private async loadAll(): Promise<AnalysisResult[]> {
+        const latest = new Map<string, AnalysisResult>();
+        for (const record of await this.store.readAll()) {
+            latest.set(record.photo.id, this.toResult(record));
+        }
+        return [...latest.values()];
+    }
+
+    private toRecord(result: AnalysisResult): InspectionRecord {
+        const { photo } = result;
+        return {
+            photo: {
+                id: photo.id,
+                siteId: photo.siteId,
+                inspectorId: photo.inspectorId,
+                capturedAt: photo.capturedAt.toISOString(),
+                imageUrl: photo.imageUrl,
+                gpsCoordinates: photo.gpsCoordinates ?? undefined,
+                deviceId: photo.deviceId ?? undefined,
+                analyzedAt: photo.analyzedAt?.toISOString() ?? null,
+                analysisStatus: photo.analysisStatus,
+            },
+            defects: result.defects.map(d => ({
+                id: d.id,
+                inspectionId: d.inspectionId,
+                defectClass: d.defectClass,
+                confidence: d.confidence,
+                severity: d.severity,
+                boundingBox: d.boundingBox ?? undefined,
+                recommendedAction: d.recommendedAction ?? undefined,
+                detectedAt: d.detectedAt.toISOString(),
+            })),
+            isCompliant: result.isCompliant,
+            requiresManualReview: result.requiresManualReview,
+            reviewReason: result.reviewReason,
+            processingTimeMs: result.processingTimeMs,
+            recordedAt: new Date().toISOString(),
+        };
+    }
+
+    private toResult(record: InspectionRecord): AnalysisResult {
+        return {
+            photo: InspectionPhoto.create({
+                ...record.photo,
+                capturedAt: new Date(record.photo.capturedAt),
+                analyzedAt: record.photo.analyzedAt ? new Date(record.photo.analyzedAt) : undefined,
+            }),
+            defects: record.defects.map(d => BMPDefect.create({
+                ...d,
+                detectedAt: new Date(d.detectedAt),
+            })),
+            isCompliant: record.isCompliant,
+            requiresManualReview: record.requiresManualReview,
+            reviewReason: record.reviewReason,
+            processingTimeMs: record.processingTimeMs,
+        };
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * IInspectionRepositoryPort - Port Interface
+ *
+ * Interface for durable storage of photo analysis results (compliance evidence).
+ */
+
+import type { AnalysisResult } from '../domain/services/DefectDetectionService';
+
+export interface InspectionQuery {
+    siteId?: string;
+    inspectorId?: string;
+    capturedFrom?: Date;
+    capturedTo?: Date;
+    isCompliant?: boolean;
+}
+
+export interface IInspectionRepositoryPort {
+    /**
+     * Persist an analysis result with its photo and defects
+     */
+    save(result: AnalysisResult): Promise<void>;
+
+    /**
+     * Find an analysis result by photo id
+     */
+    findById(photoId: string): Promise<AnalysisResult | null>;
+
+    /**
+     * List analysis results matching all given filters, newest capture first
+     */
+    find(query?: InspectionQuery): Promise<AnalysisResult[]>;
+}
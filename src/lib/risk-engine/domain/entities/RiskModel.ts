@@ -0,0 +1,253 @@
+/**
+ * RiskModel - Domain Entity
+ *
+ * One version of a declarative risk model: which site inputs contribute to
+ * the score, through which curve, with what weight and cap, and the score
+ * at which each risk level starts. Definitions are validated on load; a
+ * published version must never change, since scores record the version
+ * that produced them.
+ */
+
+import { z } from 'zod';
+import type { RiskFactor, RiskInputs, RiskLevel, RiskLevelThresholds, RiskModelRef } from './RiskScore';
+import { RiskScore } from './RiskScore';
+
+export type NumericRiskInput =
+    | 'slopePercent'
+    | 'acreage'
+    | 'daysSinceLastInspection'
+    | 'historicalNOVCount'
+    | 'precipitationInches'
+    | 'soilLossTonsPerAcre'
+    | 'poorBmpCount'
+    | 'staleBmpCount';
+
+export type CategoricalRiskInput = 'soilType' | 'phase';
+
+export type RiskCurve =
+    // The input value itself
+    | { type: 'linear' }
+    // Interpolated between [input, value] points, flat beyond the first and last
+    | { type: 'piecewise'; points: [number, number][] }
+    // Value per category; unlisted categories are 0
+    | { type: 'categorical'; values: Record<string, number> };
+
+export interface RiskFactorDefinition {
+    name: string;
+    input: NumericRiskInput | CategoricalRiskInput;
+    curve: RiskCurve;
+    weight: number;                 // contribution = weight * curve(input)
+    cap?: number;                   // maximum contribution
+    reportAbove?: number;           // listed on the score above this contribution (default 0)
+    namesAbove?: { above: number; name: string }[];    // renamed when the input exceeds a value
+    description: string;            // {value} or {value:N} for N decimals
+}
+
+export interface RiskModelDefinition {
+    id: string;
+    version: number;
+    name: string;
+    description?: string;
+    appliesTo?: {
+        organizations?: string[];
+        jurisdictions?: string[];
+    };
+    factors: RiskFactorDefinition[];
+    levels: RiskLevelThresholds;
+}
+
+export interface RiskEvaluation {
+    factors: RiskFactor[];
+    score: number;
+}
+
+const NUMERIC_INPUTS = [
+    'slopePercent',
+    'acreage',
+    'daysSinceLastInspection',
+    'historicalNOVCount',
+    'precipitationInches',
+    'soilLossTonsPerAcre',
+    'poorBmpCount',
+    'staleBmpCount',
+] as const;
+const CATEGORICAL_INPUTS = ['soilType', 'phase'] as const;
+const VALUE_PLACEHOLDER = /\{value(?::(\d))?\}/g;
+
+const curveSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('linear') }),
+    z.object({
+        type: z.literal('piecewise'),
+        points: z.array(z.tuple([z.number(), z.number()])).min(2)
+            .refine(points => points.every((p, i) => i === 0 || p[0] > points[i - 1][0]), 'Curve points must be in ascending input order'),
+    }),
+    z.object({ type: z.literal('categorical'), values: z.record(z.string(), z.number()) }),
+]);
+
+const factorSchema = z.object({
+    name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Factor names are snake_case'),
+    input: z.enum([...NUMERIC_INPUTS, ...CATEGORICAL_INPUTS]),
+    curve: curveSchema,
+    weight: z.number(),
+    cap: z.number().nonnegative().optional(),
+    reportAbove: z.number().nonnegative().optional(),
+    namesAbove: z.array(z.object({ above: z.number(), name: z.string().min(1) })).optional(),
+    description: z.string().min(1),
+}).refine(
+    factor => (factor.curve.type === 'categorical') === (CATEGORICAL_INPUTS as readonly string[]).includes(factor.input),
+    { message: 'Categorical curves apply to soilType and phase only, and those inputs need one', path: ['curve'] }
+);
+
+const riskModelSchema: z.ZodType<RiskModelDefinition> = z.object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Model ids are lowercase with dashes'),
+    version: z.number().int().positive(),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    appliesTo: z.object({
+        organizations: z.array(z.string().min(1)).optional(),
+        jurisdictions: z.array(z.string().min(1)).optional(),
+    }).optional(),
+    factors: z.array(factorSchema).min(1)
+        .refine(factors => new Set(factors.map(f => f.name)).size === factors.length, 'Factor names must be unique'),
+    levels: z.object({
+        moderate: z.number().min(0).max(100),
+        high: z.number().min(0).max(100),
+        critical: z.number().min(0).max(100),
+    }).refine(l => l.moderate < l.high && l.high < l.critical, 'Level thresholds must increase from moderate to critical'),
+});
+
+export class RiskModel {
+    readonly id: string;
+    readonly version: number;
+    readonly name: string;
+    readonly description: string | null;
+    readonly organizations: string[];
+    readonly jurisdictions: string[];
+    readonly factors: RiskFactorDefinition[];
+    readonly levels: RiskLevelThresholds;
+
+    private constructor(props: RiskModelDefinition) {
+        this.id = props.id;
+        this.version = props.version;
+        this.name = props.name;
+        this.description = props.description ?? null;
+        this.organizations = props.appliesTo?.organizations ?? [];
+        this.jurisdictions = props.appliesTo?.jurisdictions ?? [];
+        this.factors = props.factors;
+        this.levels = props.levels;
+    }
+
+    static create(props: RiskModelDefinition): RiskModel {
+        return RiskModel.parse(props);
+    }
+
+    /**
+     * Validate an untrusted definition, e.g. one read from a JSON file
+     */
+    static parse(definition: unknown): RiskModel {
+        const result = riskModelSchema.safeParse(definition);
+        if (!result.success) {
+            const issues = result.error.issues
+                .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+                .join('; ');
+            throw new Error(`Invalid risk model: ${issues}`);
+        }
+        return new RiskModel(result.data);
+    }
+
+    /**
+     * Id and version, e.g. escacs-default@1
+     */
+    get key(): string {
+        return `${this.id}@${this.version}`;
+    }
+
+    get ref(): RiskModelRef {
+        return { id: this.id, version: this.version };
+    }
+
+    appliesToOrganization(organizationId: string): boolean {
+        return this.organizations.includes(organizationId);
+    }
+
+    appliesToJurisdiction(jurisdiction: string): boolean {
+        return this.jurisdictions.includes(jurisdiction);
+    }
+
+    /**
+     * Score the inputs; every factor counts towards the score, but only those
+     * above their reporting threshold are listed
+     */
+    evaluate(inputs: RiskInputs): RiskEvaluation {
+        const factors: RiskFactor[] = [];
+        let total = 0;
+
+        for (const factor of this.factors) {
+            const value = inputs[factor.input];
+            const contribution = this.contribution(factor, value);
+            total += contribution;
+
+            if (contribution > (factor.reportAbove ?? 0)) {
+                factors.push({
+                    name: this.factorName(factor, value),
+                    contribution,
+                    description: this.describe(factor, value),
+                });
+            }
+        }
+
+        return { factors, score: Math.max(0, Math.min(100, total)) };
+    }
+
+    determineLevel(score: number): RiskLevel {
+        return RiskScore.determineLevel(score, this.levels);
+    }
+
+    toDefinition(): RiskModelDefinition {
+        return {
+            id: this.id,
+            version: this.version,
+            name: this.name,
+            description: this.description ?? undefined,
+            appliesTo: { organizations: this.organizations, jurisdictions: this.jurisdictions },
+            factors: this.factors,
+            levels: this.levels,
+        };
+    }
+
+    private contribution(factor: RiskFactorDefinition, value: number | string): number {
+        const weighted = factor.weight * this.applyCurve(factor.curve, value);
+        return factor.cap === undefined ? weighted : Math.min(factor.cap, weighted);
+    }
+
+    private applyCurve(curve: RiskCurve, value: number | string): number {
+        if (curve.type === 'categorical') return curve.values[String(value)] ?? 0;
+
+        const x = Number(value);
+        if (curve.type === 'linear') return x;
+
+        const { points } = curve;
+        if (x <= points[0][0]) return points[0][1];
+        for (let i = 1; i < points.length; i++) {
+            const [x1, y1] = points[i];
+            if (x <= x1) {
+                const [x0, y0] = points[i - 1];
+                return y0 + ((x - x0) / (x1 - x0)) * (y1 - y0);
+            }
+        }
+        return points[points.length - 1][1];
+    }
+
+    private factorName(factor: RiskFactorDefinition, value: number | string): string {
+        const renamed = (factor.namesAbove ?? [])
+            .filter(variant => typeof value === 'number' && value > variant.above)
+            .sort((a, b) => b.above - a.above)[0];
+        return renamed?.name ?? factor.name;
+    }
+
+    private describe(factor: RiskFactorDefinition, value: number | string): string {
+        return factor.description.replace(VALUE_PLACEHOLDER, (_match, decimals: string | undefined) =>
+            decimals !== undefined && typeof value === 'number' ? value.toFixed(Number(decimals)) : String(value)
+        );
+    }
+}
@@ -1,9 +1,13 @@
 /**
  * RiskScore - Domain Entity
  * 
- * Represents a violation risk assessment for a construction site.
+ * Represents a violation risk assessment for a construction site. Every score
+ * records the risk model version and the inputs it was calculated from, so it
+ * can be reproduced later.
  */
 
+import type { ConstructionPhase, SoilType } from './SiteCondition';
+
 export type RiskLevel = 'low' | 'moderate' | 'high' | 'critical';
 
 export interface PreventiveAction {
@@ -18,6 +22,41 @@ export interface RiskFactor {
     description: string;
 }
 
+// Lowest score of each level; anything below moderate is low
+export interface RiskLevelThresholds {
+    moderate: number;
+    high: number;
+    critical: number;
+}
+
+export const DEFAULT_LEVEL_THRESHOLDS: RiskLevelThresholds = {
+    moderate: 30,
+    high: 60,
+    critical: 90,
+};
+
+// Values the risk model was evaluated against
+export interface RiskInputs {
+    slopePercent: number;
+    soilType: SoilType;
+    phase: ConstructionPhase;
+    acreage: number;
+    daysSinceLastInspection: number;
+    historicalNOVCount: number;
+    precipitationInches: number;    // forecast for the score's horizon
+    soilLossTonsPerAcre: number;    // RUSLE estimate for the horizon's rain
+    poorBmpCount: number;           // BMPs rated poor
+    staleBmpCount: number;          // other BMPs not inspected since the last storm
+}
+
+// Where the rain a score was calculated against came from
+export type WeatherSource = 'provider_forecast' | 'supplied';
+
+export interface RiskModelRef {
+    id: string;
+    version: number;
+}
+
 export interface RiskScoreProps {
     id: string;
     siteId: string;
@@ -26,6 +65,9 @@ export interface RiskScoreProps {
     factors: RiskFactor[];
     actions: PreventiveAction[];
     horizonHours: 24 | 48 | 72;
+    model: RiskModelRef;
+    inputs: RiskInputs;
+    weatherSource?: WeatherSource;  // unset when scored from recorded inputs or hourly rain
     calculatedAt: Date;
     expiresAt: Date;
 }
@@ -38,6 +80,9 @@ export class RiskScore {
     readonly factors: RiskFactor[];
     readonly actions: PreventiveAction[];
     readonly horizonHours: 24 | 48 | 72;
+    readonly model: RiskModelRef;
+    readonly inputs: RiskInputs;
+    readonly weatherSource: WeatherSource | null;
     readonly calculatedAt: Date;
     readonly expiresAt: Date;
 
@@ -49,29 +94,43 @@ export class RiskScore {
         this.factors = props.factors;
         this.actions = props.actions;
         this.horizonHours = props.horizonHours;
+        this.model = props.model;
+        this.inputs = props.inputs;
+        this.weatherSource = props.weatherSource ?? null;
         this.calculatedAt = props.calculatedAt;
         this.expiresAt = props.expiresAt;
     }
 
-    static create(props: Omit<RiskScoreProps, 'level' | 'expiresAt'>): RiskScore {
+    static create(
+        props: Omit<RiskScoreProps, 'level' | 'expiresAt'>,
+        thresholds: RiskLevelThresholds = DEFAULT_LEVEL_THRESHOLDS
+    ): RiskScore {
         if (props.score < 0 || props.score > 100) {
             throw new Error('Score must be between 0 and 100');
         }
 
-        const level = RiskScore.determineLevel(props.score);
+        const level = RiskScore.determineLevel(props.score, thresholds);
         const expiresAt = new Date(props.calculatedAt);
         expiresAt.setHours(expiresAt.getHours() + 6); // Expires in 6 hours
 
         return new RiskScore({ ...props, level, expiresAt });
     }
 
+    /**
+     * Rebuild a stored score as it was calculated; its level came from the
+     * thresholds of the model that produced it
+     */
+    static restore(props: RiskScoreProps): RiskScore {
+        return new RiskScore(props);
+    }
+
     /**
      * Determine risk level from score
      */
-    static determineLevel(score: number): RiskLevel {
-        if (score >= 90) return 'critical';
-        if (score >= 60) return 'high';
-        if (score >= 30) return 'moderate';
+    static determineLevel(score: number, thresholds: RiskLevelThresholds = DEFAULT_LEVEL_THRESHOLDS): RiskLevel {
+        if (score >= thresholds.critical) return 'critical';
+        if (score >= thresholds.high) return 'high';
+        if (score >= thresholds.moderate) return 'moderate';
         return 'low';
     }
 
@@ -97,4 +156,21 @@ export class RiskScore {
     requiresImmediateAction(): boolean {
         return this.level === 'critical' || this.level === 'high';
     }
+
+    toProps(): RiskScoreProps {
+        return {
+            id: this.id,
+            siteId: this.siteId,
+            score: this.score,
+            level: this.level,
+            factors: this.factors,
+            actions: this.actions,
+            horizonHours: this.horizonHours,
+            model: this.model,
+            inputs: this.inputs,
+            weatherSource: this.weatherSource ?? undefined,
+            calculatedAt: this.calculatedAt,
+            expiresAt: this.expiresAt,
+        };
+    }
 }
@@ -13,9 +13,26 @@ export type ConstructionPhase =
 
 export type SoilType = 'sandy' | 'loam' | 'clay' | 'rocky';
 
+// USDA soil texture classes; more precise than SoilType for erodibility
+export type SoilTexture =
+    | 'sand'
+    | 'loamy_sand'
+    | 'sandy_loam'
+    | 'loam'
+    | 'silt_loam'
+    | 'silt'
+    | 'sandy_clay_loam'
+    | 'clay_loam'
+    | 'silty_clay_loam'
+    | 'sandy_clay'
+    | 'silty_clay'
+    | 'clay';
+
 export interface BMPInventoryItem {
-    type: string;
+    id?: string;
+    type: string;           // e.g. silt_fence, inlet_protection, check_dam
     count: number;
+    location?: string;      // e.g. north perimeter
     lastInspectionDate: Date;
     conditionRating: 'good' | 'fair' | 'poor';
 }
@@ -25,10 +42,13 @@ export interface SiteConditionProps {
     phase: ConstructionPhase;
     slopePercent: number;
     soilType: SoilType;
+    soilTexture?: SoilTexture;
+    slopeLengthFeet?: number;   // length of the longest disturbed slope
     acreage: number;
     daysSinceLastInspection: number;
     bmpInventory: BMPInventoryItem[];
     historicalNOVCount: number;
+    lastStormEndedAt?: Date;    // end of the most recent storm that required an inspection
     observedAt: Date;
 }
 
@@ -37,10 +57,13 @@ export class SiteCondition {
     readonly phase: ConstructionPhase;
     readonly slopePercent: number;
     readonly soilType: SoilType;
+    readonly soilTexture: SoilTexture | null;
+    readonly slopeLengthFeet: number | null;
     readonly acreage: number;
     readonly daysSinceLastInspection: number;
     readonly bmpInventory: BMPInventoryItem[];
     readonly historicalNOVCount: number;
+    readonly lastStormEndedAt: Date | null;
     readonly observedAt: Date;
 
     private constructor(props: SiteConditionProps) {
@@ -48,10 +71,13 @@ export class SiteCondition {
         this.phase = props.phase;
         this.slopePercent = props.slopePercent;
         this.soilType = props.soilType;
+        this.soilTexture = props.soilTexture ?? null;
+        this.slopeLengthFeet = props.slopeLengthFeet ?? null;
         this.acreage = props.acreage;
         this.daysSinceLastInspection = props.daysSinceLastInspection;
         this.bmpInventory = props.bmpInventory;
         this.historicalNOVCount = props.historicalNOVCount;
+        this.lastStormEndedAt = props.lastStormEndedAt ?? null;
         this.observedAt = props.observedAt;
     }
 
@@ -59,9 +85,36 @@ export class SiteCondition {
         if (props.slopePercent < 0) {
             throw new Error('Slope cannot be negative');
         }
+        if (props.slopeLengthFeet !== undefined && props.slopeLengthFeet <= 0) {
+            throw new Error('Slope length must be positive');
+        }
         return new SiteCondition(props);
     }
 
+    /**
+     * Copy with the given conditions changed, e.g. to simulate an intervention
+     */
+    withChanges(changes: Partial<Omit<SiteConditionProps, 'siteId'>>): SiteCondition {
+        return SiteCondition.create({ ...this.toProps(), ...changes });
+    }
+
+    toProps(): SiteConditionProps {
+        return {
+            siteId: this.siteId,
+            phase: this.phase,
+            slopePercent: this.slopePercent,
+            soilType: this.soilType,
+            soilTexture: this.soilTexture ?? undefined,
+            slopeLengthFeet: this.slopeLengthFeet ?? undefined,
+            acreage: this.acreage,
+            daysSinceLastInspection: this.daysSinceLastInspection,
+            bmpInventory: this.bmpInventory,
+            historicalNOVCount: this.historicalNOVCount,
+            lastStormEndedAt: this.lastStormEndedAt ?? undefined,
+            observedAt: this.observedAt,
+        };
+    }
+
     /**
      * Check if site is in a high-risk construction phase
      */
@@ -87,6 +140,19 @@ export class SiteCondition {
      * Get count of BMPs in poor condition
      */
     getPoorConditionBMPCount(): number {
-        return this.bmpInventory.filter(b => b.conditionRating === 'poor').length;
+        return this.getPoorConditionBMPs().length;
+    }
+
+    getPoorConditionBMPs(): BMPInventoryItem[] {
+        return this.bmpInventory.filter(b => b.conditionRating === 'poor');
+    }
+
+    /**
+     * BMPs not inspected since the last storm; poor ones are left out as they need replacing anyway
+     */
+    getStaleBMPs(): BMPInventoryItem[] {
+        const lastStorm = this.lastStormEndedAt;
+        if (!lastStorm) return [];
+        return this.bmpInventory.filter(b => b.conditionRating !== 'poor' && b.lastInspectionDate < lastStorm);
     }
 }
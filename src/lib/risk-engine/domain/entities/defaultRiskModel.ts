@@ -0,0 +1,121 @@
+/**
+ * Default Risk Model
+ *
+ * Organizations and jurisdictions without a model of their own are scored
+ * with the latest version; publish changes as a new version so earlier
+ * scores stay reproducible.
+ * - v1: the weights scores were calculated with before models became configurable
+ * - v2: RUSLE soil loss estimate instead of flagging sandy soil
+ * - v3: BMPs in poor condition or not inspected since the last storm
+ */
+
+import type { RiskFactorDefinition, RiskModelDefinition } from './RiskModel';
+
+export const DEFAULT_RISK_MODEL_V1: RiskModelDefinition = {
+    id: 'escacs-default',
+    version: 1,
+    name: 'ESCACS default',
+    description: 'Slope, soil, phase, inspection recency, forecast rain and violation history',
+    factors: [
+        {
+            name: 'steep_slope',
+            input: 'slopePercent',
+            curve: { type: 'linear' },
+            weight: 1.5,
+            cap: 20,
+            reportAbove: 10,
+            description: 'Slope of {value}% increases erosion risk',
+        },
+        {
+            name: 'erodible_soil',
+            input: 'soilType',
+            curve: { type: 'categorical', values: { sandy: 1 } },
+            weight: 15,
+            description: 'Sandy soil is highly susceptible to erosion',
+        },
+        {
+            name: 'high_risk_phase',
+            input: 'phase',
+            curve: { type: 'categorical', values: { clearing: 1, grading: 1 } },
+            weight: 15,
+            description: '{value} phase has increased disturbance',
+        },
+        {
+            name: 'inspection_overdue',
+            input: 'daysSinceLastInspection',
+            curve: { type: 'linear' },
+            weight: 2,
+            cap: 15,
+            reportAbove: 7,
+            description: '{value} days since last inspection',
+        },
+        {
+            name: 'rain_forecast',
+            input: 'precipitationInches',
+            curve: { type: 'linear' },
+            weight: 25,
+            cap: 30,
+            reportAbove: 10,
+            namesAbove: [{ above: 1.0, name: 'heavy_rain_forecast' }],
+            description: '{value:2}" precipitation forecast',
+        },
+        {
+            name: 'historical_violations',
+            input: 'historicalNOVCount',
+            curve: { type: 'linear' },
+            weight: 5,
+            cap: 15,
+            description: '{value} NOVs in past 12 months',
+        },
+    ],
+    levels: { moderate: 30, high: 60, critical: 90 },
+};
+
+const SOIL_LOSS_FACTOR: RiskFactorDefinition = {
+    name: 'soil_loss',
+    input: 'soilLossTonsPerAcre',
+    // Bare construction sites lose tens of tons per acre a year; a single storm above 1 ton/acre is serious
+    curve: { type: 'piecewise', points: [[0, 0], [1, 10], [5, 20], [20, 30]] },
+    weight: 1,
+    reportAbove: 5,
+    description: '{value:2} tons/acre estimated soil loss',
+};
+
+export const DEFAULT_RISK_MODEL_V2: RiskModelDefinition = {
+    ...DEFAULT_RISK_MODEL_V1,
+    version: 2,
+    description: 'Slope, RUSLE soil loss, phase, inspection recency, forecast rain and violation history',
+    factors: DEFAULT_RISK_MODEL_V1.factors.map(f => (f.name === 'erodible_soil' ? SOIL_LOSS_FACTOR : f)),
+};
+
+export const DEFAULT_RISK_MODEL: RiskModelDefinition = {
+    ...DEFAULT_RISK_MODEL_V2,
+    version: 3,
+    description: 'Slope, RUSLE soil loss, phase, inspection recency, forecast rain, BMP condition and violation history',
+    factors: [
+        ...DEFAULT_RISK_MODEL_V2.factors,
+        {
+            name: 'degraded_bmps',
+            input: 'poorBmpCount',
+            curve: { type: 'linear' },
+            weight: 5,
+            cap: 15,
+            description: '{value} BMPs in poor condition',
+        },
+        {
+            name: 'stale_bmps',
+            input: 'staleBmpCount',
+            curve: { type: 'linear' },
+            weight: 3,
+            cap: 9,
+            description: '{value} BMPs not inspected since the last storm',
+        },
+    ],
+};
+
+// Every published version, oldest first
+export const DEFAULT_RISK_MODEL_VERSIONS: RiskModelDefinition[] = [
+    DEFAULT_RISK_MODEL_V1,
+    DEFAULT_RISK_MODEL_V2,
+    DEFAULT_RISK_MODEL,
+];
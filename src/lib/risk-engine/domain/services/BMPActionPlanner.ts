@@ -0,0 +1,80 @@
+/**
+ * BMPActionPlanner - Domain Service
+ *
+ * Turns degraded, stale and planned BMPs into concrete maintenance actions, e.g.
+ * "Replace 3 poor silt fence segments on north perimeter". The largest
+ * repairs come first.
+ */
+
+import type { BMPInventoryItem } from '../entities/SiteCondition';
+
+export interface PlannedBMPAction {
+    action: string;
+    estimatedTimeHours: number;
+}
+
+// Singular and plural names of the common BMP types
+const BMP_NOUNS: Record<string, [string, string]> = {
+    silt_fence: ['silt fence segment', 'silt fence segments'],
+    inlet_protection: ['inlet protector', 'inlet protectors'],
+    check_dam: ['check dam', 'check dams'],
+    fiber_roll: ['fiber roll', 'fiber rolls'],
+    sediment_trap: ['sediment trap', 'sediment traps'],
+    construction_entrance: ['construction entrance', 'construction entrances'],
+    erosion_control_blanket: ['erosion control blanket', 'erosion control blankets'],
+    mulch: ['mulched area', 'mulched areas'],
+};
+
+const REPAIR_HOURS_PER_UNIT = 0.5;
+const INSPECTION_HOURS_PER_UNIT = 0.25;
+const INSTALL_HOURS_PER_UNIT = 0.5;
+// Keep each action achievable within one working day
+const MAX_REPAIR_HOURS = 8;
+const MAX_INSPECTION_HOURS = 4;
+
+export class BMPActionPlanner {
+    /**
+     * Replace BMPs in poor condition
+     */
+    planRepairs(bmps: BMPInventoryItem[]): PlannedBMPAction[] {
+        return this.largestFirst(bmps).map(bmp => ({
+            action: `Replace ${bmp.count} poor ${this.describe(bmp)}`,
+            estimatedTimeHours: this.hours(bmp.count, REPAIR_HOURS_PER_UNIT, MAX_REPAIR_HOURS),
+        }));
+    }
+
+    /**
+     * Check BMPs that have not been inspected since the last storm
+     */
+    planInspections(bmps: BMPInventoryItem[]): PlannedBMPAction[] {
+        return this.largestFirst(bmps).map(bmp => ({
+            action: `Inspect ${bmp.count} ${this.describe(bmp)} not checked since the last storm`,
+            estimatedTimeHours: this.hours(bmp.count, INSPECTION_HOURS_PER_UNIT, MAX_INSPECTION_HOURS),
+        }));
+    }
+
+    /**
+     * Install new BMPs
+     */
+    planInstall(bmp: BMPInventoryItem): PlannedBMPAction {
+        return {
+            action: `Install ${bmp.count} ${this.describe(bmp)}`,
+            estimatedTimeHours: this.hours(bmp.count, INSTALL_HOURS_PER_UNIT, MAX_REPAIR_HOURS),
+        };
+    }
+
+    private largestFirst(bmps: BMPInventoryItem[]): BMPInventoryItem[] {
+        return bmps.filter(bmp => bmp.count > 0).sort((a, b) => b.count - a.count);
+    }
+
+    private describe(bmp: BMPInventoryItem): string {
+        const label = bmp.type.replace(/_/g, ' ');
+        const [singular, plural] = BMP_NOUNS[bmp.type] ?? [`${label} BMP`, `${label} BMPs`];
+        const noun = bmp.count === 1 ? singular : plural;
+        return bmp.location ? `${noun} on ${bmp.location}` : noun;
+    }
+
+    private hours(count: number, hoursPerUnit: number, max: number): number {
+        return Math.min(max, Math.max(hoursPerUnit * 2, count * hoursPerUnit));
+    }
+}
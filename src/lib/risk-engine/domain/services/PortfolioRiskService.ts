@@ -0,0 +1,195 @@
+/**
+ * PortfolioRiskService - Domain Service
+ *
+ * Ranks every active site by risk for the morning dispatch. A site's latest
+ * recorded score is reused while it is unexpired and was calculated against
+ * the provider forecast with the same model from the same site conditions;
+ * other sites are scored against their forecast and the new scores recorded. Sites whose forecast cannot be
+ * loaded are listed as unavailable instead of failing the ranking.
+ */
+
+import type { PreventiveAction, RiskLevel, RiskScore } from '../entities/RiskScore';
+import type { SiteCondition } from '../entities/SiteCondition';
+import type { IPortfolioSitePort, PortfolioSite } from '../../ports/IPortfolioSitePort';
+import { RiskCalculationService } from './RiskCalculationService';
+import type { RiskHistoryService } from './RiskHistoryService';
+
+export interface PortfolioSiteRisk {
+    rank: number;
+    siteId: string;
+    name: string;
+    region: string | null;
+    contractor: string | null;
+    riskScore: RiskScore;
+    reused: boolean;        // unexpired score from the history
+}
+
+export interface PortfolioGroup {
+    key: string;            // 'unassigned' for sites without a region or contractor
+    siteCount: number;
+    averageScore: number;
+    maxScore: number;
+    levels: Record<RiskLevel, number>;
+    crewHours: number;
+}
+
+export interface PortfolioAction extends PreventiveAction {
+    siteId: string;
+    siteName: string;
+    siteRank: number;
+}
+
+export interface PortfolioRisk {
+    generatedAt: Date;
+    horizonHours: 24 | 48 | 72;
+    sites: PortfolioSiteRisk[];             // highest risk first
+    byRegion: PortfolioGroup[];
+    byContractor: PortfolioGroup[];
+    byPhase: PortfolioGroup[];
+    actions: PortfolioAction[];             // in site rank, then priority order
+    totalCrewHours: number;
+    unavailable: { siteId: string; name: string; error: string }[];
+}
+
+export interface PortfolioQuery {
+    horizonHours?: 24 | 48 | 72;
+    region?: string;
+    contractor?: string;
+}
+
+const UNASSIGNED = 'unassigned';
+
+export class PortfolioRiskService {
+    private readonly sites: IPortfolioSitePort;
+    private readonly history: RiskHistoryService;
+    private readonly calculator: RiskCalculationService;
+
+    constructor(
+        sites: IPortfolioSitePort,
+        history: RiskHistoryService,
+        calculator: RiskCalculationService = new RiskCalculationService()
+    ) {
+        this.sites = sites;
+        this.history = history;
+        this.calculator = calculator;
+    }
+
+    /**
+     * Score, rank and aggregate the active sites
+     */
+    async rankPortfolio(query: PortfolioQuery = {}, now: Date = new Date()): Promise<PortfolioRisk> {
+        const horizonHours = query.horizonHours ?? 48;
+        const sites = (await this.sites.listActiveSites()).filter(site =>
+            (!query.region || site.region === query.region) && (!query.contractor || site.contractor === query.contractor)
+        );
+
+        const scored: Omit<PortfolioSiteRisk, 'rank'>[] = [];
+        const unavailable: PortfolioRisk['unavailable'] = [];
+        const calculated: RiskScore[] = [];
+
+        for (const site of sites) {
+            const siteId = site.siteCondition.siteId;
+            const reusable = await this.findReusableScore(site, horizonHours, now);
+            if (reusable) {
+                scored.push(this.toSiteRisk(site, reusable, true));
+                continue;
+            }
+
+            try {
+                const weather = await this.sites.getWeather(siteId, now);
+                const riskScore = this.calculator.calculateRisk({ siteCondition: site.siteCondition, weather }, horizonHours, site.model);
+                calculated.push(riskScore);
+                scored.push(this.toSiteRisk(site, riskScore, false));
+            } catch (error) {
+                unavailable.push({ siteId, name: site.name, error: (error as Error).message });
+            }
+        }
+
+        await this.history.record(calculated);
+
+        const ranked = scored
+            .sort((a, b) => b.riskScore.score - a.riskScore.score || a.name.localeCompare(b.name))
+            .map((site, index) => ({ ...site, rank: index + 1 }));
+        const actions = ranked.flatMap(site => site.riskScore.getTopActions().map(action => ({
+            ...action,
+            siteId: site.siteId,
+            siteName: site.name,
+            siteRank: site.rank,
+        })));
+
+        return {
+            generatedAt: now,
+            horizonHours,
+            sites: ranked,
+            byRegion: this.group(ranked, site => site.region),
+            byContractor: this.group(ranked, site => site.contractor),
+            byPhase: this.group(ranked, site => site.riskScore.inputs.phase),
+            actions,
+            totalCrewHours: this.crewHours(actions),
+            unavailable,
+        };
+    }
+
+    /**
+     * Latest recorded score, if still valid for the site as it is now
+     */
+    private async findReusableScore(site: PortfolioSite, horizonHours: 24 | 48 | 72, now: Date): Promise<RiskScore | null> {
+        const { scores } = await this.history.getHistory(site.siteCondition.siteId, { horizonHours });
+        const latest = scores[scores.length - 1];
+        if (!latest || latest.expiresAt <= now) return null;
+        if (latest.weatherSource !== 'provider_forecast') return null;
+        if (latest.model.id !== site.model.id || latest.model.version !== site.model.version) return null;
+        return this.sameSiteInputs(latest, site.siteCondition) ? latest : null;
+    }
+
+    private sameSiteInputs(score: RiskScore, site: SiteCondition): boolean {
+        const inputs = score.inputs;
+        return inputs.slopePercent === site.slopePercent
+            && inputs.soilType === site.soilType
+            && inputs.phase === site.phase
+            && inputs.acreage === site.acreage
+            && inputs.daysSinceLastInspection === site.daysSinceLastInspection
+            && inputs.historicalNOVCount === site.historicalNOVCount
+            && inputs.poorBmpCount === site.getPoorConditionBMPCount()
+            && inputs.staleBmpCount === site.getStaleBMPs().length;
+    }
+
+    private toSiteRisk(site: PortfolioSite, riskScore: RiskScore, reused: boolean): Omit<PortfolioSiteRisk, 'rank'> {
+        return {
+            siteId: site.siteCondition.siteId,
+            name: site.name,
+            region: site.region,
+            contractor: site.contractor,
+            riskScore,
+            reused,
+        };
+    }
+
+    private group(sites: PortfolioSiteRisk[], keyOf: (site: PortfolioSiteRisk) => string | null): PortfolioGroup[] {
+        const groups = new Map<string, PortfolioSiteRisk[]>();
+        for (const site of sites) {
+            const key = keyOf(site) ?? UNASSIGNED;
+            groups.set(key, [...(groups.get(key) ?? []), site]);
+        }
+
+        return [...groups.entries()]
+            .map(([key, members]) => {
+                const scores = members.map(m => m.riskScore.score);
+                const levels: Record<RiskLevel, number> = { low: 0, moderate: 0, high: 0, critical: 0 };
+                members.forEach(m => levels[m.riskScore.level]++);
+                return {
+                    key,
+                    siteCount: members.length,
+                    averageScore: Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10,
+                    maxScore: Math.max(...scores),
+                    levels,
+                    crewHours: this.crewHours(members.flatMap(m => m.riskScore.getTopActions())),
+                };
+            })
+            .sort((a, b) => b.maxScore - a.maxScore || a.key.localeCompare(b.key));
+    }
+
+    private crewHours(actions: PreventiveAction[]): number {
+        return actions.reduce((total, action) => total + action.estimatedTimeHours, 0);
+    }
+}
@@ -1,18 +1,25 @@
 /**
  * RiskCalculationService - Domain Service
  * 
- * Calculates violation risk scores from multiple factors.
- * Refactored for CC ≤3 per function (Gold Standards compliance).
+ * Calculates violation risk scores by evaluating a risk model against site
+ * conditions and the forecast. Scores are reproducible from the model
+ * version and inputs they record.
  */
 
 import { RiskScore } from '../entities/RiskScore';
-import type { PreventiveAction, RiskFactor } from '../entities/RiskScore';
+import type { PreventiveAction, RiskFactor, RiskInputs, WeatherSource } from '../entities/RiskScore';
 import { SiteCondition } from '../entities/SiteCondition';
+import type { ConstructionPhase } from '../entities/SiteCondition';
+import { RiskModel } from '../entities/RiskModel';
+import { DEFAULT_RISK_MODEL } from '../entities/defaultRiskModel';
+import { SoilLossEstimator } from './SoilLossEstimator';
+import { BMPActionPlanner } from './BMPActionPlanner';
 
 export interface WeatherInput {
     precipitationInchesNext24h: number;
     precipitationInchesNext48h: number;
     precipitationInchesNext72h: number;
+    source?: WeatherSource;     // 'supplied' when not given
 }
 
 export interface RiskCalculationInput {
@@ -20,170 +27,118 @@ export interface RiskCalculationInput {
     weather: WeatherInput;
 }
 
+const HIGH_RISK_PHASES: ConstructionPhase[] = ['clearing', 'grading'];
+
 export class RiskCalculationService {
+    private readonly model: RiskModel;
+    private readonly soilLoss: SoilLossEstimator;
+    private readonly bmpPlanner: BMPActionPlanner;
+
+    constructor(
+        model: RiskModel = RiskModel.create(DEFAULT_RISK_MODEL),
+        soilLoss: SoilLossEstimator = new SoilLossEstimator(),
+        bmpPlanner: BMPActionPlanner = new BMPActionPlanner()
+    ) {
+        this.model = model;
+        this.soilLoss = soilLoss;
+        this.bmpPlanner = bmpPlanner;
+    }
+
     /**
      * Calculate risk score for a site
      */
     calculateRisk(
         input: RiskCalculationInput,
-        horizonHours: 24 | 48 | 72 = 48
+        horizonHours: 24 | 48 | 72 = 48,
+        model: RiskModel = this.model
     ): RiskScore {
-        const { factors, totalScore } = this.collectFactors(input, horizonHours);
-        const actions = this.generateActions(input, factors);
-
-        return RiskScore.create({
-            id: crypto.randomUUID(),
-            siteId: input.siteCondition.siteId,
-            score: Math.min(100, totalScore),
-            factors,
-            actions,
+        const precipitationInches = this.getPrecipitationForHorizon(input.weather, horizonHours);
+        return this.score(
+            input.siteCondition.siteId,
+            this.collectInputs(input.siteCondition, precipitationInches),
             horizonHours,
-            calculatedAt: new Date(),
-        });
-    }
-
-    /**
-     * Calculate multi-horizon forecast
-     */
-    calculateForecast(input: RiskCalculationInput): RiskScore[] {
-        return [24, 48, 72].map(h =>
-            this.calculateRisk(input, h as 24 | 48 | 72)
+            model,
+            input.siteCondition,
+            input.weather.source ?? 'supplied'
         );
     }
 
     /**
-     * Collect all contributing risk factors and calculate base scores
+     * Calculate risk score for a site expecting the given rain, e.g. one hour of a risk timeline
      */
-    private collectFactors(
-        input: RiskCalculationInput,
-        horizonHours: 24 | 48 | 72
-    ): { factors: RiskFactor[]; totalScore: number } {
-        const factors: RiskFactor[] = [];
-        let totalScore = 0;
-
-        // Slope always contributes to score
-        const slopeScore = Math.min(20, input.siteCondition.slopePercent * 1.5);
-        totalScore += slopeScore;
-        const slopeFactor = this.calculateSlopeFactor(input.siteCondition, slopeScore);
-        if (slopeFactor) factors.push(slopeFactor);
-
-        // Soil erodibility
-        const soilFactor = this.calculateSoilFactor(input.siteCondition);
-        if (soilFactor) {
-            factors.push(soilFactor);
-            totalScore += soilFactor.contribution;
-        }
-
-        // Construction phase
-        const phaseFactor = this.calculatePhaseFactor(input.siteCondition);
-        if (phaseFactor) {
-            factors.push(phaseFactor);
-            totalScore += phaseFactor.contribution;
-        }
-
-        // Inspection recency always contributes
-        const inspectionScore = Math.min(15, input.siteCondition.daysSinceLastInspection * 2);
-        totalScore += inspectionScore;
-        const inspectionFactor = this.calculateInspectionFactor(input.siteCondition, inspectionScore);
-        if (inspectionFactor) factors.push(inspectionFactor);
-
-        // Weather forecast always contributes
-        const precipitation = this.getPrecipitationForHorizon(input.weather, horizonHours);
-        const weatherScore = Math.min(30, precipitation * 25);
-        totalScore += weatherScore;
-        const weatherFactor = this.calculateWeatherFactor(precipitation, weatherScore);
-        if (weatherFactor) factors.push(weatherFactor);
-
-        // Historical violations
-        const violationFactor = this.calculateViolationFactor(input.siteCondition);
-        if (violationFactor) {
-            factors.push(violationFactor);
-            totalScore += violationFactor.contribution;
-        }
-
-        return { factors, totalScore };
-    }
-
-    /**
-     * Slope factor: Only creates factor if score > 10
-     */
-    private calculateSlopeFactor(site: SiteCondition, score: number): RiskFactor | null {
-        if (score <= 10) return null;
-
-        return {
-            name: 'steep_slope',
-            contribution: score,
-            description: `Slope of ${site.slopePercent}% increases erosion risk`,
-        };
-    }
-
-    /**
-     * Soil erodibility factor: 15 points for sandy soil
-     */
-    private calculateSoilFactor(site: SiteCondition): RiskFactor | null {
-        if (!site.hasErodibleSoil()) return null;
-
-        return {
-            name: 'erodible_soil',
-            contribution: 15,
-            description: 'Sandy soil is highly susceptible to erosion',
-        };
+    calculateForRain(
+        siteCondition: SiteCondition,
+        precipitationInches: number,
+        horizonHours: 24 | 48 | 72,
+        model: RiskModel = this.model
+    ): RiskScore {
+        return this.score(
+            siteCondition.siteId,
+            this.collectInputs(siteCondition, precipitationInches),
+            horizonHours,
+            model,
+            siteCondition
+        );
     }
 
     /**
-     * Construction phase factor: 15 points for high-risk phases
+     * Calculate multi-horizon forecast
      */
-    private calculatePhaseFactor(site: SiteCondition): RiskFactor | null {
-        if (!site.isHighRiskPhase()) return null;
-
-        return {
-            name: 'high_risk_phase',
-            contribution: 15,
-            description: `${site.phase} phase has increased disturbance`,
-        };
+    calculateForecast(input: RiskCalculationInput, model: RiskModel = this.model): RiskScore[] {
+        return [24, 48, 72].map(h =>
+            this.calculateRisk(input, h as 24 | 48 | 72, model)
+        );
     }
 
     /**
-     * Inspection recency factor: Only creates factor if score > 7
+     * Score recorded inputs, e.g. to reproduce an earlier score with the model version it recorded.
+     * Actions naming specific BMPs need the inventory and are left out.
      */
-    private calculateInspectionFactor(site: SiteCondition, score: number): RiskFactor | null {
-        if (score <= 7) return null;
-
-        return {
-            name: 'inspection_overdue',
-            contribution: score,
-            description: `${site.daysSinceLastInspection} days since last inspection`,
-        };
+    calculateFromInputs(
+        siteId: string,
+        inputs: RiskInputs,
+        horizonHours: 24 | 48 | 72,
+        model: RiskModel = this.model
+    ): RiskScore {
+        return this.score(siteId, inputs, horizonHours, model, null);
     }
 
-    /**
-     * Weather forecast factor: Only creates factor if score > 10
-     */
-    private calculateWeatherFactor(
-        precipitation: number,
-        score: number
-    ): RiskFactor | null {
-        if (score <= 10) return null;
+    private score(
+        siteId: string,
+        inputs: RiskInputs,
+        horizonHours: 24 | 48 | 72,
+        model: RiskModel,
+        site: SiteCondition | null,
+        weatherSource?: WeatherSource
+    ): RiskScore {
+        const { factors, score } = model.evaluate(inputs);
 
-        const name = precipitation > 1.0 ? 'heavy_rain_forecast' : 'rain_forecast';
-        return {
-            name,
-            contribution: score,
-            description: `${precipitation.toFixed(2)}" precipitation forecast`,
-        };
+        return RiskScore.create({
+            id: crypto.randomUUID(),
+            siteId,
+            score,
+            factors,
+            actions: this.generateActions(inputs, factors, site),
+            horizonHours,
+            model: model.ref,
+            inputs,
+            weatherSource,
+            calculatedAt: new Date(),
+        }, model.levels);
     }
 
-    /**
-     * Historical violations factor: 0-15 points based on NOV count
-     */
-    private calculateViolationFactor(site: SiteCondition): RiskFactor | null {
-        if (site.historicalNOVCount === 0) return null;
-
-        const score = Math.min(15, site.historicalNOVCount * 5);
+    private collectInputs(site: SiteCondition, precipitationInches: number): RiskInputs {
         return {
-            name: 'historical_violations',
-            contribution: score,
-            description: `${site.historicalNOVCount} NOVs in past 12 months`,
+            slopePercent: site.slopePercent,
+            soilType: site.soilType,
+            phase: site.phase,
+            acreage: site.acreage,
+            daysSinceLastInspection: site.daysSinceLastInspection,
+            historicalNOVCount: site.historicalNOVCount,
+            precipitationInches,
+            soilLossTonsPerAcre: this.soilLoss.estimate(site, precipitationInches).tonsPerAcre,
+            poorBmpCount: site.getPoorConditionBMPCount(),
+            staleBmpCount: site.getStaleBMPs().length,
         };
     }
 
@@ -206,22 +161,32 @@ export class RiskCalculationService {
      * Generate preventive actions based on risk factors
      */
     private generateActions(
-        input: RiskCalculationInput,
-        factors: RiskFactor[]
+        inputs: RiskInputs,
+        factors: RiskFactor[],
+        site: SiteCondition | null
     ): PreventiveAction[] {
         const actions: PreventiveAction[] = [];
         let priority = 1;
 
+        // Failed BMPs come first: they let sediment through whatever else is done
+        for (const repair of this.bmpPlanner.planRepairs(site?.getPoorConditionBMPs() ?? [])) {
+            actions.push(this.createAction(repair.action, priority++, repair.estimatedTimeHours));
+        }
+
         if (this.hasRainFactor(factors)) {
             actions.push(this.createAction('Deploy additional inlet protection', priority++, 2));
         }
 
-        if (input.siteCondition.isHighRiskPhase()) {
+        if (HIGH_RISK_PHASES.includes(inputs.phase)) {
             actions.push(this.createAction('Reinforce silt fence perimeter', priority++, 4));
         }
 
         if (this.hasInspectionFactor(factors)) {
             actions.push(this.createAction('Schedule immediate inspection', priority++, 1));
+        } else {
+            for (const inspection of this.bmpPlanner.planInspections(site?.getStaleBMPs() ?? [])) {
+                actions.push(this.createAction(inspection.action, priority++, inspection.estimatedTimeHours));
+            }
         }
 
         return this.ensureMinimumActions(actions, priority);
@@ -0,0 +1,184 @@
+/**
+ * RiskHistoryService - Domain Service
+ *
+ * Keeps recorded scores as per-site history and explains why a score
+ * moved between two calculations: which factor contributions changed, which
+ * recorded inputs changed and whether the model version changed. By default a
+ * change is explained against the score from a week before the latest one,
+ * for the weekly project review.
+ */
+
+import type { RiskInputs, RiskLevel, RiskModelRef, RiskScore } from '../entities/RiskScore';
+import type { IRiskScoreRepositoryPort, RiskScoreQuery } from '../../ports/IRiskScoreRepositoryPort';
+
+export interface RiskTrend {
+    direction: 'rising' | 'falling' | 'steady';
+    change: number;         // latest score minus the first in the series
+    minScore: number;
+    maxScore: number;
+}
+
+export interface RiskHistory {
+    siteId: string;
+    scores: RiskScore[];    // oldest first
+    trend: RiskTrend | null;
+}
+
+export interface RiskFactorChange {
+    name: string;
+    before: number;         // contribution; 0 when the factor was not listed
+    after: number;
+    change: number;
+    description: string;    // from the later score when listed there
+}
+
+export interface RiskInputChange {
+    input: keyof RiskInputs;
+    before: number | string;
+    after: number | string;
+}
+
+export interface RiskScoreChange {
+    siteId: string;
+    from: RiskScore;
+    to: RiskScore;
+    scoreChange: number;
+    levelChange: { before: RiskLevel; after: RiskLevel } | null;
+    modelChange: { before: RiskModelRef; after: RiskModelRef } | null;
+    factorChanges: RiskFactorChange[];      // largest change first
+    inputChanges: RiskInputChange[];
+    // Change from factors below their reporting threshold and from clamping at 0-100
+    unlistedChange: number;
+}
+
+export interface RiskChangeQuery {
+    fromId?: string;        // default: latest score at least a week before `to`, else the earliest
+    toId?: string;          // default: latest score
+    horizonHours?: 24 | 48 | 72;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const REVIEW_PERIOD_DAYS = 7;
+// Score changes smaller than this count as steady
+const STEADY_BAND = 5;
+
+export class RiskHistoryService {
+    private readonly repository: IRiskScoreRepositoryPort;
+
+    constructor(repository: IRiskScoreRepositoryPort) {
+        this.repository = repository;
+    }
+
+    /**
+     * Add calculated scores to their sites' history
+     */
+    async record(scores: RiskScore[]): Promise<void> {
+        await this.repository.append(scores);
+    }
+
+    async getHistory(siteId: string, query: RiskScoreQuery = {}): Promise<RiskHistory> {
+        const scores = await this.repository.findBySite(siteId, query);
+        return { siteId, scores, trend: this.trend(scores) };
+    }
+
+    /**
+     * Explain the change between two of a site's scores; null without two scores to compare
+     */
+    async explainChange(siteId: string, query: RiskChangeQuery = {}): Promise<RiskScoreChange | null> {
+        const scores = await this.repository.findBySite(siteId, { horizonHours: query.horizonHours });
+
+        const to = query.toId ? await this.findSiteScore(siteId, query.toId) : scores[scores.length - 1];
+        if (!to) return null;
+
+        const from = query.fromId
+            ? await this.findSiteScore(siteId, query.fromId)
+            : this.reviewBaseline(scores.filter(s => s.calculatedAt < to.calculatedAt), to);
+        if (!from) return null;
+
+        return this.compare(from, to);
+    }
+
+    /**
+     * Differences between two scores of the same site
+     */
+    compare(from: RiskScore, to: RiskScore): RiskScoreChange {
+        if (from.siteId !== to.siteId) {
+            throw new Error('Scores belong to different sites');
+        }
+
+        const factorChanges = this.factorChanges(from, to);
+        const scoreChange = this.round(to.score - from.score);
+        const listedChange = factorChanges.reduce((total, f) => total + f.change, 0);
+
+        return {
+            siteId: to.siteId,
+            from,
+            to,
+            scoreChange,
+            levelChange: from.level === to.level ? null : { before: from.level, after: to.level },
+            modelChange: from.model.id === to.model.id && from.model.version === to.model.version
+                ? null
+                : { before: from.model, after: to.model },
+            factorChanges,
+            inputChanges: this.inputChanges(from.inputs, to.inputs),
+            unlistedChange: this.round(scoreChange - listedChange),
+        };
+    }
+
+    private async findSiteScore(siteId: string, id: string): Promise<RiskScore> {
+        const score = await this.repository.findById(siteId, id);
+        if (!score) {
+            throw new Error(`Unknown risk score: ${id}`);
+        }
+        return score;
+    }
+
+    private reviewBaseline(earlier: RiskScore[], to: RiskScore): RiskScore | undefined {
+        const cutoff = to.calculatedAt.getTime() - REVIEW_PERIOD_DAYS * MS_PER_DAY;
+        const beforeCutoff = earlier.filter(s => s.calculatedAt.getTime() <= cutoff);
+        return beforeCutoff[beforeCutoff.length - 1] ?? earlier[0];
+    }
+
+    private factorChanges(from: RiskScore, to: RiskScore): RiskFactorChange[] {
+        const before = new Map(from.factors.map(f => [f.name, f]));
+        const after = new Map(to.factors.map(f => [f.name, f]));
+        const names = [...new Set([...before.keys(), ...after.keys()])];
+
+        return names
+            .map(name => {
+                const b = before.get(name)?.contribution ?? 0;
+                const a = after.get(name)?.contribution ?? 0;
+                return {
+                    name,
+                    before: b,
+                    after: a,
+                    change: this.round(a - b),
+                    description: after.get(name)?.description ?? before.get(name)?.description ?? '',
+                };
+            })
+            .filter(f => f.change !== 0)
+            .sort((x, y) => Math.abs(y.change) - Math.abs(x.change));
+    }
+
+    private inputChanges(before: RiskInputs, after: RiskInputs): RiskInputChange[] {
+        return (Object.keys(after) as (keyof RiskInputs)[])
+            .filter(input => before[input] !== after[input])
+            .map(input => ({ input, before: before[input], after: after[input] }));
+    }
+
+    private trend(scores: RiskScore[]): RiskTrend | null {
+        if (scores.length === 0) return null;
+
+        const values = scores.map(s => s.score);
+        const change = this.round(values[values.length - 1] - values[0]);
+        let direction: RiskTrend['direction'] = 'steady';
+        if (change >= STEADY_BAND) direction = 'rising';
+        else if (change <= -STEADY_BAND) direction = 'falling';
+
+        return { direction, change, minScore: Math.min(...values), maxScore: Math.max(...values) };
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * RiskModelRegistry - Domain Service
+ *
+ * Looks up risk models by id and version and picks the model a site is
+ * scored with: its pinned model, else the latest model of its organization,
+ * else of its jurisdiction, else the default model.
+ */
+
+import type { RiskModel } from '../entities/RiskModel';
+
+export interface RiskModelSelection {
+    riskModelId?: string;
+    riskModelVersion?: number;
+    organizationId?: string;
+    jurisdiction?: string;
+}
+
+export class RiskModelRegistry {
+    private readonly models = new Map<string, RiskModel[]>();
+    private readonly defaultModelId: string;
+
+    constructor(models: RiskModel[], defaultModelId: string) {
+        for (const model of models) {
+            const versions = this.models.get(model.id) ?? [];
+            if (versions.some(v => v.version === model.version)) {
+                throw new Error(`Duplicate risk model version: ${model.key}`);
+            }
+            versions.push(model);
+            versions.sort((a, b) => b.version - a.version);
+            this.models.set(model.id, versions);
+        }
+        if (!this.models.has(defaultModelId)) {
+            throw new Error(`Unknown default risk model: ${defaultModelId}`);
+        }
+        this.defaultModelId = defaultModelId;
+    }
+
+    /**
+     * Latest version of every model
+     */
+    list(): RiskModel[] {
+        return [...this.models.values()].map(versions => versions[0]);
+    }
+
+    /**
+     * All versions of a model, newest first
+     */
+    getVersions(id: string): RiskModel[] {
+        return this.models.get(id) ?? [];
+    }
+
+    /**
+     * Resolve a model by id, using the latest version when none is given
+     */
+    resolve(id: string, version?: number): RiskModel {
+        const versions = this.getVersions(id);
+        if (versions.length === 0) {
+            throw new Error(`Unknown risk model: ${id}`);
+        }
+        if (version === undefined) return versions[0];
+
+        const model = versions.find(v => v.version === version);
+        if (!model) {
+            throw new Error(`Unknown version ${version} of risk model ${id}`);
+        }
+        return model;
+    }
+
+    getDefault(): RiskModel {
+        return this.resolve(this.defaultModelId);
+    }
+
+    /**
+     * The model a site is scored with
+     */
+    select(selection: RiskModelSelection): RiskModel {
+        if (selection.riskModelId) {
+            return this.resolve(selection.riskModelId, selection.riskModelVersion);
+        }
+
+        const latest = this.list();
+        const { organizationId, jurisdiction } = selection;
+        return (organizationId ? latest.find(m => m.appliesToOrganization(organizationId)) : undefined)
+            ?? (jurisdiction ? latest.find(m => m.appliesToJurisdiction(jurisdiction)) : undefined)
+            ?? this.getDefault();
+    }
+}
@@ -0,0 +1,235 @@
+/**
+ * RiskSimulationService - Domain Service
+ *
+ * What-if analysis for mitigation planning: applies every combination of
+ * hypothetical interventions to a site, rescores it against the same forecast
+ * and model, and finds the combination with the fewest crew-hours that brings
+ * the site below high risk.
+ */
+
+import type { PreventiveAction, RiskLevel, RiskScore } from '../entities/RiskScore';
+import type { BMPInventoryItem, SiteCondition } from '../entities/SiteCondition';
+import type { RiskModel } from '../entities/RiskModel';
+import { BMPActionPlanner } from './BMPActionPlanner';
+import type { PlannedBMPAction } from './BMPActionPlanner';
+import { RiskCalculationService } from './RiskCalculationService';
+import type { WeatherInput } from './RiskCalculationService';
+
+export type RiskIntervention =
+    // Cover disturbed ground; the site moves to the stabilization phase
+    | { type: 'stabilize' }
+    // Inspect the site and every BMP today
+    | { type: 'inspect' }
+    // Replace every BMP rated poor
+    | { type: 'replace_poor_bmps' }
+    | { type: 'install_bmp'; bmpType: string; count: number; location?: string }
+    | { type: 'regrade'; slopePercent: number };
+
+export interface PlannedIntervention {
+    index: number;
+    intervention: RiskIntervention;
+    actions: PreventiveAction[];
+    crewHours: number;
+}
+
+export interface RiskScenario {
+    interventions: number[];    // indexes into the planned interventions
+    score: number;
+    level: RiskLevel;
+    scoreChange: number;        // against the base score
+    crewHours: number;
+}
+
+export interface MitigationPlan extends RiskScenario {
+    actions: PreventiveAction[];
+}
+
+export interface RiskSimulation {
+    base: RiskScore;
+    interventions: PlannedIntervention[];
+    scenarios: RiskScenario[];              // lowest score first
+    cheapestBelowHigh: MitigationPlan | null;   // null when no combination gets below high
+}
+
+export interface RiskSimulationInput {
+    siteCondition: SiteCondition;
+    weather: WeatherInput;
+    interventions: RiskIntervention[];
+}
+
+// Every combination is scored: 2^8 - 1 = 255 scenarios at most
+const MAX_INTERVENTIONS = 8;
+const STABILIZE_HOURS_PER_ACRE = 1.5;
+const REGRADE_HOURS_PER_ACRE = 4;
+const MIN_SITE_WORK_HOURS = 2;
+const BELOW_HIGH: RiskLevel[] = ['low', 'moderate'];
+
+export class RiskSimulationService {
+    private readonly calculator: RiskCalculationService;
+    private readonly bmpPlanner: BMPActionPlanner;
+
+    constructor(
+        calculator: RiskCalculationService = new RiskCalculationService(),
+        bmpPlanner: BMPActionPlanner = new BMPActionPlanner()
+    ) {
+        this.calculator = calculator;
+        this.bmpPlanner = bmpPlanner;
+    }
+
+    /**
+     * Score the site under every combination of the interventions
+     */
+    simulate(input: RiskSimulationInput, horizonHours: 24 | 48 | 72 = 48, model?: RiskModel): RiskSimulation {
+        const { siteCondition, weather } = input;
+        if (input.interventions.length === 0) {
+            throw new Error('At least one intervention is required');
+        }
+        if (input.interventions.length > MAX_INTERVENTIONS) {
+            throw new Error(`At most ${MAX_INTERVENTIONS} interventions can be simulated`);
+        }
+
+        const base = this.calculator.calculateRisk({ siteCondition, weather }, horizonHours, model);
+        const planned = input.interventions.map((intervention, index) => this.plan(intervention, index, siteCondition));
+
+        const scenarios: MitigationPlan[] = [];
+        for (const combination of this.combinations(planned)) {
+            const changed = combination.reduce(
+                (site, p) => this.apply(p.intervention, site),
+                siteCondition
+            );
+            const score = this.calculator.calculateRisk({ siteCondition: changed, weather }, horizonHours, model);
+            const actions = combination
+                .flatMap(p => p.actions)
+                .map((action, i) => ({ ...action, priority: i + 1 }));
+
+            scenarios.push({
+                interventions: combination.map(p => p.index),
+                score: score.score,
+                level: score.level,
+                scoreChange: Math.round((score.score - base.score) * 100) / 100,
+                crewHours: this.crewHours(actions),
+                actions,
+            });
+        }
+
+        return {
+            base,
+            interventions: planned,
+            scenarios: scenarios
+                .map(plan => this.toScenario(plan))
+                .sort((a, b) => a.score - b.score || a.crewHours - b.crewHours),
+            cheapestBelowHigh: this.cheapestBelowHigh(base, scenarios),
+        };
+    }
+
+    private plan(intervention: RiskIntervention, index: number, site: SiteCondition): PlannedIntervention {
+        const actions = this.actionsFor(intervention, site).map((a, i) => ({
+            action: a.action,
+            priority: i + 1,
+            estimatedTimeHours: a.estimatedTimeHours,
+        }));
+        return { index, intervention, actions, crewHours: this.crewHours(actions) };
+    }
+
+    private actionsFor(intervention: RiskIntervention, site: SiteCondition): PlannedBMPAction[] {
+        switch (intervention.type) {
+            case 'stabilize':
+                return [{
+                    action: 'Stabilize disturbed areas with mulch, blankets or seeding',
+                    estimatedTimeHours: this.siteWorkHours(site.acreage, STABILIZE_HOURS_PER_ACRE),
+                }];
+            case 'inspect':
+                return [{ action: 'Complete a full site and BMP inspection today', estimatedTimeHours: 1 }];
+            case 'replace_poor_bmps':
+                return this.bmpPlanner.planRepairs(site.getPoorConditionBMPs());
+            case 'install_bmp':
+                return [this.bmpPlanner.planInstall(this.newBmp(intervention, site.observedAt))];
+            case 'regrade':
+                return [{
+                    action: `Regrade slopes to ${intervention.slopePercent}%`,
+                    estimatedTimeHours: this.siteWorkHours(site.acreage, REGRADE_HOURS_PER_ACRE),
+                }];
+        }
+    }
+
+    private apply(intervention: RiskIntervention, site: SiteCondition): SiteCondition {
+        const now = site.observedAt;
+        switch (intervention.type) {
+            case 'stabilize':
+                return site.withChanges({ phase: 'stabilization' });
+            case 'inspect':
+                return site.withChanges({
+                    daysSinceLastInspection: 0,
+                    bmpInventory: site.bmpInventory.map(b => ({ ...b, lastInspectionDate: now })),
+                });
+            case 'replace_poor_bmps':
+                return site.withChanges({
+                    bmpInventory: site.bmpInventory.map(b =>
+                        (b.conditionRating === 'poor' ? { ...b, conditionRating: 'good' as const, lastInspectionDate: now } : b)
+                    ),
+                });
+            case 'install_bmp':
+                return site.withChanges({ bmpInventory: [...site.bmpInventory, this.newBmp(intervention, now)] });
+            case 'regrade':
+                return site.withChanges({ slopePercent: intervention.slopePercent });
+        }
+    }
+
+    private newBmp(intervention: { bmpType: string; count: number; location?: string }, now: Date): BMPInventoryItem {
+        return {
+            type: intervention.bmpType,
+            count: intervention.count,
+            location: intervention.location,
+            lastInspectionDate: now,
+            conditionRating: 'good',
+        };
+    }
+
+    /**
+     * Every non-empty subset, in intervention order
+     */
+    private combinations<T>(items: T[]): T[][] {
+        const result: T[][] = [];
+        for (let mask = 1; mask < 1 << items.length; mask++) {
+            result.push(items.filter((_, i) => (mask & (1 << i)) !== 0));
+        }
+        return result;
+    }
+
+    /**
+     * Fewest crew-hours below high, then fewest interventions, then lowest score;
+     * nothing to do when the site is already below high
+     */
+    private cheapestBelowHigh(base: RiskScore, scenarios: MitigationPlan[]): MitigationPlan | null {
+        if (BELOW_HIGH.includes(base.level)) {
+            return { interventions: [], score: base.score, level: base.level, scoreChange: 0, crewHours: 0, actions: [] };
+        }
+
+        const [cheapest] = scenarios
+            .filter(s => BELOW_HIGH.includes(s.level))
+            .sort((a, b) =>
+                a.crewHours - b.crewHours
+                || a.interventions.length - b.interventions.length
+                || a.score - b.score
+            );
+        return cheapest ?? null;
+    }
+
+    private toScenario(plan: MitigationPlan): RiskScenario {
+        return {
+            interventions: plan.interventions,
+            score: plan.score,
+            level: plan.level,
+            scoreChange: plan.scoreChange,
+            crewHours: plan.crewHours,
+        };
+    }
+
+    private siteWorkHours(acreage: number, hoursPerAcre: number): number {
+        return Math.max(MIN_SITE_WORK_HOURS, Math.round(acreage * hoursPerAcre * 2) / 2);
+    }
+
+    private crewHours(actions: PreventiveAction[]): number {
+        return actions.reduce((total, action) => total + action.estimatedTimeHours, 0);
+    }
+}
@@ -0,0 +1,170 @@
+/**
+ * RiskTimelineService - Domain Service
+ *
+ * Scores a site hour by hour over the full forecast series instead of three
+ * horizon totals. Each hour is scored on its effective rain:
+ * - antecedent rain: earlier rain, observed or forecast, decaying as the soil drains
+ * - the hour's own rain, weighted up when it falls faster than soil absorbs it
+ * The peak-risk hour sets the deadline for preventive work: it has to be
+ * finished before the rain leading up to the peak starts, or before the risk
+ * first reaches the peak's level, whichever comes first.
+ */
+
+import type { PreventiveAction, RiskLevel, RiskModelRef, RiskScore } from '../entities/RiskScore';
+import type { SiteCondition } from '../entities/SiteCondition';
+import type { RiskModel } from '../entities/RiskModel';
+import { RiskCalculationService } from './RiskCalculationService';
+
+/**
+ * One forecast hour; matches the weather engine's WeatherForecast rows
+ */
+export interface HourlyRainfall {
+    timestamp: Date;
+    precipitationInchesPerHour: number;
+}
+
+/**
+ * Rain measured before the forecast starts, e.g. on-site gauge readings
+ */
+export interface ObservedRainfall {
+    observedAt: Date;
+    precipitationInches: number;
+}
+
+export interface RiskTimelineInput {
+    siteCondition: SiteCondition;
+    forecasts: HourlyRainfall[];
+    observedRainfall?: ObservedRainfall[];
+}
+
+export interface RiskTimelinePoint {
+    timestamp: Date;
+    precipitationInches: number;
+    antecedentRainInches: number;
+    effectiveRainInches: number;
+    score: number;
+    level: RiskLevel;
+}
+
+export interface RiskTimeline {
+    siteId: string;
+    model: RiskModelRef;
+    points: RiskTimelinePoint[];
+    peak: RiskTimelinePoint;
+    peakScore: RiskScore;                   // full score at the peak hour, with factors and actions
+    latestSafeFinishAt: Date | null;        // null when the peak stays low
+    startWorkBy: Date | null;               // latest start for one crew doing the peak's actions in turn
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+// Share of antecedent rain still held in the soil after an hour (half-life of about 17 hours)
+const HOURLY_RETENTION = 0.96;
+// Observed rain older than this no longer matters
+const ANTECEDENT_HOURS = 72;
+// Intensity at which an hour's rain counts double
+const INTENSE_RAIN_INCHES_PER_HOUR = 0.5;
+// Lighter rain still allows work outdoors
+const WET_HOUR_INCHES = 0.02;
+const LEVEL_ORDER: RiskLevel[] = ['low', 'moderate', 'high', 'critical'];
+
+export class RiskTimelineService {
+    private readonly calculator: RiskCalculationService;
+
+    constructor(calculator: RiskCalculationService = new RiskCalculationService()) {
+        this.calculator = calculator;
+    }
+
+    /**
+     * Score every forecast hour and find the peak and the latest safe finish time
+     */
+    calculateTimeline(input: RiskTimelineInput, model?: RiskModel): RiskTimeline {
+        const forecasts = [...input.forecasts].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        if (forecasts.length === 0) {
+            throw new Error('Forecast has no hours');
+        }
+
+        let antecedent = this.antecedentRain(input.observedRainfall ?? [], forecasts[0].timestamp);
+        const scores: RiskScore[] = [];
+        const points: RiskTimelinePoint[] = [];
+
+        forecasts.forEach((hour, index) => {
+            const rain = hour.precipitationInchesPerHour;
+            const effective = antecedent + rain * this.intensityWeight(rain);
+            const score = this.calculator.calculateForRain(input.siteCondition, effective, this.horizonFor(index), model);
+
+            scores.push(score);
+            points.push({
+                timestamp: hour.timestamp,
+                precipitationInches: rain,
+                antecedentRainInches: this.round(antecedent),
+                effectiveRainInches: this.round(effective),
+                score: score.score,
+                level: score.level,
+            });
+            antecedent = antecedent * HOURLY_RETENTION + rain;
+        });
+
+        const peakIndex = points.reduce((best, point, i) => (point.score > points[best].score ? i : best), 0);
+        const peak = points[peakIndex];
+        const peakScore = scores[peakIndex];
+        const latestSafeFinishAt = peak.level === 'low' ? null : this.latestSafeFinish(points, peakIndex);
+
+        return {
+            siteId: input.siteCondition.siteId,
+            model: peakScore.model,
+            points,
+            peak,
+            peakScore,
+            latestSafeFinishAt,
+            startWorkBy: latestSafeFinishAt ? this.startBy(latestSafeFinishAt, peakScore.actions) : null,
+        };
+    }
+
+    /**
+     * Observed rain still held in the soil when the forecast starts
+     */
+    private antecedentRain(observed: ObservedRainfall[], start: Date): number {
+        return observed.reduce((total, reading) => {
+            const hoursBefore = (start.getTime() - reading.observedAt.getTime()) / MS_PER_HOUR;
+            if (hoursBefore < 0 || hoursBefore > ANTECEDENT_HOURS) return total;
+            return total + reading.precipitationInches * Math.pow(HOURLY_RETENTION, hoursBefore);
+        }, 0);
+    }
+
+    /**
+     * Rain falling faster than the soil absorbs it runs off; counts up to double
+     */
+    private intensityWeight(inchesPerHour: number): number {
+        return 1 + Math.min(1, inchesPerHour / INTENSE_RAIN_INCHES_PER_HOUR);
+    }
+
+    private horizonFor(index: number): 24 | 48 | 72 {
+        if (index < 24) return 24;
+        return index < 48 ? 48 : 72;
+    }
+
+    /**
+     * Start of the wet spell leading up to the peak, or of the first hour at the
+     * peak's level if that comes earlier
+     */
+    private latestSafeFinish(points: RiskTimelinePoint[], peakIndex: number): Date {
+        let onset = peakIndex;
+        while (onset > 0 && points[onset - 1].precipitationInches >= WET_HOUR_INCHES) {
+            onset--;
+        }
+
+        const peakRank = LEVEL_ORDER.indexOf(points[peakIndex].level);
+        const firstAtPeakLevel = points.findIndex(p => LEVEL_ORDER.indexOf(p.level) >= peakRank);
+
+        return points[Math.min(onset, firstAtPeakLevel)].timestamp;
+    }
+
+    private startBy(finishAt: Date, actions: PreventiveAction[]): Date {
+        const hours = actions.reduce((total, action) => total + action.estimatedTimeHours, 0);
+        return new Date(finishAt.getTime() - hours * MS_PER_HOUR);
+    }
+
+    private round(inches: number): number {
+        return Math.round(inches * 1000) / 1000;
+    }
+}
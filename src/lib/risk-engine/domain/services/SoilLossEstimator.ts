@@ -0,0 +1,140 @@
+/**
+ * SoilLossEstimator - Domain Service
+ *
+ * Estimates soil loss from forecast rain with the Revised Universal Soil Loss
+ * Equation, A = R * K * LS * C * P, in US customary units (tons/acre):
+ * - R: storm erosivity from rainfall depth (Richardson daily erosivity)
+ * - K: soil erodibility by texture, else by soil type
+ * - LS: slope length and steepness (McCool)
+ * - C: cover from construction phase and cover BMPs
+ * - P: support practice from sediment control BMPs
+ * The horizon's rain is treated as a single storm, which errs on the high side.
+ */
+
+import type { BMPInventoryItem, ConstructionPhase, SiteCondition, SoilTexture, SoilType } from '../entities/SiteCondition';
+
+export interface SoilLossEstimate {
+    erosivity: number;      // R, hundreds of ft*tonf*in/(ac*h)
+    erodibility: number;    // K
+    lengthSlope: number;    // LS
+    cover: number;          // C
+    practice: number;       // P
+    tonsPerAcre: number;
+}
+
+const MM_PER_INCH = 25.4;
+// Storms under half an inch are not erosive in RUSLE
+const EROSIVE_RAIN_INCHES = 0.5;
+// Converts MJ*mm/(ha*h) to hundreds of ft*tonf*in/(ac*h)
+const SI_PER_US_EROSIVITY = 17.02;
+// Length of the RUSLE unit plot
+const UNIT_PLOT_FEET = 72.6;
+const DEFAULT_SLOPE_LENGTH_FEET = 100;
+
+// Average organic matter values of the USDA texture classes
+const ERODIBILITY_BY_TEXTURE: Record<SoilTexture, number> = {
+    sand: 0.02,
+    loamy_sand: 0.04,
+    sandy_loam: 0.13,
+    loam: 0.30,
+    silt_loam: 0.38,
+    silt: 0.52,
+    sandy_clay_loam: 0.20,
+    clay_loam: 0.30,
+    silty_clay_loam: 0.32,
+    sandy_clay: 0.14,
+    silty_clay: 0.26,
+    clay: 0.22,
+};
+
+const ERODIBILITY_BY_SOIL_TYPE: Record<SoilType, number> = {
+    sandy: ERODIBILITY_BY_TEXTURE.sandy_loam,
+    loam: ERODIBILITY_BY_TEXTURE.loam,
+    clay: ERODIBILITY_BY_TEXTURE.clay,
+    rocky: 0.05,
+};
+
+// Share of the site left bare in each phase
+const COVER_BY_PHASE: Record<ConstructionPhase, number> = {
+    clearing: 1.0,
+    grading: 1.0,
+    paving: 0.5,
+    stabilization: 0.1,
+    completed: 0.01,
+};
+
+// C of bare soil covered by the BMP
+const COVER_BMPS = new Map<string, number>([
+    ['erosion_control_blanket', 0.1],
+    ['mulch', 0.1],
+    ['hydromulch', 0.3],
+    ['temporary_seeding', 0.5],
+]);
+
+// P of sediment barriers across the slope
+const PRACTICE_BMPS = new Map<string, number>([
+    ['silt_fence', 0.5],
+    ['fiber_roll', 0.6],
+    ['sediment_trap', 0.5],
+    ['check_dam', 0.8],
+]);
+
+// Poor BMPs are assumed to have failed, fair ones to work half as well
+const CONDITION_EFFECTIVENESS: Record<BMPInventoryItem['conditionRating'], number> = {
+    good: 1,
+    fair: 0.5,
+    poor: 0,
+};
+
+export class SoilLossEstimator {
+    /**
+     * Soil loss for the given forecast rain
+     */
+    estimate(site: SiteCondition, precipitationInches: number): SoilLossEstimate {
+        const erosivity = this.erosivity(precipitationInches);
+        const erodibility = site.soilTexture
+            ? ERODIBILITY_BY_TEXTURE[site.soilTexture]
+            : ERODIBILITY_BY_SOIL_TYPE[site.soilType];
+        const lengthSlope = this.lengthSlope(site.slopePercent, site.slopeLengthFeet ?? DEFAULT_SLOPE_LENGTH_FEET);
+        const cover = COVER_BY_PHASE[site.phase] * this.bestBmpFactor(site.bmpInventory, COVER_BMPS);
+        const practice = this.bestBmpFactor(site.bmpInventory, PRACTICE_BMPS);
+
+        const tonsPerAcre = erosivity * erodibility * lengthSlope * cover * practice;
+        return {
+            erosivity,
+            erodibility,
+            lengthSlope,
+            cover,
+            practice,
+            tonsPerAcre: Math.round(tonsPerAcre * 100) / 100,
+        };
+    }
+
+    private erosivity(precipitationInches: number): number {
+        if (precipitationInches < EROSIVE_RAIN_INCHES) return 0;
+        return (0.41 * Math.pow(precipitationInches * MM_PER_INCH, 1.81)) / SI_PER_US_EROSIVITY;
+    }
+
+    private lengthSlope(slopePercent: number, slopeLengthFeet: number): number {
+        const sin = Math.sin(Math.atan(slopePercent / 100));
+        const steepness = slopePercent < 9 ? 10.8 * sin + 0.03 : 16.8 * sin - 0.5;
+
+        // Rill to interrill erosion ratio for moderately consolidated soil
+        const beta = (sin / 0.0896) / (3 * Math.pow(sin, 0.8) + 0.56);
+        const exponent = beta / (1 + beta);
+        return Math.pow(slopeLengthFeet / UNIT_PLOT_FEET, exponent) * steepness;
+    }
+
+    /**
+     * Lowest factor among the site's BMPs of a kind, 1 without any
+     */
+    private bestBmpFactor(inventory: BMPInventoryItem[], factors: Map<string, number>): number {
+        let best = 1;
+        for (const bmp of inventory) {
+            const factor = factors.get(bmp.type);
+            if (factor === undefined || bmp.count === 0) continue;
+            best = Math.min(best, 1 - (1 - factor) * CONDITION_EFFECTIVENESS[bmp.conditionRating]);
+        }
+        return best;
+    }
+}
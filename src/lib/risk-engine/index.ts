@@ -3,8 +3,14 @@
  * 
  * Violation risk scoring for construction sites:
  * - Multi-factor risk analysis
+ * - RUSLE soil loss estimates from forecast rain
  * - Weather-integrated forecasting
+ * - Hour-by-hour risk timeline with the latest safe time for preventive work
+ * - Per-site score history with trend and change explanations
+ * - Portfolio ranking of all active sites for dispatch planning
+ * - What-if simulation of mitigation interventions
  * - Actionable recommendations
+ * - Versioned, declarative risk models per organization or jurisdiction
  * 
  * @example
  * ```typescript
@@ -32,18 +38,40 @@
 
 // Domain Layer - Entities
 export { RiskScore } from './domain/entities/RiskScore';
+export { DEFAULT_LEVEL_THRESHOLDS } from './domain/entities/RiskScore';
 export type {
     RiskScoreProps,
     RiskLevel,
+    RiskLevelThresholds,
+    RiskInputs,
+    RiskModelRef,
+    WeatherSource,
     PreventiveAction,
     RiskFactor
 } from './domain/entities/RiskScore';
 
+export { RiskModel } from './domain/entities/RiskModel';
+export type {
+    RiskModelDefinition,
+    RiskFactorDefinition,
+    RiskCurve,
+    RiskEvaluation,
+    NumericRiskInput,
+    CategoricalRiskInput
+} from './domain/entities/RiskModel';
+export {
+    DEFAULT_RISK_MODEL,
+    DEFAULT_RISK_MODEL_V1,
+    DEFAULT_RISK_MODEL_V2,
+    DEFAULT_RISK_MODEL_VERSIONS
+} from './domain/entities/defaultRiskModel';
+
 export { SiteCondition } from './domain/entities/SiteCondition';
 export type {
     SiteConditionProps,
     ConstructionPhase,
     SoilType,
+    SoilTexture,
     BMPInventoryItem
 } from './domain/entities/SiteCondition';
 
@@ -54,15 +82,123 @@ export type {
     RiskCalculationInput
 } from './domain/services/RiskCalculationService';
 
+export { RiskTimelineService } from './domain/services/RiskTimelineService';
+export type {
+    HourlyRainfall,
+    ObservedRainfall,
+    RiskTimelineInput,
+    RiskTimelinePoint,
+    RiskTimeline
+} from './domain/services/RiskTimelineService';
+
+export { RiskHistoryService } from './domain/services/RiskHistoryService';
+export type {
+    RiskHistory,
+    RiskTrend,
+    RiskScoreChange,
+    RiskFactorChange,
+    RiskInputChange,
+    RiskChangeQuery
+} from './domain/services/RiskHistoryService';
+
+export { PortfolioRiskService } from './domain/services/PortfolioRiskService';
+export type {
+    PortfolioRisk,
+    PortfolioSiteRisk,
+    PortfolioGroup,
+    PortfolioAction,
+    PortfolioQuery
+} from './domain/services/PortfolioRiskService';
+
+export { RiskSimulationService } from './domain/services/RiskSimulationService';
+export type {
+    RiskIntervention,
+    PlannedIntervention,
+    RiskScenario,
+    MitigationPlan,
+    RiskSimulation,
+    RiskSimulationInput
+} from './domain/services/RiskSimulationService';
+
+export { SoilLossEstimator } from './domain/services/SoilLossEstimator';
+export type { SoilLossEstimate } from './domain/services/SoilLossEstimator';
+
+export { BMPActionPlanner } from './domain/services/BMPActionPlanner';
+export type { PlannedBMPAction } from './domain/services/BMPActionPlanner';
+
+export { RiskModelRegistry } from './domain/services/RiskModelRegistry';
+export type { RiskModelSelection } from './domain/services/RiskModelRegistry';
+
+// Ports
+export type { IRiskScoreRepositoryPort, RiskScoreQuery } from './ports/IRiskScoreRepositoryPort';
+export type { IPortfolioSitePort, PortfolioSite } from './ports/IPortfolioSitePort';
+
+// Infrastructure Layer
+export { loadRiskModels } from './infrastructure/riskModelFiles';
+export { InMemoryRiskScoreRepository } from './infrastructure/InMemoryRiskScoreRepository';
+export { JsonLinesRiskScoreRepository } from './infrastructure/JsonLinesRiskScoreRepository';
+
 // ============================================================================
 // Factory Functions
 // ============================================================================
 
 import { RiskCalculationService } from './domain/services/RiskCalculationService';
+import { RiskTimelineService } from './domain/services/RiskTimelineService';
+import { RiskHistoryService } from './domain/services/RiskHistoryService';
+import { PortfolioRiskService } from './domain/services/PortfolioRiskService';
+import { RiskSimulationService } from './domain/services/RiskSimulationService';
+import { RiskModelRegistry } from './domain/services/RiskModelRegistry';
+import { RiskModel } from './domain/entities/RiskModel';
+import { DEFAULT_RISK_MODEL, DEFAULT_RISK_MODEL_VERSIONS } from './domain/entities/defaultRiskModel';
+import { loadRiskModels } from './infrastructure/riskModelFiles';
+import { JsonLinesRiskScoreRepository } from './infrastructure/JsonLinesRiskScoreRepository';
+import type { IPortfolioSitePort } from './ports/IPortfolioSitePort';
+import { resolveDataPath } from '../shared';
+import process from 'node:process';
+
+/**
+ * Create a risk calculation service, scoring with the default model unless given one
+ */
+export function createRiskCalculationService(model?: RiskModel): RiskCalculationService {
+    return new RiskCalculationService(model);
+}
+
+/**
+ * Create a risk timeline service, scoring with the default model unless given one
+ */
+export function createRiskTimelineService(model?: RiskModel): RiskTimelineService {
+    return new RiskTimelineService(new RiskCalculationService(model));
+}
+
+/**
+ * Create a what-if simulation service, scoring with the default model unless given one
+ */
+export function createRiskSimulationService(model?: RiskModel): RiskSimulationService {
+    return new RiskSimulationService(new RiskCalculationService(model));
+}
+
+/**
+ * Create a registry of the default model and the JSON definitions in
+ * RISK_MODELS_DIR (default: risk-models in the data directory)
+ */
+export function createRiskModelRegistry(): RiskModelRegistry {
+    const directory = process.env.RISK_MODELS_DIR || resolveDataPath('risk-models');
+    return new RiskModelRegistry(
+        [...DEFAULT_RISK_MODEL_VERSIONS.map(RiskModel.create), ...loadRiskModels(directory)],
+        DEFAULT_RISK_MODEL.id
+    );
+}
+
+/**
+ * Create the risk score history backed by the data directory
+ */
+export function createRiskHistoryService(): RiskHistoryService {
+    return new RiskHistoryService(new JsonLinesRiskScoreRepository(resolveDataPath('risk-scores')));
+}
 
 /**
- * Create a risk calculation service
+ * Create a portfolio risk service over the given sites, reusing and recording scores in the history
  */
-export function createRiskCalculationService(): RiskCalculationService {
-    return new RiskCalculationService();
+export function createPortfolioRiskService(sites: IPortfolioSitePort): PortfolioRiskService {
+    return new PortfolioRiskService(sites, createRiskHistoryService());
 }
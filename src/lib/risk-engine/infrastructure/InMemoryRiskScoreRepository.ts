@@ -0,0 +1,27 @@
+/**
+ * InMemoryRiskScoreRepository - Infrastructure Adapter
+ *
+ * Non-persistent risk score history for development/testing.
+ */
+
+import type { RiskScore } from '../domain/entities/RiskScore';
+import type { IRiskScoreRepositoryPort, RiskScoreQuery } from '../ports/IRiskScoreRepositoryPort';
+import { matchesQuery } from './riskScoreRecords';
+
+export class InMemoryRiskScoreRepository implements IRiskScoreRepositoryPort {
+    private readonly scores: RiskScore[] = [];
+
+    async append(scores: RiskScore[]): Promise<void> {
+        this.scores.push(...scores);
+    }
+
+    async findById(siteId: string, id: string): Promise<RiskScore | null> {
+        return this.scores.find(s => s.siteId === siteId && s.id === id) ?? null;
+    }
+
+    async findBySite(siteId: string, query: RiskScoreQuery = {}): Promise<RiskScore[]> {
+        return this.scores
+            .filter(s => s.siteId === siteId && matchesQuery(s, query))
+            .sort((a, b) => a.calculatedAt.getTime() - b.calculatedAt.getTime());
+    }
+}
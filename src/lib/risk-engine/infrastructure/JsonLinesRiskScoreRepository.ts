@@ -0,0 +1,45 @@
+/**
+ * JsonLinesRiskScoreRepository - Infrastructure Adapter
+ *
+ * Append-only file-backed risk score history with one file per site, so a
+ * site's history is read without reading every other site's.
+ */
+
+import path from 'node:path';
+import type { RiskScore } from '../domain/entities/RiskScore';
+import type { IRiskScoreRepositoryPort, RiskScoreQuery } from '../ports/IRiskScoreRepositoryPort';
+import { JsonLinesFileStore } from '../../shared/infrastructure/JsonLinesFileStore';
+import type { RiskScoreRecord } from './riskScoreRecords';
+import { fromRiskScoreRecord, matchesQuery, toRiskScoreRecord } from './riskScoreRecords';
+
+export class JsonLinesRiskScoreRepository implements IRiskScoreRepositoryPort {
+    private readonly directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async append(scores: RiskScore[]): Promise<void> {
+        for (const score of scores) {
+            await this.siteStore(score.siteId).append(toRiskScoreRecord(score));
+        }
+    }
+
+    async findById(siteId: string, id: string): Promise<RiskScore | null> {
+        const records = await this.siteStore(siteId).readAll();
+        const record = records.find(r => r.id === id);
+        return record ? fromRiskScoreRecord(record) : null;
+    }
+
+    async findBySite(siteId: string, query: RiskScoreQuery = {}): Promise<RiskScore[]> {
+        const records = await this.siteStore(siteId).readAll();
+        return records
+            .map(fromRiskScoreRecord)
+            .filter(s => matchesQuery(s, query))
+            .sort((a, b) => a.calculatedAt.getTime() - b.calculatedAt.getTime());
+    }
+
+    private siteStore(siteId: string): JsonLinesFileStore<RiskScoreRecord> {
+        return new JsonLinesFileStore<RiskScoreRecord>(path.join(this.directory, `${encodeURIComponent(siteId)}.jsonl`));
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * Risk Model Files - Infrastructure
+ *
+ * Reads organization and jurisdiction risk models from a directory of JSON
+ * files, each holding one definition or an array of them. A missing
+ * directory means no custom models; an invalid file fails loudly.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { RiskModel } from '../domain/entities/RiskModel';
+
+export function loadRiskModels(directory: string): RiskModel[] {
+    if (!fs.existsSync(directory)) return [];
+
+    return fs.readdirSync(directory)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .flatMap(file => {
+            const filePath = path.join(directory, file);
+            try {
+                const content: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+                return (Array.isArray(content) ? content : [content]).map(definition => RiskModel.parse(definition));
+            } catch (error) {
+                throw new Error(`${filePath}: ${(error as Error).message}`);
+            }
+        });
+}
@@ -0,0 +1,38 @@
+/**
+ * Risk Score Records
+ *
+ * JSON-safe representation of RiskScore and the query filter shared by the
+ * score history stores.
+ */
+
+import { RiskScore } from '../domain/entities/RiskScore';
+import type { RiskScoreProps } from '../domain/entities/RiskScore';
+import type { RiskScoreQuery } from '../ports/IRiskScoreRepositoryPort';
+
+export type RiskScoreRecord = Omit<RiskScoreProps, 'calculatedAt' | 'expiresAt'> & {
+    calculatedAt: string;
+    expiresAt: string;
+};
+
+export function toRiskScoreRecord(score: RiskScore): RiskScoreRecord {
+    const props = score.toProps();
+    return {
+        ...props,
+        calculatedAt: props.calculatedAt.toISOString(),
+        expiresAt: props.expiresAt.toISOString(),
+    };
+}
+
+export function fromRiskScoreRecord(record: RiskScoreRecord): RiskScore {
+    return RiskScore.restore({
+        ...record,
+        calculatedAt: new Date(record.calculatedAt),
+        expiresAt: new Date(record.expiresAt),
+    });
+}
+
+export function matchesQuery(score: RiskScore, query: RiskScoreQuery): boolean {
+    return (!query.since || score.calculatedAt >= query.since)
+        && (!query.until || score.calculatedAt <= query.until)
+        && (!query.horizonHours || score.horizonHours === query.horizonHours);
+}
@@ -0,0 +1,29 @@
+/**
+ * IPortfolioSitePort - Port Interface
+ *
+ * Interface for the sites and forecasts a portfolio risk ranking covers.
+ */
+
+import type { SiteCondition } from '../domain/entities/SiteCondition';
+import type { RiskModel } from '../domain/entities/RiskModel';
+import type { WeatherInput } from '../domain/services/RiskCalculationService';
+
+export interface PortfolioSite {
+    siteCondition: SiteCondition;
+    name: string;
+    region: string | null;
+    contractor: string | null;
+    model: RiskModel;       // the model the site is scored with
+}
+
+export interface IPortfolioSitePort {
+    /**
+     * Every active site
+     */
+    listActiveSites(): Promise<PortfolioSite[]>;
+
+    /**
+     * Forecast precipitation totals for a site from the weather provider, summed from the given time
+     */
+    getWeather(siteId: string, now: Date): Promise<WeatherInput>;
+}
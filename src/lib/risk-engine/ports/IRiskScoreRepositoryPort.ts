@@ -0,0 +1,30 @@
+/**
+ * IRiskScoreRepositoryPort - Port Interface
+ *
+ * Interface for persisting calculated risk scores as per-site history.
+ */
+
+import type { RiskScore } from '../domain/entities/RiskScore';
+
+export interface RiskScoreQuery {
+    since?: Date;
+    until?: Date;
+    horizonHours?: 24 | 48 | 72;
+}
+
+export interface IRiskScoreRepositoryPort {
+    /**
+     * Append calculated scores to the history
+     */
+    append(scores: RiskScore[]): Promise<void>;
+
+    /**
+     * Find one of a site's scores by id
+     */
+    findById(siteId: string, id: string): Promise<RiskScore | null>;
+
+    /**
+     * List a site's scores in calculation order
+     */
+    findBySite(siteId: string, query?: RiskScoreQuery): Promise<RiskScore[]>;
+}
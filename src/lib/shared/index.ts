@@ -0,0 +1,18 @@
+/**
+ * Shared Infrastructure Module
+ *
+ * Cross-module building blocks for embedded persistence.
+ */
+
+export { JsonFileStore } from './infrastructure/JsonFileStore';
+export { JsonLinesFileStore } from './infrastructure/JsonLinesFileStore';
+
+import path from 'node:path';
+import process from 'node:process';
+
+/**
+ * Resolve a store file inside the configured data directory
+ */
+export function resolveDataPath(fileName: string): string {
+    return path.join(process.env.ESCACS_DATA_DIR || './data', fileName);
+}
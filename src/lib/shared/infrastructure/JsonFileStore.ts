@@ -0,0 +1,96 @@
+/**
+ * JsonFileStore - Infrastructure Adapter
+ *
+ * Embedded file-backed document store keyed by record id.
+ * Writes go to a temp file first and are renamed into place so a crash
+ * mid-write never leaves a truncated store behind.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+
+// Serializes read-modify-write cycles per file across store instances
+const fileLocks = new Map<string, Promise<unknown>>();
+
+export class JsonFileStore<T extends { id: string }> {
+    private readonly filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    /**
+     * Read every stored record
+     */
+    async readAll(): Promise<T[]> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf-8');
+            return JSON.parse(content) as T[];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    /**
+     * Replace the full contents of the store
+     */
+    async writeAll(records: T[]): Promise<void> {
+        await this.withLock(() => this.writeFile(records));
+    }
+
+    /**
+     * Find a record by id
+     */
+    async get(id: string): Promise<T | null> {
+        const records = await this.readAll();
+        return records.find(r => r.id === id) ?? null;
+    }
+
+    /**
+     * Insert or replace a record by id
+     */
+    async upsert(record: T): Promise<void> {
+        await this.withLock(async () => {
+            const records = await this.readAll();
+            const index = records.findIndex(r => r.id === record.id);
+            if (index === -1) {
+                records.push(record);
+            } else {
+                records[index] = record;
+            }
+            await this.writeFile(records);
+        });
+    }
+
+    /**
+     * Remove a record by id
+     */
+    async remove(id: string): Promise<void> {
+        await this.withLock(async () => {
+            const records = await this.readAll();
+            await this.writeFile(records.filter(r => r.id !== id));
+        });
+    }
+
+    private async writeFile(records: T[]): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(records, null, 2), 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+    }
+
+    private async withLock<R>(task: () => Promise<R>): Promise<R> {
+        const previous = fileLocks.get(this.filePath) ?? Promise.resolve();
+        const next = previous.catch(() => undefined).then(task);
+        fileLocks.set(this.filePath, next);
+        try {
+            return await next;
+        } finally {
+            if (fileLocks.get(this.filePath) === next) {
+                fileLocks.delete(this.filePath);
+            }
+        }
+    }
+}
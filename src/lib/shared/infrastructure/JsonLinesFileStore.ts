@@ -0,0 +1,43 @@
+/**
+ * JsonLinesFileStore - Infrastructure Adapter
+ *
+ * Append-only JSON-lines log for records that must never be rewritten
+ * (compliance evidence, audit trails). Each line is one record.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export class JsonLinesFileStore<T> {
+    private readonly filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    /**
+     * Append a record to the end of the log
+     */
+    async append(record: T): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+    }
+
+    /**
+     * Read every record in append order
+     */
+    async readAll(): Promise<T[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.filePath, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        return content
+            .split('\n')
+            .filter(line => line.trim().length > 0)
+            .map(line => JSON.parse(line) as T);
+    }
+}
@@ -0,0 +1,307 @@
+/**
+ * Site - Domain Entity
+ *
+ * Aggregate root for a managed construction site: physical characteristics,
+ * permit details and the people responsible for it.
+ */
+
+import type {
+    BMPInventoryItem,
+    ConstructionPhase,
+    SoilTexture,
+    SoilType
+} from '../../../risk-engine/domain/entities/SiteCondition';
+
+// Installed BMP as recorded at the site; ids are assigned on registration
+export type SiteBMP = BMPInventoryItem & { id: string };
+
+export type SiteStatus = 'active' | 'archived';
+// Standard roles are superintendent, inspector, owner and resident_engineer; sites may add their own
+export type ContactRole = string;
+export type ContactChannel = 'sms' | 'push' | 'email';
+
+export interface SiteLocation {
+    latitude: number;
+    longitude: number;
+}
+
+export interface ContactQuietHours {
+    start: string;
+    end: string;
+    timeZone: string;
+}
+
+export interface SiteContact {
+    id: string;
+    name: string;
+    role: ContactRole;
+    phone?: string;
+    email?: string;
+    alertChannels?: ContactChannel[];
+    quietHours?: ContactQuietHours;
+    language?: string;
+}
+
+// Permit trigger on cumulative rain, e.g. 0.5 in within 24 hours
+export interface RainAccumulationRule {
+    thresholdInches: number;
+    windowHours: number;
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Accumulation windows must fit in the 72-hour forecast
+const MAX_ACCUMULATION_WINDOW_HOURS = 72;
+
+export interface SiteProps {
+    id: string;
+    name: string;
+    location: SiteLocation;
+    acreage: number;
+    soilType: SoilType;
+    soilTexture?: SoilTexture;  // refines soil erodibility in soil loss estimates
+    slopePercent: number;
+    slopeLengthFeet?: number;   // longest disturbed slope; a typical length when unset
+    phase: ConstructionPhase;
+    permitNumber: string;
+    jurisdiction: string;
+    organizationId?: string;    // owning organization; selects its risk model
+    region?: string;            // e.g. a PM's territory; groups portfolio risk
+    contractor?: string;        // general contractor doing the work
+    timeZone?: string;  // IANA zone used for local times in alerts; UTC when unset
+    contacts: SiteContact[];
+    rainThresholdInchesPerHour: number;
+    rainAccumulationRules?: RainAccumulationRule[];
+    inspectionDeadlineHours: 24 | 48 | 72;
+    rulePackId?: string;        // jurisdiction rule pack; replaces inspectionDeadlineHours when set
+    rulePackVersion?: string;   // pinned pack version; latest when unset
+    frozenGround?: boolean;     // enables a pack's frozen-ground winter exemption
+    holidayCalendarId?: string; // replaces the rule pack's holiday calendar
+    riskModelId?: string;       // pinned risk model; organization, jurisdiction or default model when unset
+    riskModelVersion?: number;  // pinned model version; latest when unset
+    historicalNOVCount: number;
+    bmpInventory?: SiteBMP[];
+    lastInspectionAt?: Date;
+    status: SiteStatus;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type SiteUpdate = Partial<Omit<SiteProps, 'id' | 'status' | 'createdAt' | 'updatedAt'>>;
+
+export class Site {
+    readonly id: string;
+    readonly name: string;
+    readonly location: SiteLocation;
+    readonly acreage: number;
+    readonly soilType: SoilType;
+    readonly soilTexture: SoilTexture | null;
+    readonly slopePercent: number;
+    readonly slopeLengthFeet: number | null;
+    readonly phase: ConstructionPhase;
+    readonly permitNumber: string;
+    readonly jurisdiction: string;
+    readonly organizationId: string | null;
+    readonly region: string | null;
+    readonly contractor: string | null;
+    readonly timeZone: string;
+    readonly contacts: SiteContact[];
+    readonly rainThresholdInchesPerHour: number;
+    readonly rainAccumulationRules: RainAccumulationRule[];
+    readonly inspectionDeadlineHours: 24 | 48 | 72;
+    readonly rulePackId: string | null;
+    readonly rulePackVersion: string | null;
+    readonly frozenGround: boolean;
+    readonly holidayCalendarId: string | null;
+    readonly riskModelId: string | null;
+    readonly riskModelVersion: number | null;
+    readonly historicalNOVCount: number;
+    readonly bmpInventory: SiteBMP[];
+    readonly lastInspectionAt: Date | null;
+    readonly status: SiteStatus;
+    readonly createdAt: Date;
+    readonly updatedAt: Date;
+
+    private constructor(props: SiteProps) {
+        this.id = props.id;
+        this.name = props.name;
+        this.location = props.location;
+        this.acreage = props.acreage;
+        this.soilType = props.soilType;
+        this.soilTexture = props.soilTexture ?? null;
+        this.slopePercent = props.slopePercent;
+        this.slopeLengthFeet = props.slopeLengthFeet ?? null;
+        this.phase = props.phase;
+        this.permitNumber = props.permitNumber;
+        this.jurisdiction = props.jurisdiction;
+        this.organizationId = props.organizationId ?? null;
+        this.region = props.region ?? null;
+        this.contractor = props.contractor ?? null;
+        this.timeZone = props.timeZone ?? 'UTC';
+        this.contacts = props.contacts;
+        this.rainThresholdInchesPerHour = props.rainThresholdInchesPerHour;
+        this.rainAccumulationRules = props.rainAccumulationRules ?? [];
+        this.inspectionDeadlineHours = props.inspectionDeadlineHours;
+        this.rulePackId = props.rulePackId ?? null;
+        this.rulePackVersion = props.rulePackVersion ?? null;
+        this.frozenGround = props.frozenGround ?? false;
+        this.holidayCalendarId = props.holidayCalendarId ?? null;
+        this.riskModelId = props.riskModelId ?? null;
+        this.riskModelVersion = props.riskModelVersion ?? null;
+        this.historicalNOVCount = props.historicalNOVCount;
+        this.bmpInventory = props.bmpInventory ?? [];
+        this.lastInspectionAt = props.lastInspectionAt ?? null;
+        this.status = props.status;
+        this.createdAt = props.createdAt;
+        this.updatedAt = props.updatedAt;
+    }
+
+    static create(props: SiteProps): Site {
+        if (!props.name) {
+            throw new Error('Site name is required');
+        }
+        if (Math.abs(props.location.latitude) > 90 || Math.abs(props.location.longitude) > 180) {
+            throw new Error('Location is out of range');
+        }
+        if (props.acreage <= 0) {
+            throw new Error('Acreage must be positive');
+        }
+        if (props.slopePercent < 0) {
+            throw new Error('Slope cannot be negative');
+        }
+        if (props.slopeLengthFeet !== undefined && props.slopeLengthFeet <= 0) {
+            throw new Error('Slope length must be positive');
+        }
+        if (props.rainThresholdInchesPerHour <= 0) {
+            throw new Error('Rain threshold must be positive');
+        }
+        if (props.timeZone) {
+            Site.validateTimeZone(props.timeZone);
+        }
+        if (props.rulePackVersion && !props.rulePackId) {
+            throw new Error('Rule pack version requires a rule pack');
+        }
+        // Sites without a rule pack use elapsed-hour deadlines that no calendar would move
+        if (props.holidayCalendarId && !props.rulePackId) {
+            throw new Error('Holiday calendar requires a rule pack');
+        }
+        if (props.riskModelVersion !== undefined && !props.riskModelId) {
+            throw new Error('Risk model version requires a risk model');
+        }
+        props.rainAccumulationRules?.forEach(Site.validateAccumulationRule);
+        props.contacts.forEach(Site.validateContact);
+        props.bmpInventory?.forEach(Site.validateBMP);
+        return new Site(props);
+    }
+
+    private static validateContact(contact: SiteContact): void {
+        if (!contact.name || !contact.role) {
+            throw new Error('Contact name and role are required');
+        }
+        const quietHours = contact.quietHours;
+        if (quietHours && !(TIME_OF_DAY.test(quietHours.start) && TIME_OF_DAY.test(quietHours.end))) {
+            throw new Error(`Quiet hours for ${contact.name} must be HH:MM`);
+        }
+        if (quietHours) {
+            Site.validateTimeZone(quietHours.timeZone);
+        }
+    }
+
+    private static validateBMP(bmp: SiteBMP): void {
+        if (!bmp.type) {
+            throw new Error('BMP type is required');
+        }
+        if (!Number.isInteger(bmp.count) || bmp.count < 0) {
+            throw new Error(`BMP count must be a whole number: ${bmp.type}`);
+        }
+    }
+
+    private static validateAccumulationRule(rule: RainAccumulationRule): void {
+        if (rule.thresholdInches <= 0) {
+            throw new Error('Accumulation threshold must be positive');
+        }
+        if (!Number.isInteger(rule.windowHours) || rule.windowHours < 1 || rule.windowHours > MAX_ACCUMULATION_WINDOW_HOURS) {
+            throw new Error(`Accumulation window must be 1-${MAX_ACCUMULATION_WINDOW_HOURS} whole hours`);
+        }
+    }
+
+    private static validateTimeZone(timeZone: string): void {
+        try {
+            new Intl.DateTimeFormat('en', { timeZone });
+        } catch {
+            throw new Error(`Unknown time zone: ${timeZone}`);
+        }
+    }
+
+    /**
+     * Return a copy of the site with the given changes applied
+     */
+    withChanges(changes: SiteUpdate, updatedAt: Date = new Date()): Site {
+        return Site.create({ ...this.toProps(), ...changes, updatedAt });
+    }
+
+    /**
+     * Return an archived copy of the site
+     */
+    archive(archivedAt: Date = new Date()): Site {
+        return Site.create({ ...this.toProps(), status: 'archived', updatedAt: archivedAt });
+    }
+
+    /**
+     * Check if site is actively monitored
+     */
+    isActive(): boolean {
+        return this.status === 'active';
+    }
+
+    /**
+     * Get contacts holding a specific role
+     */
+    getContactsByRole(role: ContactRole): SiteContact[] {
+        return this.contacts.filter(c => c.role === role);
+    }
+
+    /**
+     * Whole days since the last recorded inspection (since registration if never inspected)
+     */
+    getDaysSinceLastInspection(now: Date = new Date()): number {
+        const reference = this.lastInspectionAt ?? this.createdAt;
+        const diff = now.getTime() - reference.getTime();
+        return Math.max(0, Math.floor(diff / (1000 * 60 * 60 * 24)));
+    }
+
+    toProps(): SiteProps {
+        return {
+            id: this.id,
+            name: this.name,
+            location: this.location,
+            acreage: this.acreage,
+            soilType: this.soilType,
+            soilTexture: this.soilTexture ?? undefined,
+            slopePercent: this.slopePercent,
+            slopeLengthFeet: this.slopeLengthFeet ?? undefined,
+            phase: this.phase,
+            permitNumber: this.permitNumber,
+            jurisdiction: this.jurisdiction,
+            organizationId: this.organizationId ?? undefined,
+            region: this.region ?? undefined,
+            contractor: this.contractor ?? undefined,
+            timeZone: this.timeZone,
+            contacts: this.contacts,
+            rainThresholdInchesPerHour: this.rainThresholdInchesPerHour,
+            rainAccumulationRules: this.rainAccumulationRules,
+            inspectionDeadlineHours: this.inspectionDeadlineHours,
+            rulePackId: this.rulePackId ?? undefined,
+            rulePackVersion: this.rulePackVersion ?? undefined,
+            frozenGround: this.frozenGround,
+            holidayCalendarId: this.holidayCalendarId ?? undefined,
+            riskModelId: this.riskModelId ?? undefined,
+            riskModelVersion: this.riskModelVersion ?? undefined,
+            historicalNOVCount: this.historicalNOVCount,
+            bmpInventory: this.bmpInventory,
+            lastInspectionAt: this.lastInspectionAt ?? undefined,
+            status: this.status,
+            createdAt: this.createdAt,
+            updatedAt: this.updatedAt,
+        };
+    }
+}
@@ -0,0 +1,272 @@
+/**
+ * SiteRegistryService - Domain Service
+ *
+ * Registers and maintains managed sites, and derives the per-engine inputs
+ * (risk SiteCondition, weather SitePermit) from the stored aggregate.
+ */
+
+import { Site } from '../entities/Site';
+import type { SiteBMP, SiteContact, SiteProps, SiteUpdate } from '../entities/Site';
+import type { ISiteRepositoryPort, SiteQuery } from '../../ports/ISiteRepositoryPort';
+import { SiteCondition } from '../../../risk-engine/domain/entities/SiteCondition';
+import type { SiteConditionProps } from '../../../risk-engine/domain/entities/SiteCondition';
+import type { SitePermit } from '../../../weather-engine/domain/services/WeatherTriggerService';
+import type { RecipientProfile } from '../../../weather-engine/domain/services/AlertRoutingPolicy';
+import { RulePackRegistry } from '../../../jurisdiction-rules/domain/services/RulePackRegistry';
+import type {
+    JurisdictionRulePack,
+    RoutineInspectionRule,
+    SiteRuleConditions
+} from '../../../jurisdiction-rules/domain/entities/JurisdictionRulePack';
+import { RiskModelRegistry } from '../../../risk-engine/domain/services/RiskModelRegistry';
+import { RiskModel } from '../../../risk-engine/domain/entities/RiskModel';
+import { DEFAULT_RISK_MODEL, DEFAULT_RISK_MODEL_VERSIONS } from '../../../risk-engine/domain/entities/defaultRiskModel';
+import { BusinessCalendar } from '../../../jurisdiction-rules/domain/entities/BusinessCalendar';
+import { HolidayCalendar } from '../../../jurisdiction-rules/domain/entities/HolidayCalendar';
+
+export type SiteContactInput = Omit<SiteContact, 'id'> & { id?: string };
+export type SiteBMPInput = Omit<SiteBMP, 'id'> & { id?: string };
+
+export type SiteRegistration = Omit<SiteProps, 'id' | 'status' | 'createdAt' | 'updatedAt' | 'contacts' | 'historicalNOVCount' | 'bmpInventory'> & {
+    id?: string;
+    contacts?: SiteContactInput[];
+    historicalNOVCount?: number;
+    bmpInventory?: SiteBMPInput[];
+};
+
+export type SiteConditionOverrides = Partial<Omit<SiteConditionProps, 'siteId'>>;
+
+// Sites without a rule pack keep the weekly routine inspection most permits require
+const DEFAULT_ROUTINE_INSPECTION: RoutineInspectionRule = { every: 7, unit: 'calendar_days' };
+
+export class SiteRegistryService {
+    private readonly repository: ISiteRepositoryPort;
+    private readonly rulePacks: RulePackRegistry;
+    private readonly riskModels: RiskModelRegistry;
+
+    constructor(
+        repository: ISiteRepositoryPort,
+        rulePacks: RulePackRegistry = new RulePackRegistry([]),
+        riskModels: RiskModelRegistry = new RiskModelRegistry(
+            DEFAULT_RISK_MODEL_VERSIONS.map(RiskModel.create),
+            DEFAULT_RISK_MODEL.id
+        )
+    ) {
+        this.repository = repository;
+        this.rulePacks = rulePacks;
+        this.riskModels = riskModels;
+    }
+
+    /**
+     * Register a new site
+     */
+    async registerSite(registration: SiteRegistration): Promise<Site> {
+        const now = new Date();
+        const site = Site.create({
+            ...registration,
+            id: registration.id ?? crypto.randomUUID(),
+            contacts: this.assignContactIds(registration.contacts ?? []),
+            bmpInventory: this.assignBMPIds(registration.bmpInventory ?? []),
+            historicalNOVCount: registration.historicalNOVCount ?? 0,
+            status: 'active',
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        this.getRuleConditions(site);
+        this.getRulePack(site);
+        this.getRiskModel(site);
+        await this.repository.save(site);
+        return site;
+    }
+
+    /**
+     * List registered sites
+     */
+    async listSites(query: SiteQuery = {}): Promise<Site[]> {
+        return this.repository.findAll(query);
+    }
+
+    /**
+     * Get a site by id
+     */
+    async getSite(id: string): Promise<Site | null> {
+        return this.repository.findById(id);
+    }
+
+    /**
+     * Apply changes to an existing site
+     */
+    async updateSite(
+        id: string,
+        changes: Omit<SiteUpdate, 'contacts' | 'bmpInventory'> & {
+            contacts?: SiteContactInput[];
+            bmpInventory?: SiteBMPInput[];
+        }
+    ): Promise<Site | null> {
+        const site = await this.repository.findById(id);
+        if (!site) return null;
+
+        const contacts = changes.contacts ? this.assignContactIds(changes.contacts) : undefined;
+        const bmpInventory = changes.bmpInventory ? this.assignBMPIds(changes.bmpInventory) : undefined;
+        const updated = site.withChanges(this.definedOnly({ ...changes, contacts, bmpInventory }));
+        this.getRuleConditions(updated);
+        this.getRulePack(updated);
+        this.getRiskModel(updated);
+        await this.repository.save(updated);
+        return updated;
+    }
+
+    /**
+     * Archive a site so it is no longer monitored
+     */
+    async archiveSite(id: string): Promise<Site | null> {
+        const site = await this.repository.findById(id);
+        if (!site) return null;
+
+        const archived = site.archive();
+        await this.repository.save(archived);
+        return archived;
+    }
+
+    /**
+     * Register the given sites when the registry is still empty
+     */
+    async seedIfEmpty(registrations: SiteRegistration[]): Promise<void> {
+        const existing = await this.repository.findAll({ includeArchived: true });
+        if (existing.length > 0) return;
+
+        for (const registration of registrations) {
+            await this.registerSite(registration);
+        }
+    }
+
+    /**
+     * Derive the risk engine's SiteCondition from stored site data
+     */
+    buildSiteCondition(
+        site: Site,
+        overrides: SiteConditionOverrides = {},
+        now: Date = new Date()
+    ): SiteCondition {
+        return SiteCondition.create({
+            siteId: site.id,
+            phase: site.phase,
+            slopePercent: site.slopePercent,
+            soilType: site.soilType,
+            soilTexture: site.soilTexture ?? undefined,
+            slopeLengthFeet: site.slopeLengthFeet ?? undefined,
+            acreage: site.acreage,
+            daysSinceLastInspection: site.getDaysSinceLastInspection(now),
+            bmpInventory: site.bmpInventory,
+            historicalNOVCount: site.historicalNOVCount,
+            observedAt: now,
+            ...this.definedOnly(overrides),
+        });
+    }
+
+    /**
+     * Resolve the site's jurisdiction rule pack (null when the site uses inspectionDeadlineHours)
+     */
+    getRulePack(site: Site): JurisdictionRulePack | null {
+        return site.rulePackId
+            ? this.rulePacks.resolve(site.rulePackId, site.rulePackVersion ?? undefined)
+            : null;
+    }
+
+    /**
+     * Resolve the risk model the site is scored with
+     */
+    getRiskModel(site: Site): RiskModel {
+        return this.riskModels.select({
+            riskModelId: site.riskModelId ?? undefined,
+            riskModelVersion: site.riskModelVersion ?? undefined,
+            organizationId: site.organizationId ?? undefined,
+            jurisdiction: site.jurisdiction,
+        });
+    }
+
+    /**
+     * Site conditions rule packs are evaluated against: time zone, holidays and frozen ground
+     */
+    getRuleConditions(site: Site): SiteRuleConditions {
+        return {
+            frozenGround: site.frozenGround,
+            timeZone: site.timeZone,
+            holidays: site.holidayCalendarId ? this.rulePacks.getHolidayCalendar(site.holidayCalendarId) : undefined,
+        };
+    }
+
+    /**
+     * Routine inspection frequency in effect on a date (null while inspections are suspended)
+     */
+    getRoutineRule(site: Site, on: Date = new Date()): RoutineInspectionRule | null {
+        const pack = this.getRulePack(site);
+        return pack ? pack.getRoutineRule(on, this.getRuleConditions(site)) : DEFAULT_ROUTINE_INSPECTION;
+    }
+
+    /**
+     * When the next routine inspection is due after the given one, in the site's time zone
+     */
+    getNextRoutineInspectionDue(site: Site, lastInspection: Date): Date | null {
+        const pack = this.getRulePack(site);
+        if (pack) return pack.getNextRoutineInspectionDue(lastInspection, this.getRuleConditions(site));
+
+        const calendar = BusinessCalendar.create({ timeZone: site.timeZone, holidays: HolidayCalendar.empty() });
+        return calendar.addCalendarDays(lastInspection, DEFAULT_ROUTINE_INSPECTION.every);
+    }
+
+    /**
+     * Derive the weather engine's SitePermit from stored site contacts
+     */
+    buildSitePermit(site: Site): SitePermit {
+        const recipients = site.contacts
+            .filter(c => c.phone || c.email)
+            .map(c => this.toRecipientProfile(c));
+
+        if (recipients.length === 0) {
+            throw new Error(`Site ${site.id} has no contact that can receive alerts`);
+        }
+
+        return {
+            siteId: site.id,
+            thresholdInchesPerHour: site.rainThresholdInchesPerHour,
+            triggerRules: [
+                { type: 'intensity', thresholdInchesPerHour: site.rainThresholdInchesPerHour },
+                ...site.rainAccumulationRules.map(rule => ({ type: 'accumulation' as const, ...rule })),
+            ],
+            jurisdictionInspectionHours: site.inspectionDeadlineHours,
+            inspectionPolicy: this.getRulePack(site)?.toInspectionPolicy(this.getRuleConditions(site)),
+            siteName: site.name,
+            timeZone: site.timeZone,
+            recipients,
+        };
+    }
+
+    private toRecipientProfile(contact: SiteContact): RecipientProfile {
+        return {
+            contactId: contact.id,
+            name: contact.name,
+            role: contact.role,
+            phone: contact.phone,
+            email: contact.email,
+            channels: contact.alertChannels,
+            quietHours: contact.quietHours,
+            language: contact.language,
+        };
+    }
+
+    private assignContactIds(contacts: SiteContactInput[]): SiteContact[] {
+        return contacts.map(c => ({ ...c, id: c.id ?? crypto.randomUUID() }));
+    }
+
+    private assignBMPIds(bmps: SiteBMPInput[]): SiteBMP[] {
+        return bmps.map(b => ({ ...b, id: b.id ?? crypto.randomUUID() }));
+    }
+
+    private definedOnly<T extends object>(values: T): Partial<T> {
+        return Object.fromEntries(
+            Object.entries(values).filter(([, value]) => value !== undefined)
+        ) as Partial<T>;
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * Site Registry Module
+ *
+ * First-class site records shared by every engine:
+ * - Site aggregate with permit, jurisdiction and contacts
+ * - Repository port with in-memory and file-backed adapters
+ * - Derivation of risk and weather inputs from a site id
+ *
+ * @example
+ * ```typescript
+ * import { SiteRegistryService, InMemorySiteRepository } from '@/lib/site-registry';
+ *
+ * const registry = new SiteRegistryService(new InMemorySiteRepository());
+ * const site = await registry.registerSite({ name: 'Main Street', ... });
+ *
+ * const siteCondition = registry.buildSiteCondition(site);
+ * const permit = registry.buildSitePermit(site);
+ * ```
+ */
+
+// Domain Layer - Entities
+export { Site } from './domain/entities/Site';
+export type {
+    SiteProps,
+    SiteUpdate,
+    SiteStatus,
+    SiteLocation,
+    SiteContact,
+    ContactRole,
+    ContactChannel,
+    ContactQuietHours,
+    RainAccumulationRule,
+    SiteBMP
+} from './domain/entities/Site';
+
+// Domain Layer - Services
+export { SiteRegistryService } from './domain/services/SiteRegistryService';
+export type {
+    SiteRegistration,
+    SiteContactInput,
+    SiteBMPInput,
+    SiteConditionOverrides
+} from './domain/services/SiteRegistryService';
+
+// Ports
+export type {
+    ISiteRepositoryPort,
+    SiteQuery
+} from './ports/ISiteRepositoryPort';
+
+// Infrastructure - Adapters
+export { InMemorySiteRepository } from './infrastructure/InMemorySiteRepository';
+export { JsonFileSiteRepository } from './infrastructure/JsonFileSiteRepository';
+export { RegistryMonitoredSiteAdapter } from './infrastructure/RegistryMonitoredSiteAdapter';
+export { RegistryAlertContactAdapter } from './infrastructure/RegistryAlertContactAdapter';
+export { RegistryPreventiveActionAdapter } from './infrastructure/RegistryPreventiveActionAdapter';
+export { RegistryInspectionSiteAdapter } from './infrastructure/RegistryInspectionSiteAdapter';
+export { RegistryPortfolioSiteAdapter } from './infrastructure/RegistryPortfolioSiteAdapter';
+export { DEMO_SITES } from './infrastructure/demoSites';
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+import { SiteRegistryService } from './domain/services/SiteRegistryService';
+import { JsonFileSiteRepository } from './infrastructure/JsonFileSiteRepository';
+import { resolveDataPath } from '../shared';
+import { createRulePackRegistry } from '../jurisdiction-rules';
+import { createRiskModelRegistry } from '../risk-engine';
+
+/**
+ * Create a site registry service backed by the data directory
+ */
+export function createSiteRegistryService(): SiteRegistryService {
+    return new SiteRegistryService(
+        new JsonFileSiteRepository(resolveDataPath('sites.json')),
+        createRulePackRegistry(),
+        createRiskModelRegistry()
+    );
+}
@@ -0,0 +1,25 @@
+/**
+ * InMemorySiteRepository - Infrastructure Adapter
+ *
+ * Non-persistent site repository for development/testing.
+ */
+
+import type { Site } from '../domain/entities/Site';
+import type { ISiteRepositoryPort, SiteQuery } from '../ports/ISiteRepositoryPort';
+
+export class InMemorySiteRepository implements ISiteRepositoryPort {
+    private readonly sites = new Map<string, Site>();
+
+    async save(site: Site): Promise<void> {
+        this.sites.set(site.id, site);
+    }
+
+    async findById(id: string): Promise<Site | null> {
+        return this.sites.get(id) ?? null;
+    }
+
+    async findAll(query: SiteQuery = {}): Promise<Site[]> {
+        const sites = [...this.sites.values()];
+        return query.includeArchived ? sites : sites.filter(s => s.isActive());
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * JsonFileSiteRepository - Infrastructure Adapter
+ *
+ * File-backed site repository that survives API restarts.
+ */
+
+import { Site } from '../domain/entities/Site';
+import type { SiteBMP, SiteProps } from '../domain/entities/Site';
+import type { ISiteRepositoryPort, SiteQuery } from '../ports/ISiteRepositoryPort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+
+type SiteBMPRecord = Omit<SiteBMP, 'lastInspectionDate'> & { lastInspectionDate: string };
+
+type SiteRecord = Omit<SiteProps, 'bmpInventory' | 'lastInspectionAt' | 'createdAt' | 'updatedAt'> & {
+    bmpInventory?: SiteBMPRecord[];     // absent in files written before BMPs were stored
+    lastInspectionAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export class JsonFileSiteRepository implements ISiteRepositoryPort {
+    private readonly store: JsonFileStore<SiteRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<SiteRecord>(filePath);
+    }
+
+    async save(site: Site): Promise<void> {
+        await this.store.upsert(this.toRecord(site));
+    }
+
+    async findById(id: string): Promise<Site | null> {
+        const record = await this.store.get(id);
+        return record ? this.toEntity(record) : null;
+    }
+
+    async findAll(query: SiteQuery = {}): Promise<Site[]> {
+        const sites = (await this.store.readAll()).map(r => this.toEntity(r));
+        return query.includeArchived ? sites : sites.filter(s => s.isActive());
+    }
+
+    private toRecord(site: Site): SiteRecord {
+        return {
+            ...site.toProps(),
+            bmpInventory: site.bmpInventory.map(b => ({ ...b, lastInspectionDate: b.lastInspectionDate.toISOString() })),
+            lastInspectionAt: site.lastInspectionAt?.toISOString() ?? null,
+            createdAt: site.createdAt.toISOString(),
+            updatedAt: site.updatedAt.toISOString(),
+        };
+    }
+
+    private toEntity(record: SiteRecord): Site {
+        return Site.create({
+            ...record,
+            bmpInventory: record.bmpInventory?.map(b => ({ ...b, lastInspectionDate: new Date(b.lastInspectionDate) })),
+            lastInspectionAt: record.lastInspectionAt ? new Date(record.lastInspectionAt) : undefined,
+            createdAt: new Date(record.createdAt),
+            updatedAt: new Date(record.updatedAt),
+        });
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * RegistryAlertContactAdapter - Infrastructure Adapter
+ *
+ * Resolves escalation recipients from the contacts stored on a registered site.
+ */
+
+import type { SiteRegistryService } from '../domain/services/SiteRegistryService';
+import type { AlertRecipientType } from '../../weather-engine/domain/entities/WeatherAlert';
+import type { AlertContact, IAlertContactPort } from '../../weather-engine/ports/IAlertContactPort';
+
+export class RegistryAlertContactAdapter implements IAlertContactPort {
+    private readonly registry: SiteRegistryService;
+
+    constructor(registry: SiteRegistryService) {
+        this.registry = registry;
+    }
+
+    async findContacts(siteId: string, recipientType: AlertRecipientType): Promise<AlertContact[]> {
+        const site = await this.registry.getSite(siteId);
+        if (!site) return [];
+
+        return site.getContactsByRole(recipientType).map(contact => ({
+            name: contact.name,
+            phone: contact.phone,
+            email: contact.email,
+        }));
+    }
+}
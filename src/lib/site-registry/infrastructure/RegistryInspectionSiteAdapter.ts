@@ -0,0 +1,49 @@
+/**
+ * RegistryInspectionSiteAdapter - Infrastructure Adapter
+ *
+ * Lists active registered sites for inspection scheduling and expands their
+ * routine inspection frequency (rule pack, or weekly without one).
+ */
+
+import type { SiteRegistryService } from '../domain/services/SiteRegistryService';
+import type { IInspectionSitePort, ScheduledSite } from '../../inspection-scheduler/ports/IInspectionSitePort';
+
+// A daily routine over a year-long horizon stays well below this
+const MAX_DUE_DATES = 400;
+
+export class RegistryInspectionSiteAdapter implements IInspectionSitePort {
+    private readonly registry: SiteRegistryService;
+
+    constructor(registry: SiteRegistryService) {
+        this.registry = registry;
+    }
+
+    async listSites(): Promise<ScheduledSite[]> {
+        const sites = await this.registry.listSites();
+
+        return sites.map(site => ({
+            siteId: site.id,
+            siteName: site.name,
+            timeZone: site.timeZone,
+            inspectors: site.getContactsByRole('inspector').map(contact => ({
+                contactId: contact.id,
+                name: contact.name,
+                email: contact.email,
+            })),
+            lastInspectionAt: site.lastInspectionAt ?? site.createdAt,
+        }));
+    }
+
+    async getRoutineDueDates(siteId: string, lastInspectionAt: Date, until: Date): Promise<Date[]> {
+        const site = await this.registry.getSite(siteId);
+        if (!site) return [];
+
+        const dueDates: Date[] = [];
+        let due = this.registry.getNextRoutineInspectionDue(site, lastInspectionAt);
+        while (due && due <= until && dueDates.length < MAX_DUE_DATES) {
+            dueDates.push(due);
+            due = this.registry.getNextRoutineInspectionDue(site, due);
+        }
+        return dueDates;
+    }
+}
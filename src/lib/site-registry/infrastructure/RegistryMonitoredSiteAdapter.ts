@@ -0,0 +1,34 @@
+/**
+ * RegistryMonitoredSiteAdapter - Infrastructure Adapter
+ *
+ * Feeds active registered sites into the weather monitoring loop.
+ */
+
+import type { SiteRegistryService } from '../domain/services/SiteRegistryService';
+import type { IMonitoredSitePort, MonitoredSite } from '../../weather-engine/ports/IMonitoredSitePort';
+
+export class RegistryMonitoredSiteAdapter implements IMonitoredSitePort {
+    private readonly registry: SiteRegistryService;
+
+    constructor(registry: SiteRegistryService) {
+        this.registry = registry;
+    }
+
+    async listMonitoredSites(): Promise<MonitoredSite[]> {
+        const sites = await this.registry.listSites();
+
+        return sites.map(site => {
+            const monitored: MonitoredSite = {
+                siteId: site.id,
+                latitude: site.location.latitude,
+                longitude: site.location.longitude,
+            };
+            try {
+                monitored.permit = this.registry.buildSitePermit(site);
+            } catch (error) {
+                monitored.configurationError = (error as Error).message;
+            }
+            return monitored;
+        });
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * RegistryPortfolioSiteAdapter - Infrastructure Adapter
+ *
+ * Supplies the registered active sites, with their BMP inventory, last storm
+ * and risk model, and their forecast rain totals to portfolio risk ranking.
+ */
+
+import type { SiteRegistryService } from '../domain/services/SiteRegistryService';
+import type { IPortfolioSitePort, PortfolioSite } from '../../risk-engine/ports/IPortfolioSitePort';
+import type { WeatherInput } from '../../risk-engine/domain/services/RiskCalculationService';
+import type { IWeatherDataPort, WeatherForecast } from '../../weather-engine/ports/IWeatherDataPort';
+import type { IInspectionWindowRepositoryPort } from '../../weather-engine/ports/IInspectionWindowRepositoryPort';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class RegistryPortfolioSiteAdapter implements IPortfolioSitePort {
+    private readonly registry: SiteRegistryService;
+    private readonly weather: IWeatherDataPort;
+    private readonly inspectionWindows: IInspectionWindowRepositoryPort;
+
+    constructor(
+        registry: SiteRegistryService,
+        weather: IWeatherDataPort,
+        inspectionWindows: IInspectionWindowRepositoryPort
+    ) {
+        this.registry = registry;
+        this.weather = weather;
+        this.inspectionWindows = inspectionWindows;
+    }
+
+    async listActiveSites(): Promise<PortfolioSite[]> {
+        const sites = await this.registry.listSites();
+        return Promise.all(sites.map(async site => ({
+            siteCondition: this.registry.buildSiteCondition(site, { lastStormEndedAt: await this.findLastStormEnd(site.id) }),
+            name: site.name,
+            region: site.region,
+            contractor: site.contractor,
+            model: this.registry.getRiskModel(site),
+        })));
+    }
+
+    async getWeather(siteId: string, now: Date): Promise<WeatherInput> {
+        const site = await this.registry.getSite(siteId);
+        if (!site) {
+            throw new Error(`Unknown site: ${siteId}`);
+        }
+
+        const { forecasts } = await this.weather.getHourlyForecast(site.location.latitude, site.location.longitude, 72);
+        return {
+            precipitationInchesNext24h: this.sumPrecipitation(forecasts, now, 24),
+            precipitationInchesNext48h: this.sumPrecipitation(forecasts, now, 48),
+            precipitationInchesNext72h: this.sumPrecipitation(forecasts, now, 72),
+            source: 'provider_forecast',
+        };
+    }
+
+    /**
+     * Forecast rain for the hours starting within the horizon, including the current hour
+     */
+    private sumPrecipitation(forecasts: WeatherForecast[], from: Date, hours: number): number {
+        const start = from.getTime() - HOUR_MS;
+        const end = from.getTime() + hours * HOUR_MS;
+        return forecasts
+            .filter(f => f.timestamp.getTime() > start && f.timestamp.getTime() < end)
+            .reduce((total, f) => total + f.precipitationInchesPerHour, 0);
+    }
+
+    private async findLastStormEnd(siteId: string): Promise<Date | undefined> {
+        const windows = await this.inspectionWindows.findBySite(siteId);
+        return windows
+            .map(w => w.stormEndTime)
+            .reduce<Date | undefined>((latest, end) => (!latest || end > latest ? end : latest), undefined);
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ * RegistryPreventiveActionAdapter - Infrastructure Adapter
+ *
+ * Scores a registered site with the risk engine, using the site's risk
+ * model, to pick the preventive actions listed in its weather alerts.
+ */
+
+import type { SiteRegistryService } from '../domain/services/SiteRegistryService';
+import { RiskCalculationService } from '../../risk-engine/domain/services/RiskCalculationService';
+import type {
+    IPreventiveActionPort,
+    PrecipitationOutlook
+} from '../../weather-engine/ports/IPreventiveActionPort';
+
+export class RegistryPreventiveActionAdapter implements IPreventiveActionPort {
+    private readonly registry: SiteRegistryService;
+    private readonly riskService: RiskCalculationService;
+
+    constructor(registry: SiteRegistryService, riskService: RiskCalculationService = new RiskCalculationService()) {
+        this.registry = registry;
+        this.riskService = riskService;
+    }
+
+    async getTopActions(siteId: string, outlook: PrecipitationOutlook, count: number): Promise<string[]> {
+        const site = await this.registry.getSite(siteId);
+        if (!site) return [];
+
+        const score = this.riskService.calculateRisk({
+            siteCondition: this.registry.buildSiteCondition(site),
+            weather: outlook,
+        }, 48, this.registry.getRiskModel(site));
+        return score.getTopActions(count).map(a => a.action);
+    }
+}
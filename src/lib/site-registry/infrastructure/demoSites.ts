@@ -0,0 +1,83 @@
+/**
+ * Demo Sites - Seed Data
+ *
+ * Berlin pilot sites registered on first start in development.
+ */
+
+import type { SiteRegistration } from '../domain/services/SiteRegistryService';
+
+export const DEMO_SITES: SiteRegistration[] = [
+    {
+        id: 'site-1',
+        name: 'Berlin North Heights',
+        location: { latitude: 52.5200, longitude: 13.4050 },
+        acreage: 4.2,
+        soilType: 'loam',
+        slopePercent: 4,
+        phase: 'paving',
+        permitNumber: 'BE-2026-0141',
+        jurisdiction: 'Berlin SenUVK',
+        timeZone: 'Europe/Berlin',
+        rainThresholdInchesPerHour: 0.5,
+        inspectionDeadlineHours: 24,
+        contacts: [
+            {
+                id: 'contact-1-super',
+                name: 'Site Superintendent',
+                role: 'superintendent',
+                phone: '+4930555010',
+                language: 'de',
+                quietHours: { start: '22:00', end: '06:00', timeZone: 'Europe/Berlin' },
+            },
+            {
+                id: 'contact-1-insp',
+                name: 'Site Inspector',
+                role: 'inspector',
+                email: 'inspector.north@example.com',
+                alertChannels: ['push', 'email'],
+            },
+            { id: 'contact-1-foreman', name: 'Erosion Control Foreman', role: 'foreman', phone: '+4930555011' },
+            { id: 'contact-1-owner', name: 'Project Owner', role: 'owner', email: 'owner.north@example.com' },
+        ],
+    },
+    {
+        id: 'site-2',
+        name: 'Alexanderplatz Tower Complex',
+        location: { latitude: 52.5219, longitude: 13.4132 },
+        acreage: 7.8,
+        soilType: 'sandy',
+        slopePercent: 9,
+        phase: 'grading',
+        permitNumber: 'BE-2026-0187',
+        jurisdiction: 'Berlin SenUVK',
+        timeZone: 'Europe/Berlin',
+        rainThresholdInchesPerHour: 0.5,
+        inspectionDeadlineHours: 24,
+        historicalNOVCount: 1,
+        contacts: [
+            { id: 'contact-2-super', name: 'Site Superintendent', role: 'superintendent', phone: '+4930555020' },
+            { id: 'contact-2-insp', name: 'Site Inspector', role: 'inspector', email: 'inspector.alex@example.com' },
+            { id: 'contact-2-owner', name: 'Project Owner', role: 'owner', email: 'owner.alex@example.com' },
+        ],
+    },
+    {
+        id: 'site-3',
+        name: 'Spree Waterfront Residences',
+        location: { latitude: 52.5074, longitude: 13.4300 },
+        acreage: 11.5,
+        soilType: 'sandy',
+        slopePercent: 16,
+        phase: 'clearing',
+        permitNumber: 'BE-2026-0203',
+        jurisdiction: 'Berlin SenUVK',
+        timeZone: 'Europe/Berlin',
+        rainThresholdInchesPerHour: 0.25,
+        inspectionDeadlineHours: 24,
+        historicalNOVCount: 2,
+        contacts: [
+            { id: 'contact-3-super', name: 'Site Superintendent', role: 'superintendent', phone: '+4930555030' },
+            { id: 'contact-3-insp', name: 'Site Inspector', role: 'inspector', email: 'inspector.spree@example.com' },
+            { id: 'contact-3-owner', name: 'Project Owner', role: 'owner', email: 'owner.spree@example.com' },
+        ],
+    },
+];
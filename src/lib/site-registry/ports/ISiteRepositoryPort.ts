@@ -0,0 +1,28 @@
+/**
+ * ISiteRepositoryPort - Port Interface
+ *
+ * Interface for site persistence (file store, database).
+ */
+
+import type { Site } from '../domain/entities/Site';
+
+export interface SiteQuery {
+    includeArchived?: boolean;
+}
+
+export interface ISiteRepositoryPort {
+    /**
+     * Insert or replace a site
+     */
+    save(site: Site): Promise<void>;
+
+    /**
+     * Find a site by id, archived or not
+     */
+    findById(id: string): Promise<Site | null>;
+
+    /**
+     * List sites, active only unless archived are requested
+     */
+    findAll(query?: SiteQuery): Promise<Site[]>;
+}
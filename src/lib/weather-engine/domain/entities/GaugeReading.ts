@@ -0,0 +1,99 @@
+/**
+ * GaugeReading - Domain Entity
+ *
+ * Rain measured by an on-site gauge over one reporting interval. Tipping-bucket
+ * gauges report tip counts, which are converted to inches with the bucket size.
+ */
+
+export interface GaugeReadingProps {
+    id: string;
+    siteId: string;
+    deviceId: string;
+    observedAt: Date;           // end of the reporting interval
+    intervalMinutes: number;
+    precipitationInches: number;
+    tipCount?: number;
+}
+
+export class GaugeReading {
+    readonly id: string;
+    readonly siteId: string;
+    readonly deviceId: string;
+    readonly observedAt: Date;
+    readonly intervalMinutes: number;
+    readonly precipitationInches: number;
+    readonly tipCount: number | null;
+
+    private constructor(props: GaugeReadingProps) {
+        this.id = props.id;
+        this.siteId = props.siteId;
+        this.deviceId = props.deviceId;
+        this.observedAt = props.observedAt;
+        this.intervalMinutes = props.intervalMinutes;
+        this.precipitationInches = props.precipitationInches;
+        this.tipCount = props.tipCount ?? null;
+    }
+
+    static create(props: GaugeReadingProps): GaugeReading {
+        if (!props.deviceId) {
+            throw new Error('Device ID is required');
+        }
+        if (Number.isNaN(props.observedAt.getTime())) {
+            throw new Error('Observation time is invalid');
+        }
+        if (props.intervalMinutes <= 0) {
+            throw new Error('Interval must be positive');
+        }
+        if (props.precipitationInches < 0) {
+            throw new Error('Precipitation cannot be negative');
+        }
+        return new GaugeReading(props);
+    }
+
+    /**
+     * Create a reading from a tipping-bucket count
+     */
+    static fromTips(
+        props: Omit<GaugeReadingProps, 'precipitationInches' | 'tipCount'>,
+        tipCount: number,
+        inchesPerTip: number
+    ): GaugeReading {
+        if (!Number.isInteger(tipCount) || tipCount < 0) {
+            throw new Error('Tip count must be a non-negative integer');
+        }
+        if (inchesPerTip <= 0) {
+            throw new Error('Bucket size must be positive');
+        }
+        return GaugeReading.create({ ...props, tipCount, precipitationInches: tipCount * inchesPerTip });
+    }
+
+    /**
+     * Start of the reporting interval
+     */
+    get intervalStart(): Date {
+        return new Date(this.observedAt.getTime() - this.intervalMinutes * 60 * 1000);
+    }
+
+    /**
+     * Average rate over the interval
+     */
+    getIntensityInchesPerHour(): number {
+        return this.precipitationInches / (this.intervalMinutes / 60);
+    }
+
+    isWet(): boolean {
+        return this.precipitationInches > 0;
+    }
+
+    toProps(): GaugeReadingProps {
+        return {
+            id: this.id,
+            siteId: this.siteId,
+            deviceId: this.deviceId,
+            observedAt: this.observedAt,
+            intervalMinutes: this.intervalMinutes,
+            precipitationInches: this.precipitationInches,
+            tipCount: this.tipCount ?? undefined,
+        };
+    }
+}
@@ -13,8 +13,13 @@ export interface InspectionWindowProps {
     deadlineTime: Date;
     inspectionCompletedAt?: Date;
     inspectionId?: string;
+    overdueAlertedAt?: Date;
 }
 
+export type InspectionWindowStatus = 'open' | 'overdue' | 'completed';
+
+const HOUR_MS = 60 * 60 * 1000;
+
 export class InspectionWindow {
     readonly id: string;
     readonly siteId: string;
@@ -24,6 +29,7 @@ export class InspectionWindow {
     readonly deadlineTime: Date;
     private _inspectionCompletedAt: Date | null;
     private _inspectionId: string | null;
+    private _overdueAlertedAt: Date | null;
 
     private constructor(props: InspectionWindowProps) {
         this.id = props.id;
@@ -34,11 +40,17 @@ export class InspectionWindow {
         this.deadlineTime = props.deadlineTime;
         this._inspectionCompletedAt = props.inspectionCompletedAt ?? null;
         this._inspectionId = props.inspectionId ?? null;
+        this._overdueAlertedAt = props.overdueAlertedAt ?? null;
     }
 
-    static create(props: Omit<InspectionWindowProps, 'deadlineTime'>): InspectionWindow {
-        const deadlineTime = new Date(props.stormEndTime);
-        deadlineTime.setHours(deadlineTime.getHours() + props.jurisdictionHours);
+    /**
+     * Create a window; the deadline is derived from the storm end unless one
+     * is given (a stored window, or a deadline from the permit's inspection policy)
+     */
+    static create(props: Omit<InspectionWindowProps, 'deadlineTime'> & { deadlineTime?: Date }): InspectionWindow {
+        // Elapsed hours, so the deadline does not depend on the server's time zone or DST
+        const deadlineTime = props.deadlineTime
+            ?? new Date(props.stormEndTime.getTime() + props.jurisdictionHours * HOUR_MS);
 
         return new InspectionWindow({
             ...props,
@@ -54,6 +66,10 @@ export class InspectionWindow {
         return this._inspectionId;
     }
 
+    get overdueAlertedAt(): Date | null {
+        return this._overdueAlertedAt;
+    }
+
     /**
      * Get deadline time (alias for deadlineTime)
      */
@@ -64,45 +80,70 @@ export class InspectionWindow {
     /**
      * Check if deadline has passed
      */
-    isExpired(): boolean {
-        return new Date() > this.deadlineTime;
+    isExpired(now: Date = new Date()): boolean {
+        return now > this.deadlineTime;
     }
 
     /**
      * Check if deadline has passed without completion
      */
-    isOverdue(): boolean {
-        return this.isExpired() && !this._inspectionCompletedAt;
+    isOverdue(now: Date = new Date()): boolean {
+        return this.isExpired(now) && !this._inspectionCompletedAt;
     }
 
     /**
-     * Get hours remaining until deadline
+     * Get elapsed hours remaining until deadline (wall-clock changes from DST do not count)
      */
-    getRemainingHours(): number {
-        const now = new Date();
+    getRemainingHours(now: Date = new Date()): number {
         const diff = this.deadlineTime.getTime() - now.getTime();
-        return Math.max(0, diff / (1000 * 60 * 60));
+        return Math.max(0, diff / HOUR_MS);
     }
 
     /**
      * Alias for getRemainingHours
      */
-    getHoursRemaining(): number {
-        return this.getRemainingHours();
+    getHoursRemaining(now: Date = new Date()): number {
+        return this.getRemainingHours(now);
     }
 
     /**
      * Mark inspection as completed
      */
-    completeInspection(inspectionId: string): void {
-        this._inspectionCompletedAt = new Date();
+    completeInspection(inspectionId: string, completedAt: Date = new Date()): void {
+        this._inspectionCompletedAt = completedAt;
         this._inspectionId = inspectionId;
     }
 
+    /**
+     * Record that the overdue alert went out, so the sweep raises it only once
+     */
+    markOverdueAlerted(alertedAt: Date = new Date()): void {
+        this._overdueAlertedAt = alertedAt;
+    }
+
     /**
      * Check if inspection is completed
      */
     isCompleted(): boolean {
         return this._inspectionCompletedAt !== null;
     }
+
+    getStatus(now: Date = new Date()): InspectionWindowStatus {
+        if (this.isCompleted()) return 'completed';
+        return this.isOverdue(now) ? 'overdue' : 'open';
+    }
+
+    toProps(): InspectionWindowProps {
+        return {
+            id: this.id,
+            siteId: this.siteId,
+            rainfallEventId: this.rainfallEventId,
+            jurisdictionHours: this.jurisdictionHours,
+            stormEndTime: this.stormEndTime,
+            deadlineTime: this.deadlineTime,
+            inspectionCompletedAt: this._inspectionCompletedAt ?? undefined,
+            inspectionId: this._inspectionId ?? undefined,
+            overdueAlertedAt: this._overdueAlertedAt ?? undefined,
+        };
+    }
 }
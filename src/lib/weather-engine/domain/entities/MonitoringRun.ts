@@ -0,0 +1,106 @@
+/**
+ * MonitoringRun - Domain Entity
+ *
+ * Record of one scheduled trigger evaluation pass across all monitored sites.
+ * Persisted runs are the evidence that weather monitoring was continuous.
+ */
+
+export interface SiteEvaluationOutcome {
+    siteId: string;
+    alertsProduced: number;
+    error?: string;
+    warning?: string;
+}
+
+export interface MonitoringRunProps {
+    id: string;
+    startedAt: Date;
+    completedAt?: Date;
+    outcomes: SiteEvaluationOutcome[];
+}
+
+export class MonitoringRun {
+    readonly id: string;
+    readonly startedAt: Date;
+    private _completedAt: Date | null;
+    private readonly _outcomes: SiteEvaluationOutcome[];
+
+    private constructor(props: MonitoringRunProps) {
+        this.id = props.id;
+        this.startedAt = props.startedAt;
+        this._completedAt = props.completedAt ?? null;
+        this._outcomes = [...props.outcomes];
+    }
+
+    static create(props: MonitoringRunProps): MonitoringRun {
+        if (props.completedAt && props.completedAt < props.startedAt) {
+            throw new Error('Run cannot complete before it starts');
+        }
+        return new MonitoringRun(props);
+    }
+
+    /**
+     * Start a new run
+     */
+    static start(startedAt: Date = new Date()): MonitoringRun {
+        return new MonitoringRun({ id: crypto.randomUUID(), startedAt, outcomes: [] });
+    }
+
+    get completedAt(): Date | null {
+        return this._completedAt;
+    }
+
+    get outcomes(): SiteEvaluationOutcome[] {
+        return [...this._outcomes];
+    }
+
+    /**
+     * Record a site that was evaluated, with any data-quality warning
+     */
+    recordSite(siteId: string, alertsProduced: number, warning?: string): void {
+        this._outcomes.push(warning ? { siteId, alertsProduced, warning } : { siteId, alertsProduced });
+    }
+
+    /**
+     * Record a site whose evaluation failed
+     */
+    recordSiteError(siteId: string, error: string): void {
+        this._outcomes.push({ siteId, alertsProduced: 0, error });
+    }
+
+    /**
+     * Mark the run as finished
+     */
+    complete(completedAt: Date = new Date()): void {
+        this._completedAt = completedAt;
+    }
+
+    /**
+     * Run duration in milliseconds (null while running)
+     */
+    getDurationMs(): number | null {
+        if (!this._completedAt) return null;
+        return this._completedAt.getTime() - this.startedAt.getTime();
+    }
+
+    /**
+     * Number of sites evaluated without error
+     */
+    getSitesEvaluated(): number {
+        return this._outcomes.filter(o => !o.error).length;
+    }
+
+    /**
+     * Total alerts produced across all sites
+     */
+    getAlertsProduced(): number {
+        return this._outcomes.reduce((sum, o) => sum + o.alertsProduced, 0);
+    }
+
+    /**
+     * Check if any site evaluation failed
+     */
+    hasErrors(): boolean {
+        return this._outcomes.some(o => o.error);
+    }
+}
@@ -1,7 +1,9 @@
 /**
  * RainfallEvent - Domain Entity
- * 
+ *
  * Represents a precipitation event with intensity, duration, and timestamp.
+ * Gauge-detected events stay open while rain keeps falling and accumulate
+ * each observed interval until a dry period closes them.
  */
 
 export interface RainfallEventProps {
@@ -12,25 +14,31 @@ export interface RainfallEventProps {
     intensityInchesPerHour: number;
     totalAccumulationInches: number;
     source: 'noaa' | 'local_gauge' | 'estimated';
+    deviceId?: string;
+    lastRainAt?: Date;
 }
 
 export class RainfallEvent {
     readonly id: string;
     readonly siteId: string;
     readonly startTime: Date;
-    readonly endTime: Date | null;
-    readonly intensityInchesPerHour: number;
-    readonly totalAccumulationInches: number;
     readonly source: 'noaa' | 'local_gauge' | 'estimated';
+    readonly deviceId: string | null;
+    private _endTime: Date | null;
+    private _intensityInchesPerHour: number;
+    private _totalAccumulationInches: number;
+    private _lastRainAt: Date;
 
     private constructor(props: RainfallEventProps) {
         this.id = props.id;
         this.siteId = props.siteId;
         this.startTime = props.startTime;
-        this.endTime = props.endTime ?? null;
-        this.intensityInchesPerHour = props.intensityInchesPerHour;
-        this.totalAccumulationInches = props.totalAccumulationInches;
         this.source = props.source;
+        this.deviceId = props.deviceId ?? null;
+        this._endTime = props.endTime ?? null;
+        this._intensityInchesPerHour = props.intensityInchesPerHour;
+        this._totalAccumulationInches = props.totalAccumulationInches;
+        this._lastRainAt = props.lastRainAt ?? props.endTime ?? props.startTime;
     }
 
     static create(props: RainfallEventProps): RainfallEvent {
@@ -43,6 +51,28 @@ export class RainfallEvent {
         return new RainfallEvent(props);
     }
 
+    get endTime(): Date | null {
+        return this._endTime;
+    }
+
+    /**
+     * Peak intensity observed during the event
+     */
+    get intensityInchesPerHour(): number {
+        return this._intensityInchesPerHour;
+    }
+
+    get totalAccumulationInches(): number {
+        return this._totalAccumulationInches;
+    }
+
+    /**
+     * End of the most recent interval with measurable rain
+     */
+    get lastRainAt(): Date {
+        return this._lastRainAt;
+    }
+
     /**
      * Check if event exceeds a threshold
      */
@@ -64,4 +94,51 @@ export class RainfallEvent {
     isOngoing(): boolean {
         return this.endTime === null;
     }
+
+    /**
+     * Add an observed interval of rain to an ongoing event
+     */
+    recordRainfall(observedAt: Date, inches: number, intensityInchesPerHour: number): void {
+        if (!this.isOngoing()) {
+            throw new Error('Cannot add rainfall to a closed event');
+        }
+        if (inches < 0 || intensityInchesPerHour < 0) {
+            throw new Error('Rainfall cannot be negative');
+        }
+
+        this._totalAccumulationInches += inches;
+        this._intensityInchesPerHour = Math.max(this._intensityInchesPerHour, intensityInchesPerHour);
+        if (observedAt > this._lastRainAt) {
+            this._lastRainAt = observedAt;
+        }
+    }
+
+    /**
+     * Check if no rain has been recorded for the given number of hours
+     */
+    hasBeenDryFor(hours: number, now: Date = new Date()): boolean {
+        return now.getTime() - this._lastRainAt.getTime() >= hours * 60 * 60 * 1000;
+    }
+
+    /**
+     * End the event at the last interval with rain
+     */
+    close(): void {
+        if (!this.isOngoing()) return;
+        this._endTime = this._lastRainAt;
+    }
+
+    toProps(): RainfallEventProps {
+        return {
+            id: this.id,
+            siteId: this.siteId,
+            startTime: this.startTime,
+            endTime: this._endTime ?? undefined,
+            intensityInchesPerHour: this._intensityInchesPerHour,
+            totalAccumulationInches: this._totalAccumulationInches,
+            source: this.source,
+            deviceId: this.deviceId ?? undefined,
+            lastRainAt: this._lastRainAt,
+        };
+    }
 }
@@ -0,0 +1,148 @@
+/**
+ * StormEvent - Domain Entity
+ *
+ * A forecast threshold exceedance tracked across repeated trigger evaluations,
+ * so the same storm is alerted once and only re-alerted when it gets worse.
+ */
+
+import type { AlertPriority } from './WeatherAlert';
+
+export type RealertReason = 'priority_escalated' | 'intensity_changed';
+
+export interface StormEventProps {
+    id: string;
+    siteId: string;
+    windowStart: Date;
+    windowEnd: Date;
+    peakIntensityInchesPerHour: number;
+    alertedPriority: AlertPriority;
+    alertedIntensityInchesPerHour: number;
+    alertCount: number;
+    firstDetectedAt: Date;
+    lastAlertedAt: Date;
+}
+
+const PRIORITY_RANK: Record<AlertPriority, number> = {
+    low: 0,
+    medium: 1,
+    high: 2,
+    critical: 3,
+};
+
+export class StormEvent {
+    readonly id: string;
+    readonly siteId: string;
+    readonly firstDetectedAt: Date;
+    private _windowStart: Date;
+    private _windowEnd: Date;
+    private _peakIntensity: number;
+    private _alertedPriority: AlertPriority;
+    private _alertedIntensity: number;
+    private _alertCount: number;
+    private _lastAlertedAt: Date;
+
+    private constructor(props: StormEventProps) {
+        this.id = props.id;
+        this.siteId = props.siteId;
+        this.firstDetectedAt = props.firstDetectedAt;
+        this._windowStart = props.windowStart;
+        this._windowEnd = props.windowEnd;
+        this._peakIntensity = props.peakIntensityInchesPerHour;
+        this._alertedPriority = props.alertedPriority;
+        this._alertedIntensity = props.alertedIntensityInchesPerHour;
+        this._alertCount = props.alertCount;
+        this._lastAlertedAt = props.lastAlertedAt;
+    }
+
+    static create(props: StormEventProps): StormEvent {
+        if (props.windowEnd < props.windowStart) {
+            throw new Error('Storm window cannot end before it starts');
+        }
+        if (props.peakIntensityInchesPerHour < 0) {
+            throw new Error('Intensity cannot be negative');
+        }
+        return new StormEvent(props);
+    }
+
+    get windowStart(): Date {
+        return this._windowStart;
+    }
+
+    get windowEnd(): Date {
+        return this._windowEnd;
+    }
+
+    get peakIntensityInchesPerHour(): number {
+        return this._peakIntensity;
+    }
+
+    get alertedPriority(): AlertPriority {
+        return this._alertedPriority;
+    }
+
+    get alertedIntensityInchesPerHour(): number {
+        return this._alertedIntensity;
+    }
+
+    get alertCount(): number {
+        return this._alertCount;
+    }
+
+    get lastAlertedAt(): Date {
+        return this._lastAlertedAt;
+    }
+
+    /**
+     * Check if an exceedance window belongs to this storm (forecasts drift, so allow tolerance)
+     */
+    matchesWindow(start: Date, end: Date, toleranceHours: number): boolean {
+        const toleranceMs = toleranceHours * 60 * 60 * 1000;
+        return start.getTime() <= this._windowEnd.getTime() + toleranceMs
+            && end.getTime() >= this._windowStart.getTime() - toleranceMs;
+    }
+
+    /**
+     * Check if the storm window has passed (plus grace period)
+     */
+    isExpired(now: Date, graceHours: number): boolean {
+        return now.getTime() > this._windowEnd.getTime() + graceHours * 60 * 60 * 1000;
+    }
+
+    /**
+     * Decide whether a new evaluation warrants another alert
+     */
+    getRealertReason(
+        priority: AlertPriority,
+        intensityInchesPerHour: number,
+        intensityChangeRatio: number
+    ): RealertReason | null {
+        if (PRIORITY_RANK[priority] > PRIORITY_RANK[this._alertedPriority]) {
+            return 'priority_escalated';
+        }
+
+        const change = Math.abs(intensityInchesPerHour - this._alertedIntensity);
+        if (change >= this._alertedIntensity * intensityChangeRatio) {
+            return 'intensity_changed';
+        }
+        return null;
+    }
+
+    /**
+     * Fold the latest forecast window into the storm
+     */
+    updateForecast(start: Date, end: Date, intensityInchesPerHour: number): void {
+        this._windowStart = start;
+        this._windowEnd = end;
+        this._peakIntensity = Math.max(this._peakIntensity, intensityInchesPerHour);
+    }
+
+    /**
+     * Record that alerts were sent for this storm
+     */
+    recordAlert(priority: AlertPriority, intensityInchesPerHour: number, alertedAt: Date = new Date()): void {
+        this._alertedPriority = priority;
+        this._alertedIntensity = intensityInchesPerHour;
+        this._alertCount += 1;
+        this._lastAlertedAt = alertedAt;
+    }
+}
@@ -1,26 +1,48 @@
 /**
  * WeatherAlert - Domain Entity
  * 
- * Multi-channel alert with delivery status tracking.
+ * Multi-channel alert with delivery status tracking and acknowledgment.
  */
 
 export type AlertChannel = 'sms' | 'push' | 'email';
 export type AlertPriority = 'low' | 'medium' | 'high' | 'critical';
-export type AlertStatus = 'pending' | 'sent' | 'delivered' | 'failed';
+export type AlertStatus = 'pending' | 'sent' | 'delivered' | 'failed' | 'acknowledged';
+// Contact role; the standard ones are superintendent, inspector, owner and resident_engineer
+export type AlertRecipientType = string;
+
+export interface DeliveryAttempt {
+    attempt: number;
+    attemptedAt: Date;
+    success: boolean;
+    deliveredAt?: Date;
+    errorMessage?: string;
+}
 
 export interface WeatherAlertProps {
     id: string;
     siteId: string;
     channel: AlertChannel;
     recipient: string;
-    recipientType: 'superintendent' | 'inspector' | 'owner' | 'resident_engineer';
+    recipientType: AlertRecipientType;
     message: string;
+    subject?: string;       // email subject or push title
+    htmlMessage?: string;   // rich email body
+    acknowledgmentLink?: string;    // one-click link included in the message
     priority: AlertPriority;
     triggerEventId: string;
     createdAt: Date;
+    notBefore?: Date;       // held until then, e.g. the end of the recipient's quiet hours or a retry backoff
+    language?: string;
     status?: AlertStatus;
     sentAt?: Date;
     deliveredAt?: Date;
+    failureReason?: string;
+    acknowledgedAt?: Date;
+    acknowledgedBy?: string;
+    escalationLevel?: number;
+    escalatedFromAlertId?: string;
+    deliveryAttempts?: DeliveryAttempt[];
+    attemptsBeforeRequeue?: number;     // attempts made before the last dead-letter replay
 }
 
 export class WeatherAlert {
@@ -28,15 +50,26 @@ export class WeatherAlert {
     readonly siteId: string;
     readonly channel: AlertChannel;
     readonly recipient: string;
-    readonly recipientType: WeatherAlertProps['recipientType'];
+    readonly recipientType: AlertRecipientType;
     readonly message: string;
+    readonly subject: string | null;
+    readonly htmlMessage: string | null;
+    readonly acknowledgmentLink: string | null;
     readonly priority: AlertPriority;
     readonly triggerEventId: string;
     readonly createdAt: Date;
+    readonly language: string;
+    readonly escalatedFromAlertId: string | null;
+    private _notBefore: Date | null;
     private _status: AlertStatus;
     private _sentAt: Date | null;
     private _deliveredAt: Date | null;
     private _failureReason: string | null;
+    private _acknowledgedAt: Date | null;
+    private _acknowledgedBy: string | null;
+    private _escalationLevel: number;
+    private _deliveryAttempts: DeliveryAttempt[];
+    private _attemptsBeforeRequeue: number;
 
     private constructor(props: WeatherAlertProps) {
         this.id = props.id;
@@ -45,13 +78,24 @@ export class WeatherAlert {
         this.recipient = props.recipient;
         this.recipientType = props.recipientType;
         this.message = props.message;
+        this.subject = props.subject ?? null;
+        this.htmlMessage = props.htmlMessage ?? null;
+        this.acknowledgmentLink = props.acknowledgmentLink ?? null;
         this.priority = props.priority;
         this.triggerEventId = props.triggerEventId;
         this.createdAt = props.createdAt;
+        this._notBefore = props.notBefore ?? null;
+        this.language = props.language ?? 'en';
+        this.escalatedFromAlertId = props.escalatedFromAlertId ?? null;
         this._status = props.status ?? 'pending';
         this._sentAt = props.sentAt ?? null;
         this._deliveredAt = props.deliveredAt ?? null;
-        this._failureReason = null;
+        this._failureReason = props.failureReason ?? null;
+        this._acknowledgedAt = props.acknowledgedAt ?? null;
+        this._acknowledgedBy = props.acknowledgedBy ?? null;
+        this._escalationLevel = props.escalationLevel ?? 0;
+        this._deliveryAttempts = props.deliveryAttempts ? [...props.deliveryAttempts] : [];
+        this._attemptsBeforeRequeue = props.attemptsBeforeRequeue ?? 0;
     }
 
     static create(props: WeatherAlertProps): WeatherAlert {
@@ -76,27 +120,72 @@ export class WeatherAlert {
         return this._deliveredAt;
     }
 
+    get deliveryAttempts(): readonly DeliveryAttempt[] {
+        return this._deliveryAttempts;
+    }
+
+    get attemptCount(): number {
+        return this._deliveryAttempts.length;
+    }
+
+    /**
+     * Attempts since the alert was created or last replayed from the dead letters
+     */
+    get currentAttemptCount(): number {
+        return this._deliveryAttempts.length - this._attemptsBeforeRequeue;
+    }
+
+    get notBefore(): Date | null {
+        return this._notBefore;
+    }
+
+    /**
+     * Record the outcome of one delivery attempt (history is kept across replays)
+     */
+    recordAttempt(outcome: Omit<DeliveryAttempt, 'attempt'>): void {
+        this._deliveryAttempts.push({ ...outcome, attempt: this._deliveryAttempts.length + 1 });
+    }
+
+    /**
+     * Return a failed alert to pending so it can be delivered again
+     */
+    requeue(): void {
+        if (this._status !== 'failed') {
+            throw new Error('Only failed alerts can be requeued');
+        }
+        this._status = 'pending';
+        this._failureReason = null;
+        this._attemptsBeforeRequeue = this._deliveryAttempts.length;
+    }
+
+    /**
+     * Hold the alert for another delivery attempt at the given time
+     */
+    scheduleRetry(at: Date): void {
+        this._notBefore = at;
+    }
+
     /**
      * Mark alert as sent
      */
     markSent(): void {
-        this._status = 'sent';
+        if (!this.isAcknowledged()) this._status = 'sent';
         this._sentAt = new Date();
     }
 
     /**
-     * Mark alert as delivered
+     * Mark alert as delivered (an acknowledged alert keeps its acknowledged status)
      */
     markDelivered(): void {
-        this._status = 'delivered';
+        if (!this.isAcknowledged()) this._status = 'delivered';
         this._deliveredAt = new Date();
     }
 
     /**
-     * Mark alert as failed with optional reason
+     * Mark alert as failed with optional reason (an acknowledged alert keeps its acknowledged status)
      */
     markFailed(reason?: string): void {
-        this._status = 'failed';
+        if (!this.isAcknowledged()) this._status = 'failed';
         this._failureReason = reason ?? null;
     }
 
@@ -104,10 +193,92 @@ export class WeatherAlert {
         return this._failureReason;
     }
 
+    get acknowledgedAt(): Date | null {
+        return this._acknowledgedAt;
+    }
+
+    get acknowledgedBy(): string | null {
+        return this._acknowledgedBy;
+    }
+
+    get escalationLevel(): number {
+        return this._escalationLevel;
+    }
+
+    /**
+     * Record that a person has seen the alert (repeat acknowledgments keep the first)
+     */
+    acknowledge(acknowledgedBy: string, acknowledgedAt: Date = new Date()): void {
+        if (!acknowledgedBy) {
+            throw new Error('Acknowledger is required');
+        }
+        if (this.isAcknowledged()) return;
+
+        this._status = 'acknowledged';
+        this._acknowledgedBy = acknowledgedBy;
+        this._acknowledgedAt = acknowledgedAt;
+    }
+
+    /**
+     * Record how far the escalation chain has progressed for this alert
+     */
+    recordEscalation(level: number): void {
+        if (level <= this._escalationLevel) {
+            throw new Error('Escalation level can only increase');
+        }
+        this._escalationLevel = level;
+    }
+
     /**
      * Check if alert is pending
      */
     isPending(): boolean {
         return this._status === 'pending';
     }
+
+    /**
+     * Check if the alert may be sent at the given time
+     */
+    isDue(now: Date = new Date()): boolean {
+        return !this.notBefore || this.notBefore <= now;
+    }
+
+    /**
+     * Check if alert has been acknowledged, independent of its delivery outcome
+     */
+    isAcknowledged(): boolean {
+        return this._acknowledgedAt !== null;
+    }
+
+    /**
+     * Snapshot the alert for persistence
+     */
+    toProps(): WeatherAlertProps {
+        return {
+            id: this.id,
+            siteId: this.siteId,
+            channel: this.channel,
+            recipient: this.recipient,
+            recipientType: this.recipientType,
+            message: this.message,
+            subject: this.subject ?? undefined,
+            htmlMessage: this.htmlMessage ?? undefined,
+            acknowledgmentLink: this.acknowledgmentLink ?? undefined,
+            priority: this.priority,
+            triggerEventId: this.triggerEventId,
+            createdAt: this.createdAt,
+            notBefore: this._notBefore ?? undefined,
+            language: this.language,
+            status: this._status,
+            sentAt: this._sentAt ?? undefined,
+            deliveredAt: this._deliveredAt ?? undefined,
+            failureReason: this._failureReason ?? undefined,
+            acknowledgedAt: this._acknowledgedAt ?? undefined,
+            acknowledgedBy: this._acknowledgedBy ?? undefined,
+            escalationLevel: this._escalationLevel,
+            escalatedFromAlertId: this.escalatedFromAlertId ?? undefined,
+            deliveryAttempts: [...this._deliveryAttempts],
+            attemptsBeforeRequeue: this._attemptsBeforeRequeue,
+        };
+    }
 }
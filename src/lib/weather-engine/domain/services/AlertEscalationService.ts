@@ -0,0 +1,208 @@
+/**
+ * AlertEscalationService - Domain Service
+ *
+ * Tracks alerts until a person acknowledges them. Critical superintendent
+ * alerts that stay unacknowledged are re-sent on another channel and then
+ * escalated to the owner and resident engineer.
+ */
+
+import { WeatherAlert } from '../entities/WeatherAlert';
+import type { AlertChannel, AlertPriority, AlertRecipientType } from '../entities/WeatherAlert';
+import type { AlertScheduler } from './AlertScheduler';
+import type { IAlertRepositoryPort } from '../../ports/IAlertRepositoryPort';
+import type { AlertContact, IAlertContactPort } from '../../ports/IAlertContactPort';
+import type { IAcknowledgmentLinkPort } from '../../ports/IAcknowledgmentLinkPort';
+
+export interface EscalationPolicy {
+    acknowledgeWithinMinutes: number;
+    priorities: AlertPriority[];
+}
+
+const DEFAULT_POLICY: EscalationPolicy = {
+    acknowledgeWithinMinutes: 15,
+    priorities: ['critical'],
+};
+
+// Each step fires after another acknowledgment window passes without a response
+const ESCALATION_STEPS: AlertRecipientType[][] = [
+    ['superintendent'],
+    ['owner', 'resident_engineer'],
+];
+
+// Channel used to reach the superintendent again on the first step
+const ALTERNATE_CHANNEL: Record<AlertChannel, AlertChannel> = {
+    sms: 'email',
+    email: 'sms',
+    push: 'sms',
+};
+
+export class AlertEscalationService {
+    private readonly alertRepository: IAlertRepositoryPort;
+    private readonly contactPort: IAlertContactPort;
+    private readonly alertScheduler: AlertScheduler;
+    private readonly acknowledgmentLinks: IAcknowledgmentLinkPort;
+    private readonly policy: EscalationPolicy;
+
+    constructor(
+        alertRepository: IAlertRepositoryPort,
+        contactPort: IAlertContactPort,
+        alertScheduler: AlertScheduler,
+        acknowledgmentLinks: IAcknowledgmentLinkPort,
+        policy: EscalationPolicy = DEFAULT_POLICY
+    ) {
+        this.alertRepository = alertRepository;
+        this.contactPort = contactPort;
+        this.alertScheduler = alertScheduler;
+        this.acknowledgmentLinks = acknowledgmentLinks;
+        this.policy = policy;
+    }
+
+    /**
+     * Persist freshly dispatched alerts so they can be acknowledged later
+     */
+    async track(alerts: WeatherAlert[]): Promise<void> {
+        for (const alert of alerts) {
+            await this.alertRepository.save(alert);
+        }
+    }
+
+    /**
+     * Signed one-click acknowledgment link for an alert that escalates unless
+     * acknowledged; null for alerts that never escalate
+     */
+    createAcknowledgmentLink(
+        alert: Pick<WeatherAlert, 'id' | 'recipientType' | 'priority'>,
+        now: Date = new Date()
+    ): string | null {
+        return this.requiresAcknowledgment(alert) ? this.acknowledgmentLinks.createLink(alert.id, now) : null;
+    }
+
+    /**
+     * Get a tracked alert
+     */
+    async getAlert(alertId: string): Promise<WeatherAlert | null> {
+        return this.alertRepository.findById(alertId);
+    }
+
+    /**
+     * Acknowledge an alert; acknowledging an escalation also stops its chain
+     */
+    async acknowledge(
+        alertId: string,
+        acknowledgedBy: string,
+        acknowledgedAt: Date = new Date()
+    ): Promise<WeatherAlert | null> {
+        const alert = await this.alertRepository.findById(alertId);
+        if (!alert) return null;
+
+        alert.acknowledge(acknowledgedBy, acknowledgedAt);
+        await this.alertRepository.save(alert);
+
+        const original = alert.escalatedFromAlertId
+            ? await this.alertRepository.findById(alert.escalatedFromAlertId)
+            : null;
+        if (original) {
+            original.acknowledge(acknowledgedBy, acknowledgedAt);
+            await this.alertRepository.save(original);
+        }
+        return alert;
+    }
+
+    /**
+     * Send the next escalation step for every alert whose acknowledgment window has passed
+     */
+    async escalateOverdue(now: Date = new Date()): Promise<WeatherAlert[]> {
+        const candidates = (await this.alertRepository.findUnacknowledged())
+            .filter(alert => this.isEscalatable(alert));
+
+        const escalations: WeatherAlert[] = [];
+        for (const alert of candidates) {
+            escalations.push(...await this.escalate(alert, now));
+        }
+        return escalations;
+    }
+
+    private requiresAcknowledgment(alert: Pick<WeatherAlert, 'recipientType' | 'priority'>): boolean {
+        return alert.recipientType === 'superintendent' && this.policy.priorities.includes(alert.priority);
+    }
+
+    private isEscalatable(alert: WeatherAlert): boolean {
+        return this.requiresAcknowledgment(alert) && alert.escalationLevel < ESCALATION_STEPS.length;
+    }
+
+    /**
+     * Escalation step the alert should have reached by now
+     */
+    private getDueLevel(alert: WeatherAlert, now: Date): number {
+        const elapsedMinutes = (now.getTime() - alert.createdAt.getTime()) / (60 * 1000);
+        const windows = Math.floor(elapsedMinutes / this.policy.acknowledgeWithinMinutes);
+        return Math.min(windows, ESCALATION_STEPS.length);
+    }
+
+    private async escalate(alert: WeatherAlert, now: Date): Promise<WeatherAlert[]> {
+        const dueLevel = this.getDueLevel(alert, now);
+        if (dueLevel <= alert.escalationLevel) return [];
+
+        const escalations: WeatherAlert[] = [];
+        for (let level = alert.escalationLevel + 1; level <= dueLevel; level++) {
+            escalations.push(...await this.buildStep(alert, level, now));
+        }
+
+        await this.alertScheduler.processAlerts(escalations);
+        await this.track(escalations);
+
+        alert.recordEscalation(dueLevel);
+        await this.alertRepository.save(alert);
+        return escalations;
+    }
+
+    private async buildStep(original: WeatherAlert, level: number, now: Date): Promise<WeatherAlert[]> {
+        const alerts: WeatherAlert[] = [];
+
+        for (const recipientType of ESCALATION_STEPS[level - 1]) {
+            const contacts = await this.contactPort.findContacts(original.siteId, recipientType);
+            for (const contact of contacts) {
+                const channel = level === 1 ? ALTERNATE_CHANNEL[original.channel] : this.preferredChannel(contact);
+                const recipient = channel === 'sms' ? contact.phone : contact.email;
+                if (recipient) {
+                    alerts.push(this.createEscalation(original, { channel, recipient, recipientType }, level, now));
+                }
+            }
+        }
+        return alerts;
+    }
+
+    private preferredChannel(contact: AlertContact): AlertChannel {
+        return contact.phone ? 'sms' : 'email';
+    }
+
+    private createEscalation(
+        original: WeatherAlert,
+        target: { channel: AlertChannel; recipient: string; recipientType: AlertRecipientType },
+        level: number,
+        now: Date
+    ): WeatherAlert {
+        const id = crypto.randomUUID();
+        const minutes = level * this.policy.acknowledgeWithinMinutes;
+        const link = this.acknowledgmentLinks.createLink(id, now);
+        // The original's own link would acknowledge it on behalf of its recipient
+        const body = original.acknowledgmentLink
+            ? original.message.replace(original.acknowledgmentLink, link)
+            : `${original.message} Acknowledge: ${link}`;
+
+        return WeatherAlert.create({
+            id,
+            siteId: original.siteId,
+            channel: target.channel,
+            recipient: target.recipient,
+            recipientType: target.recipientType,
+            message: `ESCALATED (unacknowledged ${minutes} min): ${body}`,
+            acknowledgmentLink: link,
+            priority: original.priority,
+            triggerEventId: original.triggerEventId,
+            createdAt: now,
+            escalationLevel: level,
+            escalatedFromAlertId: original.id,
+        });
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * AlertMessageRenderer - Domain Service
+ *
+ * Renders alert text per channel (short SMS, push title/body, email subject
+ * with text and HTML bodies) in the recipient's language. Unknown languages
+ * fall back to their base language, then to English.
+ */
+
+import type { AlertChannel, AlertPriority } from '../entities/WeatherAlert';
+import { ALERT_LOCALES } from './alertMessageLocales';
+import type { AlertLocale } from './alertMessageLocales';
+
+export interface AlertMessageContext {
+    siteName: string;
+    timeZone: string;
+    priority: AlertPriority;
+    stormStart: Date;
+    hoursAhead: number;
+    maxIntensityInchesPerHour: number;
+    accumulationInches: number;
+    actions: string[];          // most important first
+    inspectionDeadline?: Date;  // unset when the storm requires no inspection
+    acknowledgmentLink?: string;    // signed one-click link for alerts that escalate
+}
+
+export interface RenderedAlertMessage {
+    subject?: string;   // email subject or push title
+    text: string;
+    html?: string;
+}
+
+const DEFAULT_LANGUAGE = 'en';
+const MARKUP_VALUES = ['actionItems', 'inspectionHtml', 'acknowledgeHtml'];
+
+export class AlertMessageRenderer {
+    private readonly locales: Record<string, AlertLocale>;
+
+    constructor(locales: Record<string, AlertLocale> = ALERT_LOCALES) {
+        this.locales = locales;
+    }
+
+    /**
+     * Render the message for one channel in the given language
+     */
+    render(channel: AlertChannel, context: AlertMessageContext, language: string = DEFAULT_LANGUAGE): RenderedAlertMessage {
+        const locale = this.resolveLocale(language);
+        const values = this.buildValues(locale, context);
+        const fill = (template: string) => interpolate(template, values);
+
+        const inspection = context.inspectionDeadline ? locale.inspection : null;
+        const acknowledge = context.acknowledgmentLink ? fill(locale.acknowledge.text) : null;
+
+        if (channel === 'sms') {
+            return { text: joinLines(' ', fill(locale.sms), inspection && fill(inspection.sms), acknowledge) };
+        }
+        if (channel === 'push') {
+            return { subject: fill(locale.push.title), text: fill(locale.push.body) };
+        }
+        return {
+            subject: fill(locale.email.subject),
+            text: joinLines('\n\n', fill(locale.email.text), inspection && fill(inspection.text), acknowledge),
+            html: interpolate(locale.email.html, this.escapeValues(values)),
+        };
+    }
+
+    /**
+     * Languages with a template set
+     */
+    getSupportedLanguages(): string[] {
+        return Object.keys(this.locales);
+    }
+
+    /**
+     * Exact match, then base language ("es-MX" -> "es"), then English
+     */
+    private resolveLocale(language: string): AlertLocale {
+        const normalized = language.toLowerCase();
+        const base = normalized.split('-')[0];
+        return this.locales[normalized] ?? this.locales[base] ?? this.locales[DEFAULT_LANGUAGE];
+    }
+
+    private buildValues(locale: AlertLocale, context: AlertMessageContext): Record<string, string> {
+        const actions = context.actions.length > 0
+            ? context.actions.map(action => locale.actions[action] ?? action)
+            : [locale.fallbackAction];
+        const deadline = context.inspectionDeadline
+            ? this.formatTime(context.inspectionDeadline, locale, context.timeZone)
+            : '';
+
+        return {
+            siteName: context.siteName,
+            priority: locale.priorities[context.priority],
+            stormStart: this.formatTime(context.stormStart, locale, context.timeZone),
+            hoursAhead: String(Math.round(context.hoursAhead)),
+            intensity: this.formatInches(context.maxIntensityInchesPerHour, locale),
+            accumulation: this.formatInches(context.accumulationInches, locale),
+            topAction: actions[0],
+            actions: actions.map((action, index) => `${index + 1}. ${action}`).join('\n'),
+            actionItems: actions.map(action => `<li>${escapeHtml(action)}</li>`).join(''),
+            deadline,
+            inspectionHtml: deadline ? interpolate(locale.inspection.html, { deadline: escapeHtml(deadline) }) : '',
+            acknowledgmentLink: context.acknowledgmentLink ?? '',
+            acknowledgeHtml: context.acknowledgmentLink
+                ? interpolate(locale.acknowledge.html, { acknowledgmentLink: escapeHtml(context.acknowledgmentLink) })
+                : '',
+        };
+    }
+
+    // actionItems, inspectionHtml and acknowledgeHtml are already markup built from escaped values
+    private escapeValues(values: Record<string, string>): Record<string, string> {
+        return Object.fromEntries(
+            Object.entries(values).map(([key, value]) => [key, MARKUP_VALUES.includes(key) ? value : escapeHtml(value)])
+        );
+    }
+
+    private formatInches(value: number, locale: AlertLocale): string {
+        return new Intl.NumberFormat(locale.formatLocale, {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+        }).format(value);
+    }
+
+    private formatTime(date: Date, locale: AlertLocale, timeZone: string): string {
+        return new Intl.DateTimeFormat(locale.formatLocale, {
+            timeZone,
+            weekday: 'short',
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            timeZoneName: 'short',
+        }).format(date);
+    }
+}
+
+function joinLines(separator: string, ...lines: (string | null)[]): string {
+    return lines.filter((line): line is string => line !== null).join(separator);
+}
+
+function interpolate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,154 @@
+/**
+ * AlertRoutingPolicy - Domain Service
+ *
+ * Decides which channels reach each contact for an alert, honouring the
+ * contact's channel preferences and quiet hours. Non-critical alerts for a
+ * contact in quiet hours are held until the quiet hours end.
+ */
+
+import type { AlertChannel, AlertPriority } from '../entities/WeatherAlert';
+
+export interface QuietHours {
+    start: string;      // "HH:MM", local to timeZone
+    end: string;        // "HH:MM"; may be earlier than start for overnight ranges
+    timeZone: string;   // IANA zone, e.g. "Europe/Berlin"
+}
+
+export interface RecipientProfile {
+    contactId: string;
+    name: string;
+    role: string;
+    phone?: string;
+    email?: string;
+    channels?: AlertChannel[];
+    quietHours?: QuietHours;
+    language?: string;
+}
+
+export interface AlertRoute {
+    recipient: RecipientProfile;
+    channel: AlertChannel;
+    address: string;
+    notBefore?: Date;   // end of the recipient's quiet hours
+}
+
+// Channels used when a contact has not stated a preference
+const DEFAULT_CHANNELS_BY_ROLE: Record<string, AlertChannel[]> = {
+    superintendent: ['sms'],
+    inspector: ['push'],
+    owner: ['email'],
+    resident_engineer: ['email'],
+};
+
+interface LocalTime {
+    date: string;       // YYYY-MM-DD
+    minutes: number;    // minutes since local midnight
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export class AlertRoutingPolicy {
+    /**
+     * Resolve every (recipient, channel, address) an alert should go to
+     */
+    route(recipients: RecipientProfile[], priority: AlertPriority, now: Date = new Date()): AlertRoute[] {
+        return recipients.flatMap(recipient => {
+            const notBefore = priority === 'critical' ? null : this.getQuietHoursEnd(recipient.quietHours, now);
+            return this.routeRecipient(recipient).map(route => (notBefore ? { ...route, notBefore } : route));
+        });
+    }
+
+    /**
+     * When the quiet hours the instant falls in end, as local wall-clock time
+     * in the contact's zone (so DST nights end at the stated hour); null
+     * outside quiet hours
+     */
+    getQuietHoursEnd(quietHours: QuietHours | undefined, now: Date): Date | null {
+        if (!quietHours || !this.isQuietTime(quietHours, now)) return null;
+
+        const local = this.toLocal(now, quietHours.timeZone);
+        const end = this.parseTime(quietHours.end);
+        const endDate = end > local.minutes ? local.date : addDays(local.date, 1);
+        return this.toInstant(endDate, end, quietHours.timeZone);
+    }
+
+    /**
+     * Check if the given instant falls inside the contact's quiet hours
+     */
+    isQuietTime(quietHours: QuietHours | undefined, now: Date): boolean {
+        if (!quietHours) return false;
+
+        const { minutes } = this.toLocal(now, quietHours.timeZone);
+        const start = this.parseTime(quietHours.start);
+        const end = this.parseTime(quietHours.end);
+
+        // Overnight ranges (e.g. 22:00-06:00) wrap past midnight
+        return start <= end
+            ? minutes >= start && minutes < end
+            : minutes >= start || minutes < end;
+    }
+
+    /**
+     * Channels a contact should be reached on (custom roles: SMS if they have a phone, else email)
+     */
+    getChannels(recipient: RecipientProfile): AlertChannel[] {
+        if (recipient.channels) return recipient.channels;
+        return DEFAULT_CHANNELS_BY_ROLE[recipient.role] ?? [recipient.phone ? 'sms' : 'email'];
+    }
+
+    private routeRecipient(recipient: RecipientProfile): AlertRoute[] {
+        return this.getChannels(recipient)
+            .map(channel => ({ recipient, channel, address: this.getAddress(recipient, channel) }))
+            .filter((route): route is AlertRoute => Boolean(route.address));
+    }
+
+    // Push subscriptions are registered against the contact's email (or id when there is none)
+    private getAddress(recipient: RecipientProfile, channel: AlertChannel): string | undefined {
+        if (channel === 'sms') return recipient.phone;
+        if (channel === 'email') return recipient.email;
+        return recipient.email ?? recipient.contactId;
+    }
+
+    private toLocal(instant: Date, timeZone: string): LocalTime {
+        const parts = Object.fromEntries(
+            new Intl.DateTimeFormat('en-US', {
+                timeZone,
+                hourCycle: 'h23',
+                year: 'numeric',
+                month: '2-digit',
+                day: '2-digit',
+                hour: '2-digit',
+                minute: '2-digit',
+            }).formatToParts(instant).map(p => [p.type, p.value])
+        );
+        return {
+            date: `${parts.year}-${parts.month}-${parts.day}`,
+            minutes: Number(parts.hour) * 60 + Number(parts.minute),
+        };
+    }
+
+    /**
+     * UTC instant of a local wall-clock time. Times skipped by a DST jump
+     * resolve to the same offset as just before the jump.
+     */
+    private toInstant(date: string, minutes: number, timeZone: string): Date {
+        const wallClock = new Date(`${date}T00:00:00Z`).getTime() + minutes * MINUTE_MS;
+        const firstGuess = wallClock - this.offsetAt(wallClock, timeZone);
+        return new Date(wallClock - this.offsetAt(firstGuess, timeZone));
+    }
+
+    private offsetAt(epochMs: number, timeZone: string): number {
+        const local = this.toLocal(new Date(epochMs), timeZone);
+        return new Date(`${local.date}T00:00:00Z`).getTime() + local.minutes * MINUTE_MS - Math.floor(epochMs / MINUTE_MS) * MINUTE_MS;
+    }
+
+    private parseTime(value: string): number {
+        const [hours, minutes] = value.split(':').map(Number);
+        return hours * 60 + minutes;
+    }
+}
+
+function addDays(date: string, days: number): string {
+    return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
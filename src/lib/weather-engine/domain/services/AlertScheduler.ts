@@ -1,48 +1,90 @@
 /**
  * AlertScheduler - Domain Service
- * 
+ *
  * Manages the timing and delivery of alerts across channels.
+ * Alerts that are not due yet (recipient quiet hours) are held in the
+ * deferred queue until deliverDue is called after their notBefore time.
+ * Failed deliveries go back into that queue with an exponential backoff
+ * per channel instead of holding up the caller, and a timer drains the
+ * queue when the retry falls due; alerts that exhaust their retries are
+ * parked in a dead-letter queue.
  */
 
 import { WeatherAlert } from '../entities/WeatherAlert';
+import type { AlertChannel, DeliveryAttempt } from '../entities/WeatherAlert';
 import type { IAlertChannelPort } from '../../ports/IAlertChannelPort';
+import type { IDeadLetterQueuePort } from '../../ports/IDeadLetterQueuePort';
+import type { IDeferredAlertQueuePort } from '../../ports/IDeferredAlertQueuePort';
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    initialDelayMs: number;
+    backoffMultiplier: number;
+    maxDelayMs: number;
+}
+
+export interface AlertSchedulerOptions {
+    retryPolicies?: Partial<Record<AlertChannel, RetryPolicy>>;
+    deadLetters?: IDeadLetterQueuePort;
+    // Held in memory by the scheduler when not given
+    deferred?: IDeferredAlertQueuePort;
+    setTimer?: (callback: () => void, ms: number) => void;
+}
+
+// SMS is the most time-critical channel, so it retries fastest
+const DEFAULT_RETRY_POLICIES: Record<AlertChannel, RetryPolicy> = {
+    sms: { maxAttempts: 3, initialDelayMs: 1000, backoffMultiplier: 2, maxDelayMs: 10_000 },
+    push: { maxAttempts: 3, initialDelayMs: 2000, backoffMultiplier: 2, maxDelayMs: 15_000 },
+    email: { maxAttempts: 4, initialDelayMs: 5000, backoffMultiplier: 3, maxDelayMs: 60_000 },
+};
+
+const startTimer = (callback: () => void, ms: number) => {
+    setTimeout(callback, ms);
+};
 
 export class AlertScheduler {
     private readonly channels: IAlertChannelPort[];
+    private readonly retryPolicies: Record<AlertChannel, RetryPolicy>;
+    private readonly deadLetters: IDeadLetterQueuePort | null;
+    private readonly deferred: IDeferredAlertQueuePort | null;
+    private readonly heldAlerts = new Map<string, WeatherAlert>();
+    private readonly setTimer: (callback: () => void, ms: number) => void;
 
-    constructor(channels: IAlertChannelPort[]) {
+    constructor(channels: IAlertChannelPort[], options: AlertSchedulerOptions = {}) {
         this.channels = channels;
+        this.retryPolicies = { ...DEFAULT_RETRY_POLICIES, ...options.retryPolicies };
+        this.deadLetters = options.deadLetters ?? null;
+        this.deferred = options.deferred ?? null;
+        this.setTimer = options.setTimer ?? startTimer;
     }
 
     /**
      * Schedule and deliver a batch of alerts
      */
-    async processAlerts(alerts: WeatherAlert[]): Promise<void> {
+    async processAlerts(alerts: WeatherAlert[], now: Date = new Date()): Promise<void> {
         const pendingAlerts = alerts.filter(a => a.isPending());
 
-        await Promise.all(
-            pendingAlerts.map(async (alert) => {
-                const channel = this.channels.find(c => c.getChannelType() === alert.channel);
+        for (const alert of pendingAlerts.filter(a => !a.isDue(now))) {
+            await this.defer(alert);
+        }
+        await Promise.all(pendingAlerts.filter(a => a.isDue(now)).map(alert => this.deliver(alert, now)));
+    }
+
+    /**
+     * Deliver held alerts whose notBefore time has passed (quiet hours ended or retry due)
+     */
+    async deliverDue(now: Date = new Date()): Promise<WeatherAlert[]> {
+        const due = await this.takeDue(now);
 
-                if (!channel) {
-                    console.error(`No channel found for ${alert.channel}`);
-                    alert.markFailed();
-                    return;
-                }
+        await Promise.all(due.map(alert => this.deliver(alert, now)));
+        return due;
+    }
 
-                try {
-                    const result = await channel.sendAlert(alert);
-                    if (result.success) {
-                        alert.markDelivered();
-                    } else {
-                        alert.markFailed();
-                    }
-                } catch (error) {
-                    console.error(`Failed to send alert ${alert.id}:`, error);
-                    alert.markFailed();
-                }
-            })
-        );
+    /**
+     * List alerts held until their notBefore time
+     */
+    async getDeferred(): Promise<WeatherAlert[]> {
+        return this.deferred ? this.deferred.list() : [...this.heldAlerts.values()];
     }
 
     /**
@@ -51,4 +93,114 @@ export class AlertScheduler {
     getHighPriorityAlerts(alerts: WeatherAlert[]): WeatherAlert[] {
         return alerts.filter(a => a.priority === 'high' || a.priority === 'critical');
     }
+
+    /**
+     * Delay before the retry that follows the given attempt
+     */
+    getBackoffDelay(channel: AlertChannel, attempt: number): number {
+        const policy = this.retryPolicies[channel];
+        const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+        return Math.min(delay, policy.maxDelayMs);
+    }
+
+    /**
+     * List alerts that exhausted their retries
+     */
+    async getDeadLetters(): Promise<WeatherAlert[]> {
+        return this.deadLetters ? this.deadLetters.list() : [];
+    }
+
+    /**
+     * Take an alert out of the dead-letter queue and try delivering it again
+     */
+    async replayDeadLetter(alertId: string): Promise<WeatherAlert | null> {
+        const alert = await this.deadLetters?.take(alertId);
+        if (!alert) return null;
+
+        alert.requeue();
+        await this.deliver(alert, new Date());
+        return alert;
+    }
+
+    /**
+     * One delivery attempt; a failure is queued for a retry after the backoff
+     * until the channel's attempts are used up
+     */
+    private async deliver(alert: WeatherAlert, now: Date): Promise<void> {
+        const channel = this.channels.find(c => c.getChannelType() === alert.channel);
+
+        if (!channel) {
+            console.error(`No channel found for ${alert.channel}`);
+            await this.fail(alert, `No channel configured for ${alert.channel}`);
+            return;
+        }
+
+        const outcome = await this.attemptDelivery(channel, alert);
+        alert.recordAttempt(outcome);
+        if (outcome.success) {
+            alert.markDelivered();
+            return;
+        }
+
+        const attempt = alert.currentAttemptCount;
+        if (attempt >= this.retryPolicies[alert.channel].maxAttempts) {
+            await this.fail(alert, outcome.errorMessage ?? 'Delivery failed');
+            return;
+        }
+
+        const backoff = this.getBackoffDelay(alert.channel, attempt);
+        alert.scheduleRetry(new Date(now.getTime() + backoff));
+        await this.defer(alert);
+        this.setTimer(() => this.deliverDueRetries(), backoff);
+    }
+
+    private deliverDueRetries(): void {
+        this.deliverDue().catch(error => {
+            console.error('Alert retry failed:', error);
+        });
+    }
+
+    /**
+     * One send through the channel; thrown errors count as a failed attempt
+     */
+    private async attemptDelivery(
+        channel: IAlertChannelPort,
+        alert: WeatherAlert
+    ): Promise<Omit<DeliveryAttempt, 'attempt'>> {
+        const attemptedAt = new Date();
+
+        try {
+            const result = await channel.sendAlert(alert);
+            return {
+                attemptedAt,
+                success: result.success,
+                deliveredAt: result.deliveredAt,
+                errorMessage: result.errorMessage,
+            };
+        } catch (error) {
+            console.error(`Failed to send alert ${alert.id}:`, error);
+            return { attemptedAt, success: false, errorMessage: (error as Error).message };
+        }
+    }
+
+    private async defer(alert: WeatherAlert): Promise<void> {
+        if (this.deferred) {
+            await this.deferred.push(alert);
+        } else {
+            this.heldAlerts.set(alert.id, alert);
+        }
+    }
+
+    private async takeDue(now: Date): Promise<WeatherAlert[]> {
+        if (this.deferred) return this.deferred.takeDue(now);
+
+        const due = [...this.heldAlerts.values()].filter(alert => alert.isDue(now));
+        due.forEach(alert => this.heldAlerts.delete(alert.id));
+        return due;
+    }
+
+    private async fail(alert: WeatherAlert, reason: string): Promise<void> {
+        alert.markFailed(reason);
+        await this.deadLetters?.push(alert);
+    }
 }
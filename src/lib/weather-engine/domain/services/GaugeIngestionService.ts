@@ -0,0 +1,93 @@
+/**
+ * GaugeIngestionService - Domain Service
+ *
+ * Accepts batches of on-site rain gauge observations, stores new readings in
+ * the site's time series and feeds them to the rainfall event detector.
+ * Readings already stored for the same device and time are ignored, so
+ * gauges can safely resend a batch.
+ */
+
+import { GaugeReading } from '../entities/GaugeReading';
+import type { SitePermit } from './WeatherTriggerService';
+import type { RainfallEventDetector, DetectionResult } from './RainfallEventDetector';
+import type { IGaugeReadingRepositoryPort } from '../../ports/IGaugeReadingRepositoryPort';
+
+export interface GaugeObservation {
+    observedAt: Date;
+    intervalMinutes: number;
+    // Exactly one of the two: tipping-bucket count or interval total
+    tipCount?: number;
+    precipitationInches?: number;
+}
+
+export interface GaugeBatch {
+    deviceId: string;
+    inchesPerTip?: number;
+    observations: GaugeObservation[];
+}
+
+export interface GaugeIngestionResult extends DetectionResult {
+    accepted: GaugeReading[];
+    duplicates: number;
+}
+
+// Standard tipping-bucket gauge resolution
+const DEFAULT_INCHES_PER_TIP = 0.01;
+
+export class GaugeIngestionService {
+    private readonly readings: IGaugeReadingRepositoryPort;
+    private readonly detector: RainfallEventDetector;
+
+    constructor(readings: IGaugeReadingRepositoryPort, detector: RainfallEventDetector) {
+        this.readings = readings;
+        this.detector = detector;
+    }
+
+    async ingest(permit: SitePermit, batch: GaugeBatch, now: Date = new Date()): Promise<GaugeIngestionResult> {
+        const readings = batch.observations.map(o => this.toReading(permit.siteId, batch, o));
+        const fresh = await this.dropDuplicates(permit.siteId, readings);
+
+        await this.readings.append(fresh);
+        const detection = await this.detector.process(permit, fresh, now);
+
+        return { ...detection, accepted: fresh, duplicates: readings.length - fresh.length };
+    }
+
+    private toReading(siteId: string, batch: GaugeBatch, observation: GaugeObservation): GaugeReading {
+        const { tipCount, precipitationInches } = observation;
+        const props = {
+            id: crypto.randomUUID(),
+            siteId,
+            deviceId: batch.deviceId,
+            observedAt: observation.observedAt,
+            intervalMinutes: observation.intervalMinutes,
+        };
+
+        if (tipCount !== undefined && precipitationInches === undefined) {
+            return GaugeReading.fromTips(props, tipCount, batch.inchesPerTip ?? DEFAULT_INCHES_PER_TIP);
+        }
+        if (precipitationInches !== undefined && tipCount === undefined) {
+            return GaugeReading.create({ ...props, precipitationInches });
+        }
+        throw new Error('Each observation needs either tipCount or precipitationInches');
+    }
+
+    private async dropDuplicates(siteId: string, readings: GaugeReading[]): Promise<GaugeReading[]> {
+        if (readings.length === 0) return [];
+
+        const earliest = new Date(Math.min(...readings.map(r => r.observedAt.getTime())));
+        const stored = await this.readings.findBySite(siteId, earliest);
+        const seen = new Set(stored.map(readingKey));
+
+        return readings.filter(reading => {
+            const key = readingKey(reading);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+}
+
+function readingKey(reading: GaugeReading): string {
+    return `${reading.deviceId}@${reading.observedAt.getTime()}`;
+}
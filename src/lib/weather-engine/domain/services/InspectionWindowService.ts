@@ -0,0 +1,189 @@
+/**
+ * InspectionWindowService - Domain Service
+ *
+ * Follows post-storm inspection windows until they are satisfied. A submitted
+ * inspection closes every open window of its site whose storm had ended by
+ * then; windows that pass their deadline first raise one overdue alert to the
+ * site's superintendents and inspectors. Both transitions are audited.
+ */
+
+import { WeatherAlert } from '../entities/WeatherAlert';
+import type { AlertChannel, AlertRecipientType } from '../entities/WeatherAlert';
+import type { InspectionWindow, InspectionWindowStatus } from '../entities/InspectionWindow';
+import type { AlertScheduler } from './AlertScheduler';
+import type { AlertEscalationService } from './AlertEscalationService';
+import type { IInspectionWindowRepositoryPort } from '../../ports/IInspectionWindowRepositoryPort';
+import type { AuditEntry, IAuditLogPort } from '../../ports/IAuditLogPort';
+import type { IAlertContactPort } from '../../ports/IAlertContactPort';
+
+export interface OverdueSweepResult {
+    overdueWindows: InspectionWindow[];
+    alerts: WeatherAlert[];
+}
+
+const SUBJECT_TYPE = 'inspection_window';
+
+const OVERDUE_RECIPIENTS: AlertRecipientType[] = ['superintendent', 'inspector'];
+
+export class InspectionWindowService {
+    private readonly windows: IInspectionWindowRepositoryPort;
+    private readonly auditLog: IAuditLogPort;
+    private readonly contactPort: IAlertContactPort;
+    private readonly alertScheduler: AlertScheduler;
+    private readonly escalation: AlertEscalationService | null;
+
+    constructor(
+        windows: IInspectionWindowRepositoryPort,
+        auditLog: IAuditLogPort,
+        contactPort: IAlertContactPort,
+        alertScheduler: AlertScheduler,
+        escalation?: AlertEscalationService
+    ) {
+        this.windows = windows;
+        this.auditLog = auditLog;
+        this.contactPort = contactPort;
+        this.alertScheduler = alertScheduler;
+        this.escalation = escalation ?? null;
+    }
+
+    /**
+     * List a site's windows (or every open window when no site is given), optionally by status
+     */
+    async listWindows(
+        siteId?: string,
+        status?: InspectionWindowStatus,
+        now: Date = new Date()
+    ): Promise<InspectionWindow[]> {
+        const windows = siteId ? await this.windows.findBySite(siteId) : await this.windows.findOpen();
+        return status ? windows.filter(w => w.getStatus(now) === status) : windows;
+    }
+
+    async getWindow(windowId: string): Promise<InspectionWindow | null> {
+        return this.windows.findById(windowId);
+    }
+
+    /**
+     * Audit trail of a window, oldest entry first
+     */
+    async getAuditTrail(windowId: string): Promise<AuditEntry[]> {
+        return this.auditLog.findBySubject(SUBJECT_TYPE, windowId);
+    }
+
+    /**
+     * Close a single window with the given inspection
+     */
+    async completeWindow(
+        windowId: string,
+        inspectionId: string,
+        completedAt: Date = new Date()
+    ): Promise<InspectionWindow | null> {
+        const window = await this.windows.findById(windowId);
+        if (!window) return null;
+        if (window.isCompleted()) throw new Error('Inspection window already completed');
+
+        await this.close(window, inspectionId, completedAt);
+        return window;
+    }
+
+    /**
+     * Close every open window of the site whose storm ended before the inspection
+     */
+    async recordInspection(
+        siteId: string,
+        inspectionId: string,
+        completedAt: Date = new Date()
+    ): Promise<InspectionWindow[]> {
+        const satisfied = (await this.windows.findBySite(siteId))
+            .filter(w => !w.isCompleted() && w.stormEndTime <= completedAt);
+
+        for (const window of satisfied) {
+            await this.close(window, inspectionId, completedAt);
+        }
+        return satisfied;
+    }
+
+    /**
+     * Alert on windows that have become overdue since the last sweep
+     */
+    async sweepOverdue(now: Date = new Date()): Promise<OverdueSweepResult> {
+        const overdueWindows = (await this.windows.findOpen())
+            .filter(w => w.isOverdue(now) && !w.overdueAlertedAt);
+
+        const alerts: WeatherAlert[] = [];
+        for (const window of overdueWindows) {
+            const windowAlerts = await this.buildOverdueAlerts(window, now);
+            await this.alertScheduler.processAlerts(windowAlerts);
+            await this.escalation?.track(windowAlerts);
+
+            window.markOverdueAlerted(now);
+            await this.windows.save(window);
+            await this.audit(window, 'inspection_window.overdue', now, {
+                deadlineTime: window.deadlineTime.toISOString(),
+                alertsSent: windowAlerts.length,
+            });
+            alerts.push(...windowAlerts);
+        }
+        return { overdueWindows, alerts };
+    }
+
+    private async close(window: InspectionWindow, inspectionId: string, completedAt: Date): Promise<void> {
+        window.completeInspection(inspectionId, completedAt);
+        await this.windows.save(window);
+        // Audited when recorded; the inspection itself may have been submitted offline earlier
+        await this.audit(window, 'inspection_window.closed', new Date(), {
+            inspectionId,
+            completedAt: completedAt.toISOString(),
+            late: completedAt > window.deadlineTime,
+        });
+    }
+
+    private async buildOverdueAlerts(window: InspectionWindow, now: Date): Promise<WeatherAlert[]> {
+        const message = `Post-storm inspection OVERDUE: the deadline of ${window.deadlineTime.toISOString()} `
+            + `for the storm that ended ${window.stormEndTime.toISOString()} has passed. `
+            + 'Inspect the site and submit the checklist now.';
+
+        const alerts: WeatherAlert[] = [];
+        for (const recipientType of OVERDUE_RECIPIENTS) {
+            for (const contact of await this.contactPort.findContacts(window.siteId, recipientType)) {
+                const channel: AlertChannel = contact.phone ? 'sms' : 'email';
+                const recipient = contact.phone ?? contact.email;
+                if (!recipient) continue;
+
+                const id = crypto.randomUUID();
+                const link = this.escalation?.createAcknowledgmentLink({ id, recipientType, priority: 'critical' }, now);
+
+                alerts.push(WeatherAlert.create({
+                    id,
+                    siteId: window.siteId,
+                    channel,
+                    recipient,
+                    recipientType,
+                    message: link ? `${message} Acknowledge: ${link}` : message,
+                    acknowledgmentLink: link ?? undefined,
+                    subject: 'Post-storm inspection overdue',
+                    priority: 'critical',
+                    triggerEventId: window.id,
+                    createdAt: now,
+                }));
+            }
+        }
+        return alerts;
+    }
+
+    private async audit(
+        window: InspectionWindow,
+        action: string,
+        occurredAt: Date,
+        details: AuditEntry['details']
+    ): Promise<void> {
+        await this.auditLog.append({
+            id: crypto.randomUUID(),
+            occurredAt,
+            siteId: window.siteId,
+            action,
+            subjectType: SUBJECT_TYPE,
+            subjectId: window.id,
+            details,
+        });
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * RainfallEventDetector - Domain Service
+ *
+ * Turns on-site gauge readings into RainfallEvents. An event opens with the
+ * first wet interval, accumulates while rain continues and closes once the
+ * gauge has been dry for the configured period, either when new readings
+ * arrive or on a periodic sweep. Closed events that reach the
+ * qualifying accumulation get a post-storm inspection window; a permit's
+ * inspection policy overrides the configured qualifying amount.
+ */
+
+import { RainfallEvent } from '../entities/RainfallEvent';
+import type { GaugeReading } from '../entities/GaugeReading';
+import type { InspectionWindow } from '../entities/InspectionWindow';
+import type { WeatherTriggerService, SitePermit } from './WeatherTriggerService';
+import type { IRainfallEventRepositoryPort } from '../../ports/IRainfallEventRepositoryPort';
+import type { IInspectionWindowRepositoryPort } from '../../ports/IInspectionWindowRepositoryPort';
+
+export interface RainfallDetectionConfig {
+    dryPeriodHours: number;
+    qualifyingAccumulationInches: number;
+}
+
+export interface DetectionResult {
+    opened: RainfallEvent[];
+    closed: RainfallEvent[];
+    inspectionWindows: InspectionWindow[];
+}
+
+const DEFAULT_CONFIG: RainfallDetectionConfig = {
+    dryPeriodHours: 6,
+    qualifyingAccumulationInches: 0.25,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class RainfallEventDetector {
+    private readonly events: IRainfallEventRepositoryPort;
+    private readonly windows: IInspectionWindowRepositoryPort;
+    private readonly triggerService: WeatherTriggerService;
+    private readonly config: RainfallDetectionConfig;
+
+    constructor(
+        events: IRainfallEventRepositoryPort,
+        windows: IInspectionWindowRepositoryPort,
+        triggerService: WeatherTriggerService,
+        config: RainfallDetectionConfig = DEFAULT_CONFIG
+    ) {
+        this.events = events;
+        this.windows = windows;
+        this.triggerService = triggerService;
+        this.config = config;
+    }
+
+    /**
+     * Apply new readings to the site's events; each gauge is tracked separately.
+     * Events that have been dry for the configured period as of `now` are closed.
+     */
+    async process(permit: SitePermit, readings: GaugeReading[], now: Date = new Date()): Promise<DetectionResult> {
+        const result: DetectionResult = { opened: [], closed: [], inspectionWindows: [] };
+        const ongoing = new Map(
+            (await this.events.findOngoing(permit.siteId)).map(e => [e.deviceId ?? '', e])
+        );
+        const wet = readings
+            .filter(r => r.isWet())
+            .sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+
+        for (const reading of wet) {
+            let event = ongoing.get(reading.deviceId);
+            if (event?.hasBeenDryFor(this.config.dryPeriodHours, reading.intervalStart)) {
+                await this.closeEvent(permit, event, result);
+                event = undefined;
+            }
+            if (!event) {
+                event = this.openEvent(reading);
+                ongoing.set(reading.deviceId, event);
+                result.opened.push(event);
+            }
+            event.recordRainfall(reading.observedAt, reading.precipitationInches, reading.getIntensityInchesPerHour());
+        }
+
+        for (const event of ongoing.values()) {
+            if (event.hasBeenDryFor(this.config.dryPeriodHours, now)) {
+                await this.closeEvent(permit, event, result);
+            } else {
+                await this.events.save(event);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Close the site's events that have been dry for the configured period as of `now`;
+     * gauges may stop reporting once the rain stops, so this runs without new readings
+     */
+    async closeDryEvents(permit: SitePermit, now: Date = new Date()): Promise<DetectionResult> {
+        const result: DetectionResult = { opened: [], closed: [], inspectionWindows: [] };
+
+        for (const event of await this.events.findOngoing(permit.siteId)) {
+            if (event.hasBeenDryFor(this.config.dryPeriodHours, now)) {
+                await this.closeEvent(permit, event, result);
+            }
+        }
+        return result;
+    }
+
+    private openEvent(reading: GaugeReading): RainfallEvent {
+        return RainfallEvent.create({
+            id: crypto.randomUUID(),
+            siteId: reading.siteId,
+            startTime: reading.intervalStart,
+            intensityInchesPerHour: 0,
+            totalAccumulationInches: 0,
+            source: 'local_gauge',
+            deviceId: reading.deviceId,
+            lastRainAt: reading.observedAt,
+        });
+    }
+
+    private async closeEvent(permit: SitePermit, event: RainfallEvent, result: DetectionResult): Promise<void> {
+        event.close();
+        await this.events.save(event);
+        result.closed.push(event);
+
+        const policy = permit.inspectionPolicy;
+        const qualifyingInches = policy?.qualifyingRainfallInches ?? this.config.qualifyingAccumulationInches;
+        if (event.totalAccumulationInches < qualifyingInches) return;
+        if (policy && !policy.requiresStormInspection(event.lastRainAt)) return;
+        if (await this.hasWindowForStorm(event)) return;
+
+        const window = this.triggerService.calculateInspectionWindow(event, permit);
+        await this.windows.save(window);
+        result.inspectionWindows.push(window);
+    }
+
+    /**
+     * Another gauge on the site may already have opened a window for the same storm
+     */
+    private async hasWindowForStorm(event: RainfallEvent): Promise<boolean> {
+        const endTime = event.lastRainAt.getTime();
+        const windows = await this.windows.findBySite(event.siteId);
+        return windows.some(w =>
+            Math.abs(w.stormEndTime.getTime() - endTime) < this.config.dryPeriodHours * HOUR_MS
+        );
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * StormCorrelationService - Domain Service
+ *
+ * Recognizes the same forecast exceedance across repeated evaluations and
+ * decides whether it is a new storm, a worsening storm or a duplicate.
+ */
+
+import { StormEvent } from '../entities/StormEvent';
+import type { RealertReason } from '../entities/StormEvent';
+import type { AlertPriority } from '../entities/WeatherAlert';
+import type { IStormEventRepositoryPort } from '../../ports/IStormEventRepositoryPort';
+
+export interface Exceedance {
+    siteId: string;
+    windowStart: Date;
+    windowEnd: Date;
+    maxIntensityInchesPerHour: number;
+    priority: AlertPriority;
+}
+
+export interface CorrelationDecision {
+    stormEventId: string;
+    shouldAlert: boolean;
+    reason: 'new_storm' | RealertReason | 'duplicate';
+}
+
+export interface CorrelationConfig {
+    windowToleranceHours: number;
+    expiryGraceHours: number;
+    intensityChangeRatio: number;
+}
+
+const DEFAULT_CONFIG: CorrelationConfig = {
+    windowToleranceHours: 3,
+    expiryGraceHours: 6,
+    intensityChangeRatio: 0.25,
+};
+
+export class StormCorrelationService {
+    private readonly repository: IStormEventRepositoryPort;
+    private readonly config: CorrelationConfig;
+
+    constructor(
+        repository: IStormEventRepositoryPort,
+        config: CorrelationConfig = DEFAULT_CONFIG
+    ) {
+        this.repository = repository;
+        this.config = config;
+    }
+
+    /**
+     * Correlate an exceedance with tracked storms and record the outcome
+     */
+    async correlate(exceedance: Exceedance, now: Date = new Date()): Promise<CorrelationDecision> {
+        const active = await this.pruneExpired(exceedance.siteId, now);
+        const storm = active.find(s =>
+            s.matchesWindow(exceedance.windowStart, exceedance.windowEnd, this.config.windowToleranceHours)
+        );
+
+        if (!storm) {
+            return this.openStorm(exceedance, now);
+        }
+
+        return this.updateStorm(storm, exceedance, now);
+    }
+
+    private async openStorm(exceedance: Exceedance, now: Date): Promise<CorrelationDecision> {
+        const storm = StormEvent.create({
+            id: crypto.randomUUID(),
+            siteId: exceedance.siteId,
+            windowStart: exceedance.windowStart,
+            windowEnd: exceedance.windowEnd,
+            peakIntensityInchesPerHour: exceedance.maxIntensityInchesPerHour,
+            alertedPriority: exceedance.priority,
+            alertedIntensityInchesPerHour: exceedance.maxIntensityInchesPerHour,
+            alertCount: 1,
+            firstDetectedAt: now,
+            lastAlertedAt: now,
+        });
+
+        await this.repository.save(storm);
+        return { stormEventId: storm.id, shouldAlert: true, reason: 'new_storm' };
+    }
+
+    private async updateStorm(
+        storm: StormEvent,
+        exceedance: Exceedance,
+        now: Date
+    ): Promise<CorrelationDecision> {
+        const reason = storm.getRealertReason(
+            exceedance.priority,
+            exceedance.maxIntensityInchesPerHour,
+            this.config.intensityChangeRatio
+        );
+
+        storm.updateForecast(exceedance.windowStart, exceedance.windowEnd, exceedance.maxIntensityInchesPerHour);
+        if (reason) {
+            storm.recordAlert(exceedance.priority, exceedance.maxIntensityInchesPerHour, now);
+        }
+
+        await this.repository.save(storm);
+        return { stormEventId: storm.id, shouldAlert: reason !== null, reason: reason ?? 'duplicate' };
+    }
+
+    /**
+     * Drop storms whose window has passed and return the remaining ones
+     */
+    private async pruneExpired(siteId: string, now: Date): Promise<StormEvent[]> {
+        const storms = await this.repository.findBySite(siteId);
+        const expired = storms.filter(s => s.isExpired(now, this.config.expiryGraceHours));
+
+        for (const storm of expired) {
+            await this.repository.delete(storm.id);
+        }
+        return storms.filter(s => !expired.includes(s));
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * TriggerRuleEvaluator - Domain Service
+ *
+ * Checks an hourly forecast against a permit's trigger rules. Intensity rules
+ * compare each hour's rate; accumulation rules compare rolling-window totals
+ * (e.g. 0.5" in 24 hours). Every rule is checked and each one that fires is
+ * reported with the forecast window it fired over.
+ */
+
+import type { WeatherForecast } from '../../ports/IWeatherDataPort';
+
+export interface IntensityRule {
+    type: 'intensity';
+    thresholdInchesPerHour: number;
+}
+
+export interface AccumulationRule {
+    type: 'accumulation';
+    thresholdInches: number;
+    windowHours: number;
+}
+
+export type TriggerRule = IntensityRule | AccumulationRule;
+
+export interface TriggerRuleMatch {
+    rule: TriggerRule;
+    // First and last forecast hour (by start time) with rain in the window
+    windowStart: Date;
+    windowEnd: Date;
+    // Peak in/hr for intensity rules, window total in inches for accumulation rules
+    observedValue: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class TriggerRuleEvaluator {
+    /**
+     * Return a match for every rule the forecast satisfies, in rule order
+     */
+    evaluate(rules: TriggerRule[], forecasts: WeatherForecast[]): TriggerRuleMatch[] {
+        return rules
+            .map(rule => rule.type === 'intensity'
+                ? this.matchIntensity(rule, forecasts)
+                : this.matchAccumulation(rule, forecasts))
+            .filter((match): match is TriggerRuleMatch => match !== null);
+    }
+
+    private matchIntensity(rule: IntensityRule, forecasts: WeatherForecast[]): TriggerRuleMatch | null {
+        const exceeding = forecasts.filter(f => f.precipitationInchesPerHour > rule.thresholdInchesPerHour);
+        if (exceeding.length === 0) return null;
+
+        return {
+            rule,
+            windowStart: exceeding[0].timestamp,
+            windowEnd: exceeding[exceeding.length - 1].timestamp,
+            observedValue: Math.max(...exceeding.map(f => f.precipitationInchesPerHour)),
+        };
+    }
+
+    /**
+     * The earliest rolling window whose total reaches the threshold, trimmed to its wet hours
+     */
+    private matchAccumulation(rule: AccumulationRule, forecasts: WeatherForecast[]): TriggerRuleMatch | null {
+        for (const start of forecasts) {
+            const windowEnd = start.timestamp.getTime() + rule.windowHours * HOUR_MS;
+            const wet = forecasts.filter(f =>
+                f.timestamp >= start.timestamp
+                && f.timestamp.getTime() < windowEnd
+                && f.precipitationInchesPerHour > 0
+            );
+            const total = wet.reduce((sum, f) => sum + f.precipitationInchesPerHour, 0);
+
+            if (wet.length > 0 && total >= rule.thresholdInches) {
+                return {
+                    rule,
+                    windowStart: wet[0].timestamp,
+                    windowEnd: wet[wet.length - 1].timestamp,
+                    observedValue: total,
+                };
+            }
+        }
+        return null;
+    }
+}
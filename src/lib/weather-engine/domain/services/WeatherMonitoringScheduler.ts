@@ -0,0 +1,200 @@
+/**
+ * WeatherMonitoringScheduler - Domain Service
+ *
+ * Runs trigger evaluation for every monitored site on a fixed cadence,
+ * hands resulting alerts to the AlertScheduler and records each run.
+ * Alerts held for quiet hours are delivered by the first run after they end.
+ * When an escalation service is given, dispatched alerts are tracked and
+ * overdue acknowledgments are escalated at the end of every run; when an
+ * inspection window service is given, overdue inspection windows are swept too;
+ * when a rainfall event detector is given, gauge events that have gone dry are
+ * closed and their inspection windows opened.
+ */
+
+import { MonitoringRun } from '../entities/MonitoringRun';
+import type { WeatherTriggerService } from './WeatherTriggerService';
+import type { AlertScheduler } from './AlertScheduler';
+import type { AlertEscalationService } from './AlertEscalationService';
+import type { InspectionWindowService } from './InspectionWindowService';
+import type { RainfallEventDetector } from './RainfallEventDetector';
+import type { IMonitoredSitePort, MonitoredSite } from '../../ports/IMonitoredSitePort';
+import type { IMonitoringRunRepositoryPort } from '../../ports/IMonitoringRunRepositoryPort';
+
+export interface MonitoringSchedulerConfig {
+    intervalMinutes: number;
+}
+
+const DEFAULT_CONFIG: MonitoringSchedulerConfig = {
+    intervalMinutes: 15,
+};
+
+export class WeatherMonitoringScheduler {
+    private readonly triggerService: WeatherTriggerService;
+    private readonly alertScheduler: AlertScheduler;
+    private readonly sitePort: IMonitoredSitePort;
+    private readonly runRepository: IMonitoringRunRepositoryPort;
+    private readonly config: MonitoringSchedulerConfig;
+    private readonly escalation: AlertEscalationService | null;
+    private readonly inspectionWindows: InspectionWindowService | null;
+    private readonly rainfallEvents: RainfallEventDetector | null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private activeRun: Promise<MonitoringRun> | null = null;
+
+    constructor(
+        triggerService: WeatherTriggerService,
+        alertScheduler: AlertScheduler,
+        sitePort: IMonitoredSitePort,
+        runRepository: IMonitoringRunRepositoryPort,
+        config: MonitoringSchedulerConfig = DEFAULT_CONFIG,
+        escalation?: AlertEscalationService,
+        inspectionWindows?: InspectionWindowService,
+        rainfallEvents?: RainfallEventDetector
+    ) {
+        this.triggerService = triggerService;
+        this.alertScheduler = alertScheduler;
+        this.sitePort = sitePort;
+        this.runRepository = runRepository;
+        this.config = config;
+        this.escalation = escalation ?? null;
+        this.inspectionWindows = inspectionWindows ?? null;
+        this.rainfallEvents = rainfallEvents ?? null;
+    }
+
+    /**
+     * Start polling: runs immediately, then every configured interval
+     */
+    start(): void {
+        if (this.timer) return;
+
+        this.timer = setInterval(() => this.tick(), this.config.intervalMinutes * 60 * 1000);
+        this.tick();
+    }
+
+    /**
+     * Stop polling (an in-flight run is allowed to finish)
+     */
+    stop(): void {
+        if (!this.timer) return;
+
+        clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Check if the polling loop is active
+     */
+    isRunning(): boolean {
+        return this.timer !== null;
+    }
+
+    /**
+     * Evaluate all monitored sites once; concurrent calls share the in-flight run
+     */
+    async runOnce(): Promise<MonitoringRun> {
+        if (!this.activeRun) {
+            this.activeRun = this.executeRun().finally(() => {
+                this.activeRun = null;
+            });
+        }
+        return this.activeRun;
+    }
+
+    private tick(): void {
+        this.runOnce().catch(error => {
+            console.error('Weather monitoring run failed:', error);
+        });
+    }
+
+    private async executeRun(): Promise<MonitoringRun> {
+        const run = MonitoringRun.start();
+        await this.deliverDeferred();
+        const sites = await this.sitePort.listMonitoredSites();
+
+        for (const site of sites) {
+            await this.evaluateSite(run, site);
+        }
+        await this.closeDryRainfallEvents(sites);
+        await this.escalateOverdue();
+        await this.sweepOverdueWindows();
+
+        run.complete();
+        await this.runRepository.save(run);
+        return run;
+    }
+
+    /**
+     * Evaluate one site; failures are recorded on the run instead of aborting it
+     */
+    private async evaluateSite(run: MonitoringRun, site: MonitoredSite): Promise<void> {
+        if (!site.permit) {
+            run.recordSiteError(site.siteId, site.configurationError ?? 'No permit configured');
+            return;
+        }
+
+        try {
+            const evaluation = await this.triggerService.evaluateTriggers(
+                site.permit,
+                site.latitude,
+                site.longitude
+            );
+            await this.alertScheduler.processAlerts(evaluation.alerts);
+            await this.escalation?.track(evaluation.alerts);
+            run.recordSite(site.siteId, evaluation.alerts.length, evaluation.dataWarning);
+        } catch (error) {
+            run.recordSiteError(site.siteId, (error as Error).message);
+        }
+    }
+
+    /**
+     * Send alerts whose quiet hours have ended; a failure here must not lose the run record
+     */
+    private async deliverDeferred(): Promise<void> {
+        try {
+            await this.alertScheduler.deliverDue();
+        } catch (error) {
+            console.error('Deferred alert delivery failed:', error);
+        }
+    }
+
+    /**
+     * Close gauge events that have gone dry; one site failing must not stop the others
+     */
+    private async closeDryRainfallEvents(sites: MonitoredSite[]): Promise<void> {
+        if (!this.rainfallEvents) return;
+
+        for (const site of sites) {
+            if (!site.permit) continue;
+            try {
+                await this.rainfallEvents.closeDryEvents(site.permit);
+            } catch (error) {
+                console.error(`Closing rainfall events for ${site.siteId} failed:`, error);
+            }
+        }
+    }
+
+    /**
+     * Escalate unacknowledged alerts; a failure here must not lose the run record
+     */
+    private async escalateOverdue(): Promise<void> {
+        if (!this.escalation) return;
+
+        try {
+            await this.escalation.escalateOverdue();
+        } catch (error) {
+            console.error('Alert escalation failed:', error);
+        }
+    }
+
+    /**
+     * Alert on overdue inspection windows; a failure here must not lose the run record
+     */
+    private async sweepOverdueWindows(): Promise<void> {
+        if (!this.inspectionWindows) return;
+
+        try {
+            await this.inspectionWindows.sweepOverdue();
+        } catch (error) {
+            console.error('Inspection window sweep failed:', error);
+        }
+    }
+}
@@ -9,15 +9,41 @@ import type { RainfallEvent } from '../entities/RainfallEvent';
 import { WeatherAlert } from '../entities/WeatherAlert';
 import type { AlertPriority } from '../entities/WeatherAlert';
 import { InspectionWindow } from '../entities/InspectionWindow';
-import type { IWeatherDataPort } from '../../ports/IWeatherDataPort';
+import type { IWeatherDataPort, WeatherForecast } from '../../ports/IWeatherDataPort';
+import type { IPreventiveActionPort, PrecipitationOutlook } from '../../ports/IPreventiveActionPort';
+import type { StormCorrelationService, CorrelationDecision, Exceedance } from './StormCorrelationService';
+import { AlertRoutingPolicy } from './AlertRoutingPolicy';
+import type { AlertRoute, RecipientProfile } from './AlertRoutingPolicy';
+import type { AlertEscalationService } from './AlertEscalationService';
+import { AlertMessageRenderer } from './AlertMessageRenderer';
+import type { AlertMessageContext } from './AlertMessageRenderer';
+import { TriggerRuleEvaluator } from './TriggerRuleEvaluator';
+import type { TriggerRule, TriggerRuleMatch } from './TriggerRuleEvaluator';
+
+/**
+ * Jurisdiction rules for storm-triggered inspections
+ */
+export interface InspectionPolicy {
+    qualifyingRainfallInches: number;
+    requiresStormInspection(stormEnd: Date): boolean;
+    getStormInspectionDeadline(stormEnd: Date): Date;
+}
 
 export interface SitePermit {
     siteId: string;
     thresholdInchesPerHour: number;
+    // Any rule firing triggers an alert; only the intensity threshold when unset
+    triggerRules?: TriggerRule[];
     jurisdictionInspectionHours: 24 | 48 | 72;
-    superintendentPhone: string;
-    inspectorEmails: string[];
-    ownerEmail: string;
+    // Replaces storm end + jurisdictionInspectionHours when set
+    inspectionPolicy?: InspectionPolicy;
+    siteName?: string;
+    timeZone?: string;  // IANA zone for local times in messages; UTC when unset
+    recipients?: RecipientProfile[];
+    // Fixed routing used when no recipient profiles are given
+    superintendentPhone?: string;
+    inspectorEmails?: string[];
+    ownerEmail?: string;
 }
 
 export interface TriggerEvaluation {
@@ -25,6 +51,11 @@ export interface TriggerEvaluation {
     alerts: WeatherAlert[];
     inspectionWindow?: InspectionWindow;
     triggerReason?: string;
+    firedRules?: TriggerRuleMatch[];
+    stormEventId?: string;
+    suppressed?: boolean;
+    // Present when the evaluation ran on stale cached weather data
+    dataWarning?: string;
 }
 
 // Priority lookup table for CC reduction
@@ -40,11 +71,39 @@ const PRIORITY_THRESHOLDS: Array<{
         { intensityMin: 0, hoursMax: 12, priority: 'medium' },
     ];
 
+const HOUR_MS = 60 * 60 * 1000;
+const TOP_ACTION_COUNT = 3;
+
 export class WeatherTriggerService {
     private readonly weatherDataPort: IWeatherDataPort;
+    private readonly stormCorrelation: StormCorrelationService | null;
+    private readonly routingPolicy: AlertRoutingPolicy;
+    private readonly preventiveActions: IPreventiveActionPort | null;
+    private readonly messageRenderer: AlertMessageRenderer;
+    private readonly escalation: AlertEscalationService | null;
+    private readonly ruleEvaluator = new TriggerRuleEvaluator();
 
-    constructor(weatherDataPort: IWeatherDataPort) {
+    /**
+     * @param stormCorrelation - When given, repeated evaluations of the same storm
+     *   are suppressed unless priority escalates or intensity changes materially
+     * @param preventiveActions - When given, messages list the site's top actions
+     * @param escalation - When given, SMS and email alerts that escalate unless
+     *   acknowledged carry a one-click acknowledgment link
+     */
+    constructor(
+        weatherDataPort: IWeatherDataPort,
+        stormCorrelation?: StormCorrelationService,
+        routingPolicy: AlertRoutingPolicy = new AlertRoutingPolicy(),
+        preventiveActions?: IPreventiveActionPort,
+        messageRenderer: AlertMessageRenderer = new AlertMessageRenderer(),
+        escalation?: AlertEscalationService
+    ) {
         this.weatherDataPort = weatherDataPort;
+        this.stormCorrelation = stormCorrelation ?? null;
+        this.routingPolicy = routingPolicy;
+        this.preventiveActions = preventiveActions ?? null;
+        this.messageRenderer = messageRenderer;
+        this.escalation = escalation ?? null;
     }
 
     /**
@@ -61,36 +120,97 @@ export class WeatherTriggerService {
             72
         );
 
-        const exceedingForecasts = forecast.forecasts.filter(
-            f => f.precipitationInchesPerHour > permit.thresholdInchesPerHour
-        );
+        const firedRules = this.ruleEvaluator.evaluate(getTriggerRules(permit), forecast.forecasts);
 
-        if (exceedingForecasts.length === 0) {
-            return { shouldAlert: false, alerts: [] };
+        if (firedRules.length === 0) {
+            return { shouldAlert: false, alerts: [], dataWarning: forecast.warning };
         }
 
-        return this.buildTriggerEvaluation(permit, exceedingForecasts);
+        const evaluation = await this.buildTriggerEvaluation(permit, forecast.forecasts, firedRules);
+        return { ...evaluation, firedRules, dataWarning: forecast.warning };
     }
 
     /**
-     * Build evaluation result from exceeding forecasts
+     * Build evaluation result from the rules that fired; the storm spans all their windows
      */
-    private buildTriggerEvaluation(
+    private async buildTriggerEvaluation(
         permit: SitePermit,
-        exceedingForecasts: Array<{ timestamp: Date; precipitationInchesPerHour: number }>
-    ): TriggerEvaluation {
-        const firstExceeding = exceedingForecasts[0];
-        const maxIntensity = Math.max(...exceedingForecasts.map(f => f.precipitationInchesPerHour));
-        const hoursAhead = this.getHoursUntil(firstExceeding.timestamp);
+        forecasts: WeatherForecast[],
+        firedRules: TriggerRuleMatch[]
+    ): Promise<TriggerEvaluation> {
+        const windowStart = new Date(Math.min(...firedRules.map(m => m.windowStart.getTime())));
+        const windowEnd = new Date(Math.max(...firedRules.map(m => m.windowEnd.getTime())));
+        const stormHours = forecasts.filter(f => f.timestamp >= windowStart && f.timestamp <= windowEnd);
+        const maxIntensity = Math.max(...stormHours.map(f => f.precipitationInchesPerHour));
+        const hoursAhead = this.getHoursUntil(windowStart);
 
         const priority = this.determinePriority(maxIntensity, hoursAhead);
-        const alerts = this.createAlerts(permit, priority, maxIntensity, hoursAhead);
+        const triggerReason = firedRules.map(m => this.describeMatch(m)).join('; ');
+        const decision = await this.correlate({
+            siteId: permit.siteId,
+            windowStart,
+            windowEnd,
+            maxIntensityInchesPerHour: maxIntensity,
+            priority,
+        });
+
+        if (!decision.shouldAlert) {
+            return { shouldAlert: false, alerts: [], triggerReason, stormEventId: decision.stormEventId, suppressed: true };
+        }
+
+        const context: AlertMessageContext = {
+            siteName: permit.siteName ?? permit.siteId,
+            timeZone: permit.timeZone ?? 'UTC',
+            priority,
+            stormStart: windowStart,
+            hoursAhead,
+            maxIntensityInchesPerHour: maxIntensity,
+            accumulationInches: sumPrecipitation(forecasts, windowStart, windowEnd),
+            actions: await this.getTopActions(permit.siteId, forecasts),
+            // Hourly forecasts cover the hour that starts at their timestamp
+            inspectionDeadline: getInspectionDeadline(permit, new Date(windowEnd.getTime() + HOUR_MS)),
+        };
+        const alerts = this.createAlerts(permit, context, decision.stormEventId);
+        return { shouldAlert: true, alerts, triggerReason, stormEventId: decision.stormEventId };
+    }
 
-        return {
-            shouldAlert: true,
-            alerts,
-            triggerReason: `Rain forecast: ${maxIntensity.toFixed(2)} in/hr in ${hoursAhead}h`,
+    private describeMatch(match: TriggerRuleMatch): string {
+        const hoursAhead = Math.round(this.getHoursUntil(match.windowStart));
+        return match.rule.type === 'intensity'
+            ? `Rain forecast: ${match.observedValue.toFixed(2)} in/hr in ${hoursAhead}h`
+            : `Rain forecast: ${match.observedValue.toFixed(2)} in within ${match.rule.windowHours}h starting in ${hoursAhead}h`;
+    }
+
+    /**
+     * Match the exceedance to a tracked storm (every exceedance is new without correlation)
+     */
+    private async correlate(exceedance: Exceedance): Promise<CorrelationDecision> {
+        if (!this.stormCorrelation) {
+            return { stormEventId: crypto.randomUUID(), shouldAlert: true, reason: 'new_storm' };
+        }
+        return this.stormCorrelation.correlate(exceedance);
+    }
+
+    /**
+     * Look up the site's top preventive actions; alerts still go out if the lookup fails
+     */
+    private async getTopActions(siteId: string, forecasts: WeatherForecast[]): Promise<string[]> {
+        if (!this.preventiveActions) return [];
+
+        const now = new Date();
+        const within = (hours: number) => sumPrecipitation(forecasts, now, new Date(now.getTime() + hours * HOUR_MS));
+        const outlook: PrecipitationOutlook = {
+            precipitationInchesNext24h: within(24),
+            precipitationInchesNext48h: within(48),
+            precipitationInchesNext72h: within(72),
         };
+
+        try {
+            return await this.preventiveActions.getTopActions(siteId, outlook, TOP_ACTION_COUNT);
+        } catch (error) {
+            console.error(`Preventive action lookup failed for ${siteId}:`, error);
+            return [];
+        }
     }
 
     /**
@@ -110,6 +230,7 @@ export class WeatherTriggerService {
             rainfallEventId: rainfallEvent.id,
             jurisdictionHours: permit.jurisdictionInspectionHours,
             stormEndTime: rainfallEvent.endTime,
+            deadlineTime: permit.inspectionPolicy?.getStormInspectionDeadline(rainfallEvent.endTime),
         });
     }
 
@@ -126,94 +247,41 @@ export class WeatherTriggerService {
     }
 
     /**
-     * Create multi-channel alerts for permit contacts
+     * Create alerts for every contact and channel the routing policy selects,
+     * rendered for the channel in the contact's language
      */
-    private createAlerts(
-        permit: SitePermit,
-        priority: AlertPriority,
-        intensity: number,
-        hoursAhead: number
-    ): WeatherAlert[] {
-        const eventId = crypto.randomUUID();
-        const message = `Rain alert: Deploy controls. ${intensity.toFixed(2)} in/hr expected in ${hoursAhead}h`;
+    private createAlerts(permit: SitePermit, context: AlertMessageContext, eventId: string): WeatherAlert[] {
         const now = new Date();
 
-        return [
-            this.createSmsAlert(permit, priority, message, eventId, now),
-            ...this.createPushAlerts(permit, priority, message, eventId, now),
-            this.createEmailAlert(permit, priority, message, eventId, now),
-        ];
-    }
-
-    /**
-     * Create SMS alert for superintendent
-     */
-    private createSmsAlert(
-        permit: SitePermit,
-        priority: AlertPriority,
-        message: string,
-        eventId: string,
-        createdAt: Date
-    ): WeatherAlert {
-        return WeatherAlert.create({
-            id: crypto.randomUUID(),
-            siteId: permit.siteId,
-            channel: 'sms',
-            recipient: permit.superintendentPhone,
-            recipientType: 'superintendent',
-            message,
-            priority,
-            triggerEventId: eventId,
-            createdAt,
-        });
-    }
-
-    /**
-     * Create push alerts for inspectors
-     */
-    private createPushAlerts(
-        permit: SitePermit,
-        priority: AlertPriority,
-        message: string,
-        eventId: string,
-        createdAt: Date
-    ): WeatherAlert[] {
-        return permit.inspectorEmails.map(email =>
-            WeatherAlert.create({
-                id: crypto.randomUUID(),
+        return this.routingPolicy.route(getRecipients(permit), context.priority, now).map(route => {
+            const id = crypto.randomUUID();
+            const acknowledgmentLink = this.getAcknowledgmentLink(id, route, context.priority, now);
+            const rendered = this.messageRenderer.render(route.channel, { ...context, acknowledgmentLink }, route.recipient.language);
+            return WeatherAlert.create({
+                id,
                 siteId: permit.siteId,
-                channel: 'push',
-                recipient: email,
-                recipientType: 'inspector',
-                message,
-                priority,
+                channel: route.channel,
+                recipient: route.address,
+                recipientType: route.recipient.role,
+                message: rendered.text,
+                subject: rendered.subject,
+                htmlMessage: rendered.html,
+                acknowledgmentLink,
+                priority: context.priority,
                 triggerEventId: eventId,
-                createdAt,
-            })
-        );
+                createdAt: now,
+                notBefore: route.notBefore,
+                language: route.recipient.language,
+            });
+        });
     }
 
     /**
-     * Create email alert for owner
+     * Link for SMS and email alerts that escalate unless acknowledged
      */
-    private createEmailAlert(
-        permit: SitePermit,
-        priority: AlertPriority,
-        message: string,
-        eventId: string,
-        createdAt: Date
-    ): WeatherAlert {
-        return WeatherAlert.create({
-            id: crypto.randomUUID(),
-            siteId: permit.siteId,
-            channel: 'email',
-            recipient: permit.ownerEmail,
-            recipientType: 'owner',
-            message,
-            priority,
-            triggerEventId: eventId,
-            createdAt,
-        });
+    private getAcknowledgmentLink(id: string, route: AlertRoute, priority: AlertPriority, now: Date): string | undefined {
+        if (!this.escalation || route.channel === 'push') return undefined;
+        return this.escalation.createAcknowledgmentLink({ id, recipientType: route.recipient.role, priority }, now) ?? undefined;
     }
 
     private getHoursUntil(targetTime: Date): number {
@@ -221,3 +289,53 @@ export class WeatherTriggerService {
         return Math.max(0, (targetTime.getTime() - now.getTime()) / (1000 * 60 * 60));
     }
 }
+
+/**
+ * Total forecast precipitation for the hours starting within [from, to]
+ */
+function sumPrecipitation(forecasts: WeatherForecast[], from: Date, to: Date): number {
+    return forecasts
+        .filter(f => f.timestamp >= from && f.timestamp <= to)
+        .reduce((total, f) => total + f.precipitationInchesPerHour, 0);
+}
+
+/**
+ * Deadline for the inspection after a storm ending at the given time; undefined
+ * when the permit's policy requires no inspection for that storm
+ */
+function getInspectionDeadline(permit: SitePermit, stormEnd: Date): Date | undefined {
+    const policy = permit.inspectionPolicy;
+    if (!policy) {
+        return new Date(stormEnd.getTime() + permit.jurisdictionInspectionHours * HOUR_MS);
+    }
+    return policy.requiresStormInspection(stormEnd) ? policy.getStormInspectionDeadline(stormEnd) : undefined;
+}
+
+/**
+ * Rules for a permit, falling back to its hourly intensity threshold
+ */
+function getTriggerRules(permit: SitePermit): TriggerRule[] {
+    return permit.triggerRules ?? [{ type: 'intensity', thresholdInchesPerHour: permit.thresholdInchesPerHour }];
+}
+
+/**
+ * Contact profiles for a permit, derived from the fixed fields when none are given
+ */
+function getRecipients(permit: SitePermit): RecipientProfile[] {
+    if (permit.recipients) return permit.recipients;
+
+    const superintendent: RecipientProfile[] = permit.superintendentPhone
+        ? [{ contactId: 'superintendent', name: 'Superintendent', role: 'superintendent', phone: permit.superintendentPhone }]
+        : [];
+    const inspectors = (permit.inspectorEmails ?? []).map((email, index): RecipientProfile => ({
+        contactId: `inspector-${index + 1}`,
+        name: 'Inspector',
+        role: 'inspector',
+        email,
+    }));
+    const owner: RecipientProfile[] = permit.ownerEmail
+        ? [{ contactId: 'owner', name: 'Owner', role: 'owner', email: permit.ownerEmail }]
+        : [];
+
+    return [...superintendent, ...inspectors, ...owner];
+}
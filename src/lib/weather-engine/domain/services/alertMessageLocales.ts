@@ -0,0 +1,148 @@
+/**
+ * Alert Message Locales
+ *
+ * Per-language templates for every alert channel. Placeholders in braces are
+ * filled by AlertMessageRenderer: {siteName}, {priority}, {stormStart},
+ * {hoursAhead}, {intensity}, {accumulation}, {topAction}, {actions},
+ * {actionItems} (HTML list items), {deadline}, {inspectionHtml} (the rendered
+ * inspection paragraph, empty when no inspection is due), {acknowledgmentLink}
+ * and {acknowledgeHtml} (the rendered acknowledge paragraph, empty without a link).
+ * SMS and email text end with the inspection line when the storm requires one,
+ * and alerts that escalate unless acknowledged end with the acknowledge line.
+ */
+
+import type { AlertPriority } from '../entities/WeatherAlert';
+
+export interface AlertLocale {
+    formatLocale: string;   // BCP 47 tag used to format dates and numbers
+    priorities: Record<AlertPriority, string>;
+    sms: string;
+    push: { title: string; body: string };
+    email: { subject: string; text: string; html: string };
+    fallbackAction: string;
+    inspection: { sms: string; text: string; html: string };
+    acknowledge: { text: string; html: string };
+    // Translations of the risk engine's preventive actions, keyed by the English text
+    actions: Record<string, string>;
+}
+
+const EMAIL_HTML_LAYOUT = (heading: string, lead: string, actionsHeading: string) => `
+<div style="font-family:sans-serif;max-width:560px">
+  <h2 style="margin:0 0 8px">${heading}</h2>
+  <p>${lead}</p>
+  <h3 style="margin:16px 0 4px">${actionsHeading}</h3>
+  <ol>{actionItems}</ol>
+  {inspectionHtml}
+  {acknowledgeHtml}
+</div>`.trim();
+
+export const ALERT_LOCALES: Record<string, AlertLocale> = {
+    en: {
+        formatLocale: 'en-US',
+        priorities: { low: 'Low', medium: 'Medium', high: 'High', critical: 'Critical' },
+        sms: 'Rain alert: Deploy controls at {siteName}. {intensity} in/hr from {stormStart} (in {hoursAhead}h), '
+            + '{accumulation} in total. First: {topAction}.',
+        push: {
+            title: '{priority} rain alert: {siteName}',
+            body: '{intensity} in/hr from {stormStart}, {accumulation} in expected. {topAction}.',
+        },
+        email: {
+            subject: '[{priority}] Rain expected at {siteName} from {stormStart}',
+            text: 'Rain is forecast at {siteName} from {stormStart} (in {hoursAhead}h): up to {intensity} in/hr, '
+                + '{accumulation} in total.\n\nDeploy controls now:\n{actions}',
+            html: EMAIL_HTML_LAYOUT(
+                '{priority} rain alert: {siteName}',
+                'Rain is forecast from <strong>{stormStart}</strong> (in {hoursAhead}h): up to {intensity} in/hr, '
+                    + '<strong>{accumulation} in</strong> total.',
+                'Deploy controls now'
+            ),
+        },
+        fallbackAction: 'Deploy erosion and sediment controls',
+        inspection: {
+            sms: 'Inspect by {deadline}.',
+            text: 'Post-storm inspection due by {deadline}.',
+            html: '<p><strong>Post-storm inspection due by {deadline}.</strong></p>',
+        },
+        acknowledge: {
+            text: 'Acknowledge: {acknowledgmentLink}',
+            html: '<p><a href="{acknowledgmentLink}">Acknowledge this alert</a></p>',
+        },
+        actions: {},
+    },
+    es: {
+        formatLocale: 'es-ES',
+        priorities: { low: 'Baja', medium: 'Media', high: 'Alta', critical: 'Crítica' },
+        sms: 'Alerta de lluvia: despliegue controles en {siteName}. {intensity} in/h desde {stormStart} '
+            + '(en {hoursAhead} h), {accumulation} in en total. Primero: {topAction}.',
+        push: {
+            title: 'Alerta de lluvia ({priority}): {siteName}',
+            body: '{intensity} in/h desde {stormStart}, {accumulation} in previstas. {topAction}.',
+        },
+        email: {
+            subject: '[{priority}] Lluvia prevista en {siteName} desde {stormStart}',
+            text: 'Se pronostica lluvia en {siteName} desde {stormStart} (en {hoursAhead} h): hasta {intensity} in/h, '
+                + '{accumulation} in en total.\n\nDespliegue los controles ahora:\n{actions}',
+            html: EMAIL_HTML_LAYOUT(
+                'Alerta de lluvia ({priority}): {siteName}',
+                'Se pronostica lluvia desde <strong>{stormStart}</strong> (en {hoursAhead} h): hasta {intensity} in/h, '
+                    + '<strong>{accumulation} in</strong> en total.',
+                'Despliegue los controles ahora'
+            ),
+        },
+        fallbackAction: 'Despliegue los controles de erosión y sedimentos',
+        inspection: {
+            sms: 'Inspeccione antes de {deadline}.',
+            text: 'Inspección posterior a la tormenta antes de {deadline}.',
+            html: '<p><strong>Inspección posterior a la tormenta antes de {deadline}.</strong></p>',
+        },
+        acknowledge: {
+            text: 'Confirme la recepción: {acknowledgmentLink}',
+            html: '<p><a href="{acknowledgmentLink}">Confirmar esta alerta</a></p>',
+        },
+        actions: {
+            'Deploy additional inlet protection': 'Instale protección adicional en sumideros',
+            'Reinforce silt fence perimeter': 'Refuerce la barrera de sedimentos perimetral',
+            'Schedule immediate inspection': 'Programe una inspección inmediata',
+            'Review BMP maintenance schedule': 'Revise el plan de mantenimiento de las BMP',
+            'Inspect perimeter for secondary disturbance': 'Inspeccione el perímetro en busca de alteraciones',
+        },
+    },
+    de: {
+        formatLocale: 'de-DE',
+        priorities: { low: 'Niedrig', medium: 'Mittel', high: 'Hoch', critical: 'Kritisch' },
+        sms: 'Regenwarnung: Schutzmaßnahmen auf {siteName} aufbauen. {intensity} in/h ab {stormStart} '
+            + '(in {hoursAhead} Std.), {accumulation} in gesamt. Zuerst: {topAction}.',
+        push: {
+            title: 'Regenwarnung ({priority}): {siteName}',
+            body: '{intensity} in/h ab {stormStart}, {accumulation} in erwartet. {topAction}.',
+        },
+        email: {
+            subject: '[{priority}] Regen auf {siteName} ab {stormStart}',
+            text: 'Für {siteName} ist ab {stormStart} (in {hoursAhead} Std.) Regen vorhergesagt: bis zu {intensity} in/h, '
+                + 'insgesamt {accumulation} in.\n\nJetzt Schutzmaßnahmen umsetzen:\n{actions}',
+            html: EMAIL_HTML_LAYOUT(
+                'Regenwarnung ({priority}): {siteName}',
+                'Ab <strong>{stormStart}</strong> (in {hoursAhead} Std.) ist Regen vorhergesagt: bis zu {intensity} in/h, '
+                    + 'insgesamt <strong>{accumulation} in</strong>.',
+                'Jetzt Schutzmaßnahmen umsetzen'
+            ),
+        },
+        fallbackAction: 'Erosions- und Sedimentschutz aufbauen',
+        inspection: {
+            sms: 'Begehung bis {deadline}.',
+            text: 'Begehung nach dem Unwetter bis {deadline}.',
+            html: '<p><strong>Begehung nach dem Unwetter bis {deadline}.</strong></p>',
+        },
+        acknowledge: {
+            text: 'Bestätigen: {acknowledgmentLink}',
+            html: '<p><a href="{acknowledgmentLink}">Warnung bestätigen</a></p>',
+        },
+        actions: {
+            'Deploy additional inlet protection': 'Zusätzlichen Einlaufschutz anbringen',
+            'Reinforce silt fence perimeter': 'Schlammzaun am Rand verstärken',
+            'Schedule immediate inspection': 'Sofortige Begehung ansetzen',
+            'Review BMP maintenance schedule': 'Wartungsplan der Schutzmaßnahmen prüfen',
+            'Inspect perimeter for secondary disturbance': 'Baustellenrand auf Folgeschäden prüfen',
+        },
+    },
+};
@@ -29,19 +29,87 @@ export type {
     WeatherAlertProps,
     AlertChannel,
     AlertPriority,
-    AlertStatus
+    AlertStatus,
+    AlertRecipientType,
+    DeliveryAttempt
 } from './domain/entities/WeatherAlert';
 
 export { InspectionWindow } from './domain/entities/InspectionWindow';
-export type { InspectionWindowProps } from './domain/entities/InspectionWindow';
+export type {
+    InspectionWindowProps,
+    InspectionWindowStatus
+} from './domain/entities/InspectionWindow';
+
+export { StormEvent } from './domain/entities/StormEvent';
+export type {
+    StormEventProps,
+    RealertReason
+} from './domain/entities/StormEvent';
+
+export { MonitoringRun } from './domain/entities/MonitoringRun';
+export type {
+    MonitoringRunProps,
+    SiteEvaluationOutcome
+} from './domain/entities/MonitoringRun';
+
+export { GaugeReading } from './domain/entities/GaugeReading';
+export type { GaugeReadingProps } from './domain/entities/GaugeReading';
 
 // Domain Layer - Services
 export { WeatherTriggerService } from './domain/services/WeatherTriggerService';
 export { AlertScheduler } from './domain/services/AlertScheduler';
+export { WeatherMonitoringScheduler } from './domain/services/WeatherMonitoringScheduler';
+export { StormCorrelationService } from './domain/services/StormCorrelationService';
+export { AlertEscalationService } from './domain/services/AlertEscalationService';
+export { AlertRoutingPolicy } from './domain/services/AlertRoutingPolicy';
+export { AlertMessageRenderer } from './domain/services/AlertMessageRenderer';
+export { TriggerRuleEvaluator } from './domain/services/TriggerRuleEvaluator';
+export { ALERT_LOCALES } from './domain/services/alertMessageLocales';
+export { RainfallEventDetector } from './domain/services/RainfallEventDetector';
+export { GaugeIngestionService } from './domain/services/GaugeIngestionService';
+export { InspectionWindowService } from './domain/services/InspectionWindowService';
 export type {
     SitePermit,
+    InspectionPolicy,
     TriggerEvaluation
 } from './domain/services/WeatherTriggerService';
+export type {
+    TriggerRule,
+    IntensityRule,
+    AccumulationRule,
+    TriggerRuleMatch
+} from './domain/services/TriggerRuleEvaluator';
+export type { MonitoringSchedulerConfig } from './domain/services/WeatherMonitoringScheduler';
+export type {
+    Exceedance,
+    CorrelationDecision,
+    CorrelationConfig
+} from './domain/services/StormCorrelationService';
+export type { EscalationPolicy } from './domain/services/AlertEscalationService';
+export type {
+    RecipientProfile,
+    QuietHours,
+    AlertRoute
+} from './domain/services/AlertRoutingPolicy';
+export type {
+    AlertMessageContext,
+    RenderedAlertMessage
+} from './domain/services/AlertMessageRenderer';
+export type { AlertLocale } from './domain/services/alertMessageLocales';
+export type {
+    RetryPolicy,
+    AlertSchedulerOptions
+} from './domain/services/AlertScheduler';
+export type {
+    RainfallDetectionConfig,
+    DetectionResult
+} from './domain/services/RainfallEventDetector';
+export type {
+    GaugeObservation,
+    GaugeBatch,
+    GaugeIngestionResult
+} from './domain/services/GaugeIngestionService';
+export type { OverdueSweepResult } from './domain/services/InspectionWindowService';
 
 // Ports
 export type {
@@ -55,27 +123,393 @@ export type {
     AlertDeliveryResult
 } from './ports/IAlertChannelPort';
 
+export type {
+    IMonitoredSitePort,
+    MonitoredSite
+} from './ports/IMonitoredSitePort';
+
+export type { IForecastCachePort } from './ports/IForecastCachePort';
+export type { IMonitoringRunRepositoryPort } from './ports/IMonitoringRunRepositoryPort';
+export type { IStormEventRepositoryPort } from './ports/IStormEventRepositoryPort';
+export type { IAlertRepositoryPort } from './ports/IAlertRepositoryPort';
+export type { IDeadLetterQueuePort } from './ports/IDeadLetterQueuePort';
+export type { IDeferredAlertQueuePort } from './ports/IDeferredAlertQueuePort';
+export type { IGaugeReadingRepositoryPort } from './ports/IGaugeReadingRepositoryPort';
+export type { IRainfallEventRepositoryPort } from './ports/IRainfallEventRepositoryPort';
+export type { IInspectionWindowRepositoryPort } from './ports/IInspectionWindowRepositoryPort';
+export type { IAuditLogPort, AuditEntry } from './ports/IAuditLogPort';
+
+export type {
+    IPushSubscriptionRepositoryPort,
+    WebPushSubscription
+} from './ports/IPushSubscriptionRepositoryPort';
+
+export type {
+    IAlertContactPort,
+    AlertContact
+} from './ports/IAlertContactPort';
+
+export type {
+    IAcknowledgmentLinkPort,
+    AcknowledgmentLinkParams
+} from './ports/IAcknowledgmentLinkPort';
+
+export type {
+    IPreventiveActionPort,
+    PrecipitationOutlook
+} from './ports/IPreventiveActionPort';
+
 // Infrastructure - Adapters
 export { MockNoaaAdapter } from './infrastructure/MockNoaaAdapter';
 export { NoaaApiAdapter } from './infrastructure/NoaaApiAdapter';
+export { OpenMeteoAdapter } from './infrastructure/OpenMeteoAdapter';
+export { DwdBrightSkyAdapter } from './infrastructure/DwdBrightSkyAdapter';
+export { CompositeWeatherDataAdapter } from './infrastructure/CompositeWeatherDataAdapter';
+export type { WeatherProvider, ProviderSelectionMode } from './infrastructure/CompositeWeatherDataAdapter';
+export { NWS_COVERAGE, DWD_COVERAGE, isCovered } from './infrastructure/weatherRegions';
+export type { BoundingBox } from './infrastructure/weatherRegions';
+export { CachingWeatherDataAdapter } from './infrastructure/CachingWeatherDataAdapter';
+export type { ForecastCacheOptions } from './infrastructure/CachingWeatherDataAdapter';
+export { InMemoryForecastCache } from './infrastructure/InMemoryForecastCache';
+export { JsonFileForecastCache } from './infrastructure/JsonFileForecastCache';
+export { InMemoryMonitoringRunRepository } from './infrastructure/InMemoryMonitoringRunRepository';
+export { JsonLinesMonitoringRunRepository } from './infrastructure/JsonLinesMonitoringRunRepository';
+export { InMemoryStormEventRepository } from './infrastructure/InMemoryStormEventRepository';
+export { JsonFileStormEventRepository } from './infrastructure/JsonFileStormEventRepository';
+export { InMemoryAlertRepository } from './infrastructure/InMemoryAlertRepository';
+export { JsonFileAlertRepository } from './infrastructure/JsonFileAlertRepository';
+export { HmacAcknowledgmentLinks } from './infrastructure/HmacAcknowledgmentLinks';
+export { InMemoryDeadLetterQueue } from './infrastructure/InMemoryDeadLetterQueue';
+export { JsonFileDeadLetterQueue } from './infrastructure/JsonFileDeadLetterQueue';
+export { InMemoryDeferredAlertQueue } from './infrastructure/InMemoryDeferredAlertQueue';
+export { JsonFileDeferredAlertQueue } from './infrastructure/JsonFileDeferredAlertQueue';
+export { SmtpEmailChannel } from './infrastructure/SmtpEmailChannel';
+export type { SmtpConfig } from './infrastructure/SmtpEmailChannel';
+export { HttpSmsGatewayChannel } from './infrastructure/HttpSmsGatewayChannel';
+export type { SmsGatewayConfig } from './infrastructure/HttpSmsGatewayChannel';
+export { WebPushChannel } from './infrastructure/WebPushChannel';
+export type { VapidConfig } from './infrastructure/WebPushChannel';
+export { InMemoryPushSubscriptionRepository } from './infrastructure/InMemoryPushSubscriptionRepository';
+export { JsonFilePushSubscriptionRepository } from './infrastructure/JsonFilePushSubscriptionRepository';
+export { InMemoryGaugeReadingRepository } from './infrastructure/InMemoryGaugeReadingRepository';
+export { JsonLinesGaugeReadingRepository } from './infrastructure/JsonLinesGaugeReadingRepository';
+export { InMemoryRainfallEventRepository } from './infrastructure/InMemoryRainfallEventRepository';
+export { JsonFileRainfallEventRepository } from './infrastructure/JsonFileRainfallEventRepository';
+export { InMemoryInspectionWindowRepository } from './infrastructure/InMemoryInspectionWindowRepository';
+export { JsonFileInspectionWindowRepository } from './infrastructure/JsonFileInspectionWindowRepository';
+export { InMemoryAuditLog } from './infrastructure/InMemoryAuditLog';
+export { JsonLinesAuditLog } from './infrastructure/JsonLinesAuditLog';
 
 // ============================================================================
 // Factory Functions
 // ============================================================================
 
 import { WeatherTriggerService } from './domain/services/WeatherTriggerService';
+import { AlertScheduler } from './domain/services/AlertScheduler';
+import { WeatherMonitoringScheduler } from './domain/services/WeatherMonitoringScheduler';
+import { StormCorrelationService } from './domain/services/StormCorrelationService';
+import { AlertEscalationService } from './domain/services/AlertEscalationService';
+import { AlertRoutingPolicy } from './domain/services/AlertRoutingPolicy';
+import { AlertMessageRenderer } from './domain/services/AlertMessageRenderer';
+import { RainfallEventDetector } from './domain/services/RainfallEventDetector';
+import { GaugeIngestionService } from './domain/services/GaugeIngestionService';
+import { InspectionWindowService } from './domain/services/InspectionWindowService';
 import { MockNoaaAdapter } from './infrastructure/MockNoaaAdapter';
 import { NoaaApiAdapter } from './infrastructure/NoaaApiAdapter';
+import { OpenMeteoAdapter } from './infrastructure/OpenMeteoAdapter';
+import { DwdBrightSkyAdapter } from './infrastructure/DwdBrightSkyAdapter';
+import { CompositeWeatherDataAdapter } from './infrastructure/CompositeWeatherDataAdapter';
+import type { ProviderSelectionMode } from './infrastructure/CompositeWeatherDataAdapter';
+import { NWS_COVERAGE, DWD_COVERAGE } from './infrastructure/weatherRegions';
+import { CachingWeatherDataAdapter } from './infrastructure/CachingWeatherDataAdapter';
+import { JsonFileForecastCache } from './infrastructure/JsonFileForecastCache';
+import { JsonLinesMonitoringRunRepository } from './infrastructure/JsonLinesMonitoringRunRepository';
+import { JsonFileStormEventRepository } from './infrastructure/JsonFileStormEventRepository';
+import { JsonFileAlertRepository } from './infrastructure/JsonFileAlertRepository';
+import { HmacAcknowledgmentLinks } from './infrastructure/HmacAcknowledgmentLinks';
+import { JsonFileDeadLetterQueue } from './infrastructure/JsonFileDeadLetterQueue';
+import { JsonFileDeferredAlertQueue } from './infrastructure/JsonFileDeferredAlertQueue';
+import { SmtpEmailChannel } from './infrastructure/SmtpEmailChannel';
+import { HttpSmsGatewayChannel } from './infrastructure/HttpSmsGatewayChannel';
+import { WebPushChannel } from './infrastructure/WebPushChannel';
+import { JsonFilePushSubscriptionRepository } from './infrastructure/JsonFilePushSubscriptionRepository';
+import { JsonLinesGaugeReadingRepository } from './infrastructure/JsonLinesGaugeReadingRepository';
+import { JsonFileRainfallEventRepository } from './infrastructure/JsonFileRainfallEventRepository';
+import { JsonFileInspectionWindowRepository } from './infrastructure/JsonFileInspectionWindowRepository';
+import { JsonLinesAuditLog } from './infrastructure/JsonLinesAuditLog';
+import type { IAlertChannelPort } from './ports/IAlertChannelPort';
+import type { IWeatherDataPort } from './ports/IWeatherDataPort';
+import type { IPushSubscriptionRepositoryPort } from './ports/IPushSubscriptionRepositoryPort';
+import type { IMonitoredSitePort } from './ports/IMonitoredSitePort';
+import type { IMonitoringRunRepositoryPort } from './ports/IMonitoringRunRepositoryPort';
+import type { IStormEventRepositoryPort } from './ports/IStormEventRepositoryPort';
+import type { IAlertContactPort } from './ports/IAlertContactPort';
+import type { IAcknowledgmentLinkPort } from './ports/IAcknowledgmentLinkPort';
+import type { IPreventiveActionPort } from './ports/IPreventiveActionPort';
+import type { IGaugeReadingRepositoryPort } from './ports/IGaugeReadingRepositoryPort';
+import type { IRainfallEventRepositoryPort } from './ports/IRainfallEventRepositoryPort';
+import type { IInspectionWindowRepositoryPort } from './ports/IInspectionWindowRepositoryPort';
+import type { IAuditLogPort } from './ports/IAuditLogPort';
+import { resolveDataPath } from '../shared';
 import process from 'node:process';
 
 /**
- * Create a weather trigger service
+ * Create the weather data source, cached in the data directory. Production uses
+ * NWS inside the US, DWD inside Germany and Open-Meteo everywhere as the fallback.
  */
-export function createWeatherTriggerService(): WeatherTriggerService {
+export function createWeatherDataPort(): IWeatherDataPort {
     const isProd = process.env.NODE_ENV === 'production' || process.env.SERVICE_DISCOVERY_MODE === 'production';
-    const adapter = isProd
-        ? new NoaaApiAdapter(process.env.NOAA_EMAIL || 'escacs@berlinailabs.de')
-        : new MockNoaaAdapter();
+    const source = isProd ? createWeatherProviders() : new MockNoaaAdapter();
+
+    return new CachingWeatherDataAdapter(source, new JsonFileForecastCache(resolveDataPath('forecast-cache.json')), {
+        maxStaleHours: Number(process.env.WEATHER_CACHE_MAX_STALE_HOURS || 24),
+    });
+}
+
+function createWeatherProviders(): CompositeWeatherDataAdapter {
+    const weights = parseProviderWeights(process.env.WEATHER_PROVIDER_WEIGHTS || '');
+    const mode: ProviderSelectionMode = process.env.WEATHER_PROVIDER_MODE === 'blend' ? 'blend' : 'failover';
+
+    return new CompositeWeatherDataAdapter([
+        {
+            name: 'noaa',
+            port: new NoaaApiAdapter(process.env.NOAA_EMAIL || 'escacs@berlinailabs.de'),
+            coverage: NWS_COVERAGE,
+            weight: weights.get('noaa'),
+        },
+        { name: 'dwd', port: new DwdBrightSkyAdapter(), coverage: DWD_COVERAGE, weight: weights.get('dwd') },
+        { name: 'open-meteo', port: new OpenMeteoAdapter(), weight: weights.get('open-meteo') },
+    ], mode);
+}
+
+/**
+ * Parse "name:weight" pairs, e.g. "open-meteo:0.6,dwd:0.4"
+ */
+function parseProviderWeights(spec: string): Map<string, number> {
+    const weights = new Map<string, number>();
+    for (const pair of spec.split(',').filter(Boolean)) {
+        const [name, value] = pair.split(':').map(part => part.trim());
+        const weight = Number(value);
+        if (!name || !Number.isFinite(weight) || weight <= 0) {
+            throw new Error(`Invalid WEATHER_PROVIDER_WEIGHTS entry: ${pair}`);
+        }
+        weights.set(name, weight);
+    }
+    return weights;
+}
+
+/**
+ * Create a weather trigger service, deduplicating storms when a store is given,
+ * listing each site's top preventive actions when an action port is given and
+ * adding acknowledgment links when an escalation service is given
+ */
+export function createWeatherTriggerService(
+    stormEvents?: IStormEventRepositoryPort,
+    preventiveActions?: IPreventiveActionPort,
+    escalation?: AlertEscalationService
+): WeatherTriggerService {
+    const stormCorrelation = stormEvents ? new StormCorrelationService(stormEvents) : undefined;
+    return new WeatherTriggerService(
+        createWeatherDataPort(),
+        stormCorrelation,
+        new AlertRoutingPolicy(),
+        preventiveActions,
+        new AlertMessageRenderer(),
+        escalation
+    );
+}
+
+/**
+ * Create a storm event repository backed by the data directory
+ */
+export function createStormEventRepository(): IStormEventRepositoryPort {
+    return new JsonFileStormEventRepository(resolveDataPath('storm-events.json'));
+}
+
+/**
+ * Create the on-site rain gauge time series backed by the data directory
+ */
+export function createGaugeReadingRepository(): IGaugeReadingRepositoryPort {
+    return new JsonLinesGaugeReadingRepository(resolveDataPath('gauge-readings.jsonl'));
+}
+
+/**
+ * Create a rainfall event repository backed by the data directory
+ */
+export function createRainfallEventRepository(): IRainfallEventRepositoryPort {
+    return new JsonFileRainfallEventRepository(resolveDataPath('rainfall-events.json'));
+}
+
+/**
+ * Create an inspection window repository backed by the data directory
+ */
+export function createInspectionWindowRepository(): IInspectionWindowRepositoryPort {
+    return new JsonFileInspectionWindowRepository(resolveDataPath('inspection-windows.json'));
+}
+
+/**
+ * Create the audit log backed by the data directory
+ */
+export function createAuditLog(): IAuditLogPort {
+    return new JsonLinesAuditLog(resolveDataPath('audit-log.jsonl'));
+}
+
+/**
+ * Create the rain gauge ingestion service; dry period and qualifying
+ * accumulation come from the environment
+ */
+export function createGaugeIngestionService(): GaugeIngestionService {
+    return new GaugeIngestionService(
+        createGaugeReadingRepository(),
+        createRainfallEventDetector(createWeatherTriggerService())
+    );
+}
+
+function createRainfallEventDetector(triggerService: WeatherTriggerService): RainfallEventDetector {
+    return new RainfallEventDetector(
+        createRainfallEventRepository(),
+        createInspectionWindowRepository(),
+        triggerService,
+        {
+            dryPeriodHours: Number(process.env.RAIN_GAUGE_DRY_PERIOD_HOURS || 6),
+            qualifyingAccumulationInches: Number(process.env.RAIN_GAUGE_QUALIFYING_INCHES || 0.25),
+        }
+    );
+}
+
+/**
+ * Create a push subscription repository backed by the data directory
+ */
+export function createPushSubscriptionRepository(): IPushSubscriptionRepositoryPort {
+    return new JsonFilePushSubscriptionRepository(resolveDataPath('push-subscriptions.json'));
+}
+
+/**
+ * Create the delivery channels configured in the environment (unconfigured ones are skipped)
+ */
+export function createAlertChannels(): IAlertChannelPort[] {
+    return [createSmtpChannel(), createSmsChannel(), createPushChannel()]
+        .filter((channel): channel is IAlertChannelPort => channel !== null);
+}
+
+function createSmtpChannel(): IAlertChannelPort | null {
+    if (!process.env.SMTP_HOST) return null;
+
+    return new SmtpEmailChannel({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        from: process.env.ALERT_EMAIL_FROM || 'alerts@escacs.local',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+    });
+}
+
+function createSmsChannel(): IAlertChannelPort | null {
+    if (!process.env.SMS_GATEWAY_URL) return null;
+
+    return new HttpSmsGatewayChannel({
+        endpoint: process.env.SMS_GATEWAY_URL,
+        from: process.env.SMS_FROM || 'ESCACS',
+        format: process.env.SMS_GATEWAY_FORMAT === 'form' ? 'form' : 'json',
+        username: process.env.SMS_GATEWAY_USERNAME,
+        password: process.env.SMS_GATEWAY_PASSWORD,
+    });
+}
+
+function createPushChannel(): IAlertChannelPort | null {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) return null;
+
+    return new WebPushChannel(createPushSubscriptionRepository(), {
+        subject: process.env.VAPID_SUBJECT || 'mailto:alerts@escacs.local',
+        publicKey,
+        privateKey,
+    });
+}
+
+/**
+ * Create the alert scheduler, parking undeliverable alerts in the data directory
+ */
+export function createAlertScheduler(): AlertScheduler {
+    return new AlertScheduler(createAlertChannels(), {
+        deadLetters: new JsonFileDeadLetterQueue(resolveDataPath('dead-letters.json')),
+        deferred: new JsonFileDeferredAlertQueue(resolveDataPath('deferred-alerts.json')),
+    });
+}
+
+/**
+ * Create signed acknowledgment links; production deployments must set a secret
+ */
+export function createAcknowledgmentLinks(): IAcknowledgmentLinkPort {
+    const secret = process.env.ALERT_ACK_SECRET;
+    if (!secret && process.env.NODE_ENV === 'production') {
+        throw new Error('ALERT_ACK_SECRET is required in production');
+    }
+
+    return new HmacAcknowledgmentLinks(
+        secret || 'escacs-dev-ack-secret',
+        process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || '3042'}`
+    );
+}
+
+/**
+ * Create the alert acknowledgment/escalation service backed by the data directory
+ */
+export function createAlertEscalationService(contactPort: IAlertContactPort): AlertEscalationService {
+    return new AlertEscalationService(
+        new JsonFileAlertRepository(resolveDataPath('alerts.json')),
+        contactPort,
+        createAlertScheduler(),
+        createAcknowledgmentLinks(),
+        {
+            acknowledgeWithinMinutes: Number(process.env.ALERT_ACK_TIMEOUT_MINUTES || 15),
+            priorities: ['critical'],
+        }
+    );
+}
+
+/**
+ * Create the inspection window service; overdue alerts are tracked for acknowledgment
+ */
+export function createInspectionWindowService(contactPort: IAlertContactPort): InspectionWindowService {
+    return new InspectionWindowService(
+        createInspectionWindowRepository(),
+        createAuditLog(),
+        contactPort,
+        createAlertScheduler(),
+        createAlertEscalationService(contactPort)
+    );
+}
+
+/**
+ * Create a monitoring run repository backed by the data directory
+ */
+export function createMonitoringRunRepository(): IMonitoringRunRepositoryPort {
+    return new JsonLinesMonitoringRunRepository(resolveDataPath('monitoring-runs.jsonl'));
+}
+
+/**
+ * Create the background scheduler that polls triggers for every monitored site
+ */
+export function createWeatherMonitoringScheduler(
+    sitePort: IMonitoredSitePort,
+    contactPort: IAlertContactPort,
+    preventiveActions?: IPreventiveActionPort
+): WeatherMonitoringScheduler {
+    const intervalMinutes = Number(process.env.WEATHER_POLL_INTERVAL_MINUTES || 15);
+    const escalation = createAlertEscalationService(contactPort);
+    const triggerService = createWeatherTriggerService(createStormEventRepository(), preventiveActions, escalation);
 
-    return new WeatherTriggerService(adapter);
+    return new WeatherMonitoringScheduler(
+        triggerService,
+        createAlertScheduler(),
+        sitePort,
+        createMonitoringRunRepository(),
+        { intervalMinutes },
+        escalation,
+        createInspectionWindowService(contactPort),
+        createRainfallEventDetector(triggerService)
+    );
 }
@@ -0,0 +1,109 @@
+/**
+ * CachingWeatherDataAdapter - Infrastructure Adapter
+ *
+ * Decorates any weather data source with a forecast cache keyed by rounded
+ * coordinates. Fresh cache hits skip the source; when the source fails, an
+ * expired forecast is served instead, flagged as stale with its age.
+ */
+
+import type { IWeatherDataPort, HourlyForecast } from '../ports/IWeatherDataPort';
+import type { IForecastCachePort } from '../ports/IForecastCachePort';
+import { InMemoryForecastCache } from './InMemoryForecastCache';
+
+export interface ForecastCacheOptions {
+    coordinatePrecision: number;    // decimal places; 2 is roughly 1 km
+    maxStaleHours: number;          // older forecasts are not served even as a fallback
+}
+
+const DEFAULT_OPTIONS: ForecastCacheOptions = {
+    coordinatePrecision: 2,
+    maxStaleHours: 24,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class CachingWeatherDataAdapter implements IWeatherDataPort {
+    private readonly source: IWeatherDataPort;
+    private readonly cache: IForecastCachePort;
+    private readonly options: ForecastCacheOptions;
+
+    constructor(
+        source: IWeatherDataPort,
+        cache: IForecastCachePort = new InMemoryForecastCache(),
+        options: Partial<ForecastCacheOptions> = {}
+    ) {
+        this.source = source;
+        this.cache = cache;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    async getHourlyForecast(latitude: number, longitude: number, hoursAhead: number): Promise<HourlyForecast> {
+        const key = this.getCacheKey(latitude, longitude);
+        const cached = await this.cache.get(key);
+        const now = new Date();
+
+        if (cached && this.isFresh(cached, hoursAhead, now)) {
+            return { ...cached, forecasts: cached.forecasts.slice(0, hoursAhead) };
+        }
+
+        try {
+            const forecast = await this.source.getHourlyForecast(latitude, longitude, hoursAhead);
+            await this.cache.set(key, forecast);
+            return forecast;
+        } catch (error) {
+            if (!cached || !this.isServableWhenStale(cached, now)) throw error;
+            return this.toStale(cached, hoursAhead, now);
+        }
+    }
+
+    async getCurrentPrecipitation(latitude: number, longitude: number): Promise<number> {
+        try {
+            return await this.source.getCurrentPrecipitation(latitude, longitude);
+        } catch (error) {
+            const cached = await this.cache.get(this.getCacheKey(latitude, longitude));
+            if (!cached || !this.isServableWhenStale(cached, new Date())) throw error;
+            return this.toStale(cached, 1, new Date()).forecasts[0]?.precipitationInchesPerHour ?? 0;
+        }
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return this.source.isAvailable();
+    }
+
+    /**
+     * Cache key for a location; nearby sites share one forecast
+     */
+    getCacheKey(latitude: number, longitude: number): string {
+        const precision = this.options.coordinatePrecision;
+        return `${latitude.toFixed(precision)},${longitude.toFixed(precision)}`;
+    }
+
+    private isFresh(forecast: HourlyForecast, hoursAhead: number, now: Date): boolean {
+        return now < forecast.expiresAt && forecast.forecasts.length >= hoursAhead;
+    }
+
+    private isServableWhenStale(forecast: HourlyForecast, now: Date): boolean {
+        return now.getTime() - forecast.fetchedAt.getTime() <= this.options.maxStaleHours * HOUR_MS;
+    }
+
+    /**
+     * Hours that have already passed are dropped (the hour in progress is kept)
+     */
+    private toStale(forecast: HourlyForecast, hoursAhead: number, now: Date): HourlyForecast {
+        const ageMinutes = Math.floor((now.getTime() - forecast.fetchedAt.getTime()) / (60 * 1000));
+
+        return {
+            ...forecast,
+            forecasts: forecast.forecasts
+                .filter(f => f.timestamp.getTime() > now.getTime() - HOUR_MS)
+                .slice(0, hoursAhead),
+            stale: true,
+            ageMinutes,
+            warning: `Using cached data (${formatAge(ageMinutes)} old)`,
+        };
+    }
+}
+
+function formatAge(minutes: number): string {
+    return minutes < 60 ? `${minutes}m` : `${Math.round(minutes / 60)}h`;
+}
@@ -0,0 +1,173 @@
+/**
+ * CompositeWeatherDataAdapter - Infrastructure Adapter
+ *
+ * Combines several weather providers behind one port. Providers are chosen
+ * by coverage region and listed in priority order. In failover mode the
+ * first available provider that answers wins; in blend mode every available
+ * provider is queried and hourly values are averaged by provider weight.
+ * Each returned row names the provider(s) it came from.
+ */
+
+import type { IWeatherDataPort, HourlyForecast, WeatherForecast } from '../ports/IWeatherDataPort';
+import { isCovered } from './weatherRegions';
+import type { BoundingBox } from './weatherRegions';
+
+export interface WeatherProvider {
+    name: string;
+    port: IWeatherDataPort;
+    coverage?: BoundingBox[];   // everywhere when omitted
+    weight?: number;            // blend weight, default 1
+}
+
+export type ProviderSelectionMode = 'failover' | 'blend';
+
+interface ProviderForecast {
+    provider: WeatherProvider;
+    forecast: HourlyForecast;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class CompositeWeatherDataAdapter implements IWeatherDataPort {
+    private readonly providers: WeatherProvider[];
+    private readonly mode: ProviderSelectionMode;
+
+    constructor(providers: WeatherProvider[], mode: ProviderSelectionMode = 'failover') {
+        if (providers.length === 0) {
+            throw new Error('At least one weather provider is required');
+        }
+        this.providers = providers;
+        this.mode = mode;
+    }
+
+    async getHourlyForecast(latitude: number, longitude: number, hoursAhead: number): Promise<HourlyForecast> {
+        const candidates = this.getProvidersFor(latitude, longitude);
+
+        return this.mode === 'blend'
+            ? this.blend(candidates, latitude, longitude, hoursAhead)
+            : this.failover(candidates, latitude, longitude, hoursAhead);
+    }
+
+    async getCurrentPrecipitation(latitude: number, longitude: number): Promise<number> {
+        const errors: string[] = [];
+
+        for (const provider of this.getProvidersFor(latitude, longitude)) {
+            try {
+                return await provider.port.getCurrentPrecipitation(latitude, longitude);
+            } catch (error) {
+                errors.push(`${provider.name}: ${(error as Error).message}`);
+            }
+        }
+        throw new Error(`All weather providers failed (${errors.join('; ')})`);
+    }
+
+    async isAvailable(): Promise<boolean> {
+        const availability = await Promise.all(this.providers.map(p => p.port.isAvailable()));
+        return availability.some(Boolean);
+    }
+
+    /**
+     * Providers covering a location, in priority order
+     */
+    getProvidersFor(latitude: number, longitude: number): WeatherProvider[] {
+        const covering = this.providers.filter(p => !p.coverage || isCovered(p.coverage, latitude, longitude));
+        if (covering.length === 0) {
+            throw new Error(`No weather provider covers ${latitude},${longitude}`);
+        }
+        return covering;
+    }
+
+    private async failover(
+        candidates: WeatherProvider[],
+        latitude: number,
+        longitude: number,
+        hoursAhead: number
+    ): Promise<HourlyForecast> {
+        const errors: string[] = [];
+
+        for (const provider of candidates) {
+            if (!await provider.port.isAvailable()) {
+                errors.push(`${provider.name}: unavailable`);
+                continue;
+            }
+            try {
+                const forecast = await provider.port.getHourlyForecast(latitude, longitude, hoursAhead);
+                return tagSource(forecast, provider.name);
+            } catch (error) {
+                errors.push(`${provider.name}: ${(error as Error).message}`);
+            }
+        }
+        throw new Error(`All weather providers failed (${errors.join('; ')})`);
+    }
+
+    private async blend(
+        candidates: WeatherProvider[],
+        latitude: number,
+        longitude: number,
+        hoursAhead: number
+    ): Promise<HourlyForecast> {
+        const errors: string[] = [];
+        const results = await Promise.all(candidates.map(async (provider): Promise<ProviderForecast | null> => {
+            try {
+                if (!await provider.port.isAvailable()) {
+                    errors.push(`${provider.name}: unavailable`);
+                    return null;
+                }
+                return { provider, forecast: await provider.port.getHourlyForecast(latitude, longitude, hoursAhead) };
+            } catch (error) {
+                errors.push(`${provider.name}: ${(error as Error).message}`);
+                return null;
+            }
+        }));
+        const forecasts = results.filter((r): r is ProviderForecast => r !== null);
+
+        if (forecasts.length === 0) {
+            throw new Error(`All weather providers failed (${errors.join('; ')})`);
+        }
+        if (forecasts.length === 1) {
+            return tagSource(forecasts[0].forecast, forecasts[0].provider.name);
+        }
+        return blendForecasts(forecasts);
+    }
+}
+
+function tagSource(forecast: HourlyForecast, source: string): HourlyForecast {
+    return { ...forecast, forecasts: forecast.forecasts.map(f => ({ ...f, source })) };
+}
+
+/**
+ * Weighted average per hour on the highest-priority provider's timeline
+ */
+function blendForecasts(forecasts: ProviderForecast[]): HourlyForecast {
+    const [primary] = forecasts;
+    const byHour = forecasts.map(({ provider, forecast }) => ({
+        provider,
+        rows: new Map(forecast.forecasts.map(f => [Math.floor(f.timestamp.getTime() / HOUR_MS), f])),
+    }));
+
+    const rows = primary.forecast.forecasts.map(base => {
+        const hour = Math.floor(base.timestamp.getTime() / HOUR_MS);
+        const contributions = byHour
+            .map(({ provider, rows }) => ({ provider, row: rows.get(hour) }))
+            .filter((c): c is { provider: WeatherProvider; row: WeatherForecast } => c.row !== undefined);
+        const totalWeight = contributions.reduce((sum, c) => sum + (c.provider.weight ?? 1), 0);
+        const average = (field: 'precipitationInchesPerHour' | 'temperature' | 'windSpeed' | 'humidity') =>
+            contributions.reduce((sum, c) => sum + c.row[field] * (c.provider.weight ?? 1), 0) / totalWeight;
+
+        return {
+            timestamp: base.timestamp,
+            precipitationInchesPerHour: average('precipitationInchesPerHour'),
+            temperature: average('temperature'),
+            windSpeed: average('windSpeed'),
+            humidity: average('humidity'),
+            source: contributions.map(c => c.provider.name).join('+'),
+        };
+    });
+
+    return {
+        ...primary.forecast,
+        forecasts: rows,
+        fetchedAt: new Date(),
+        expiresAt: new Date(Math.min(...forecasts.map(f => f.forecast.expiresAt.getTime()))),
+    };
+}
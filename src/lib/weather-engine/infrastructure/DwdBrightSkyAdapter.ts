@@ -0,0 +1,104 @@
+/**
+ * DwdBrightSkyAdapter - Infrastructure Adapter
+ *
+ * Deutscher Wetterdienst (DWD) MOSMIX forecasts served as JSON by Bright Sky.
+ * Coverage is Germany and its immediate surroundings.
+ */
+
+import type {
+    IWeatherDataPort,
+    HourlyForecast,
+    WeatherForecast
+} from '../ports/IWeatherDataPort';
+
+interface BrightSkyRecord {
+    timestamp: string;
+    precipitation: number | null;       // mm during the previous hour
+    temperature: number | null;         // °C
+    wind_speed: number | null;          // km/h
+    relative_humidity: number | null;   // %
+}
+
+interface BrightSkyResponse {
+    weather: BrightSkyRecord[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MM_PER_INCH = 25.4;
+const KM_PER_MILE = 1.609344;
+
+export class DwdBrightSkyAdapter implements IWeatherDataPort {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl: string = 'https://api.brightsky.dev') {
+        this.baseUrl = baseUrl;
+    }
+
+    async getHourlyForecast(
+        latitude: number,
+        longitude: number,
+        hoursAhead: number = 72
+    ): Promise<HourlyForecast> {
+        const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+        const params = new URLSearchParams({
+            lat: String(latitude),
+            lon: String(longitude),
+            date: new Date(currentHour).toISOString(),
+            // One extra hour: precipitation is reported at the end of the hour it fell in
+            last_date: new Date(currentHour + hoursAhead * HOUR_MS).toISOString(),
+        });
+        const response = await fetch(`${this.baseUrl}/weather?${params}`);
+        if (!response.ok) {
+            throw new Error(`DWD Bright Sky fetch failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as BrightSkyResponse;
+        const now = new Date();
+        return {
+            siteId: `dwd-${latitude}-${longitude}`,
+            latitude,
+            longitude,
+            forecasts: this.toForecasts(data.weather, currentHour, hoursAhead),
+            fetchedAt: now,
+            expiresAt: new Date(now.getTime() + HOUR_MS),
+        };
+    }
+
+    async getCurrentPrecipitation(latitude: number, longitude: number): Promise<number> {
+        const forecast = await this.getHourlyForecast(latitude, longitude, 1);
+        return forecast.forecasts[0]?.precipitationInchesPerHour ?? 0;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.baseUrl}/sources?lat=52.52&lon=13.4&max_dist=1000`);
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Re-key records to the hour they describe; hours without a record are skipped
+     */
+    private toForecasts(records: BrightSkyRecord[], currentHour: number, hoursAhead: number): WeatherForecast[] {
+        const byTime = new Map(records.map(r => [new Date(r.timestamp).getTime(), r]));
+        const forecasts: WeatherForecast[] = [];
+
+        for (let i = 0; i < hoursAhead; i++) {
+            const hour = currentHour + i * HOUR_MS;
+            const record = byTime.get(hour);
+            if (!record) continue;
+
+            const hourEnd = byTime.get(hour + HOUR_MS);
+            forecasts.push({
+                timestamp: new Date(hour),
+                precipitationInchesPerHour: (hourEnd?.precipitation ?? 0) / MM_PER_INCH,
+                temperature: record.temperature === null ? 0 : record.temperature * 9 / 5 + 32,
+                windSpeed: (record.wind_speed ?? 0) / KM_PER_MILE,
+                humidity: record.relative_humidity ?? 0,
+            });
+        }
+        return forecasts;
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * HmacAcknowledgmentLinks - Infrastructure Adapter
+ *
+ * Signs one-click acknowledgment links with HMAC-SHA256 so they can be
+ * opened from a phone without logging in, but cannot be forged or reused
+ * after they expire.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { AcknowledgmentLinkParams, IAcknowledgmentLinkPort } from '../ports/IAcknowledgmentLinkPort';
+
+export class HmacAcknowledgmentLinks implements IAcknowledgmentLinkPort {
+    private readonly secret: string;
+    private readonly baseUrl: string;
+    private readonly ttlHours: number;
+
+    constructor(secret: string, baseUrl: string, ttlHours: number = 72) {
+        if (!secret) {
+            throw new Error('Acknowledgment link secret is required');
+        }
+        this.secret = secret;
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.ttlHours = ttlHours;
+    }
+
+    createLink(alertId: string, now: Date = new Date()): string {
+        const expires = Math.floor(now.getTime() / 1000) + this.ttlHours * 60 * 60;
+        const signature = this.sign(alertId, expires);
+        return `${this.baseUrl}/api/alerts/${encodeURIComponent(alertId)}/ack?expires=${expires}&signature=${signature}`;
+    }
+
+    verify(alertId: string, params: AcknowledgmentLinkParams, now: Date = new Date()): boolean {
+        if (params.expires * 1000 < now.getTime()) return false;
+
+        const expected = Buffer.from(this.sign(alertId, params.expires), 'hex');
+        const actual = Buffer.from(params.signature, 'hex');
+        return actual.length === expected.length && timingSafeEqual(actual, expected);
+    }
+
+    private sign(alertId: string, expires: number): string {
+        return createHmac('sha256', this.secret).update(`${alertId}:${expires}`).digest('hex');
+    }
+}
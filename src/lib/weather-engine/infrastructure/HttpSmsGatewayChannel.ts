@@ -0,0 +1,78 @@
+/**
+ * HttpSmsGatewayChannel - Infrastructure Adapter
+ *
+ * Delivers SMS alerts by POSTing to an HTTP SMS gateway. The endpoint is
+ * configurable so a local stand-in, a JSON gateway or a Twilio-style
+ * form-encoded API with basic auth can be used.
+ */
+
+import type { WeatherAlert, AlertChannel } from '../domain/entities/WeatherAlert';
+import type { IAlertChannelPort, AlertDeliveryResult } from '../ports/IAlertChannelPort';
+
+export interface SmsGatewayConfig {
+    endpoint: string;
+    from: string;
+    format: 'json' | 'form';
+    username?: string;
+    password?: string;
+}
+
+export class HttpSmsGatewayChannel implements IAlertChannelPort {
+    private readonly config: SmsGatewayConfig;
+
+    constructor(config: SmsGatewayConfig) {
+        this.config = config;
+    }
+
+    async sendAlert(alert: WeatherAlert): Promise<AlertDeliveryResult> {
+        try {
+            const response = await fetch(this.config.endpoint, {
+                method: 'POST',
+                headers: this.buildHeaders(),
+                body: this.buildBody(alert),
+            });
+
+            if (!response.ok) {
+                const detail = await response.text();
+                return {
+                    alertId: alert.id,
+                    channel: 'sms',
+                    success: false,
+                    errorMessage: `SMS gateway responded ${response.status}: ${detail}`.trim(),
+                };
+            }
+            return { alertId: alert.id, channel: 'sms', success: true, deliveredAt: new Date() };
+        } catch (error) {
+            return { alertId: alert.id, channel: 'sms', success: false, errorMessage: (error as Error).message };
+        }
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return Boolean(this.config.endpoint);
+    }
+
+    getChannelType(): AlertChannel {
+        return 'sms';
+    }
+
+    private buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': this.config.format === 'json'
+                ? 'application/json'
+                : 'application/x-www-form-urlencoded',
+        };
+        if (this.config.username) {
+            const credentials = Buffer.from(`${this.config.username}:${this.config.password ?? ''}`).toString('base64');
+            headers.Authorization = `Basic ${credentials}`;
+        }
+        return headers;
+    }
+
+    // Twilio-style APIs expect capitalized form fields
+    private buildBody(alert: WeatherAlert): string {
+        if (this.config.format === 'json') {
+            return JSON.stringify({ to: alert.recipient, from: this.config.from, body: alert.message });
+        }
+        return new URLSearchParams({ To: alert.recipient, From: this.config.from, Body: alert.message }).toString();
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * InMemoryAlertRepository - Infrastructure Adapter
+ *
+ * Non-persistent alert store for development/testing.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+import type { IAlertRepositoryPort } from '../ports/IAlertRepositoryPort';
+
+export class InMemoryAlertRepository implements IAlertRepositoryPort {
+    private readonly alerts = new Map<string, WeatherAlert>();
+
+    async save(alert: WeatherAlert): Promise<void> {
+        this.alerts.set(alert.id, alert);
+    }
+
+    async findById(id: string): Promise<WeatherAlert | null> {
+        return this.alerts.get(id) ?? null;
+    }
+
+    async findUnacknowledged(): Promise<WeatherAlert[]> {
+        return [...this.alerts.values()].filter(a => !a.escalatedFromAlertId && !a.isAcknowledged());
+    }
+}
@@ -0,0 +1,19 @@
+/**
+ * InMemoryAuditLog - Infrastructure Adapter
+ *
+ * Non-persistent audit log for development/testing.
+ */
+
+import type { AuditEntry, IAuditLogPort } from '../ports/IAuditLogPort';
+
+export class InMemoryAuditLog implements IAuditLogPort {
+    private readonly entries: AuditEntry[] = [];
+
+    async append(entry: AuditEntry): Promise<void> {
+        this.entries.push(entry);
+    }
+
+    async findBySubject(subjectType: string, subjectId: string): Promise<AuditEntry[]> {
+        return this.entries.filter(e => e.subjectType === subjectType && e.subjectId === subjectId);
+    }
+}
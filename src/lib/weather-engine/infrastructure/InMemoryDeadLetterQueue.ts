@@ -0,0 +1,26 @@
+/**
+ * InMemoryDeadLetterQueue - Infrastructure Adapter
+ *
+ * Non-persistent dead-letter queue for development/testing.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+import type { IDeadLetterQueuePort } from '../ports/IDeadLetterQueuePort';
+
+export class InMemoryDeadLetterQueue implements IDeadLetterQueuePort {
+    private readonly alerts = new Map<string, WeatherAlert>();
+
+    async push(alert: WeatherAlert): Promise<void> {
+        this.alerts.set(alert.id, alert);
+    }
+
+    async list(): Promise<WeatherAlert[]> {
+        return [...this.alerts.values()];
+    }
+
+    async take(alertId: string): Promise<WeatherAlert | null> {
+        const alert = this.alerts.get(alertId) ?? null;
+        this.alerts.delete(alertId);
+        return alert;
+    }
+}
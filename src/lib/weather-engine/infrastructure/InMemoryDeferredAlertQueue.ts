@@ -0,0 +1,26 @@
+/**
+ * InMemoryDeferredAlertQueue - Infrastructure Adapter
+ *
+ * Non-persistent deferred alert queue for development/testing.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+import type { IDeferredAlertQueuePort } from '../ports/IDeferredAlertQueuePort';
+
+export class InMemoryDeferredAlertQueue implements IDeferredAlertQueuePort {
+    private readonly alerts = new Map<string, WeatherAlert>();
+
+    async push(alert: WeatherAlert): Promise<void> {
+        this.alerts.set(alert.id, alert);
+    }
+
+    async list(): Promise<WeatherAlert[]> {
+        return [...this.alerts.values()];
+    }
+
+    async takeDue(now: Date): Promise<WeatherAlert[]> {
+        const due = [...this.alerts.values()].filter(alert => alert.isDue(now));
+        due.forEach(alert => this.alerts.delete(alert.id));
+        return due;
+    }
+}
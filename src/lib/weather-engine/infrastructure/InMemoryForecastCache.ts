@@ -0,0 +1,20 @@
+/**
+ * InMemoryForecastCache - Infrastructure Adapter
+ *
+ * Non-persistent forecast cache for development/testing.
+ */
+
+import type { HourlyForecast } from '../ports/IWeatherDataPort';
+import type { IForecastCachePort } from '../ports/IForecastCachePort';
+
+export class InMemoryForecastCache implements IForecastCachePort {
+    private readonly forecasts = new Map<string, HourlyForecast>();
+
+    async get(key: string): Promise<HourlyForecast | null> {
+        return this.forecasts.get(key) ?? null;
+    }
+
+    async set(key: string, forecast: HourlyForecast): Promise<void> {
+        this.forecasts.set(key, forecast);
+    }
+}
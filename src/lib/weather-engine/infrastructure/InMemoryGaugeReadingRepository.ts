@@ -0,0 +1,22 @@
+/**
+ * InMemoryGaugeReadingRepository - Infrastructure Adapter
+ *
+ * Non-persistent gauge time series for development/testing.
+ */
+
+import type { GaugeReading } from '../domain/entities/GaugeReading';
+import type { IGaugeReadingRepositoryPort } from '../ports/IGaugeReadingRepositoryPort';
+
+export class InMemoryGaugeReadingRepository implements IGaugeReadingRepositoryPort {
+    private readonly readings: GaugeReading[] = [];
+
+    async append(readings: GaugeReading[]): Promise<void> {
+        this.readings.push(...readings);
+    }
+
+    async findBySite(siteId: string, since?: Date): Promise<GaugeReading[]> {
+        return this.readings
+            .filter(r => r.siteId === siteId && (!since || r.observedAt >= since))
+            .sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+    }
+}
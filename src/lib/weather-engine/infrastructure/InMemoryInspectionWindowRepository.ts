@@ -0,0 +1,32 @@
+/**
+ * InMemoryInspectionWindowRepository - Infrastructure Adapter
+ *
+ * Non-persistent inspection window store for development/testing.
+ */
+
+import type { InspectionWindow } from '../domain/entities/InspectionWindow';
+import type { IInspectionWindowRepositoryPort } from '../ports/IInspectionWindowRepositoryPort';
+
+export class InMemoryInspectionWindowRepository implements IInspectionWindowRepositoryPort {
+    private readonly windows = new Map<string, InspectionWindow>();
+
+    async save(window: InspectionWindow): Promise<void> {
+        this.windows.set(window.id, window);
+    }
+
+    async findById(id: string): Promise<InspectionWindow | null> {
+        return this.windows.get(id) ?? null;
+    }
+
+    async findBySite(siteId: string): Promise<InspectionWindow[]> {
+        return [...this.windows.values()]
+            .filter(w => w.siteId === siteId)
+            .sort((a, b) => b.stormEndTime.getTime() - a.stormEndTime.getTime());
+    }
+
+    async findOpen(): Promise<InspectionWindow[]> {
+        return [...this.windows.values()]
+            .filter(w => !w.isCompleted())
+            .sort((a, b) => a.deadlineTime.getTime() - b.deadlineTime.getTime());
+    }
+}
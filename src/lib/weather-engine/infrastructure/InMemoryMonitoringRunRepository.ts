@@ -0,0 +1,20 @@
+/**
+ * InMemoryMonitoringRunRepository - Infrastructure Adapter
+ *
+ * Non-persistent monitoring run log for development/testing.
+ */
+
+import type { MonitoringRun } from '../domain/entities/MonitoringRun';
+import type { IMonitoringRunRepositoryPort } from '../ports/IMonitoringRunRepositoryPort';
+
+export class InMemoryMonitoringRunRepository implements IMonitoringRunRepositoryPort {
+    private readonly runs: MonitoringRun[] = [];
+
+    async save(run: MonitoringRun): Promise<void> {
+        this.runs.push(run);
+    }
+
+    async findRecent(limit: number): Promise<MonitoringRun[]> {
+        return this.runs.slice(-limit).reverse();
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * InMemoryPushSubscriptionRepository - Infrastructure Adapter
+ *
+ * Non-persistent push subscription store for development/testing.
+ */
+
+import type {
+    IPushSubscriptionRepositoryPort,
+    WebPushSubscription
+} from '../ports/IPushSubscriptionRepositoryPort';
+
+export class InMemoryPushSubscriptionRepository implements IPushSubscriptionRepositoryPort {
+    private readonly subscriptions = new Map<string, WebPushSubscription>();
+
+    async save(subscription: WebPushSubscription): Promise<void> {
+        this.subscriptions.set(subscription.endpoint, subscription);
+    }
+
+    async findByRecipient(recipient: string): Promise<WebPushSubscription[]> {
+        return [...this.subscriptions.values()].filter(s => s.recipient === recipient);
+    }
+
+    async delete(endpoint: string): Promise<void> {
+        this.subscriptions.delete(endpoint);
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * InMemoryRainfallEventRepository - Infrastructure Adapter
+ *
+ * Non-persistent rainfall event store for development/testing.
+ */
+
+import type { RainfallEvent } from '../domain/entities/RainfallEvent';
+import type { IRainfallEventRepositoryPort } from '../ports/IRainfallEventRepositoryPort';
+
+export class InMemoryRainfallEventRepository implements IRainfallEventRepositoryPort {
+    private readonly events = new Map<string, RainfallEvent>();
+
+    async save(event: RainfallEvent): Promise<void> {
+        this.events.set(event.id, event);
+    }
+
+    async findBySite(siteId: string): Promise<RainfallEvent[]> {
+        return [...this.events.values()]
+            .filter(e => e.siteId === siteId)
+            .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    }
+
+    async findOngoing(siteId: string): Promise<RainfallEvent[]> {
+        const events = await this.findBySite(siteId);
+        return events.filter(e => e.isOngoing());
+    }
+}
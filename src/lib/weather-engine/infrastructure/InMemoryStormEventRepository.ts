@@ -0,0 +1,24 @@
+/**
+ * InMemoryStormEventRepository - Infrastructure Adapter
+ *
+ * Non-persistent storm event store for development/testing.
+ */
+
+import type { StormEvent } from '../domain/entities/StormEvent';
+import type { IStormEventRepositoryPort } from '../ports/IStormEventRepositoryPort';
+
+export class InMemoryStormEventRepository implements IStormEventRepositoryPort {
+    private readonly events = new Map<string, StormEvent>();
+
+    async save(event: StormEvent): Promise<void> {
+        this.events.set(event.id, event);
+    }
+
+    async findBySite(siteId: string): Promise<StormEvent[]> {
+        return [...this.events.values()].filter(e => e.siteId === siteId);
+    }
+
+    async delete(id: string): Promise<void> {
+        this.events.delete(id);
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * JsonFileAlertRepository - Infrastructure Adapter
+ *
+ * File-backed alert store so acknowledgments and escalation state survive restarts.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+import type { IAlertRepositoryPort } from '../ports/IAlertRepositoryPort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+import { fromAlertRecord, toAlertRecord } from './alertRecords';
+import type { AlertRecord } from './alertRecords';
+
+export class JsonFileAlertRepository implements IAlertRepositoryPort {
+    private readonly store: JsonFileStore<AlertRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<AlertRecord>(filePath);
+    }
+
+    async save(alert: WeatherAlert): Promise<void> {
+        await this.store.upsert(toAlertRecord(alert));
+    }
+
+    async findById(id: string): Promise<WeatherAlert | null> {
+        const record = await this.store.get(id);
+        return record ? fromAlertRecord(record) : null;
+    }
+
+    async findUnacknowledged(): Promise<WeatherAlert[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => !r.escalatedFromAlertId && !r.acknowledgedAt)
+            .map(fromAlertRecord);
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * JsonFileDeadLetterQueue - Infrastructure Adapter
+ *
+ * File-backed dead-letter queue so undeliverable alerts survive restarts
+ * and can be replayed by ops.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+import type { IDeadLetterQueuePort } from '../ports/IDeadLetterQueuePort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+import { fromAlertRecord, toAlertRecord } from './alertRecords';
+import type { AlertRecord } from './alertRecords';
+
+export class JsonFileDeadLetterQueue implements IDeadLetterQueuePort {
+    private readonly store: JsonFileStore<AlertRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<AlertRecord>(filePath);
+    }
+
+    async push(alert: WeatherAlert): Promise<void> {
+        await this.store.upsert(toAlertRecord(alert));
+    }
+
+    async list(): Promise<WeatherAlert[]> {
+        const records = await this.store.readAll();
+        return records.map(fromAlertRecord);
+    }
+
+    async take(alertId: string): Promise<WeatherAlert | null> {
+        const record = await this.store.get(alertId);
+        if (!record) return null;
+
+        await this.store.remove(alertId);
+        return fromAlertRecord(record);
+    }
+}
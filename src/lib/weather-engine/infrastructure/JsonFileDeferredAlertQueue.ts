@@ -0,0 +1,37 @@
+/**
+ * JsonFileDeferredAlertQueue - Infrastructure Adapter
+ *
+ * File-backed deferred alert queue so alerts held for quiet hours survive
+ * restarts and are still delivered once the quiet hours end.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+import type { IDeferredAlertQueuePort } from '../ports/IDeferredAlertQueuePort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+import { fromAlertRecord, toAlertRecord } from './alertRecords';
+import type { AlertRecord } from './alertRecords';
+
+export class JsonFileDeferredAlertQueue implements IDeferredAlertQueuePort {
+    private readonly store: JsonFileStore<AlertRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<AlertRecord>(filePath);
+    }
+
+    async push(alert: WeatherAlert): Promise<void> {
+        await this.store.upsert(toAlertRecord(alert));
+    }
+
+    async list(): Promise<WeatherAlert[]> {
+        const records = await this.store.readAll();
+        return records.map(fromAlertRecord);
+    }
+
+    async takeDue(now: Date): Promise<WeatherAlert[]> {
+        const due = (await this.list()).filter(alert => alert.isDue(now));
+        for (const alert of due) {
+            await this.store.remove(alert.id);
+        }
+        return due;
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * JsonFileForecastCache - Infrastructure Adapter
+ *
+ * File-backed forecast cache so the last good forecast survives API restarts
+ * and can be served while the weather source is down.
+ */
+
+import type { HourlyForecast, WeatherForecast } from '../ports/IWeatherDataPort';
+import type { IForecastCachePort } from '../ports/IForecastCachePort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+
+type ForecastRecord = Omit<HourlyForecast, 'forecasts' | 'fetchedAt' | 'expiresAt' | 'stale' | 'ageMinutes' | 'warning'> & {
+    id: string;
+    forecasts: Array<Omit<WeatherForecast, 'timestamp'> & { timestamp: string }>;
+    fetchedAt: string;
+    expiresAt: string;
+};
+
+export class JsonFileForecastCache implements IForecastCachePort {
+    private readonly store: JsonFileStore<ForecastRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<ForecastRecord>(filePath);
+    }
+
+    async get(key: string): Promise<HourlyForecast | null> {
+        const record = await this.store.get(key);
+        if (!record) return null;
+
+        return {
+            siteId: record.siteId,
+            latitude: record.latitude,
+            longitude: record.longitude,
+            forecasts: record.forecasts.map(f => ({ ...f, timestamp: new Date(f.timestamp) })),
+            fetchedAt: new Date(record.fetchedAt),
+            expiresAt: new Date(record.expiresAt),
+        };
+    }
+
+    async set(key: string, forecast: HourlyForecast): Promise<void> {
+        await this.store.upsert({
+            id: key,
+            siteId: forecast.siteId,
+            latitude: forecast.latitude,
+            longitude: forecast.longitude,
+            forecasts: forecast.forecasts.map(f => ({ ...f, timestamp: f.timestamp.toISOString() })),
+            fetchedAt: forecast.fetchedAt.toISOString(),
+            expiresAt: forecast.expiresAt.toISOString(),
+        });
+    }
+}
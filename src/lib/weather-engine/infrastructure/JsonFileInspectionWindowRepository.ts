@@ -0,0 +1,70 @@
+/**
+ * JsonFileInspectionWindowRepository - Infrastructure Adapter
+ *
+ * File-backed inspection window store.
+ */
+
+import { InspectionWindow } from '../domain/entities/InspectionWindow';
+import type { InspectionWindowProps } from '../domain/entities/InspectionWindow';
+import type { IInspectionWindowRepositoryPort } from '../ports/IInspectionWindowRepositoryPort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+
+type InspectionWindowRecord = Omit<
+    InspectionWindowProps,
+    'stormEndTime' | 'deadlineTime' | 'inspectionCompletedAt' | 'overdueAlertedAt'
+> & {
+    stormEndTime: string;
+    deadlineTime: string;
+    inspectionCompletedAt?: string;
+    overdueAlertedAt?: string;
+};
+
+export class JsonFileInspectionWindowRepository implements IInspectionWindowRepositoryPort {
+    private readonly store: JsonFileStore<InspectionWindowRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<InspectionWindowRecord>(filePath);
+    }
+
+    async save(window: InspectionWindow): Promise<void> {
+        const props = window.toProps();
+        await this.store.upsert({
+            ...props,
+            stormEndTime: props.stormEndTime.toISOString(),
+            deadlineTime: props.deadlineTime.toISOString(),
+            inspectionCompletedAt: props.inspectionCompletedAt?.toISOString(),
+            overdueAlertedAt: props.overdueAlertedAt?.toISOString(),
+        });
+    }
+
+    async findById(id: string): Promise<InspectionWindow | null> {
+        const record = await this.store.get(id);
+        return record ? this.toEntity(record) : null;
+    }
+
+    async findBySite(siteId: string): Promise<InspectionWindow[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => r.siteId === siteId)
+            .map(r => this.toEntity(r))
+            .sort((a, b) => b.stormEndTime.getTime() - a.stormEndTime.getTime());
+    }
+
+    async findOpen(): Promise<InspectionWindow[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => !r.inspectionCompletedAt)
+            .map(r => this.toEntity(r))
+            .sort((a, b) => a.deadlineTime.getTime() - b.deadlineTime.getTime());
+    }
+
+    private toEntity(record: InspectionWindowRecord): InspectionWindow {
+        return InspectionWindow.create({
+            ...record,
+            stormEndTime: new Date(record.stormEndTime),
+            deadlineTime: new Date(record.deadlineTime),
+            inspectionCompletedAt: record.inspectionCompletedAt ? new Date(record.inspectionCompletedAt) : undefined,
+            overdueAlertedAt: record.overdueAlertedAt ? new Date(record.overdueAlertedAt) : undefined,
+        });
+    }
+}
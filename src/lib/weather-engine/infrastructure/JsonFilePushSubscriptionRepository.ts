@@ -0,0 +1,48 @@
+/**
+ * JsonFilePushSubscriptionRepository - Infrastructure Adapter
+ *
+ * File-backed push subscription store keyed by endpoint.
+ */
+
+import type {
+    IPushSubscriptionRepositoryPort,
+    WebPushSubscription
+} from '../ports/IPushSubscriptionRepositoryPort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+
+type PushSubscriptionRecord = Omit<WebPushSubscription, 'createdAt'> & {
+    id: string;
+    createdAt: string;
+};
+
+export class JsonFilePushSubscriptionRepository implements IPushSubscriptionRepositoryPort {
+    private readonly store: JsonFileStore<PushSubscriptionRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<PushSubscriptionRecord>(filePath);
+    }
+
+    async save(subscription: WebPushSubscription): Promise<void> {
+        await this.store.upsert({
+            ...subscription,
+            id: subscription.endpoint,
+            createdAt: subscription.createdAt.toISOString(),
+        });
+    }
+
+    async findByRecipient(recipient: string): Promise<WebPushSubscription[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => r.recipient === recipient)
+            .map(r => ({
+                recipient: r.recipient,
+                endpoint: r.endpoint,
+                keys: r.keys,
+                createdAt: new Date(r.createdAt),
+            }));
+    }
+
+    async delete(endpoint: string): Promise<void> {
+        await this.store.remove(endpoint);
+    }
+}
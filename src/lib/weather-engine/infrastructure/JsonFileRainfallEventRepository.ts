@@ -0,0 +1,52 @@
+/**
+ * JsonFileRainfallEventRepository - Infrastructure Adapter
+ *
+ * File-backed rainfall event store so open events survive API restarts.
+ */
+
+import { RainfallEvent } from '../domain/entities/RainfallEvent';
+import type { RainfallEventProps } from '../domain/entities/RainfallEvent';
+import type { IRainfallEventRepositoryPort } from '../ports/IRainfallEventRepositoryPort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+
+type RainfallEventRecord = Omit<RainfallEventProps, 'startTime' | 'endTime' | 'lastRainAt'> & {
+    startTime: string;
+    endTime?: string;
+    lastRainAt?: string;
+};
+
+export class JsonFileRainfallEventRepository implements IRainfallEventRepositoryPort {
+    private readonly store: JsonFileStore<RainfallEventRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<RainfallEventRecord>(filePath);
+    }
+
+    async save(event: RainfallEvent): Promise<void> {
+        const props = event.toProps();
+        await this.store.upsert({
+            ...props,
+            startTime: props.startTime.toISOString(),
+            endTime: props.endTime?.toISOString(),
+            lastRainAt: props.lastRainAt?.toISOString(),
+        });
+    }
+
+    async findBySite(siteId: string): Promise<RainfallEvent[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => r.siteId === siteId)
+            .map(r => RainfallEvent.create({
+                ...r,
+                startTime: new Date(r.startTime),
+                endTime: r.endTime ? new Date(r.endTime) : undefined,
+                lastRainAt: r.lastRainAt ? new Date(r.lastRainAt) : undefined,
+            }))
+            .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    }
+
+    async findOngoing(siteId: string): Promise<RainfallEvent[]> {
+        const events = await this.findBySite(siteId);
+        return events.filter(e => e.isOngoing());
+    }
+}
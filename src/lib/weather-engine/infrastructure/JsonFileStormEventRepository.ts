@@ -0,0 +1,57 @@
+/**
+ * JsonFileStormEventRepository - Infrastructure Adapter
+ *
+ * File-backed storm event store so deduplication survives API restarts.
+ */
+
+import { StormEvent } from '../domain/entities/StormEvent';
+import type { StormEventProps } from '../domain/entities/StormEvent';
+import type { IStormEventRepositoryPort } from '../ports/IStormEventRepositoryPort';
+import { JsonFileStore } from '../../shared/infrastructure/JsonFileStore';
+
+type StormEventRecord = Omit<StormEventProps, 'windowStart' | 'windowEnd' | 'firstDetectedAt' | 'lastAlertedAt'> & {
+    windowStart: string;
+    windowEnd: string;
+    firstDetectedAt: string;
+    lastAlertedAt: string;
+};
+
+export class JsonFileStormEventRepository implements IStormEventRepositoryPort {
+    private readonly store: JsonFileStore<StormEventRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonFileStore<StormEventRecord>(filePath);
+    }
+
+    async save(event: StormEvent): Promise<void> {
+        await this.store.upsert({
+            id: event.id,
+            siteId: event.siteId,
+            windowStart: event.windowStart.toISOString(),
+            windowEnd: event.windowEnd.toISOString(),
+            peakIntensityInchesPerHour: event.peakIntensityInchesPerHour,
+            alertedPriority: event.alertedPriority,
+            alertedIntensityInchesPerHour: event.alertedIntensityInchesPerHour,
+            alertCount: event.alertCount,
+            firstDetectedAt: event.firstDetectedAt.toISOString(),
+            lastAlertedAt: event.lastAlertedAt.toISOString(),
+        });
+    }
+
+    async findBySite(siteId: string): Promise<StormEvent[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => r.siteId === siteId)
+            .map(r => StormEvent.create({
+                ...r,
+                windowStart: new Date(r.windowStart),
+                windowEnd: new Date(r.windowEnd),
+                firstDetectedAt: new Date(r.firstDetectedAt),
+                lastAlertedAt: new Date(r.lastAlertedAt),
+            }));
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.store.remove(id);
+    }
+}
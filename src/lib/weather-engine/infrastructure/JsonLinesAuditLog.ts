@@ -0,0 +1,31 @@
+/**
+ * JsonLinesAuditLog - Infrastructure Adapter
+ *
+ * Append-only file-backed audit log.
+ */
+
+import type { AuditEntry, IAuditLogPort } from '../ports/IAuditLogPort';
+import { JsonLinesFileStore } from '../../shared/infrastructure/JsonLinesFileStore';
+
+type AuditRecord = Omit<AuditEntry, 'occurredAt'> & {
+    occurredAt: string;
+};
+
+export class JsonLinesAuditLog implements IAuditLogPort {
+    private readonly store: JsonLinesFileStore<AuditRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonLinesFileStore<AuditRecord>(filePath);
+    }
+
+    async append(entry: AuditEntry): Promise<void> {
+        await this.store.append({ ...entry, occurredAt: entry.occurredAt.toISOString() });
+    }
+
+    async findBySubject(subjectType: string, subjectId: string): Promise<AuditEntry[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => r.subjectType === subjectType && r.subjectId === subjectId)
+            .map(r => ({ ...r, occurredAt: new Date(r.occurredAt) }));
+    }
+}
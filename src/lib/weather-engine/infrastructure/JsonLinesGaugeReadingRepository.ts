@@ -0,0 +1,38 @@
+/**
+ * JsonLinesGaugeReadingRepository - Infrastructure Adapter
+ *
+ * Append-only file-backed gauge time series.
+ */
+
+import { GaugeReading } from '../domain/entities/GaugeReading';
+import type { GaugeReadingProps } from '../domain/entities/GaugeReading';
+import type { IGaugeReadingRepositoryPort } from '../ports/IGaugeReadingRepositoryPort';
+import { JsonLinesFileStore } from '../../shared/infrastructure/JsonLinesFileStore';
+
+type GaugeReadingRecord = Omit<GaugeReadingProps, 'observedAt'> & {
+    observedAt: string;
+};
+
+export class JsonLinesGaugeReadingRepository implements IGaugeReadingRepositoryPort {
+    private readonly store: JsonLinesFileStore<GaugeReadingRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonLinesFileStore<GaugeReadingRecord>(filePath);
+    }
+
+    async append(readings: GaugeReading[]): Promise<void> {
+        for (const reading of readings) {
+            const props = reading.toProps();
+            await this.store.append({ ...props, observedAt: props.observedAt.toISOString() });
+        }
+    }
+
+    async findBySite(siteId: string, since?: Date): Promise<GaugeReading[]> {
+        const records = await this.store.readAll();
+        return records
+            .filter(r => r.siteId === siteId)
+            .map(r => GaugeReading.create({ ...r, observedAt: new Date(r.observedAt) }))
+            .filter(r => !since || r.observedAt >= since)
+            .sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime());
+    }
+}
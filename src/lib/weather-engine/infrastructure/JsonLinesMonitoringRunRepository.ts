@@ -0,0 +1,47 @@
+/**
+ * JsonLinesMonitoringRunRepository - Infrastructure Adapter
+ *
+ * Append-only file-backed log of monitoring runs.
+ */
+
+import { MonitoringRun } from '../domain/entities/MonitoringRun';
+import type { SiteEvaluationOutcome } from '../domain/entities/MonitoringRun';
+import type { IMonitoringRunRepositoryPort } from '../ports/IMonitoringRunRepositoryPort';
+import { JsonLinesFileStore } from '../../shared/infrastructure/JsonLinesFileStore';
+
+interface MonitoringRunRecord {
+    id: string;
+    startedAt: string;
+    completedAt: string | null;
+    outcomes: SiteEvaluationOutcome[];
+}
+
+export class JsonLinesMonitoringRunRepository implements IMonitoringRunRepositoryPort {
+    private readonly store: JsonLinesFileStore<MonitoringRunRecord>;
+
+    constructor(filePath: string) {
+        this.store = new JsonLinesFileStore<MonitoringRunRecord>(filePath);
+    }
+
+    async save(run: MonitoringRun): Promise<void> {
+        await this.store.append({
+            id: run.id,
+            startedAt: run.startedAt.toISOString(),
+            completedAt: run.completedAt?.toISOString() ?? null,
+            outcomes: run.outcomes,
+        });
+    }
+
+    async findRecent(limit: number): Promise<MonitoringRun[]> {
+        const records = await this.store.readAll();
+        return records
+            .slice(-limit)
+            .reverse()
+            .map(r => MonitoringRun.create({
+                id: r.id,
+                startedAt: new Date(r.startedAt),
+                completedAt: r.completedAt ? new Date(r.completedAt) : undefined,
+                outcomes: r.outcomes,
+            }));
+    }
+}
@@ -1,7 +1,9 @@
 /**
  * NoaaApiAdapter - Infrastructure Adapter
- * 
- * Implementation of NOAA/NWS API for live weather data.
+ *
+ * Implementation of NOAA/NWS API for live weather data. Reads the gridpoint
+ * forecast so precipitation comes from the quantitative precipitation
+ * forecast (QPF) rather than the probability of precipitation.
  */
 
 import type {
@@ -9,6 +11,25 @@ import type {
     HourlyForecast,
     WeatherForecast
 } from '../ports/IWeatherDataPort';
+import { toHourlyValues } from './nwsGridpoint';
+import type { NwsSeries } from './nwsGridpoint';
+
+interface NwsPointResponse {
+    properties: { forecastGridData: string };
+}
+
+interface NwsGridpointProperties {
+    quantitativePrecipitation?: NwsSeries;
+    temperature?: NwsSeries;
+    windSpeed?: NwsSeries;
+    relativeHumidity?: NwsSeries;
+}
+
+interface NwsGridpointResponse {
+    properties: NwsGridpointProperties;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
 
 export class NoaaApiAdapter implements IWeatherDataPort {
     private readonly baseUrl = 'https://api.weather.gov';
@@ -23,40 +44,16 @@ export class NoaaApiAdapter implements IWeatherDataPort {
         longitude: number,
         hoursAhead: number = 72
     ): Promise<HourlyForecast> {
-        // Step 1: Get metadata for coordinates to find the grid point and forecast URL
-        const pointResponse = await fetch(`${this.baseUrl}/points/${latitude},${longitude}`, {
-            headers: { 'User-Agent': this.userAgent }
-        });
-
-        if (!pointResponse.ok) {
-            throw new Error(`NOAA API point lookup failed: ${pointResponse.statusText}`);
-        }
-
-        const pointData = await pointResponse.json();
-        const forecastUrl = pointData.properties.forecastHourly;
-
-        // Step 2: Fetch the actual hourly forecast
-        const forecastResponse = await fetch(forecastUrl, {
-            headers: { 'User-Agent': this.userAgent }
-        });
+        // Step 1: Get metadata for coordinates to find the grid point
+        const pointData = await this.fetchJson<NwsPointResponse>(
+            `${this.baseUrl}/points/${latitude},${longitude}`,
+            'NOAA API point lookup failed'
+        );
+        const gridDataUrl = pointData.properties.forecastGridData;
 
-        if (!forecastResponse.ok) {
-            throw new Error(`NOAA API forecast fetch failed: ${forecastResponse.statusText}`);
-        }
-
-        const forecastData = await forecastResponse.json();
-        const periods = forecastData.properties.periods.slice(0, hoursAhead);
-
-        const forecasts: WeatherForecast[] = periods.map((p: any) => ({
-            timestamp: new Date(p.startTime),
-            // NOAA Hourly API doesn't always provide raw precipitation inches per hour values.
-            // We use probability and quantitative estimates where available or mock for demo logic.
-            // In a real production scenario, we'd use the NWS Raster data for high precision.
-            precipitationInchesPerHour: p.probabilityOfPrecipitation?.value ? (p.probabilityOfPrecipitation.value / 100) * 0.1 : 0,
-            temperature: p.temperature,
-            windSpeed: parseFloat(p.windSpeed),
-            humidity: p.relativeHumidity?.value || 0,
-        }));
+        // Step 2: Fetch the raw gridpoint forecast layers
+        const gridData = await this.fetchJson<NwsGridpointResponse>(gridDataUrl, 'NOAA API gridpoint fetch failed');
+        const forecasts = this.toHourlyForecasts(gridData.properties, hoursAhead);
 
         const now = new Date();
         return {
@@ -65,7 +62,7 @@ export class NoaaApiAdapter implements IWeatherDataPort {
             longitude,
             forecasts,
             fetchedAt: now,
-            expiresAt: new Date(now.getTime() + 60 * 60 * 1000), // 1 hour cache
+            expiresAt: new Date(now.getTime() + HOUR_MS), // 1 hour cache
         };
     }
 
@@ -88,4 +85,38 @@ export class NoaaApiAdapter implements IWeatherDataPort {
             return false;
         }
     }
+
+    /**
+     * One forecast per hour from the start of the current hour.
+     * QPF totals cover multi-hour intervals (usually 6h) and are spread evenly
+     * across them, so short intense bursts are smoothed to the interval's mean rate.
+     */
+    private toHourlyForecasts(properties: NwsGridpointProperties, hoursAhead: number): WeatherForecast[] {
+        const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+        const hours = Array.from({ length: hoursAhead }, (_, i) => new Date(currentHour + i * HOUR_MS));
+
+        const precipitation = toHourlyValues(properties.quantitativePrecipitation, hours, 'distribute');
+        const temperature = toHourlyValues(properties.temperature, hours, 'hold');
+        const windSpeed = toHourlyValues(properties.windSpeed, hours, 'hold');
+        const humidity = toHourlyValues(properties.relativeHumidity, hours, 'hold');
+
+        return hours.map((timestamp, i) => ({
+            timestamp,
+            precipitationInchesPerHour: precipitation[i],
+            temperature: temperature[i],
+            windSpeed: windSpeed[i],
+            humidity: humidity[i],
+        }));
+    }
+
+    private async fetchJson<T>(url: string, failureMessage: string): Promise<T> {
+        const response = await fetch(url, {
+            headers: { 'User-Agent': this.userAgent, Accept: 'application/geo+json' }
+        });
+
+        if (!response.ok) {
+            throw new Error(`${failureMessage}: ${response.status} ${response.statusText}`);
+        }
+        return await response.json() as T;
+    }
 }
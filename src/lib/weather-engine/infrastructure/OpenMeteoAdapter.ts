@@ -0,0 +1,88 @@
+/**
+ * OpenMeteoAdapter - Infrastructure Adapter
+ *
+ * Global hourly forecasts from Open-Meteo (no API key required). Units are
+ * requested in inches, °F and mph so no conversion is needed.
+ */
+
+import type {
+    IWeatherDataPort,
+    HourlyForecast,
+    WeatherForecast
+} from '../ports/IWeatherDataPort';
+
+interface OpenMeteoResponse {
+    hourly: {
+        time: number[];
+        precipitation: Array<number | null>;
+        temperature_2m: Array<number | null>;
+        wind_speed_10m: Array<number | null>;
+        relative_humidity_2m: Array<number | null>;
+    };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class OpenMeteoAdapter implements IWeatherDataPort {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl: string = 'https://api.open-meteo.com') {
+        this.baseUrl = baseUrl;
+    }
+
+    async getHourlyForecast(
+        latitude: number,
+        longitude: number,
+        hoursAhead: number = 72
+    ): Promise<HourlyForecast> {
+        const params = new URLSearchParams({
+            latitude: String(latitude),
+            longitude: String(longitude),
+            hourly: 'precipitation,temperature_2m,wind_speed_10m,relative_humidity_2m',
+            precipitation_unit: 'inch',
+            temperature_unit: 'fahrenheit',
+            wind_speed_unit: 'mph',
+            timeformat: 'unixtime',
+            forecast_hours: String(hoursAhead),
+        });
+        const response = await fetch(`${this.baseUrl}/v1/forecast?${params}`);
+        if (!response.ok) {
+            throw new Error(`Open-Meteo forecast fetch failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as OpenMeteoResponse;
+        const now = new Date();
+        return {
+            siteId: `open-meteo-${latitude}-${longitude}`,
+            latitude,
+            longitude,
+            forecasts: this.toForecasts(data.hourly).slice(0, hoursAhead),
+            fetchedAt: now,
+            expiresAt: new Date(now.getTime() + HOUR_MS),
+        };
+    }
+
+    async getCurrentPrecipitation(latitude: number, longitude: number): Promise<number> {
+        const forecast = await this.getHourlyForecast(latitude, longitude, 1);
+        return forecast.forecasts[0]?.precipitationInchesPerHour ?? 0;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.baseUrl}/v1/forecast?latitude=0&longitude=0&forecast_hours=1`);
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    private toForecasts(hourly: OpenMeteoResponse['hourly']): WeatherForecast[] {
+        return hourly.time.map((seconds, i) => ({
+            timestamp: new Date(seconds * 1000),
+            precipitationInchesPerHour: hourly.precipitation[i] ?? 0,
+            temperature: hourly.temperature_2m[i] ?? 0,
+            windSpeed: hourly.wind_speed_10m[i] ?? 0,
+            humidity: hourly.relative_humidity_2m[i] ?? 0,
+        }));
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * SmtpEmailChannel - Infrastructure Adapter
+ *
+ * Delivers email alerts through any SMTP relay (a local catcher in
+ * development, the provider's relay in production).
+ */
+
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import type { WeatherAlert, AlertChannel } from '../domain/entities/WeatherAlert';
+import type { IAlertChannelPort, AlertDeliveryResult } from '../ports/IAlertChannelPort';
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    secure: boolean;
+    from: string;
+    user?: string;
+    password?: string;
+}
+
+export class SmtpEmailChannel implements IAlertChannelPort {
+    private readonly transporter: Transporter;
+    private readonly from: string;
+
+    constructor(config: SmtpConfig) {
+        this.from = config.from;
+        this.transporter = nodemailer.createTransport({
+            host: config.host,
+            port: config.port,
+            secure: config.secure,
+            auth: config.user ? { user: config.user, pass: config.password } : undefined,
+        });
+    }
+
+    async sendAlert(alert: WeatherAlert): Promise<AlertDeliveryResult> {
+        try {
+            await this.transporter.sendMail({
+                from: this.from,
+                to: alert.recipient,
+                subject: alert.subject ?? `[${alert.priority.toUpperCase()}] ESCACS weather alert for site ${alert.siteId}`,
+                text: alert.message,
+                html: alert.htmlMessage ?? undefined,
+            });
+            return { alertId: alert.id, channel: 'email', success: true, deliveredAt: new Date() };
+        } catch (error) {
+            return { alertId: alert.id, channel: 'email', success: false, errorMessage: (error as Error).message };
+        }
+    }
+
+    async isAvailable(): Promise<boolean> {
+        try {
+            return await this.transporter.verify();
+        } catch {
+            return false;
+        }
+    }
+
+    getChannelType(): AlertChannel {
+        return 'email';
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * WebPushChannel - Infrastructure Adapter
+ *
+ * Delivers push alerts to every browser subscription registered for the
+ * recipient, signed with the platform's VAPID keys. Requests are built by
+ * web-push and sent with fetch so any push service endpoint can be used.
+ */
+
+import webpush from 'web-push';
+import type { WeatherAlert, AlertChannel, AlertPriority } from '../domain/entities/WeatherAlert';
+import type { IAlertChannelPort, AlertDeliveryResult } from '../ports/IAlertChannelPort';
+import type {
+    IPushSubscriptionRepositoryPort,
+    WebPushSubscription
+} from '../ports/IPushSubscriptionRepositoryPort';
+
+export interface VapidConfig {
+    subject: string;
+    publicKey: string;
+    privateKey: string;
+}
+
+// Push services may delay low-urgency messages to save battery
+const URGENCY: Record<AlertPriority, webpush.Urgency> = {
+    low: 'low',
+    medium: 'normal',
+    high: 'high',
+    critical: 'high',
+};
+
+export class WebPushChannel implements IAlertChannelPort {
+    private readonly subscriptions: IPushSubscriptionRepositoryPort;
+    private readonly vapid: VapidConfig;
+    private readonly ttlSeconds: number;
+
+    constructor(subscriptions: IPushSubscriptionRepositoryPort, vapid: VapidConfig, ttlSeconds: number = 3600) {
+        this.subscriptions = subscriptions;
+        this.vapid = vapid;
+        this.ttlSeconds = ttlSeconds;
+    }
+
+    async sendAlert(alert: WeatherAlert): Promise<AlertDeliveryResult> {
+        const subscriptions = await this.subscriptions.findByRecipient(alert.recipient);
+        if (subscriptions.length === 0) {
+            return this.failure(alert, `No push subscription registered for ${alert.recipient}`);
+        }
+
+        const payload = JSON.stringify({
+            title: alert.subject ?? `ESCACS ${alert.priority} weather alert`,
+            body: alert.message,
+            alertId: alert.id,
+            siteId: alert.siteId,
+        });
+        const errors = (await Promise.all(subscriptions.map(s => this.push(s, payload, alert.priority))))
+            .filter((error): error is string => error !== null);
+
+        // One reachable device is enough for the recipient to see the alert
+        if (errors.length === subscriptions.length) {
+            return this.failure(alert, errors.join('; '));
+        }
+        return { alertId: alert.id, channel: 'push', success: true, deliveredAt: new Date() };
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return Boolean(this.vapid.publicKey && this.vapid.privateKey);
+    }
+
+    getChannelType(): AlertChannel {
+        return 'push';
+    }
+
+    /**
+     * Send to one subscription; returns an error message or null on success
+     */
+    private async push(
+        subscription: WebPushSubscription,
+        payload: string,
+        priority: AlertPriority
+    ): Promise<string | null> {
+        try {
+            const request = webpush.generateRequestDetails(
+                { endpoint: subscription.endpoint, keys: subscription.keys },
+                payload,
+                { vapidDetails: this.vapid, TTL: this.ttlSeconds, urgency: URGENCY[priority] }
+            );
+            const response = await fetch(request.endpoint, {
+                method: request.method,
+                headers: request.headers as Record<string, string>,
+                body: request.body ? new Uint8Array(request.body) : null,
+            });
+
+            return await this.handleResponse(subscription, response);
+        } catch (error) {
+            return (error as Error).message;
+        }
+    }
+
+    // 404/410 mean the browser unsubscribed, so the subscription is dropped
+    private async handleResponse(subscription: WebPushSubscription, response: Response): Promise<string | null> {
+        if (response.ok) return null;
+
+        if (response.status === 404 || response.status === 410) {
+            await this.subscriptions.delete(subscription.endpoint);
+            return `Push subscription expired (${response.status})`;
+        }
+        return `Push service responded ${response.status}`;
+    }
+
+    private failure(alert: WeatherAlert, errorMessage: string): AlertDeliveryResult {
+        return { alertId: alert.id, channel: 'push', success: false, errorMessage };
+    }
+}
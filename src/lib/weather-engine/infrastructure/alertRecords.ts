@@ -0,0 +1,62 @@
+/**
+ * Alert Records
+ *
+ * JSON-safe representation of WeatherAlert shared by the file-backed stores.
+ */
+
+import { WeatherAlert } from '../domain/entities/WeatherAlert';
+import type { DeliveryAttempt, WeatherAlertProps } from '../domain/entities/WeatherAlert';
+
+type DeliveryAttemptRecord = Omit<DeliveryAttempt, 'attemptedAt' | 'deliveredAt'> & {
+    attemptedAt: string;
+    deliveredAt?: string;
+};
+
+export type AlertRecord = Omit<
+    WeatherAlertProps,
+    'createdAt' | 'notBefore' | 'sentAt' | 'deliveredAt' | 'acknowledgedAt' | 'deliveryAttempts'
+> & {
+    createdAt: string;
+    notBefore?: string;
+    sentAt?: string;
+    deliveredAt?: string;
+    acknowledgedAt?: string;
+    deliveryAttempts?: DeliveryAttemptRecord[];
+};
+
+export function toAlertRecord(alert: WeatherAlert): AlertRecord {
+    const props = alert.toProps();
+    return {
+        ...props,
+        createdAt: props.createdAt.toISOString(),
+        notBefore: props.notBefore?.toISOString(),
+        sentAt: props.sentAt?.toISOString(),
+        deliveredAt: props.deliveredAt?.toISOString(),
+        acknowledgedAt: props.acknowledgedAt?.toISOString(),
+        deliveryAttempts: props.deliveryAttempts?.map(a => ({
+            ...a,
+            attemptedAt: a.attemptedAt.toISOString(),
+            deliveredAt: a.deliveredAt?.toISOString(),
+        })),
+    };
+}
+
+export function fromAlertRecord(record: AlertRecord): WeatherAlert {
+    return WeatherAlert.create({
+        ...record,
+        createdAt: new Date(record.createdAt),
+        notBefore: optionalDate(record.notBefore),
+        sentAt: optionalDate(record.sentAt),
+        deliveredAt: optionalDate(record.deliveredAt),
+        acknowledgedAt: optionalDate(record.acknowledgedAt),
+        deliveryAttempts: record.deliveryAttempts?.map(a => ({
+            ...a,
+            attemptedAt: new Date(a.attemptedAt),
+            deliveredAt: optionalDate(a.deliveredAt),
+        })),
+    });
+}
+
+function optionalDate(value: string | undefined): Date | undefined {
+    return value ? new Date(value) : undefined;
+}
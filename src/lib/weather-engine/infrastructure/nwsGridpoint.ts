@@ -0,0 +1,97 @@
+/**
+ * NWS Gridpoint Parsing
+ *
+ * Helpers for the layered series in an NWS gridpoint forecast. Each series
+ * value covers an ISO-8601 interval ("2025-06-01T12:00:00+00:00/PT6H"), so
+ * values are spread onto an hourly timeline before use.
+ */
+
+export interface NwsSeriesValue {
+    validTime: string;
+    value: number | null;
+}
+
+export interface NwsSeries {
+    uom?: string;
+    values: NwsSeriesValue[];
+}
+
+interface ParsedInterval {
+    start: number;
+    end: number;
+    value: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DURATION = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/;
+
+// Converters into the units the weather engine works in (inches, °F, mph, %)
+const UNIT_CONVERSIONS: Record<string, (value: number) => number> = {
+    'wmoUnit:mm': value => value / 25.4,
+    'wmoUnit:degC': value => value * 9 / 5 + 32,
+    'wmoUnit:km_h-1': value => value / 1.609344,
+    'wmoUnit:percent': value => value,
+};
+
+/**
+ * Length of an ISO-8601 duration ("PT6H", "P1DT12H", "PT30M") in hours
+ */
+export function parseIsoDuration(duration: string): number {
+    const match = DURATION.exec(duration);
+    if (!match || duration === 'P' || duration.endsWith('T')) {
+        throw new Error(`Unsupported ISO-8601 duration: ${duration}`);
+    }
+
+    const [, days, hours, minutes] = match.map(part => Number(part ?? 0));
+    return days * 24 + hours + minutes / 60;
+}
+
+/**
+ * Spread a series onto the given hours.
+ * - 'distribute' splits interval totals evenly (precipitation amounts)
+ * - 'hold' repeats the interval value (temperature, wind, humidity)
+ * Hours no interval covers are 0.
+ */
+export function toHourlyValues(series: NwsSeries | undefined, hours: Date[], mode: 'distribute' | 'hold'): number[] {
+    if (!series) return hours.map(() => 0);
+
+    const convert = getConverter(series.uom);
+    const intervals = series.values
+        .filter((v): v is NwsSeriesValue & { value: number } => v.value !== null)
+        .map(v => parseInterval(v.validTime, convert(v.value)));
+
+    return hours.map(hour => mode === 'distribute'
+        ? distributedAmount(intervals, hour.getTime())
+        : intervals.find(i => hour.getTime() >= i.start && hour.getTime() < i.end)?.value ?? 0);
+}
+
+/**
+ * Share of every interval's total that falls inside the hour starting at hourStart
+ */
+function distributedAmount(intervals: ParsedInterval[], hourStart: number): number {
+    const hourEnd = hourStart + HOUR_MS;
+    return intervals.reduce((total, interval) => {
+        const overlap = Math.min(hourEnd, interval.end) - Math.max(hourStart, interval.start);
+        return overlap > 0 ? total + interval.value * overlap / (interval.end - interval.start) : total;
+    }, 0);
+}
+
+function parseInterval(validTime: string, value: number): ParsedInterval {
+    const [startText, durationText] = validTime.split('/');
+    const start = new Date(startText).getTime();
+    const hours = parseIsoDuration(durationText ?? '');
+    if (Number.isNaN(start)) {
+        throw new Error(`Invalid NWS validTime: ${validTime}`);
+    }
+    return { start, end: start + hours * HOUR_MS, value };
+}
+
+function getConverter(uom: string | undefined): (value: number) => number {
+    if (!uom) return value => value;
+
+    const converter = UNIT_CONVERSIONS[uom];
+    if (!converter) {
+        throw new Error(`Unsupported NWS unit: ${uom}`);
+    }
+    return converter;
+}
@@ -0,0 +1,35 @@
+/**
+ * Weather Regions
+ *
+ * Approximate coverage areas used to pick weather providers for a location.
+ */
+
+export interface BoundingBox {
+    minLatitude: number;
+    maxLatitude: number;
+    minLongitude: number;
+    maxLongitude: number;
+}
+
+// api.weather.gov: contiguous US, Alaska, Hawaii and Puerto Rico
+export const NWS_COVERAGE: BoundingBox[] = [
+    { minLatitude: 24.4, maxLatitude: 49.5, minLongitude: -125.0, maxLongitude: -66.9 },
+    { minLatitude: 51.2, maxLatitude: 71.5, minLongitude: -180.0, maxLongitude: -129.9 },
+    { minLatitude: 18.9, maxLatitude: 22.3, minLongitude: -160.3, maxLongitude: -154.8 },
+    { minLatitude: 17.8, maxLatitude: 18.6, minLongitude: -67.3, maxLongitude: -65.2 },
+];
+
+// DWD MOSMIX stations are dense across Germany and its borders
+export const DWD_COVERAGE: BoundingBox[] = [
+    { minLatitude: 47.0, maxLatitude: 55.2, minLongitude: 5.5, maxLongitude: 15.5 },
+];
+
+/**
+ * Check if a location lies inside any of the boxes
+ */
+export function isCovered(regions: BoundingBox[], latitude: number, longitude: number): boolean {
+    return regions.some(r =>
+        latitude >= r.minLatitude && latitude <= r.maxLatitude
+        && longitude >= r.minLongitude && longitude <= r.maxLongitude
+    );
+}
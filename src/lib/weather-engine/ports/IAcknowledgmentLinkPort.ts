@@ -0,0 +1,22 @@
+/**
+ * IAcknowledgmentLinkPort - Port Interface
+ *
+ * Interface for one-click acknowledgment links embedded in SMS/email bodies.
+ */
+
+export interface AcknowledgmentLinkParams {
+    expires: number;
+    signature: string;
+}
+
+export interface IAcknowledgmentLinkPort {
+    /**
+     * Build a signed, expiring link that acknowledges the alert when opened
+     */
+    createLink(alertId: string, now?: Date): string;
+
+    /**
+     * Check that link parameters were issued for this alert and have not expired
+     */
+    verify(alertId: string, params: AcknowledgmentLinkParams, now?: Date): boolean;
+}
@@ -0,0 +1,20 @@
+/**
+ * IAlertContactPort - Port Interface
+ *
+ * Interface for looking up who to reach at a site when an alert escalates.
+ */
+
+import type { AlertRecipientType } from '../domain/entities/WeatherAlert';
+
+export interface AlertContact {
+    name: string;
+    phone?: string;
+    email?: string;
+}
+
+export interface IAlertContactPort {
+    /**
+     * List the contacts of a given recipient type for a site
+     */
+    findContacts(siteId: string, recipientType: AlertRecipientType): Promise<AlertContact[]>;
+}
@@ -0,0 +1,24 @@
+/**
+ * IAlertRepositoryPort - Port Interface
+ *
+ * Interface for persisting alerts so they can be acknowledged and escalated.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+
+export interface IAlertRepositoryPort {
+    /**
+     * Insert or replace an alert
+     */
+    save(alert: WeatherAlert): Promise<void>;
+
+    /**
+     * Find an alert by id
+     */
+    findById(id: string): Promise<WeatherAlert | null>;
+
+    /**
+     * List original (non-escalation) alerts that nobody has acknowledged yet
+     */
+    findUnacknowledged(): Promise<WeatherAlert[]>;
+}
@@ -0,0 +1,27 @@
+/**
+ * IAuditLogPort - Port Interface
+ *
+ * Append-only record of compliance-relevant state changes.
+ */
+
+export interface AuditEntry {
+    id: string;
+    occurredAt: Date;
+    siteId: string;
+    action: string;             // e.g. inspection_window.overdue
+    subjectType: string;        // e.g. inspection_window
+    subjectId: string;
+    details: Record<string, string | number | boolean | null>;
+}
+
+export interface IAuditLogPort {
+    /**
+     * Append an entry; entries are never rewritten
+     */
+    append(entry: AuditEntry): Promise<void>;
+
+    /**
+     * List the entries recorded for a subject, oldest first
+     */
+    findBySubject(subjectType: string, subjectId: string): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,24 @@
+/**
+ * IDeadLetterQueuePort - Port Interface
+ *
+ * Interface for parking alerts that exhausted their delivery retries.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+
+export interface IDeadLetterQueuePort {
+    /**
+     * Park an undeliverable alert
+     */
+    push(alert: WeatherAlert): Promise<void>;
+
+    /**
+     * List parked alerts
+     */
+    list(): Promise<WeatherAlert[]>;
+
+    /**
+     * Remove and return a parked alert (e.g. to replay it)
+     */
+    take(alertId: string): Promise<WeatherAlert | null>;
+}
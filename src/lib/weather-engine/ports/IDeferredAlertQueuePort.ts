@@ -0,0 +1,24 @@
+/**
+ * IDeferredAlertQueuePort - Port Interface
+ *
+ * Interface for holding alerts until their recipient's quiet hours end.
+ */
+
+import type { WeatherAlert } from '../domain/entities/WeatherAlert';
+
+export interface IDeferredAlertQueuePort {
+    /**
+     * Hold an alert until its notBefore time
+     */
+    push(alert: WeatherAlert): Promise<void>;
+
+    /**
+     * List held alerts
+     */
+    list(): Promise<WeatherAlert[]>;
+
+    /**
+     * Remove and return the alerts that are due at the given time
+     */
+    takeDue(now: Date): Promise<WeatherAlert[]>;
+}
@@ -0,0 +1,19 @@
+/**
+ * IForecastCachePort - Port Interface
+ *
+ * Interface for storing the last forecast fetched for a location.
+ */
+
+import type { HourlyForecast } from './IWeatherDataPort';
+
+export interface IForecastCachePort {
+    /**
+     * Get the cached forecast for a location key
+     */
+    get(key: string): Promise<HourlyForecast | null>;
+
+    /**
+     * Replace the cached forecast for a location key
+     */
+    set(key: string, forecast: HourlyForecast): Promise<void>;
+}
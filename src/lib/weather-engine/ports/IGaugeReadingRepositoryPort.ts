@@ -0,0 +1,19 @@
+/**
+ * IGaugeReadingRepositoryPort - Port Interface
+ *
+ * Interface for the on-site rain gauge time series.
+ */
+
+import type { GaugeReading } from '../domain/entities/GaugeReading';
+
+export interface IGaugeReadingRepositoryPort {
+    /**
+     * Append readings to the time series
+     */
+    append(readings: GaugeReading[]): Promise<void>;
+
+    /**
+     * List a site's readings in observation order, optionally from a point in time
+     */
+    findBySite(siteId: string, since?: Date): Promise<GaugeReading[]>;
+}
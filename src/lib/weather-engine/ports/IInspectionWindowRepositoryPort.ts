@@ -0,0 +1,29 @@
+/**
+ * IInspectionWindowRepositoryPort - Port Interface
+ *
+ * Interface for persisting post-storm inspection windows.
+ */
+
+import type { InspectionWindow } from '../domain/entities/InspectionWindow';
+
+export interface IInspectionWindowRepositoryPort {
+    /**
+     * Insert or replace an inspection window
+     */
+    save(window: InspectionWindow): Promise<void>;
+
+    /**
+     * Get an inspection window by id
+     */
+    findById(id: string): Promise<InspectionWindow | null>;
+
+    /**
+     * List a site's inspection windows, most recent storm first
+     */
+    findBySite(siteId: string): Promise<InspectionWindow[]>;
+
+    /**
+     * List uncompleted windows across all sites, earliest deadline first
+     */
+    findOpen(): Promise<InspectionWindow[]>;
+}
@@ -0,0 +1,22 @@
+/**
+ * IMonitoredSitePort - Port Interface
+ *
+ * Interface for the source of sites under continuous weather monitoring.
+ */
+
+import type { SitePermit } from '../domain/services/WeatherTriggerService';
+
+export interface MonitoredSite {
+    siteId: string;
+    latitude: number;
+    longitude: number;
+    permit?: SitePermit;
+    configurationError?: string;
+}
+
+export interface IMonitoredSitePort {
+    /**
+     * List every site that should be evaluated on each monitoring run
+     */
+    listMonitoredSites(): Promise<MonitoredSite[]>;
+}
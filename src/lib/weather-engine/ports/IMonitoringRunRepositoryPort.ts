@@ -0,0 +1,19 @@
+/**
+ * IMonitoringRunRepositoryPort - Port Interface
+ *
+ * Interface for persisting monitoring run records.
+ */
+
+import type { MonitoringRun } from '../domain/entities/MonitoringRun';
+
+export interface IMonitoringRunRepositoryPort {
+    /**
+     * Persist a completed run
+     */
+    save(run: MonitoringRun): Promise<void>;
+
+    /**
+     * List runs, most recent first
+     */
+    findRecent(limit: number): Promise<MonitoringRun[]>;
+}
@@ -0,0 +1,18 @@
+/**
+ * IPreventiveActionPort - Port Interface
+ *
+ * Interface for looking up what crews should do at a site before a storm.
+ */
+
+export interface PrecipitationOutlook {
+    precipitationInchesNext24h: number;
+    precipitationInchesNext48h: number;
+    precipitationInchesNext72h: number;
+}
+
+export interface IPreventiveActionPort {
+    /**
+     * Most important preventive actions for the site, highest priority first
+     */
+    getTopActions(siteId: string, outlook: PrecipitationOutlook, count: number): Promise<string[]>;
+}
@@ -0,0 +1,32 @@
+/**
+ * IPushSubscriptionRepositoryPort - Port Interface
+ *
+ * Interface for storing browser Web Push subscriptions per alert recipient.
+ */
+
+export interface WebPushSubscription {
+    recipient: string;
+    endpoint: string;
+    keys: {
+        p256dh: string;
+        auth: string;
+    };
+    createdAt: Date;
+}
+
+export interface IPushSubscriptionRepositoryPort {
+    /**
+     * Insert or replace a subscription (keyed by endpoint)
+     */
+    save(subscription: WebPushSubscription): Promise<void>;
+
+    /**
+     * List subscriptions registered for a recipient
+     */
+    findByRecipient(recipient: string): Promise<WebPushSubscription[]>;
+
+    /**
+     * Remove a subscription that the push service reported as gone
+     */
+    delete(endpoint: string): Promise<void>;
+}
@@ -0,0 +1,24 @@
+/**
+ * IRainfallEventRepositoryPort - Port Interface
+ *
+ * Interface for persisting detected rainfall events.
+ */
+
+import type { RainfallEvent } from '../domain/entities/RainfallEvent';
+
+export interface IRainfallEventRepositoryPort {
+    /**
+     * Insert or replace a rainfall event
+     */
+    save(event: RainfallEvent): Promise<void>;
+
+    /**
+     * List a site's events, most recent first
+     */
+    findBySite(siteId: string): Promise<RainfallEvent[]>;
+
+    /**
+     * List a site's events that have not ended yet
+     */
+    findOngoing(siteId: string): Promise<RainfallEvent[]>;
+}
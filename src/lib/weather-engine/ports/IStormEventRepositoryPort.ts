@@ -0,0 +1,24 @@
+/**
+ * IStormEventRepositoryPort - Port Interface
+ *
+ * Interface for persisting storm events between trigger evaluations.
+ */
+
+import type { StormEvent } from '../domain/entities/StormEvent';
+
+export interface IStormEventRepositoryPort {
+    /**
+     * Insert or replace a storm event
+     */
+    save(event: StormEvent): Promise<void>;
+
+    /**
+     * List storm events tracked for a site
+     */
+    findBySite(siteId: string): Promise<StormEvent[]>;
+
+    /**
+     * Remove a storm event that is no longer tracked
+     */
+    delete(id: string): Promise<void>;
+}
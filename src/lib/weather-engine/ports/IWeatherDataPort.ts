@@ -10,6 +10,7 @@ export interface WeatherForecast {
     temperature: number;
     windSpeed: number;
     humidity: number;
+    source?: string;    // provider(s) the row came from, e.g. "open-meteo" or "open-meteo+dwd"
 }
 
 export interface HourlyForecast {
@@ -19,6 +20,10 @@ export interface HourlyForecast {
     forecasts: WeatherForecast[];
     fetchedAt: Date;
     expiresAt: Date;
+    // Set when an expired cached forecast is served because the source failed
+    stale?: boolean;
+    ageMinutes?: number;
+    warning?: string;
 }
 
 export interface IWeatherDataPort {
@@ -0,0 +1,108 @@
+/**
+ * Risk Routes Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { riskRoutes } from '../../../src/api/routes/risk';
+import { createSiteRegistryService } from '../../../src/lib/site-registry';
+import { createRiskHistoryService } from '../../../src/lib/risk-engine';
+
+describe('risk routes', () => {
+    let siteId: string;
+
+    const weather = {
+        precipitationInchesNext24h: 0.2,
+        precipitationInchesNext48h: 0.8,
+        precipitationInchesNext72h: 1.2,
+    };
+
+    const post = (route: string, body: Record<string, unknown>) => riskRoutes.request(route, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    const recordedScores = async (id: string) => (await createRiskHistoryService().getHistory(id)).scores;
+
+    beforeEach(async () => {
+        vi.stubEnv('ESCACS_DATA_DIR', mkdtempSync(path.join(tmpdir(), 'escacs-risk-routes-')));
+
+        const site = await createSiteRegistryService().registerSite({
+            name: 'Main Street Construction',
+            location: { latitude: 37.54, longitude: -77.43 },
+            acreage: 5.5,
+            soilType: 'sandy',
+            slopePercent: 12,
+            phase: 'grading',
+            permitNumber: 'VAR10-1234',
+            jurisdiction: 'Virginia DEQ',
+            rainThresholdInchesPerHour: 0.5,
+            inspectionDeadlineHours: 48,
+            contacts: [],
+        });
+        siteId = site.id;
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    describe('POST /risk/calculate', () => {
+        it('should score a registered site against the provider forecast and record it', async () => {
+            const response = await post('/risk/calculate', { siteId });
+            const body = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(body.weatherSource).toBe('provider_forecast');
+            expect((await recordedScores(siteId)).map(s => s.id)).toEqual([body.id]);
+        });
+
+        it('should not record scores with supplied weather or site field overrides', async () => {
+            expect((await post('/risk/calculate', { siteId, weather })).status).toBe(200);
+            expect((await post('/risk/calculate', { siteId, slopePercent: 40 })).status).toBe(200);
+
+            expect(await recordedScores(siteId)).toHaveLength(0);
+        });
+
+        it('should not record scores of unregistered sites', async () => {
+            const response = await post('/risk/calculate', {
+                siteId: 'site-adhoc',
+                phase: 'grading',
+                slopePercent: 15,
+                soilType: 'sandy',
+                acreage: 5.5,
+                daysSinceLastInspection: 3,
+                weather,
+            });
+
+            expect(response.status).toBe(200);
+            expect(await recordedScores('site-adhoc')).toHaveLength(0);
+        });
+
+        it('should require weather for unregistered sites', async () => {
+            const response = await post('/risk/calculate', {
+                siteId: 'site-adhoc',
+                phase: 'grading',
+                slopePercent: 15,
+                soilType: 'sandy',
+                acreage: 5.5,
+                daysSinceLastInspection: 3,
+            });
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe('POST /risk/forecast', () => {
+        it('should record every horizon only when scored against the provider forecast', async () => {
+            await post('/risk/forecast', { siteId, weather });
+            const response = await post('/risk/forecast', { siteId });
+
+            expect(response.status).toBe(200);
+            expect((await recordedScores(siteId)).map(s => s.horizonHours)).toEqual([24, 48, 72]);
+        });
+    });
+});
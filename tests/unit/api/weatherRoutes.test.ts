@@ -0,0 +1,78 @@
+/**
+ * Weather Routes Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { weatherRoutes } from '../../../src/api/routes/weather';
+import { createSiteRegistryService } from '../../../src/lib/site-registry';
+import { MockNoaaAdapter } from '../../../src/lib/weather-engine/infrastructure/MockNoaaAdapter';
+
+describe('weather routes', () => {
+    let siteId: string;
+
+    const evaluate = (body: Record<string, unknown>) => weatherRoutes.request('/weather/evaluate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    beforeEach(async () => {
+        vi.stubEnv('ESCACS_DATA_DIR', mkdtempSync(path.join(tmpdir(), 'escacs-weather-routes-')));
+
+        // Heavy rain peaks at 0.7 in/hr
+        const getHourlyForecast = MockNoaaAdapter.prototype.getHourlyForecast;
+        vi.spyOn(MockNoaaAdapter.prototype, 'getHourlyForecast').mockImplementation(function (this: MockNoaaAdapter, ...args) {
+            this.setMockScenario('heavy_rain');
+            return getHourlyForecast.apply(this, args);
+        });
+
+        const site = await createSiteRegistryService().registerSite({
+            name: 'Main Street Construction',
+            location: { latitude: 37.54, longitude: -77.43 },
+            acreage: 5.5,
+            soilType: 'sandy',
+            slopePercent: 12,
+            phase: 'grading',
+            permitNumber: 'VAR10-1234',
+            jurisdiction: 'Virginia DEQ',
+            rainThresholdInchesPerHour: 1.0,
+            rainAccumulationRules: [{ thresholdInches: 10, windowHours: 24 }],
+            inspectionDeadlineHours: 48,
+            contacts: [
+                { name: 'Sam Super', role: 'superintendent', phone: '+15551234567' },
+                { name: 'Ida Inspector', role: 'inspector', email: 'ida@example.com' },
+                { name: 'Olga Owner', role: 'owner', email: 'owner@example.com' },
+            ],
+        });
+        siteId = site.id;
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllEnvs();
+    });
+
+    describe('POST /weather/evaluate', () => {
+        it('should use the registered intensity rule without an override', async () => {
+            const response = await evaluate({ siteId });
+            const body = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(body.shouldAlert).toBe(false);
+        });
+
+        it('should replace the intensity rule of a registered site with the threshold override', async () => {
+            const response = await evaluate({ siteId, thresholdInchesPerHour: 0.5 });
+            const body = await response.json();
+
+            expect(response.status).toBe(200);
+            expect(body.shouldAlert).toBe(true);
+            expect(body.firedRules).toEqual([
+                expect.objectContaining({ type: 'intensity', threshold: 0.5, observedValue: 0.7 }),
+            ]);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * InspectionChecklist Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InspectionChecklist } from '../../../src/lib/checklist-engine/domain/entities/InspectionChecklist';
+
+function createChecklist(): InspectionChecklist {
+    return InspectionChecklist.create({
+        id: 'checklist-1',
+        siteId: 'site-1',
+        inspectorId: 'inspector-1',
+        scheduledAt: new Date('2025-06-01T08:00:00Z'),
+        items: [
+            {
+                id: 'item-1',
+                category: 'sediment_control',
+                question: 'Is the silt fence intact?',
+                response: 'compliant',
+                photoIds: [],
+            },
+        ],
+    });
+}
+
+describe('InspectionChecklist', () => {
+    it('should start as a draft', () => {
+        expect(createChecklist().status).toBe('draft');
+    });
+
+    describe('submit', () => {
+        it('should complete and submit the checklist', () => {
+            const checklist = createChecklist();
+            const submittedAt = new Date('2025-06-01T12:00:00Z');
+
+            checklist.submit(submittedAt);
+
+            expect(checklist.status).toBe('submitted');
+            expect(checklist.submittedAt).toEqual(submittedAt);
+            expect(checklist.completedAt).toEqual(submittedAt);
+        });
+
+        it('should not submit twice', () => {
+            const checklist = createChecklist();
+            checklist.submit();
+
+            expect(() => checklist.submit()).toThrow('Checklist already submitted');
+        });
+    });
+
+    it('should restore a stored checklist from its props', () => {
+        const checklist = createChecklist();
+        checklist.updateItem('item-1', 'non_compliant', 'Fence down at east gate');
+        checklist.submit(new Date('2025-06-01T12:00:00Z'));
+
+        const restored = InspectionChecklist.create(checklist.toProps());
+
+        expect(restored.status).toBe('submitted');
+        expect(restored.submittedAt).toEqual(checklist.submittedAt);
+        expect(restored.isOverallCompliant()).toBe(false);
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * InspectionCalendarRenderer Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InspectionCalendarRenderer } from '../../../src/lib/inspection-scheduler/domain/services/InspectionCalendarRenderer';
+import { InspectionTask } from '../../../src/lib/inspection-scheduler/domain/entities/InspectionTask';
+
+const GENERATED_AT = new Date('2025-06-10T12:00:00Z');
+
+function createTask(overrides: Partial<Parameters<typeof InspectionTask.create>[0]> = {}): InspectionTask {
+    return InspectionTask.create({
+        id: 'storm:window-1',
+        type: 'storm',
+        siteId: 'site-1',
+        siteName: 'Riverside, Phase 2',
+        timeZone: 'America/New_York',
+        dueAt: new Date('2025-06-11T21:00:00Z'),
+        assignee: { contactId: 'insp-a', name: 'Ana Ruiz' },
+        inspectionWindowId: 'window-1',
+        ...overrides,
+    });
+}
+
+describe('InspectionCalendarRenderer', () => {
+    const renderer = new InspectionCalendarRenderer();
+
+    it('should render a calendar with one event per task', () => {
+        const ics = renderer.render([createTask()], { name: 'Inspections', generatedAt: GENERATED_AT });
+        const lines = ics.split('\r\n');
+
+        expect(lines[0]).toBe('BEGIN:VCALENDAR');
+        expect(lines).toContain('UID:storm:window-1@escacs');
+        expect(lines).toContain('DTSTAMP:20250610T120000Z');
+        expect(lines).toContain('DTSTART:20250611T200000Z');
+        expect(lines).toContain('DTEND:20250611T210000Z');
+        expect(lines).toContain('TRIGGER:-PT1H');
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should escape text values', () => {
+        const ics = renderer.render([createTask()], { name: 'Inspections', generatedAt: GENERATED_AT });
+
+        expect(ics).toContain('SUMMARY:Post-storm inspection due: Riverside\\, Phase 2');
+        expect(ics).toContain('DESCRIPTION:Due by Jun 11\\, 2025\\, 5:00');
+    });
+
+    it('should describe the due time in the site time zone and the assignee', () => {
+        const ics = renderer.render([createTask()], { name: 'Inspections', generatedAt: GENERATED_AT })
+            .replace(/\r\n /g, '');
+
+        expect(ics).toMatch(/Due by Jun 11\\, 2025\\, 5:00\s?PM \(America\/New_York\)\.\\nAssigned to Ana Ruiz\./);
+    });
+
+    it('should fold lines longer than 75 octets', () => {
+        const task = createTask({ siteName: 'Überseequartier Baufeld 4 – Nordufer Erweiterung mit Tiefgarage' });
+
+        const ics = renderer.render([task], { name: 'Inspections', generatedAt: GENERATED_AT });
+
+        const encoder = new TextEncoder();
+        expect(ics.split('\r\n').every(line => encoder.encode(line).length <= 75)).toBe(true);
+        expect(ics.replace(/\r\n /g, '')).toContain('Nordufer Erweiterung mit Tiefgarage');
+    });
+
+    it('should render an empty calendar', () => {
+        const ics = renderer.render([], { name: 'Inspections', generatedAt: GENERATED_AT });
+
+        expect(ics).not.toContain('BEGIN:VEVENT');
+        expect(ics).toContain('X-WR-CALNAME:Inspections');
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * InspectionScheduler Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InspectionScheduler } from '../../../src/lib/inspection-scheduler/domain/services/InspectionScheduler';
+import type { IInspectionSitePort, ScheduledSite } from '../../../src/lib/inspection-scheduler/ports/IInspectionSitePort';
+import type {
+    IStormInspectionPort,
+    OutstandingStormInspection
+} from '../../../src/lib/inspection-scheduler/ports/IStormInspectionPort';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-06-10T12:00:00Z');
+
+const site: ScheduledSite = {
+    siteId: 'site-1',
+    siteName: 'Riverside Phase 2',
+    timeZone: 'America/New_York',
+    inspectors: [
+        { contactId: 'insp-a', name: 'Ana Ruiz' },
+        { contactId: 'insp-b', name: 'Ben Cole' },
+    ],
+    lastInspectionAt: new Date('2025-06-05T14:00:00Z'),
+};
+
+// Weekly routine, counted in elapsed days for simplicity
+class StubSitePort implements IInspectionSitePort {
+    constructor(private readonly sites: ScheduledSite[]) {}
+
+    async listSites(): Promise<ScheduledSite[]> {
+        return this.sites;
+    }
+
+    async getRoutineDueDates(_siteId: string, lastInspectionAt: Date, until: Date): Promise<Date[]> {
+        const dueDates: Date[] = [];
+        for (let due = lastInspectionAt.getTime() + 7 * DAY; due <= until.getTime(); due += 7 * DAY) {
+            dueDates.push(new Date(due));
+        }
+        return dueDates;
+    }
+}
+
+class StubStormPort implements IStormInspectionPort {
+    constructor(private readonly storms: OutstandingStormInspection[] = []) {}
+
+    async listOutstanding(): Promise<OutstandingStormInspection[]> {
+        return this.storms;
+    }
+}
+
+describe('InspectionScheduler', () => {
+    it('should schedule routine inspections within the horizon', async () => {
+        const scheduler = new InspectionScheduler(new StubSitePort([site]), new StubStormPort());
+
+        const schedule = await scheduler.getSchedule({ days: 14 }, NOW);
+
+        expect(schedule.until.toISOString()).toBe('2025-06-24T12:00:00.000Z');
+        expect(schedule.tasks.map(t => t.dueAt.toISOString())).toEqual([
+            '2025-06-12T14:00:00.000Z',
+            '2025-06-19T14:00:00.000Z',
+        ]);
+        expect(schedule.tasks.every(t => t.type === 'routine')).toBe(true);
+    });
+
+    it('should collapse missed routine inspections into one overdue task', async () => {
+        const lapsed = { ...site, lastInspectionAt: new Date('2025-05-20T14:00:00Z') };
+        const scheduler = new InspectionScheduler(new StubSitePort([lapsed]), new StubStormPort());
+
+        const { tasks } = await scheduler.getSchedule({ days: 7 }, NOW);
+
+        expect(tasks.map(t => [t.dueAt.toISOString(), t.isOverdue(NOW)])).toEqual([
+            ['2025-05-27T14:00:00.000Z', true],
+            ['2025-06-10T14:00:00.000Z', false],
+        ]);
+    });
+
+    it('should add outstanding storm inspections by deadline', async () => {
+        const storms = new StubStormPort([
+            {
+                inspectionWindowId: 'window-1',
+                siteId: 'site-1',
+                stormEndTime: new Date('2025-06-10T06:00:00Z'),
+                deadlineTime: new Date('2025-06-11T06:00:00Z'),
+            },
+            {
+                inspectionWindowId: 'window-other',
+                siteId: 'site-2',
+                stormEndTime: new Date('2025-06-10T06:00:00Z'),
+                deadlineTime: new Date('2025-06-11T06:00:00Z'),
+            },
+        ]);
+        const scheduler = new InspectionScheduler(new StubSitePort([site]), storms);
+
+        const { tasks } = await scheduler.getSchedule({ days: 7 }, NOW);
+
+        expect(tasks[0].type).toBe('storm');
+        expect(tasks[0].inspectionWindowId).toBe('window-1');
+        expect(tasks[0].dueAt.toISOString()).toBe('2025-06-11T06:00:00.000Z');
+        expect(tasks).toHaveLength(2);
+    });
+
+    it('should assign every task to one of the site inspectors, the same way each time', async () => {
+        const scheduler = new InspectionScheduler(new StubSitePort([site]), new StubStormPort());
+
+        const first = await scheduler.getSchedule({ days: 56 }, NOW);
+        const second = await scheduler.getSchedule({ days: 56 }, NOW);
+
+        const assignees = first.tasks.map(t => t.assignee?.contactId);
+        expect(assignees.every(id => id === 'insp-a' || id === 'insp-b')).toBe(true);
+        expect(second.tasks.map(t => t.assignee?.contactId)).toEqual(assignees);
+    });
+
+    it('should filter by inspector and site', async () => {
+        const other = { ...site, siteId: 'site-2', inspectors: [] };
+        const scheduler = new InspectionScheduler(new StubSitePort([site, other]), new StubStormPort());
+
+        const all = await scheduler.getSchedule({ days: 56 }, NOW);
+        const mine = await scheduler.getSchedule({ days: 56, inspectorId: 'insp-a' }, NOW);
+        const siteTwo = await scheduler.getSchedule({ days: 56, siteId: 'site-2' }, NOW);
+
+        const theirs = all.tasks.filter(t => t.isAssignedTo('insp-b'));
+        expect(mine.tasks.length).toBeGreaterThan(0);
+        expect(mine.tasks.every(t => t.isAssignedTo('insp-a'))).toBe(true);
+        expect(siteTwo.tasks.every(t => t.siteId === 'site-2' && t.assignee === null)).toBe(true);
+        expect(all.tasks).toHaveLength(mine.tasks.length + theirs.length + siteTwo.tasks.length);
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * BusinessCalendar Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BusinessCalendar } from '../../../src/lib/jurisdiction-rules/domain/entities/BusinessCalendar';
+import { HolidayCalendar } from '../../../src/lib/jurisdiction-rules/domain/entities/HolidayCalendar';
+
+const thanksgiving = HolidayCalendar.create({
+    id: 'thanksgiving',
+    name: 'Thanksgiving',
+    rules: [{ type: 'nth_weekday', name: 'Thanksgiving Day', month: 11, weekday: 4, nth: 4 }],
+});
+
+const newYork = BusinessCalendar.create({
+    timeZone: 'America/New_York',
+    holidays: thanksgiving,
+    businessHours: { start: '08:00', end: '17:00' },
+});
+
+const berlin = BusinessCalendar.create({ timeZone: 'Europe/Berlin', holidays: HolidayCalendar.empty() });
+
+describe('BusinessCalendar', () => {
+    describe('create', () => {
+        it('should reject unknown time zones', () => {
+            expect(() => BusinessCalendar.create({ timeZone: 'Mars/Olympus', holidays: thanksgiving }))
+                .toThrow('Unknown time zone: Mars/Olympus');
+        });
+
+        it('should reject malformed business hours', () => {
+            expect(() => BusinessCalendar.create({
+                timeZone: 'UTC',
+                holidays: thanksgiving,
+                businessHours: { start: '8am', end: '17:00' },
+            })).toThrow('Business hours must be HH:MM');
+        });
+    });
+
+    it('should report the local date', () => {
+        expect(berlin.getLocalDate(new Date('2025-06-06T23:30:00Z'))).toBe('2025-06-07');
+        expect(newYork.getLocalDate(new Date('2025-06-07T02:00:00Z'))).toBe('2025-06-06');
+    });
+
+    it('should check business hours in local time', () => {
+        expect(newYork.isWithinBusinessHours(new Date('2025-06-06T13:00:00Z'))).toBe(true);   // Fri 09:00 EDT
+        expect(newYork.isWithinBusinessHours(new Date('2025-06-06T21:30:00Z'))).toBe(false);  // Fri 17:30 EDT
+        expect(newYork.isWithinBusinessHours(new Date('2025-11-27T15:00:00Z'))).toBe(false);  // Thanksgiving
+    });
+
+    describe('getCloseOfBusiness', () => {
+        it('should end a 25-hour fall-back day at local midnight', () => {
+            expect(berlin.getCloseOfBusiness(new Date('2025-10-26T12:00:00Z')).toISOString())
+                .toBe('2025-10-26T22:59:59.999Z');
+        });
+
+        it('should end a 23-hour spring-forward day at local midnight', () => {
+            expect(berlin.getCloseOfBusiness(new Date('2026-03-29T12:00:00Z')).toISOString())
+                .toBe('2026-03-29T21:59:59.999Z');
+        });
+
+        it('should use business hours when set', () => {
+            expect(newYork.getCloseOfBusiness(new Date('2026-03-08T15:00:00Z')).toISOString())
+                .toBe('2026-03-08T21:00:00.000Z');
+        });
+    });
+
+    it('should skip weekends and holidays when adding business days', () => {
+        // Wednesday before Thanksgiving + 2 business days = Monday 17:00 EST
+        expect(newYork.addBusinessDays(new Date('2025-11-26T15:00:00Z'), 2).toISOString())
+            .toBe('2025-12-01T22:00:00.000Z');
+    });
+
+    it('should find the next close of business from a weekend', () => {
+        expect(newYork.getNextCloseOfBusiness(new Date('2025-06-07T15:00:00Z')).toISOString())
+            .toBe('2025-06-09T21:00:00.000Z');
+    });
+
+    it('should keep wall-clock time when adding calendar days across DST', () => {
+        // 10:00 CEST Saturday -> 10:00 CET Sunday, 25 hours later
+        const next = berlin.addCalendarDays(new Date('2025-10-25T08:00:00Z'), 1);
+
+        expect(next.toISOString()).toBe('2025-10-26T09:00:00.000Z');
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * HolidayCalendar Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HolidayCalendar } from '../../../src/lib/jurisdiction-rules/domain/entities/HolidayCalendar';
+import { BUILT_IN_HOLIDAY_CALENDARS } from '../../../src/lib/jurisdiction-rules/infrastructure/builtInHolidayCalendars';
+
+function builtIn(id: string): HolidayCalendar {
+    const props = BUILT_IN_HOLIDAY_CALENDARS.find(c => c.id === id);
+    if (!props) throw new Error(`Missing calendar ${id}`);
+    return HolidayCalendar.create(props);
+}
+
+describe('HolidayCalendar', () => {
+    describe('create', () => {
+        it('should reject malformed fixed dates', () => {
+            expect(() => HolidayCalendar.create({
+                id: 'bad',
+                name: 'Bad',
+                rules: [{ type: 'fixed', name: 'Typo', date: '7/4' }],
+            })).toThrow('Holiday Typo must be MM-DD');
+        });
+
+        it('should reject a fifth weekday occurrence', () => {
+            expect(() => HolidayCalendar.create({
+                id: 'bad',
+                name: 'Bad',
+                rules: [{ type: 'nth_weekday', name: 'Fifth Friday', month: 1, weekday: 5, nth: 5 }],
+            })).toThrow('invalid month, weekday or occurrence');
+        });
+    });
+
+    it('should expand US federal holidays for a year', () => {
+        expect(builtIn('us-federal').getHolidays(2025).map(h => h.date)).toEqual([
+            '2025-01-01',
+            '2025-01-20',
+            '2025-02-17',
+            '2025-05-26',
+            '2025-06-19',
+            '2025-07-04',
+            '2025-09-01',
+            '2025-10-13',
+            '2025-11-11',
+            '2025-11-27',
+            '2025-12-25',
+        ]);
+    });
+
+    it('should observe weekend holidays on the nearest weekday', () => {
+        const federal = builtIn('us-federal');
+
+        // July 4, 2026 is a Saturday
+        expect(federal.isHoliday('2026-07-03')).toBe(true);
+        expect(federal.isHoliday('2026-07-04')).toBe(false);
+        // January 1, 2028 is a Saturday and is observed in 2027
+        expect(federal.isHoliday('2027-12-31')).toBe(true);
+    });
+
+    it('should offset from a weekday rule', () => {
+        expect(builtIn('us-va').isHoliday('2025-11-28')).toBe(true);
+        expect(builtIn('us-federal').isHoliday('2025-11-28')).toBe(false);
+    });
+
+    it('should derive Easter holidays', () => {
+        const berlin = builtIn('de-be');
+
+        expect(berlin.isHoliday('2025-04-18')).toBe(true);  // Good Friday
+        expect(berlin.isHoliday('2025-04-21')).toBe(true);  // Easter Monday
+        expect(berlin.isHoliday('2025-05-29')).toBe(true);  // Ascension
+        expect(berlin.isHoliday('2026-04-06')).toBe(true);  // Easter Monday 2026
+    });
+
+    it('should include one-off dates', () => {
+        const calendar = HolidayCalendar.create({
+            id: 'closure',
+            name: 'Closures',
+            rules: [{ type: 'date', name: 'State of emergency', date: '2025-02-03' }],
+        });
+
+        expect(calendar.getHolidays(2025)).toEqual([{ date: '2025-02-03', name: 'State of emergency' }]);
+        expect(calendar.getHolidays(2026)).toEqual([]);
+    });
+});
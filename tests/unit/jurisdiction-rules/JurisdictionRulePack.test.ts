@@ -0,0 +1,217 @@
+/**
+ * JurisdictionRulePack Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { JurisdictionRulePack } from '../../../src/lib/jurisdiction-rules/domain/entities/JurisdictionRulePack';
+import type { JurisdictionRulePackProps } from '../../../src/lib/jurisdiction-rules/domain/entities/JurisdictionRulePack';
+import { HolidayCalendar } from '../../../src/lib/jurisdiction-rules/domain/entities/HolidayCalendar';
+
+const holidays = HolidayCalendar.create({
+    id: 'test-holidays',
+    name: 'Test holidays',
+    rules: [{ type: 'fixed', name: 'Independence Day', date: '07-04' }],
+});
+
+const baseProps: JurisdictionRulePackProps = {
+    id: 'test-pack',
+    version: '2024-01-01',
+    name: 'Test pack',
+    authority: 'Test DEQ',
+    routine: { every: 14, unit: 'calendar_days' },
+    stormInspection: {
+        qualifyingRainfallInches: 0.25,
+        deadline: { type: 'hours', hours: 24, rollToBusinessDay: true },
+    },
+    holidayCalendar: 'test-holidays',
+    winterExemption: {
+        from: '11-01',
+        to: '03-31',
+        requiresFrozenGround: true,
+        routine: { every: 30, unit: 'calendar_days' },
+        stormInspections: false,
+    },
+};
+
+function pack(overrides: Partial<JurisdictionRulePackProps> = {}): JurisdictionRulePack {
+    return JurisdictionRulePack.create({ ...baseProps, ...overrides }, holidays);
+}
+
+describe('JurisdictionRulePack', () => {
+    describe('create', () => {
+        it('should reject a version that is not an effective date', () => {
+            expect(() => pack({ version: 'v2' })).toThrow('effective date');
+        });
+
+        it('should reject a holiday calendar other than the one it names', () => {
+            expect(() => pack({ holidayCalendar: 'us-federal' })).toThrow('uses holiday calendar us-federal');
+        });
+
+        it('should reject business hours that end before they start', () => {
+            expect(() => pack({ businessHours: { start: '17:00', end: '08:00' } })).toThrow('end after they start');
+        });
+
+        it('should reject a zero routine interval', () => {
+            expect(() => pack({ routine: { every: 0, unit: 'calendar_days' } })).toThrow('positive whole number');
+        });
+    });
+
+    it('should key packs by id and version', () => {
+        expect(pack().key).toBe('test-pack@2024-01-01');
+    });
+
+    it('should treat weekends and holidays as non-business days', () => {
+        const rules = pack();
+
+        expect(rules.isBusinessDay(new Date('2025-06-06T12:00:00Z'))).toBe(true);   // Friday
+        expect(rules.isBusinessDay(new Date('2025-06-07T12:00:00Z'))).toBe(false);  // Saturday
+        expect(rules.isBusinessDay(new Date('2025-07-04T12:00:00Z'))).toBe(false);  // holiday
+    });
+
+    describe('getStormInspectionDeadline', () => {
+        it('should add the deadline hours when they end on a business day', () => {
+            const deadline = pack().getStormInspectionDeadline(new Date('2025-06-04T15:00:00Z'));
+
+            expect(deadline.toISOString()).toBe('2025-06-05T15:00:00.000Z');
+        });
+
+        it('should roll a weekend deadline to the end of the next business day', () => {
+            const deadline = pack().getStormInspectionDeadline(new Date('2025-06-06T15:00:00Z'));
+
+            expect(deadline.toISOString()).toBe('2025-06-09T23:59:59.999Z');
+        });
+
+        it('should roll a holiday deadline past the weekend', () => {
+            const deadline = pack().getStormInspectionDeadline(new Date('2025-07-03T10:00:00Z'));
+
+            expect(deadline.toISOString()).toBe('2025-07-07T23:59:59.999Z');
+        });
+
+        it('should keep a weekend deadline when rolling is off', () => {
+            const rules = pack({
+                stormInspection: { qualifyingRainfallInches: 0.25, deadline: { type: 'hours', hours: 24 } },
+            });
+
+            expect(rules.getStormInspectionDeadline(new Date('2025-06-06T15:00:00Z')).toISOString())
+                .toBe('2025-06-07T15:00:00.000Z');
+        });
+
+        it('should count business days after the storm', () => {
+            const rules = pack({
+                stormInspection: { qualifyingRainfallInches: 0.5, deadline: { type: 'business_days', businessDays: 2 } },
+            });
+
+            expect(rules.getStormInspectionDeadline(new Date('2025-06-06T15:00:00Z')).toISOString())
+                .toBe('2025-06-10T23:59:59.999Z');
+        });
+
+        it('should throw for packs without storm inspections', () => {
+            expect(() => pack({ stormInspection: null }).getStormInspectionDeadline(new Date()))
+                .toThrow('does not require storm inspections');
+        });
+    });
+
+    describe('winter exemption', () => {
+        it('should apply across the new year only on frozen ground', () => {
+            const rules = pack();
+
+            expect(rules.isWinterExempt(new Date('2025-12-15T12:00:00Z'), { frozenGround: true })).toBe(true);
+            expect(rules.isWinterExempt(new Date('2026-03-31T12:00:00Z'), { frozenGround: true })).toBe(true);
+            expect(rules.isWinterExempt(new Date('2026-04-01T12:00:00Z'), { frozenGround: true })).toBe(false);
+            expect(rules.isWinterExempt(new Date('2025-12-15T12:00:00Z'), { frozenGround: false })).toBe(false);
+        });
+
+        it('should suspend storm inspections while exempt', () => {
+            const rules = pack();
+            const stormEnd = new Date('2026-01-10T12:00:00Z');
+
+            expect(rules.requiresStormInspection(stormEnd, { frozenGround: true })).toBe(false);
+            expect(rules.requiresStormInspection(stormEnd, { frozenGround: false })).toBe(true);
+        });
+
+        it('should switch to the winter routine frequency', () => {
+            const due = pack().getNextRoutineInspectionDue(new Date('2026-01-10T12:00:00Z'), { frozenGround: true });
+
+            expect(due?.toISOString()).toBe('2026-02-09T12:00:00.000Z');
+        });
+
+        it('should report no routine due date when winter inspections are suspended', () => {
+            const rules = pack({
+                winterExemption: {
+                    from: '11-01',
+                    to: '03-31',
+                    requiresFrozenGround: true,
+                    routine: null,
+                    stormInspections: false,
+                },
+            });
+
+            expect(rules.getNextRoutineInspectionDue(new Date('2026-01-10T12:00:00Z'), { frozenGround: true })).toBeNull();
+        });
+    });
+
+    describe('getNextRoutineInspectionDue', () => {
+        it('should add calendar days', () => {
+            const due = pack().getNextRoutineInspectionDue(new Date('2025-06-06T09:00:00Z'));
+
+            expect(due?.toISOString()).toBe('2025-06-20T09:00:00.000Z');
+        });
+
+        it('should count business days to the end of the due day', () => {
+            const rules = pack({ routine: { every: 5, unit: 'business_days' } });
+
+            expect(rules.getNextRoutineInspectionDue(new Date('2025-06-30T09:00:00Z'))?.toISOString())
+                .toBe('2025-07-08T23:59:59.999Z');
+        });
+    });
+
+    describe('in the site time zone', () => {
+        const newYork = { timeZone: 'America/New_York' };
+
+        it('should roll to the local close of business', () => {
+            const rules = pack({ businessHours: { start: '08:00', end: '17:00' } });
+
+            // Thu 20:00 EDT + 24h = Fri 20:00 EDT, after hours -> Mon 17:00 EDT
+            expect(rules.getStormInspectionDeadline(new Date('2025-06-06T00:00:00Z'), newYork).toISOString())
+                .toBe('2025-06-09T21:00:00.000Z');
+        });
+
+        it('should roll a deadline before opening to that day\'s close', () => {
+            const rules = pack({ businessHours: { start: '08:00', end: '17:00' } });
+
+            // Mon 02:00 EDT -> Tue 02:00 EDT, before opening -> Tue 17:00 EDT
+            expect(rules.getStormInspectionDeadline(new Date('2025-06-09T06:00:00Z'), newYork).toISOString())
+                .toBe('2025-06-10T21:00:00.000Z');
+        });
+
+        it('should use the local date for weekends', () => {
+            // Friday 22:00 EDT is already Saturday in UTC
+            const fridayNight = new Date('2025-06-07T02:00:00Z');
+
+            expect(pack().isBusinessDay(fridayNight, newYork)).toBe(true);
+            expect(pack().isBusinessDay(fridayNight)).toBe(false);
+        });
+
+        it('should keep local time for calendar-day routine inspections across DST', () => {
+            // 09:00 EST on Mar 1 -> 09:00 EDT on Mar 15 (one hour less elapsed)
+            const due = pack().getNextRoutineInspectionDue(new Date('2026-03-01T14:00:00Z'), newYork);
+
+            expect(due?.toISOString()).toBe('2026-03-15T13:00:00.000Z');
+        });
+
+        it('should let the site calendar replace the pack holidays', () => {
+            const none = HolidayCalendar.empty();
+
+            expect(pack().isBusinessDay(new Date('2025-07-04T16:00:00Z'), { ...newYork, holidays: none })).toBe(true);
+        });
+    });
+
+    it('should expose storm rules as a weather inspection policy', () => {
+        const policy = pack().toInspectionPolicy({ frozenGround: true });
+
+        expect(policy.qualifyingRainfallInches).toBe(0.25);
+        expect(policy.requiresStormInspection(new Date('2026-01-10T12:00:00Z'))).toBe(false);
+        expect(policy.getStormInspectionDeadline(new Date('2025-06-04T15:00:00Z')).toISOString())
+            .toBe('2025-06-05T15:00:00.000Z');
+    });
+});
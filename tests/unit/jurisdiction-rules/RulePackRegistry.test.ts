@@ -0,0 +1,61 @@
+/**
+ * RulePackRegistry Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RulePackRegistry } from '../../../src/lib/jurisdiction-rules/domain/services/RulePackRegistry';
+import type { JurisdictionRulePackProps } from '../../../src/lib/jurisdiction-rules/domain/entities/JurisdictionRulePack';
+import { BUILT_IN_RULE_PACKS } from '../../../src/lib/jurisdiction-rules/infrastructure/builtInRulePacks';
+import { BUILT_IN_HOLIDAY_CALENDARS } from '../../../src/lib/jurisdiction-rules/infrastructure/builtInHolidayCalendars';
+
+const calendars = [{ id: 'state', name: 'State holidays', rules: [] }];
+
+const v2019: JurisdictionRulePackProps = {
+    id: 'state-cgp',
+    version: '2019-07-01',
+    name: 'State CGP',
+    authority: 'State DEQ',
+    routine: { every: 7, unit: 'calendar_days' },
+    stormInspection: null,
+    holidayCalendar: 'state',
+};
+const v2024: JurisdictionRulePackProps = { ...v2019, version: '2024-07-01', routine: { every: 5, unit: 'business_days' } };
+
+describe('RulePackRegistry', () => {
+    it('should resolve the latest version when none is pinned', () => {
+        const registry = new RulePackRegistry([v2019, v2024], calendars);
+
+        expect(registry.resolve('state-cgp').version).toBe('2024-07-01');
+        expect(registry.resolve('state-cgp', '2019-07-01').routine.every).toBe(7);
+    });
+
+    it('should list the latest version of each pack', () => {
+        const registry = new RulePackRegistry([v2024, v2019], calendars);
+
+        expect(registry.list().map(p => p.key)).toEqual(['state-cgp@2024-07-01']);
+        expect(registry.getVersions('state-cgp').map(p => p.version)).toEqual(['2024-07-01', '2019-07-01']);
+    });
+
+    it('should reject unknown packs and versions', () => {
+        const registry = new RulePackRegistry([v2019], calendars);
+
+        expect(() => registry.resolve('other')).toThrow('Unknown rule pack: other');
+        expect(() => registry.resolve('state-cgp', '2030-01-01')).toThrow('Unknown version 2030-01-01');
+    });
+
+    it('should reject duplicate versions', () => {
+        expect(() => new RulePackRegistry([v2019, v2019], calendars)).toThrow('Duplicate rule pack version');
+    });
+
+    it('should reject packs that reference an unknown holiday calendar', () => {
+        expect(() => new RulePackRegistry([v2019])).toThrow('Unknown holiday calendar: state');
+    });
+
+    it('should load the built-in packs', () => {
+        const registry = new RulePackRegistry(BUILT_IN_RULE_PACKS, BUILT_IN_HOLIDAY_CALENDARS);
+
+        expect(registry.resolve('epa-cgp-14day-storm').stormInspection?.qualifyingRainfallInches).toBe(0.25);
+        expect(registry.resolve('va-vsmp-5bd').routine).toEqual({ every: 5, unit: 'business_days' });
+        expect(registry.resolve('va-vsmp-5bd').holidayCalendar.id).toBe('us-va');
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * JsonLinesInspectionRepository Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { JsonLinesInspectionRepository } from '../../../src/lib/photo-inspection/infrastructure/JsonLinesInspectionRepository';
+import { InspectionPhoto } from '../../../src/lib/photo-inspection/domain/entities/InspectionPhoto';
+import { BMPDefect } from '../../../src/lib/photo-inspection/domain/entities/BMPDefect';
+import type { AnalysisResult } from '../../../src/lib/photo-inspection/domain/services/DefectDetectionService';
+
+describe('JsonLinesInspectionRepository', () => {
+    let filePath: string;
+
+    const createResult = (
+        id: string,
+        overrides: { siteId?: string; inspectorId?: string; capturedAt?: Date; compliant?: boolean } = {}
+    ): AnalysisResult => {
+        const photo = InspectionPhoto.create({
+            id,
+            siteId: overrides.siteId ?? 'site-001',
+            inspectorId: overrides.inspectorId ?? 'insp-001',
+            capturedAt: overrides.capturedAt ?? new Date('2026-01-10T10:00:00Z'),
+            imageUrl: 'https://example.com/photo.jpg',
+            gpsCoordinates: { latitude: 37.5, longitude: -77.4, accuracy: 3 },
+            analysisStatus: 'pending',
+        });
+        photo.completeAnalysis();
+
+        const compliant = overrides.compliant ?? true;
+        return {
+            photo,
+            defects: compliant ? [] : [BMPDefect.create({
+                id: `${id}-defect`,
+                inspectionId: id,
+                defectClass: 'silt_fence_tear',
+                confidence: 0.92,
+                severity: 'high',
+                boundingBox: { x: 1, y: 2, width: 3, height: 4 },
+                recommendedAction: BMPDefect.getDefaultAction('silt_fence_tear'),
+                detectedAt: new Date('2026-01-10T10:00:05Z'),
+            })],
+            isCompliant: compliant,
+            requiresManualReview: false,
+            processingTimeMs: 120,
+        };
+    };
+
+    beforeEach(() => {
+        filePath = path.join(mkdtempSync(path.join(tmpdir(), 'escacs-inspections-')), 'inspections.jsonl');
+    });
+
+    it('should persist results across repository instances', async () => {
+        await new JsonLinesInspectionRepository(filePath).save(createResult('photo-1', { compliant: false }));
+
+        const loaded = await new JsonLinesInspectionRepository(filePath).findById('photo-1');
+
+        expect(loaded?.photo.siteId).toBe('site-001');
+        expect(loaded?.photo.analysisStatus).toBe('completed');
+        expect(loaded?.photo.gpsCoordinates?.accuracy).toBe(3);
+        expect(loaded?.defects[0].defectClass).toBe('silt_fence_tear');
+        expect(loaded?.defects[0].detectedAt).toBeInstanceOf(Date);
+        expect(loaded?.processingTimeMs).toBe(120);
+    });
+
+    it('should return null for unknown id', async () => {
+        const repository = new JsonLinesInspectionRepository(filePath);
+        expect(await repository.findById('missing')).toBeNull();
+    });
+
+    it('should filter by site, inspector and compliance', async () => {
+        const repository = new JsonLinesInspectionRepository(filePath);
+        await repository.save(createResult('photo-1'));
+        await repository.save(createResult('photo-2', { siteId: 'site-002' }));
+        await repository.save(createResult('photo-3', { inspectorId: 'insp-002', compliant: false }));
+
+        expect(await repository.find({ siteId: 'site-002' })).toHaveLength(1);
+        expect(await repository.find({ inspectorId: 'insp-002' })).toHaveLength(1);
+        expect((await repository.find({ isCompliant: false }))[0].photo.id).toBe('photo-3');
+    });
+
+    it('should filter by capture date range, newest first', async () => {
+        const repository = new JsonLinesInspectionRepository(filePath);
+        await repository.save(createResult('photo-1', { capturedAt: new Date('2026-01-01T00:00:00Z') }));
+        await repository.save(createResult('photo-2', { capturedAt: new Date('2026-01-05T00:00:00Z') }));
+        await repository.save(createResult('photo-3', { capturedAt: new Date('2026-01-09T00:00:00Z') }));
+
+        const results = await repository.find({
+            capturedFrom: new Date('2026-01-02T00:00:00Z'),
+            capturedTo: new Date('2026-01-10T00:00:00Z'),
+        });
+
+        expect(results.map(r => r.photo.id)).toEqual(['photo-3', 'photo-2']);
+    });
+});
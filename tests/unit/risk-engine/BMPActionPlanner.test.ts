@@ -0,0 +1,65 @@
+/**
+ * Unit tests for BMPActionPlanner
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BMPActionPlanner, type BMPInventoryItem } from '@/lib/risk-engine';
+
+describe('BMPActionPlanner', () => {
+    const planner = new BMPActionPlanner();
+
+    const bmp = (overrides: Partial<BMPInventoryItem>): BMPInventoryItem => ({
+        type: 'silt_fence',
+        count: 1,
+        lastInspectionDate: new Date('2026-03-01T00:00:00Z'),
+        conditionRating: 'poor',
+        ...overrides,
+    });
+
+    describe('planRepairs', () => {
+        it('should name the BMP type, count and location', () => {
+            const [repair] = planner.planRepairs([bmp({ count: 3, location: 'north perimeter' })]);
+
+            expect(repair).toEqual({ action: 'Replace 3 poor silt fence segments on north perimeter', estimatedTimeHours: 1.5 });
+        });
+
+        it('should list the largest repairs first and skip empty entries', () => {
+            const repairs = planner.planRepairs([
+                bmp({ type: 'check_dam', count: 1 }),
+                bmp({ type: 'inlet_protection', count: 4 }),
+                bmp({ count: 0 }),
+            ]);
+
+            expect(repairs.map(r => r.action)).toEqual([
+                'Replace 4 poor inlet protectors',
+                'Replace 1 poor check dam',
+            ]);
+        });
+
+        it('should describe unknown BMP types from their type and cap the hours', () => {
+            const [repair] = planner.planRepairs([bmp({ type: 'wattle_barrier', count: 40 })]);
+
+            expect(repair).toEqual({ action: 'Replace 40 poor wattle barrier BMPs', estimatedTimeHours: 8 });
+        });
+    });
+
+    describe('planInspections', () => {
+        it('should plan inspections since the last storm', () => {
+            const [inspection] = planner.planInspections([bmp({ count: 1, conditionRating: 'good', location: 'east swale' })]);
+
+            expect(inspection).toEqual({
+                action: 'Inspect 1 silt fence segment on east swale not checked since the last storm',
+                estimatedTimeHours: 0.5,
+            });
+        });
+    });
+
+    describe('planInstall', () => {
+        it('should plan installing new BMPs', () => {
+            expect(planner.planInstall(bmp({ type: 'inlet_protection', count: 4, conditionRating: 'good' }))).toEqual({
+                action: 'Install 4 inlet protectors',
+                estimatedTimeHours: 2,
+            });
+        });
+    });
+});
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for PortfolioRiskService
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    DEFAULT_RISK_MODEL,
+    InMemoryRiskScoreRepository,
+    PortfolioRiskService,
+    RiskHistoryService,
+    RiskCalculationService,
+    RiskModel,
+    SiteCondition,
+    type IPortfolioSitePort,
+    type PortfolioSite,
+    type WeatherInput
+} from '@/lib/risk-engine';
+
+class FakePortfolioSites implements IPortfolioSitePort {
+    weatherRequests: string[] = [];
+    weatherTimes: Date[] = [];
+
+    constructor(
+        public sites: PortfolioSite[],
+        private readonly weather: Record<string, WeatherInput>
+    ) {}
+
+    async listActiveSites(): Promise<PortfolioSite[]> {
+        return this.sites;
+    }
+
+    async getWeather(siteId: string, now: Date): Promise<WeatherInput> {
+        this.weatherRequests.push(siteId);
+        this.weatherTimes.push(now);
+        const weather = this.weather[siteId];
+        if (!weather) throw new Error('Forecast unavailable');
+        return weather;
+    }
+}
+
+describe('PortfolioRiskService', () => {
+    const model = RiskModel.create(DEFAULT_RISK_MODEL);
+    const now = new Date('2026-03-10T06:00:00Z');
+    let history: RiskHistoryService;
+
+    const createSite = (siteId: string, overrides: Partial<PortfolioSite> = {}, condition = {}): PortfolioSite => ({
+        siteCondition: SiteCondition.create({
+            siteId,
+            phase: 'grading',
+            slopePercent: 10,
+            soilType: 'clay',
+            acreage: 5,
+            daysSinceLastInspection: 2,
+            bmpInventory: [],
+            historicalNOVCount: 0,
+            observedAt: now,
+            ...condition,
+        }),
+        name: `Site ${siteId}`,
+        region: 'north',
+        contractor: 'Acme',
+        model,
+        ...overrides,
+    });
+
+    const rain = (inches: number): WeatherInput => ({
+        precipitationInchesNext24h: inches / 2,
+        precipitationInchesNext48h: inches,
+        precipitationInchesNext72h: inches,
+        source: 'provider_forecast',
+    });
+
+    beforeEach(() => {
+        history = new RiskHistoryService(new InMemoryRiskScoreRepository());
+    });
+
+    it('should rank sites by score and record the new scores', async () => {
+        const sites = new FakePortfolioSites(
+            [createSite('dry'), createSite('wet'), createSite('paved', {}, { phase: 'paving' })],
+            { dry: rain(0), wet: rain(1.2), paved: rain(0) }
+        );
+
+        const portfolio = await new PortfolioRiskService(sites, history).rankPortfolio({}, now);
+
+        expect(portfolio.sites.map(s => [s.rank, s.siteId])).toEqual([[1, 'wet'], [2, 'dry'], [3, 'paved']]);
+        expect(portfolio.sites.every(s => !s.reused)).toBe(true);
+        expect((await history.getHistory('wet')).scores).toHaveLength(1);
+    });
+
+    it('should request every forecast for the ranking time', async () => {
+        const sites = new FakePortfolioSites([createSite('wet'), createSite('dry')], { wet: rain(1.2), dry: rain(0) });
+
+        await new PortfolioRiskService(sites, history).rankPortfolio({}, now);
+
+        expect(sites.weatherTimes).toEqual([now, now]);
+    });
+
+    it('should reuse an unexpired score unless the site has changed', async () => {
+        const sites = new FakePortfolioSites([createSite('wet'), createSite('dry')], { wet: rain(1.2), dry: rain(0) });
+        const service = new PortfolioRiskService(sites, history);
+        await service.rankPortfolio({}, now);
+
+        sites.sites = [createSite('wet'), createSite('dry', {}, { phase: 'stabilization' })];
+        sites.weatherRequests = [];
+        const portfolio = await service.rankPortfolio({}, new Date(now.getTime() + 60 * 60 * 1000));
+
+        expect(portfolio.sites.find(s => s.siteId === 'wet')?.reused).toBe(true);
+        expect(portfolio.sites.find(s => s.siteId === 'dry')?.reused).toBe(false);
+        expect(sites.weatherRequests).toEqual(['dry']);
+    });
+
+    it('should not reuse scores calculated from supplied rain', async () => {
+        const sites = new FakePortfolioSites([createSite('wet')], { wet: rain(1.2) });
+        const supplied = new RiskCalculationService().calculateRisk(
+            { siteCondition: createSite('wet').siteCondition, weather: { ...rain(0), source: undefined } },
+            48,
+            model
+        );
+        await history.record([supplied]);
+
+        const portfolio = await new PortfolioRiskService(sites, history).rankPortfolio({}, new Date());
+
+        expect(supplied.weatherSource).toBe('supplied');
+        expect(portfolio.sites[0].reused).toBe(false);
+        expect(portfolio.sites[0].riskScore.weatherSource).toBe('provider_forecast');
+        expect(sites.weatherRequests).toEqual(['wet']);
+    });
+
+    it('should aggregate by region, contractor and phase', async () => {
+        const sites = new FakePortfolioSites(
+            [
+                createSite('a'),
+                createSite('b', { region: 'south', contractor: null }),
+                createSite('c', {}, { phase: 'paving' }),
+            ],
+            { a: rain(1.2), b: rain(0), c: rain(0) }
+        );
+
+        const portfolio = await new PortfolioRiskService(sites, history).rankPortfolio({}, now);
+
+        expect(portfolio.byRegion.map(g => [g.key, g.siteCount])).toEqual([['north', 2], ['south', 1]]);
+        expect(portfolio.byContractor.map(g => g.key)).toEqual(['Acme', 'unassigned']);
+        expect(portfolio.byPhase.find(g => g.key === 'grading')?.levels.high).toBe(1);
+    });
+
+    it('should combine the preventive actions with crew hours', async () => {
+        const sites = new FakePortfolioSites([createSite('a'), createSite('b')], { a: rain(1.2), b: rain(0) });
+
+        const portfolio = await new PortfolioRiskService(sites, history).rankPortfolio({}, now);
+
+        expect(portfolio.actions).toHaveLength(6);
+        expect(portfolio.actions[0]).toMatchObject({ siteId: 'a', siteRank: 1, priority: 1 });
+        expect(portfolio.totalCrewHours).toBe(portfolio.actions.reduce((total, a) => total + a.estimatedTimeHours, 0));
+        expect(portfolio.byRegion[0].crewHours).toBe(portfolio.totalCrewHours);
+    });
+
+    it('should list sites without a forecast as unavailable', async () => {
+        const sites = new FakePortfolioSites([createSite('a'), createSite('b')], { a: rain(0) });
+
+        const portfolio = await new PortfolioRiskService(sites, history).rankPortfolio({}, now);
+
+        expect(portfolio.sites.map(s => s.siteId)).toEqual(['a']);
+        expect(portfolio.unavailable).toEqual([{ siteId: 'b', name: 'Site b', error: 'Forecast unavailable' }]);
+    });
+
+    it('should filter by region and contractor', async () => {
+        const sites = new FakePortfolioSites(
+            [createSite('a'), createSite('b', { region: 'south' })],
+            { a: rain(0), b: rain(0) }
+        );
+
+        const portfolio = await new PortfolioRiskService(sites, history).rankPortfolio({ region: 'south' }, now);
+
+        expect(portfolio.sites.map(s => s.siteId)).toEqual(['b']);
+    });
+});
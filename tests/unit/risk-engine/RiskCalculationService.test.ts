@@ -4,8 +4,12 @@
 
 import { describe, it, expect } from 'vitest';
 import {
+    DEFAULT_RISK_MODEL,
+    DEFAULT_RISK_MODEL_V1,
     RiskCalculationService,
+    RiskModel,
     SiteCondition,
+    type BMPInventoryItem,
     type WeatherInput
 } from '@/lib/risk-engine';
 
@@ -84,6 +88,158 @@ describe('RiskCalculationService', () => {
         });
     });
 
+    describe('risk models', () => {
+        it('should keep scoring with the original weights under model v1', () => {
+            const siteCondition = createSiteCondition({ slopePercent: 15, soilType: 'sandy' });
+            const weather = createWeather({ precipitationInchesNext48h: 1.2 });
+
+            const result = service.calculateRisk({ siteCondition, weather }, 48, RiskModel.create(DEFAULT_RISK_MODEL_V1));
+
+            // 20 slope (capped) + 15 sandy + 15 grading + 4 inspection + 30 rain (capped)
+            expect(result.score).toBe(84);
+            expect(result.factors.map(f => f.name)).toEqual([
+                'steep_slope', 'erodible_soil', 'high_risk_phase', 'heavy_rain_forecast',
+            ]);
+            expect(result.factors[3].description).toBe('1.20" precipitation forecast');
+        });
+
+        it('should score estimated soil loss instead of sandy soil', () => {
+            const weather = createWeather({ precipitationInchesNext48h: 1.2 });
+            const siltLoam = service.calculateRisk({
+                siteCondition: createSiteCondition({ slopePercent: 15, soilType: 'loam', soilTexture: 'silt_loam' }),
+                weather,
+            });
+            const sandy = service.calculateRisk({
+                siteCondition: createSiteCondition({ slopePercent: 15, soilType: 'sandy' }),
+                weather,
+            });
+
+            expect(siltLoam.model).toEqual({ id: 'escacs-default', version: 3 });
+            expect(siltLoam.inputs.soilLossTonsPerAcre).toBeGreaterThan(sandy.inputs.soilLossTonsPerAcre);
+            expect(siltLoam.score).toBeGreaterThan(sandy.score);
+            expect(siltLoam.factors.map(f => f.name)).toContain('soil_loss');
+            expect(sandy.factors.map(f => f.name)).not.toContain('erodible_soil');
+        });
+
+        it('should record the model version and inputs on the score', () => {
+            const siteCondition = createSiteCondition({ historicalNOVCount: 2 });
+            const weather = createWeather({ precipitationInchesNext24h: 0.3, precipitationInchesNext48h: 0.6 });
+
+            const result = service.calculateRisk({ siteCondition, weather }, 24);
+
+            expect(result.model).toEqual({ id: 'escacs-default', version: 3 });
+            expect(result.inputs).toEqual({
+                slopePercent: 10,
+                soilType: 'clay',
+                phase: 'grading',
+                acreage: 5,
+                daysSinceLastInspection: 2,
+                historicalNOVCount: 2,
+                precipitationInches: 0.3,
+                soilLossTonsPerAcre: 0,
+                poorBmpCount: 0,
+                staleBmpCount: 0,
+            });
+        });
+
+        it('should reproduce a score from its recorded inputs', () => {
+            const siteCondition = createSiteCondition({ slopePercent: 12, daysSinceLastInspection: 9 });
+            const original = service.calculateRisk({ siteCondition, weather: createWeather({ precipitationInchesNext48h: 0.8 }) });
+
+            const reproduced = service.calculateFromInputs(original.siteId, original.inputs, original.horizonHours);
+
+            expect(reproduced.score).toBe(original.score);
+            expect(reproduced.factors).toEqual(original.factors);
+            expect(reproduced.actions).toEqual(original.actions);
+        });
+
+        it('should apply the weights and level thresholds of the given model', () => {
+            const strict = RiskModel.create({
+                ...DEFAULT_RISK_MODEL,
+                id: 'strict',
+                factors: DEFAULT_RISK_MODEL.factors.map(f => (f.name === 'steep_slope' ? { ...f, weight: 3, cap: 40 } : f)),
+                levels: { moderate: 20, high: 40, critical: 70 },
+            });
+            const siteCondition = createSiteCondition({ slopePercent: 10, phase: 'paving', daysSinceLastInspection: 0 });
+
+            const result = service.calculateRisk({ siteCondition, weather: createWeather() }, 48, strict);
+
+            expect(result.score).toBe(30);
+            expect(result.level).toBe('moderate');
+            expect(result.model).toEqual({ id: 'strict', version: 3 });
+        });
+    });
+
+    describe('BMP condition', () => {
+        const stormEnd = new Date('2026-03-10T12:00:00Z');
+        const bmp = (overrides: Partial<BMPInventoryItem>): BMPInventoryItem => ({
+            type: 'silt_fence',
+            count: 1,
+            lastInspectionDate: new Date('2026-03-11T08:00:00Z'),
+            conditionRating: 'good',
+            ...overrides,
+        });
+
+        it('should score degraded and stale BMPs', () => {
+            const siteCondition = createSiteCondition({
+                lastStormEndedAt: stormEnd,
+                bmpInventory: [
+                    bmp({ count: 3, conditionRating: 'poor', location: 'north perimeter' }),
+                    bmp({ type: 'inlet_protection', count: 2, lastInspectionDate: new Date('2026-03-01T08:00:00Z') }),
+                    bmp({ type: 'check_dam' }),
+                ],
+            });
+
+            const result = service.calculateRisk({ siteCondition, weather: createWeather() });
+
+            expect(result.inputs).toMatchObject({ poorBmpCount: 1, staleBmpCount: 1 });
+            expect(result.factors).toContainEqual({ name: 'degraded_bmps', contribution: 5, description: '1 BMPs in poor condition' });
+            expect(result.factors).toContainEqual({ name: 'stale_bmps', contribution: 3, description: '1 BMPs not inspected since the last storm' });
+        });
+
+        it('should put BMP repairs ahead of the generic actions', () => {
+            const siteCondition = createSiteCondition({
+                bmpInventory: [bmp({ count: 3, conditionRating: 'poor', location: 'north perimeter' })],
+            });
+
+            const result = service.calculateRisk({
+                siteCondition,
+                weather: createWeather({ precipitationInchesNext48h: 1.2 }),
+            });
+
+            expect(result.actions[0]).toEqual({
+                action: 'Replace 3 poor silt fence segments on north perimeter',
+                priority: 1,
+                estimatedTimeHours: 1.5,
+            });
+            expect(result.actions[1].action).toBe('Deploy additional inlet protection');
+        });
+
+        it('should plan inspections of BMPs not checked since the last storm', () => {
+            const siteCondition = createSiteCondition({
+                phase: 'paving',
+                lastStormEndedAt: stormEnd,
+                bmpInventory: [bmp({ type: 'inlet_protection', count: 4, lastInspectionDate: new Date('2026-03-01T08:00:00Z') })],
+            });
+
+            const result = service.calculateRisk({ siteCondition, weather: createWeather() });
+
+            expect(result.actions.map(a => a.action)).toContain('Inspect 4 inlet protectors not checked since the last storm');
+        });
+
+        it('should leave BMP-specific actions out when reproducing from inputs', () => {
+            const siteCondition = createSiteCondition({
+                bmpInventory: [bmp({ count: 3, conditionRating: 'poor' })],
+            });
+            const original = service.calculateRisk({ siteCondition, weather: createWeather() });
+
+            const reproduced = service.calculateFromInputs(original.siteId, original.inputs, original.horizonHours);
+
+            expect(reproduced.score).toBe(original.score);
+            expect(reproduced.actions.map(a => a.action)).not.toContain(original.actions[0].action);
+        });
+    });
+
     describe('calculateForecast', () => {
         it('should return scores for 24, 48, and 72 hour horizons', () => {
             const siteCondition = createSiteCondition();
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for RiskHistoryService
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync, readdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+    InMemoryRiskScoreRepository,
+    JsonLinesRiskScoreRepository,
+    RiskHistoryService,
+    RiskScore,
+    type RiskInputs,
+    type RiskScoreProps
+} from '@/lib/risk-engine';
+
+describe('RiskHistoryService', () => {
+    let history: RiskHistoryService;
+
+    const inputs: RiskInputs = {
+        slopePercent: 10,
+        soilType: 'clay',
+        phase: 'grading',
+        acreage: 5,
+        daysSinceLastInspection: 2,
+        historicalNOVCount: 0,
+        precipitationInches: 0.2,
+        soilLossTonsPerAcre: 0,
+        poorBmpCount: 0,
+        staleBmpCount: 0,
+    };
+
+    const createScore = (overrides: Partial<Omit<RiskScoreProps, 'level' | 'expiresAt'>> = {}) => RiskScore.create({
+        id: crypto.randomUUID(),
+        siteId: 'site-001',
+        score: 34,
+        factors: [
+            { name: 'high_risk_phase', contribution: 15, description: 'grading phase has increased disturbance' },
+            { name: 'steep_slope', contribution: 15, description: 'Slope of 10% increases erosion risk' },
+        ],
+        actions: [],
+        horizonHours: 48,
+        model: { id: 'escacs-default', version: 3 },
+        inputs,
+        calculatedAt: new Date('2026-03-02T08:00:00Z'),
+        ...overrides,
+    });
+
+    const rainyWeek = () => createScore({
+        score: 69,
+        factors: [
+            { name: 'high_risk_phase', contribution: 15, description: 'grading phase has increased disturbance' },
+            { name: 'steep_slope', contribution: 15, description: 'Slope of 10% increases erosion risk' },
+            { name: 'rain_forecast', contribution: 30, description: '1.20" precipitation forecast' },
+        ],
+        inputs: { ...inputs, precipitationInches: 1.2, soilLossTonsPerAcre: 0.8 },
+        calculatedAt: new Date('2026-03-09T08:00:00Z'),
+    });
+
+    beforeEach(() => {
+        history = new RiskHistoryService(new InMemoryRiskScoreRepository());
+    });
+
+    describe('getHistory', () => {
+        it('should list scores oldest first with the trend', async () => {
+            await history.record([rainyWeek(), createScore()]);
+
+            const result = await history.getHistory('site-001');
+
+            expect(result.scores.map(s => s.score)).toEqual([34, 69]);
+            expect(result.trend).toEqual({ direction: 'rising', change: 35, minScore: 34, maxScore: 69 });
+        });
+
+        it('should filter by time and horizon', async () => {
+            await history.record([createScore(), rainyWeek(), createScore({ horizonHours: 24 })]);
+
+            expect((await history.getHistory('site-001', { since: new Date('2026-03-05T00:00:00Z') })).scores).toHaveLength(1);
+            expect((await history.getHistory('site-001', { horizonHours: 24 })).scores).toHaveLength(1);
+            expect((await history.getHistory('site-002')).trend).toBeNull();
+        });
+    });
+
+    describe('explainChange', () => {
+        it('should compare the latest score with the one a week earlier', async () => {
+            await history.record([
+                createScore({ calculatedAt: new Date('2026-03-01T08:00:00Z'), score: 20 }),
+                createScore(),
+                createScore({ calculatedAt: new Date('2026-03-05T08:00:00Z'), score: 40 }),
+                rainyWeek(),
+            ]);
+
+            const change = await history.explainChange('site-001');
+
+            expect(change?.from.calculatedAt.toISOString()).toBe('2026-03-02T08:00:00.000Z');
+            expect(change?.scoreChange).toBe(35);
+            expect(change?.levelChange).toEqual({ before: 'moderate', after: 'high' });
+            expect(change?.factorChanges).toEqual([
+                { name: 'rain_forecast', before: 0, after: 30, change: 30, description: '1.20" precipitation forecast' },
+            ]);
+            expect(change?.inputChanges).toEqual([
+                { input: 'precipitationInches', before: 0.2, after: 1.2 },
+                { input: 'soilLossTonsPerAcre', before: 0, after: 0.8 },
+            ]);
+            expect(change?.unlistedChange).toBe(5);
+            expect(change?.modelChange).toBeNull();
+        });
+
+        it('should compare the given scores and report a model change', async () => {
+            const before = createScore({ model: { id: 'escacs-default', version: 2 } });
+            const after = rainyWeek();
+            await history.record([before, after, createScore({ calculatedAt: new Date('2026-03-10T08:00:00Z') })]);
+
+            const change = await history.explainChange('site-001', { fromId: before.id, toId: after.id });
+
+            expect(change?.to.id).toBe(after.id);
+            expect(change?.modelChange).toEqual({
+                before: { id: 'escacs-default', version: 2 },
+                after: { id: 'escacs-default', version: 3 },
+            });
+        });
+
+        it('should return null without two scores and reject unknown ids', async () => {
+            await history.record([createScore()]);
+
+            expect(await history.explainChange('site-001')).toBeNull();
+            await expect(history.explainChange('site-001', { toId: 'missing' })).rejects.toThrow('Unknown risk score: missing');
+        });
+    });
+
+    describe('file-backed persistence', () => {
+        it('should restore scores as calculated', async () => {
+            const directory = path.join(mkdtempSync(path.join(tmpdir(), 'escacs-risk-')), 'risk-scores');
+            const score = rainyWeek();
+            await new RiskHistoryService(new JsonLinesRiskScoreRepository(directory)).record([score]);
+
+            const { scores } = await new RiskHistoryService(new JsonLinesRiskScoreRepository(directory)).getHistory('site-001');
+
+            expect(scores[0].toProps()).toEqual(score.toProps());
+        });
+
+        it('should keep each site in its own file', async () => {
+            const directory = path.join(mkdtempSync(path.join(tmpdir(), 'escacs-risk-')), 'risk-scores');
+            const repository = new JsonLinesRiskScoreRepository(directory);
+            const score = rainyWeek();
+            await repository.append([score, createScore({ siteId: 'site/002' })]);
+
+            expect(readdirSync(directory).sort()).toEqual(['site%2F002.jsonl', 'site-001.jsonl']);
+            expect(await repository.findBySite('site/002')).toHaveLength(1);
+            expect(await repository.findById('site/002', score.id)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * RiskModel Entity Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RiskModel } from '../../../src/lib/risk-engine/domain/entities/RiskModel';
+import type { RiskModelDefinition } from '../../../src/lib/risk-engine/domain/entities/RiskModel';
+import type { RiskInputs } from '../../../src/lib/risk-engine/domain/entities/RiskScore';
+
+describe('RiskModel', () => {
+    const definition: RiskModelDefinition = {
+        id: 'county-model',
+        version: 2,
+        name: 'County model',
+        appliesTo: { jurisdictions: ['King County'] },
+        factors: [
+            {
+                name: 'rain',
+                input: 'precipitationInches',
+                curve: { type: 'piecewise', points: [[0, 0], [1, 20], [2, 30]] },
+                weight: 1,
+                namesAbove: [{ above: 1, name: 'heavy_rain' }, { above: 1.5, name: 'extreme_rain' }],
+                description: '{value:1} in forecast',
+            },
+            {
+                name: 'exposed_soil',
+                input: 'soilType',
+                curve: { type: 'categorical', values: { sandy: 1, loam: 0.5 } },
+                weight: 20,
+                description: '{value} soil',
+            },
+            {
+                name: 'large_site',
+                input: 'acreage',
+                curve: { type: 'linear' },
+                weight: 2,
+                cap: 10,
+                reportAbove: 5,
+                description: '{value} acres disturbed',
+            },
+        ],
+        levels: { moderate: 20, high: 40, critical: 60 },
+    };
+
+    const inputs: RiskInputs = {
+        slopePercent: 5,
+        soilType: 'loam',
+        phase: 'paving',
+        acreage: 2,
+        daysSinceLastInspection: 1,
+        historicalNOVCount: 0,
+        precipitationInches: 1.5,
+    };
+
+    describe('evaluate', () => {
+        it('should interpolate piecewise curves and weigh categories', () => {
+            const result = RiskModel.create(definition).evaluate(inputs);
+
+            // 25 rain (between 20 and 30) + 10 loam + 4 acreage
+            expect(result.score).toBe(39);
+            expect(result.factors).toEqual([
+                { name: 'heavy_rain', contribution: 25, description: '1.5 in forecast' },
+                { name: 'exposed_soil', contribution: 10, description: 'loam soil' },
+            ]);
+        });
+
+        it('should cap contributions and use the highest exceeded name', () => {
+            const result = RiskModel.create(definition).evaluate({ ...inputs, acreage: 40, precipitationInches: 5 });
+
+            expect(result.factors.map(f => [f.name, f.contribution])).toEqual([
+                ['extreme_rain', 30],
+                ['exposed_soil', 10],
+                ['large_site', 10],
+            ]);
+        });
+
+        it('should keep the score within 0-100', () => {
+            const model = RiskModel.create({
+                ...definition,
+                factors: [{ ...definition.factors[2], weight: -5, cap: undefined }],
+            });
+
+            expect(model.evaluate(inputs).score).toBe(0);
+        });
+    });
+
+    it('should determine levels from its thresholds', () => {
+        const model = RiskModel.create(definition);
+
+        expect(model.determineLevel(39)).toBe('moderate');
+        expect(model.determineLevel(40)).toBe('high');
+        expect(model.key).toBe('county-model@2');
+    });
+
+    describe('parse', () => {
+        it('should reject unknown inputs', () => {
+            expect(() => RiskModel.parse({
+                ...definition,
+                factors: [{ ...definition.factors[0], input: 'windSpeed' }],
+            })).toThrow(/Invalid risk model: factors\.0\.input/);
+        });
+
+        it('should reject categorical curves on numeric inputs', () => {
+            expect(() => RiskModel.parse({
+                ...definition,
+                factors: [{ ...definition.factors[2], curve: { type: 'categorical', values: { big: 1 } } }],
+            })).toThrow(/Categorical curves/);
+        });
+
+        it('should reject duplicate factor names', () => {
+            expect(() => RiskModel.parse({
+                ...definition,
+                factors: [definition.factors[0], definition.factors[0]],
+            })).toThrow(/Factor names must be unique/);
+        });
+
+        it('should reject thresholds out of order', () => {
+            expect(() => RiskModel.parse({ ...definition, levels: { moderate: 50, high: 40, critical: 90 } }))
+                .toThrow(/Level thresholds must increase/);
+        });
+
+        it('should reject non-integer versions', () => {
+            expect(() => RiskModel.parse({ ...definition, version: '2' })).toThrow(/version/);
+        });
+    });
+});
@@ -0,0 +1,38 @@
+/**
+ * RiskModelRegistry Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RISK_MODEL, RiskModel, RiskModelRegistry } from '@/lib/risk-engine';
+
+describe('RiskModelRegistry', () => {
+    const model = (id: string, version: number, appliesTo?: { organizations?: string[]; jurisdictions?: string[] }) =>
+        RiskModel.create({ ...DEFAULT_RISK_MODEL, id, version, appliesTo });
+
+    const registry = new RiskModelRegistry([
+        model('escacs-default', 1),
+        model('acme', 1, { organizations: ['acme'] }),
+        model('acme', 2, { organizations: ['acme'] }),
+        model('county', 1, { jurisdictions: ['King County'], organizations: [] }),
+    ], 'escacs-default');
+
+    it('should resolve the latest version unless one is given', () => {
+        expect(registry.resolve('acme').version).toBe(2);
+        expect(registry.resolve('acme', 1).version).toBe(1);
+        expect(registry.getVersions('acme').map(m => m.version)).toEqual([2, 1]);
+        expect(() => registry.resolve('acme', 3)).toThrow('Unknown version 3 of risk model acme');
+        expect(() => registry.resolve('missing')).toThrow('Unknown risk model: missing');
+    });
+
+    it('should prefer the pinned, organization, then jurisdiction model', () => {
+        expect(registry.select({ riskModelId: 'acme', riskModelVersion: 1, organizationId: 'other' }).key).toBe('acme@1');
+        expect(registry.select({ organizationId: 'acme', jurisdiction: 'King County' }).key).toBe('acme@2');
+        expect(registry.select({ organizationId: 'other', jurisdiction: 'King County' }).key).toBe('county@1');
+        expect(registry.select({ jurisdiction: 'Elsewhere' }).key).toBe('escacs-default@1');
+    });
+
+    it('should reject duplicate versions and a missing default', () => {
+        expect(() => new RiskModelRegistry([model('a', 1), model('a', 1)], 'a')).toThrow('Duplicate risk model version: a@1');
+        expect(() => new RiskModelRegistry([model('a', 1)], 'b')).toThrow('Unknown default risk model: b');
+    });
+});
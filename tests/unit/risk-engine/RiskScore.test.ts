@@ -20,6 +20,19 @@ describe('RiskScore', () => {
             { action: 'Schedule inspection', priority: 3, estimatedTimeHours: 1 },
         ],
         horizonHours: 48 as const,
+        model: { id: 'escacs-default', version: 1 },
+        inputs: {
+            slopePercent: 15,
+            soilType: 'clay' as const,
+            phase: 'grading' as const,
+            acreage: 5,
+            daysSinceLastInspection: 3,
+            historicalNOVCount: 0,
+            precipitationInches: 1,
+            soilLossTonsPerAcre: 0.5,
+            poorBmpCount: 0,
+            staleBmpCount: 0,
+        },
         calculatedAt: new Date(),
     };
 
@@ -78,6 +91,13 @@ describe('RiskScore', () => {
             expect(RiskScore.determineLevel(59)).toBe('moderate');
             expect(RiskScore.determineLevel(29)).toBe('low');
         });
+
+        it('should use the given thresholds', () => {
+            const thresholds = { moderate: 20, high: 50, critical: 80 };
+            expect(RiskScore.determineLevel(85, thresholds)).toBe('critical');
+            expect(RiskScore.determineLevel(55, thresholds)).toBe('high');
+            expect(RiskScore.determineLevel(25, thresholds)).toBe('moderate');
+        });
     });
 
     describe('isExpired', () => {
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for RiskSimulationService
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    RiskSimulationService,
+    SiteCondition,
+    type RiskIntervention,
+    type WeatherInput
+} from '@/lib/risk-engine';
+
+describe('RiskSimulationService', () => {
+    const service = new RiskSimulationService();
+    const now = new Date('2026-03-10T06:00:00Z');
+
+    const createSiteCondition = (overrides = {}) => SiteCondition.create({
+        siteId: 'site-001',
+        phase: 'grading',
+        slopePercent: 15,
+        soilType: 'sandy',
+        acreage: 4,
+        daysSinceLastInspection: 10,
+        bmpInventory: [
+            { type: 'silt_fence', count: 3, location: 'north perimeter', lastInspectionDate: new Date('2026-02-20T00:00:00Z'), conditionRating: 'poor' },
+        ],
+        historicalNOVCount: 0,
+        observedAt: now,
+        ...overrides,
+    });
+
+    const weather: WeatherInput = {
+        precipitationInchesNext24h: 0.8,
+        precipitationInchesNext48h: 1.2,
+        precipitationInchesNext72h: 1.4,
+    };
+
+    const interventions: RiskIntervention[] = [
+        { type: 'stabilize' },
+        { type: 'inspect' },
+        { type: 'replace_poor_bmps' },
+    ];
+
+    it('should score every combination of interventions against the base', () => {
+        const simulation = service.simulate({ siteCondition: createSiteCondition(), weather, interventions });
+
+        expect(simulation.base.level).toBe('critical');
+        expect(simulation.scenarios).toHaveLength(7);
+        const single = (index: number) => simulation.scenarios.find(s => s.interventions.length === 1 && s.interventions[0] === index);
+        expect(single(0)?.scoreChange).toBeLessThan(0);
+        expect(single(1)?.scoreChange).toBeLessThan(0);
+        expect(simulation.scenarios[0].interventions).toEqual([0, 1, 2]);
+    });
+
+    it('should plan the actions of each intervention', () => {
+        const simulation = service.simulate({ siteCondition: createSiteCondition(), weather, interventions });
+
+        expect(simulation.interventions[0].actions[0]).toEqual({
+            action: 'Stabilize disturbed areas with mulch, blankets or seeding',
+            priority: 1,
+            estimatedTimeHours: 6,
+        });
+        expect(simulation.interventions[2].actions.map(a => a.action)).toEqual([
+            'Replace 3 poor silt fence segments on north perimeter',
+        ]);
+    });
+
+    it('should pick the fewest crew-hours that drop the site below high', () => {
+        const simulation = service.simulate({ siteCondition: createSiteCondition(), weather, interventions });
+        const plan = simulation.cheapestBelowHigh;
+
+        expect(plan).not.toBeNull();
+        expect(['low', 'moderate']).toContain(plan?.level);
+        expect(plan?.crewHours).toBe(plan?.actions.reduce((total, a) => total + a.estimatedTimeHours, 0));
+        const cheaperBelowHigh = simulation.scenarios.filter(s =>
+            ['low', 'moderate'].includes(s.level) && s.crewHours < (plan?.crewHours ?? 0)
+        );
+        expect(cheaperBelowHigh).toEqual([]);
+    });
+
+    it('should return null when no combination gets below high', () => {
+        const simulation = service.simulate({
+            siteCondition: createSiteCondition(),
+            weather,
+            interventions: [{ type: 'install_bmp', bmpType: 'inlet_protection', count: 2 }],
+        });
+
+        expect(simulation.cheapestBelowHigh).toBeNull();
+    });
+
+    it('should need no actions when the site is already below high', () => {
+        const simulation = service.simulate({
+            siteCondition: createSiteCondition({ phase: 'paving', slopePercent: 2, daysSinceLastInspection: 0, bmpInventory: [] }),
+            weather: { precipitationInchesNext24h: 0, precipitationInchesNext48h: 0, precipitationInchesNext72h: 0 },
+            interventions,
+        });
+
+        expect(simulation.cheapestBelowHigh).toMatchObject({ interventions: [], crewHours: 0, actions: [] });
+    });
+
+    it('should reject too many or no interventions', () => {
+        const siteCondition = createSiteCondition();
+
+        expect(() => service.simulate({ siteCondition, weather, interventions: [] }))
+            .toThrow('At least one intervention is required');
+        expect(() => service.simulate({ siteCondition, weather, interventions: Array(9).fill({ type: 'inspect' }) }))
+            .toThrow('At most 8 interventions can be simulated');
+    });
+
+    it('should leave the base site unchanged', () => {
+        const siteCondition = createSiteCondition();
+        service.simulate({ siteCondition, weather, interventions });
+
+        expect(siteCondition.phase).toBe('grading');
+        expect(siteCondition.getPoorConditionBMPCount()).toBe(1);
+    });
+});
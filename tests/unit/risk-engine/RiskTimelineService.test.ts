@@ -0,0 +1,99 @@
+/**
+ * Unit tests for RiskTimelineService
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RiskTimelineService, SiteCondition, type HourlyRainfall } from '@/lib/risk-engine';
+
+describe('RiskTimelineService', () => {
+    const service = new RiskTimelineService();
+    const start = Date.parse('2026-03-10T00:00:00Z');
+
+    const createSiteCondition = (overrides = {}) => SiteCondition.create({
+        siteId: 'site-001',
+        phase: 'grading',
+        slopePercent: 10,
+        soilType: 'clay',
+        acreage: 5,
+        daysSinceLastInspection: 2,
+        bmpInventory: [],
+        historicalNOVCount: 0,
+        observedAt: new Date(),
+        ...overrides,
+    });
+
+    // Hourly series from the start with rain at the given hours
+    const createForecasts = (rain: Record<number, number>, hours = 24): HourlyRainfall[] =>
+        Array.from({ length: hours }, (_, i) => ({
+            timestamp: new Date(start + i * 60 * 60 * 1000),
+            precipitationInchesPerHour: rain[i] ?? 0,
+        }));
+
+    it('should score every forecast hour and find the peak', () => {
+        const timeline = service.calculateTimeline({
+            siteCondition: createSiteCondition(),
+            forecasts: createForecasts({ 10: 0.05, 11: 0.05, 12: 0.6, 13: 0.3 }),
+        });
+
+        expect(timeline.points).toHaveLength(24);
+        expect(timeline.peak.timestamp.toISOString()).toBe('2026-03-10T12:00:00.000Z');
+        expect(timeline.peakScore.score).toBe(timeline.peak.score);
+        expect(timeline.model).toEqual({ id: 'escacs-default', version: 3 });
+        expect(timeline.points[0].score).toBeLessThan(timeline.peak.score);
+    });
+
+    it('should finish preventive work before the rain leading up to the peak', () => {
+        const timeline = service.calculateTimeline({
+            siteCondition: createSiteCondition(),
+            forecasts: createForecasts({ 10: 0.05, 11: 0.05, 12: 0.6, 13: 0.3 }),
+        });
+
+        const actionHours = timeline.peakScore.actions.reduce((total, a) => total + a.estimatedTimeHours, 0);
+        expect(timeline.latestSafeFinishAt?.toISOString()).toBe('2026-03-10T10:00:00.000Z');
+        expect(timeline.startWorkBy?.getTime()).toBe(Date.parse('2026-03-10T10:00:00Z') - actionHours * 60 * 60 * 1000);
+    });
+
+    it('should carry antecedent rain over from observed and earlier forecast hours', () => {
+        const timeline = service.calculateTimeline({
+            siteCondition: createSiteCondition(),
+            forecasts: createForecasts({ 2: 0.4 }),
+            observedRainfall: [
+                { observedAt: new Date(start - 2 * 60 * 60 * 1000), precipitationInches: 1 },
+                { observedAt: new Date(start - 100 * 60 * 60 * 1000), precipitationInches: 5 },
+            ],
+        });
+
+        expect(timeline.points[0].antecedentRainInches).toBeCloseTo(0.922, 3);
+        expect(timeline.points[3].antecedentRainInches).toBeGreaterThan(timeline.points[2].antecedentRainInches);
+        expect(timeline.points[10].effectiveRainInches).toBeLessThan(timeline.points[3].effectiveRainInches);
+    });
+
+    it('should weigh intense rain above the same total spread out', () => {
+        const burst = service.calculateTimeline({
+            siteCondition: createSiteCondition(),
+            forecasts: createForecasts({ 5: 0.8 }),
+        });
+        const drizzle = service.calculateTimeline({
+            siteCondition: createSiteCondition(),
+            forecasts: createForecasts({ 5: 0.2, 6: 0.2, 7: 0.2, 8: 0.2 }),
+        });
+
+        expect(burst.peak.effectiveRainInches).toBeGreaterThan(drizzle.peak.effectiveRainInches);
+    });
+
+    it('should not set a deadline when the risk stays low', () => {
+        const timeline = service.calculateTimeline({
+            siteCondition: createSiteCondition({ phase: 'paving', slopePercent: 2, daysSinceLastInspection: 0 }),
+            forecasts: createForecasts({}),
+        });
+
+        expect(timeline.peak.level).toBe('low');
+        expect(timeline.latestSafeFinishAt).toBeNull();
+        expect(timeline.startWorkBy).toBeNull();
+    });
+
+    it('should reject an empty forecast', () => {
+        expect(() => service.calculateTimeline({ siteCondition: createSiteCondition(), forecasts: [] }))
+            .toThrow('Forecast has no hours');
+    });
+});
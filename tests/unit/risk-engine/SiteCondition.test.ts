@@ -151,4 +151,38 @@ describe('SiteCondition', () => {
             expect(condition.getPoorConditionBMPCount()).toBe(0);
         });
     });
+
+    describe('getStaleBMPs', () => {
+        const bmpInventory = [
+            { type: 'silt_fence', count: 10, lastInspectionDate: new Date('2026-03-01T00:00:00Z'), conditionRating: 'good' as const },
+            { type: 'inlet_protection', count: 5, lastInspectionDate: new Date('2026-03-12T00:00:00Z'), conditionRating: 'fair' as const },
+            { type: 'check_dam', count: 2, lastInspectionDate: new Date('2026-03-01T00:00:00Z'), conditionRating: 'poor' as const },
+        ];
+
+        it('should return BMPs last inspected before the storm ended, except poor ones', () => {
+            const condition = SiteCondition.create({
+                ...validProps,
+                bmpInventory,
+                lastStormEndedAt: new Date('2026-03-10T00:00:00Z'),
+            });
+            expect(condition.getStaleBMPs().map(b => b.type)).toEqual(['silt_fence']);
+        });
+
+        it('should return none without a storm', () => {
+            const condition = SiteCondition.create({ ...validProps, bmpInventory });
+            expect(condition.getStaleBMPs()).toEqual([]);
+        });
+    });
+
+    describe('withChanges', () => {
+        it('should return a changed copy and validate it', () => {
+            const condition = SiteCondition.create(validProps);
+            const stabilized = condition.withChanges({ phase: 'stabilization' });
+
+            expect(stabilized.phase).toBe('stabilization');
+            expect(stabilized.siteId).toBe(condition.siteId);
+            expect(condition.phase).toBe(validProps.phase);
+            expect(() => condition.withChanges({ slopePercent: -1 })).toThrow('Slope cannot be negative');
+        });
+    });
 });
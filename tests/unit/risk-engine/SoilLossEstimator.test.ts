@@ -0,0 +1,72 @@
+/**
+ * SoilLossEstimator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SoilLossEstimator } from '../../../src/lib/risk-engine/domain/services/SoilLossEstimator';
+import { SiteCondition } from '../../../src/lib/risk-engine/domain/entities/SiteCondition';
+import type { SiteConditionProps } from '../../../src/lib/risk-engine/domain/entities/SiteCondition';
+
+describe('SoilLossEstimator', () => {
+    const estimator = new SoilLossEstimator();
+
+    const site = (overrides: Partial<SiteConditionProps> = {}) => SiteCondition.create({
+        siteId: 'site-001',
+        phase: 'grading',
+        slopePercent: 15,
+        soilType: 'sandy',
+        acreage: 5,
+        daysSinceLastInspection: 2,
+        bmpInventory: [],
+        historicalNOVCount: 0,
+        observedAt: new Date(),
+        ...overrides,
+    });
+
+    const bmp = (type: string, conditionRating: 'good' | 'fair' | 'poor' = 'good') =>
+        ({ type, count: 1, lastInspectionDate: new Date(), conditionRating });
+
+    it('should multiply the RUSLE factors into tons per acre', () => {
+        const estimate = estimator.estimate(site(), 1.2);
+
+        expect(estimate.erosivity).toBeCloseTo(11.7, 1);
+        expect(estimate.erodibility).toBe(0.13);
+        expect(estimate.lengthSlope).toBeCloseTo(2.4, 1);
+        expect(estimate.cover).toBe(1);
+        expect(estimate.practice).toBe(1);
+        expect(estimate.tonsPerAcre).toBeCloseTo(3.64, 1);
+    });
+
+    it('should ignore rain below the erosive threshold', () => {
+        expect(estimator.estimate(site(), 0.4).tonsPerAcre).toBe(0);
+    });
+
+    it('should rate silt loam as more erodible than sand', () => {
+        const silt = estimator.estimate(site({ soilTexture: 'silt_loam' }), 1);
+        const sand = estimator.estimate(site({ soilTexture: 'sand' }), 1);
+
+        expect(silt.erodibility).toBe(0.38);
+        expect(silt.tonsPerAcre).toBeGreaterThan(sand.tonsPerAcre * 10);
+    });
+
+    it('should increase with slope length', () => {
+        const short = estimator.estimate(site({ slopeLengthFeet: 50 }), 1);
+        const long = estimator.estimate(site({ slopeLengthFeet: 400 }), 1);
+
+        expect(long.lengthSlope).toBeGreaterThan(short.lengthSlope * 2);
+    });
+
+    it('should reduce cover with phase and cover BMPs and practice with sediment barriers', () => {
+        expect(estimator.estimate(site({ phase: 'stabilization' }), 1).cover).toBe(0.1);
+
+        const protectedSite = site({ bmpInventory: [bmp('mulch'), bmp('silt_fence'), bmp('check_dam')] });
+        const estimate = estimator.estimate(protectedSite, 1);
+        expect(estimate.cover).toBeCloseTo(0.1);
+        expect(estimate.practice).toBe(0.5);
+    });
+
+    it('should discount BMPs in fair condition and ignore poor ones', () => {
+        expect(estimator.estimate(site({ bmpInventory: [bmp('silt_fence', 'fair')] }), 1).practice).toBe(0.75);
+        expect(estimator.estimate(site({ bmpInventory: [bmp('silt_fence', 'poor')] }), 1).practice).toBe(1);
+    });
+});
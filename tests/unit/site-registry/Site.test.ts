@@ -0,0 +1,170 @@
+/**
+ * Site Entity Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Site } from '../../../src/lib/site-registry/domain/entities/Site';
+import type { SiteProps } from '../../../src/lib/site-registry/domain/entities/Site';
+
+describe('Site', () => {
+    const validProps: SiteProps = {
+        id: 'site-001',
+        name: 'Main Street Construction',
+        location: { latitude: 37.54, longitude: -77.43 },
+        acreage: 5.5,
+        soilType: 'sandy',
+        slopePercent: 12,
+        phase: 'grading',
+        permitNumber: 'VAR10-1234',
+        jurisdiction: 'Virginia DEQ',
+        contacts: [
+            { id: 'c-1', name: 'Sam Super', role: 'superintendent', phone: '+15551234567' },
+            { id: 'c-2', name: 'Ida Inspector', role: 'inspector', email: 'ida@example.com' },
+        ],
+        rainThresholdInchesPerHour: 0.5,
+        inspectionDeadlineHours: 24,
+        historicalNOVCount: 0,
+        status: 'active',
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        updatedAt: new Date('2026-01-01T00:00:00Z'),
+    };
+
+    describe('create', () => {
+        it('should create a valid site', () => {
+            const site = Site.create(validProps);
+
+            expect(site.id).toBe('site-001');
+            expect(site.permitNumber).toBe('VAR10-1234');
+            expect(site.lastInspectionAt).toBeNull();
+            expect(site.region).toBeNull();
+            expect(site.contractor).toBeNull();
+        });
+
+        it('should reject missing name', () => {
+            expect(() => Site.create({ ...validProps, name: '' })).toThrow('Site name is required');
+        });
+
+        it('should reject out-of-range location', () => {
+            expect(() => Site.create({ ...validProps, location: { latitude: 95, longitude: 0 } })).toThrow();
+        });
+
+        it('should reject non-positive acreage', () => {
+            expect(() => Site.create({ ...validProps, acreage: 0 })).toThrow();
+        });
+
+        it('should reject negative slope', () => {
+            expect(() => Site.create({ ...validProps, slopePercent: -1 })).toThrow();
+        });
+
+        it('should accept contacts with custom roles and preferences', () => {
+            const site = Site.create({
+                ...validProps,
+                contacts: [{
+                    id: 'c-3',
+                    name: 'Fritz Foreman',
+                    role: 'foreman',
+                    phone: '+4930555011',
+                    alertChannels: ['sms'],
+                    quietHours: { start: '22:00', end: '06:00', timeZone: 'Europe/Berlin' },
+                    language: 'de',
+                }],
+            });
+
+            expect(site.getContactsByRole('foreman')).toHaveLength(1);
+        });
+
+        it('should reject malformed quiet hours', () => {
+            const contact = { id: 'c-3', name: 'Fritz', role: 'foreman', quietHours: { start: '25:00', end: '06:00', timeZone: 'UTC' } };
+            expect(() => Site.create({ ...validProps, contacts: [contact] })).toThrow('must be HH:MM');
+        });
+
+        it('should reject unknown quiet hours time zone', () => {
+            const contact = { id: 'c-3', name: 'Fritz', role: 'foreman', quietHours: { start: '22:00', end: '06:00', timeZone: 'Mars/Olympus' } };
+            expect(() => Site.create({ ...validProps, contacts: [contact] })).toThrow('Unknown time zone');
+        });
+
+        it('should default the site time zone to UTC and reject unknown zones', () => {
+            expect(Site.create(validProps).timeZone).toBe('UTC');
+            expect(() => Site.create({ ...validProps, timeZone: 'Mars/Olympus' })).toThrow('Unknown time zone');
+        });
+
+        it('should validate rain accumulation rules', () => {
+            expect(Site.create(validProps).rainAccumulationRules).toEqual([]);
+            expect(() => Site.create({ ...validProps, rainAccumulationRules: [{ thresholdInches: 0.5, windowHours: 96 }] }))
+                .toThrow('Accumulation window must be 1-72 whole hours');
+            expect(() => Site.create({ ...validProps, rainAccumulationRules: [{ thresholdInches: 0, windowHours: 24 }] }))
+                .toThrow('Accumulation threshold must be positive');
+        });
+
+        it('should require a rule pack when pinning a version', () => {
+            expect(Site.create(validProps).rulePackId).toBeNull();
+            expect(Site.create(validProps).frozenGround).toBe(false);
+            expect(() => Site.create({ ...validProps, rulePackVersion: '2024-07-01' }))
+                .toThrow('Rule pack version requires a rule pack');
+        });
+
+        it('should require a rule pack for a holiday calendar', () => {
+            expect(() => Site.create({ ...validProps, holidayCalendarId: 'de-be' }))
+                .toThrow('Holiday calendar requires a rule pack');
+        });
+
+        it('should require a risk model when pinning a version', () => {
+            expect(Site.create(validProps).riskModelId).toBeNull();
+            expect(() => Site.create({ ...validProps, riskModelVersion: 2 }))
+                .toThrow('Risk model version requires a risk model');
+        });
+
+        it('should validate BMP counts', () => {
+            const bmp = { id: 'bmp-1', type: 'silt_fence', count: 3, lastInspectionDate: new Date(), conditionRating: 'good' as const };
+            expect(Site.create(validProps).bmpInventory).toEqual([]);
+            expect(() => Site.create({ ...validProps, bmpInventory: [{ ...bmp, count: 1.5 }] })).toThrow();
+            expect(() => Site.create({ ...validProps, bmpInventory: [{ ...bmp, type: '' }] })).toThrow();
+        });
+    });
+
+    describe('withChanges', () => {
+        it('should return updated copy without mutating original', () => {
+            const site = Site.create(validProps);
+            const updated = site.withChanges({ phase: 'stabilization' }, new Date('2026-02-01T00:00:00Z'));
+
+            expect(updated.phase).toBe('stabilization');
+            expect(updated.updatedAt.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+            expect(site.phase).toBe('grading');
+        });
+
+        it('should validate changes', () => {
+            const site = Site.create(validProps);
+            expect(() => site.withChanges({ acreage: -2 })).toThrow();
+        });
+    });
+
+    describe('archive', () => {
+        it('should mark site as archived', () => {
+            const archived = Site.create(validProps).archive();
+
+            expect(archived.status).toBe('archived');
+            expect(archived.isActive()).toBe(false);
+        });
+    });
+
+    describe('getContactsByRole', () => {
+        it('should filter contacts by role', () => {
+            const site = Site.create(validProps);
+
+            expect(site.getContactsByRole('inspector')).toHaveLength(1);
+            expect(site.getContactsByRole('owner')).toHaveLength(0);
+        });
+    });
+
+    describe('getDaysSinceLastInspection', () => {
+        it('should count from last inspection', () => {
+            const site = Site.create({ ...validProps, lastInspectionAt: new Date('2026-01-10T00:00:00Z') });
+            expect(site.getDaysSinceLastInspection(new Date('2026-01-13T12:00:00Z'))).toBe(3);
+        });
+
+        it('should count from registration when never inspected', () => {
+            const site = Site.create(validProps);
+            expect(site.getDaysSinceLastInspection(new Date('2026-01-08T00:00:00Z'))).toBe(7);
+        });
+    });
+});
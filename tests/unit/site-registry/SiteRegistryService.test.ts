@@ -0,0 +1,288 @@
+/**
+ * SiteRegistryService Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { SiteRegistryService } from '../../../src/lib/site-registry/domain/services/SiteRegistryService';
+import type { SiteRegistration } from '../../../src/lib/site-registry/domain/services/SiteRegistryService';
+import { InMemorySiteRepository } from '../../../src/lib/site-registry/infrastructure/InMemorySiteRepository';
+import { JsonFileSiteRepository } from '../../../src/lib/site-registry/infrastructure/JsonFileSiteRepository';
+import { RulePackRegistry } from '../../../src/lib/jurisdiction-rules/domain/services/RulePackRegistry';
+import { BUILT_IN_RULE_PACKS } from '../../../src/lib/jurisdiction-rules/infrastructure/builtInRulePacks';
+import { BUILT_IN_HOLIDAY_CALENDARS } from '../../../src/lib/jurisdiction-rules/infrastructure/builtInHolidayCalendars';
+import { RiskModelRegistry } from '../../../src/lib/risk-engine/domain/services/RiskModelRegistry';
+import { RiskModel } from '../../../src/lib/risk-engine/domain/entities/RiskModel';
+import { DEFAULT_RISK_MODEL } from '../../../src/lib/risk-engine/domain/entities/defaultRiskModel';
+
+describe('SiteRegistryService', () => {
+    let registry: SiteRegistryService;
+
+    const registration: SiteRegistration = {
+        name: 'Main Street Construction',
+        location: { latitude: 37.54, longitude: -77.43 },
+        acreage: 5.5,
+        soilType: 'sandy',
+        slopePercent: 12,
+        phase: 'grading',
+        permitNumber: 'VAR10-1234',
+        jurisdiction: 'Virginia DEQ',
+        rainThresholdInchesPerHour: 0.5,
+        inspectionDeadlineHours: 48,
+        contacts: [
+            { name: 'Sam Super', role: 'superintendent', phone: '+15551234567' },
+            { name: 'Ida Inspector', role: 'inspector', email: 'ida@example.com' },
+            { name: 'Olga Owner', role: 'owner', email: 'owner@example.com' },
+        ],
+    };
+
+    beforeEach(() => {
+        registry = new SiteRegistryService(new InMemorySiteRepository(), new RulePackRegistry(BUILT_IN_RULE_PACKS, BUILT_IN_HOLIDAY_CALENDARS));
+    });
+
+    describe('registerSite', () => {
+        it('should assign ids to site and contacts', async () => {
+            const site = await registry.registerSite(registration);
+
+            expect(site.id).toBeTruthy();
+            expect(site.status).toBe('active');
+            expect(site.contacts.every(c => c.id)).toBe(true);
+        });
+
+        it('should be retrievable by id', async () => {
+            const site = await registry.registerSite(registration);
+            const found = await registry.getSite(site.id);
+
+            expect(found?.name).toBe('Main Street Construction');
+        });
+    });
+
+    describe('updateSite', () => {
+        it('should apply changes and ignore undefined fields', async () => {
+            const site = await registry.registerSite(registration);
+            const updated = await registry.updateSite(site.id, { phase: 'paving', acreage: undefined });
+
+            expect(updated?.phase).toBe('paving');
+            expect(updated?.acreage).toBe(5.5);
+        });
+
+        it('should reject an unknown holiday calendar', async () => {
+            const site = await registry.registerSite(registration);
+
+            await expect(registry.updateSite(site.id, { rulePackId: 'va-vsmp-5bd', holidayCalendarId: 'nope' }))
+                .rejects.toThrow('Unknown holiday calendar: nope');
+        });
+
+        it('should reject an unknown rule pack', async () => {
+            const site = await registry.registerSite(registration);
+
+            await expect(registry.updateSite(site.id, { rulePackId: 'nope' })).rejects.toThrow('Unknown rule pack: nope');
+        });
+
+        it('should replace the BMP inventory, keeping given ids', async () => {
+            const site = await registry.registerSite({
+                ...registration,
+                bmpInventory: [{ type: 'silt_fence', count: 3, location: 'north perimeter', lastInspectionDate: new Date('2026-03-01T00:00:00Z'), conditionRating: 'good' }],
+            });
+            const [fence] = site.bmpInventory;
+
+            const updated = await registry.updateSite(site.id, {
+                bmpInventory: [
+                    { ...fence, conditionRating: 'poor' },
+                    { type: 'inlet_protection', count: 2, lastInspectionDate: new Date('2026-03-01T00:00:00Z'), conditionRating: 'good' },
+                ],
+            });
+
+            expect(fence.id).toBeTruthy();
+            expect(updated?.bmpInventory[0]).toMatchObject({ id: fence.id, conditionRating: 'poor' });
+            expect(updated?.bmpInventory[1].id).toBeTruthy();
+        });
+
+        it('should return null for unknown site', async () => {
+            expect(await registry.updateSite('missing', { phase: 'paving' })).toBeNull();
+        });
+    });
+
+    describe('archiveSite', () => {
+        it('should hide archived sites from default listing', async () => {
+            const site = await registry.registerSite(registration);
+            await registry.registerSite({ ...registration, name: 'Second Site' });
+            await registry.archiveSite(site.id);
+
+            expect(await registry.listSites()).toHaveLength(1);
+            expect(await registry.listSites({ includeArchived: true })).toHaveLength(2);
+        });
+    });
+
+    describe('seedIfEmpty', () => {
+        it('should only seed an empty registry', async () => {
+            await registry.seedIfEmpty([registration]);
+            await registry.seedIfEmpty([registration]);
+
+            expect(await registry.listSites()).toHaveLength(1);
+        });
+    });
+
+    describe('buildSiteCondition', () => {
+        it('should map stored site fields', async () => {
+            const site = await registry.registerSite(registration);
+            const condition = registry.buildSiteCondition(site);
+
+            expect(condition.siteId).toBe(site.id);
+            expect(condition.soilType).toBe('sandy');
+            expect(condition.slopePercent).toBe(12);
+            expect(condition.bmpInventory).toEqual([]);
+        });
+
+        it('should let defined overrides win', async () => {
+            const site = await registry.registerSite(registration);
+            const condition = registry.buildSiteCondition(site, { slopePercent: 2, phase: undefined });
+
+            expect(condition.slopePercent).toBe(2);
+            expect(condition.phase).toBe('grading');
+        });
+    });
+
+    describe('buildSitePermit', () => {
+        it('should turn contacts into recipient profiles', async () => {
+            const site = await registry.registerSite(registration);
+            const permit = registry.buildSitePermit(site);
+
+            expect(permit.recipients?.map(r => r.role)).toEqual(['superintendent', 'inspector', 'owner']);
+            expect(permit.recipients?.[0].phone).toBe('+15551234567');
+            expect(permit.jurisdictionInspectionHours).toBe(48);
+            expect(permit.siteName).toBe(site.name);
+            expect(permit.timeZone).toBe('UTC');
+        });
+
+        it('should carry contact preferences', async () => {
+            const site = await registry.registerSite({
+                ...registration,
+                contacts: [{
+                    name: 'Fritz Foreman',
+                    role: 'foreman',
+                    phone: '+4930555011',
+                    alertChannels: ['sms'],
+                    language: 'de',
+                }],
+            });
+            const [recipient] = registry.buildSitePermit(site).recipients ?? [];
+
+            expect(recipient.channels).toEqual(['sms']);
+            expect(recipient.language).toBe('de');
+        });
+
+        it('should combine the intensity threshold with accumulation rules', async () => {
+            const site = await registry.registerSite({
+                ...registration,
+                rainAccumulationRules: [{ thresholdInches: 0.5, windowHours: 24 }],
+            });
+
+            expect(registry.buildSitePermit(site).triggerRules).toEqual([
+                { type: 'intensity', thresholdInchesPerHour: site.rainThresholdInchesPerHour },
+                { type: 'accumulation', thresholdInches: 0.5, windowHours: 24 },
+            ]);
+        });
+
+        it('should take storm inspection rules from the site rule pack', async () => {
+            const site = await registry.registerSite({
+                ...registration,
+                timeZone: 'America/New_York',
+                rulePackId: 'va-vsmp-10bd-storm',
+            });
+            const policy = registry.buildSitePermit(site).inspectionPolicy;
+
+            expect(registry.getRulePack(site)?.key).toBe('va-vsmp-10bd-storm@2024-07-01');
+            expect(policy?.qualifyingRainfallInches).toBe(0.25);
+            // Friday storm: 48 hours lands on Sunday, rolled to 17:00 EDT Monday
+            expect(policy?.getStormInspectionDeadline(new Date('2025-06-06T15:00:00Z')).toISOString())
+                .toBe('2025-06-09T21:00:00.000Z');
+        });
+
+        it('should leave the permit without a policy when the site has no rule pack', async () => {
+            const site = await registry.registerSite(registration);
+
+            expect(registry.buildSitePermit(site).inspectionPolicy).toBeUndefined();
+        });
+
+        it('should reject site without reachable contacts', async () => {
+            const site = await registry.registerSite({ ...registration, contacts: [] });
+            expect(() => registry.buildSitePermit(site)).toThrow('no contact that can receive alerts');
+        });
+    });
+
+    describe('getNextRoutineInspectionDue', () => {
+        it('should default to weekly in the site time zone without a rule pack', async () => {
+            const site = await registry.registerSite({ ...registration, timeZone: 'Europe/Berlin' });
+
+            expect(registry.getRoutineRule(site)).toEqual({ every: 7, unit: 'calendar_days' });
+            // 10:00 CEST stays 10:00 after the switch to CET
+            expect(registry.getNextRoutineInspectionDue(site, new Date('2025-10-22T08:00:00Z'))?.toISOString())
+                .toBe('2025-10-29T09:00:00.000Z');
+        });
+
+        it('should follow the rule pack frequency', async () => {
+            const site = await registry.registerSite({
+                ...registration,
+                timeZone: 'America/New_York',
+                rulePackId: 'va-vsmp-5bd',
+            });
+
+            // Five business days from Wednesday before Thanksgiving skips the holiday and the day after
+            expect(registry.getNextRoutineInspectionDue(site, new Date('2025-11-26T15:00:00Z'))?.toISOString())
+                .toBe('2025-12-05T22:00:00.000Z');
+        });
+    });
+
+    describe('getRiskModel', () => {
+        const riskModels = new RiskModelRegistry([
+            RiskModel.create(DEFAULT_RISK_MODEL),
+            RiskModel.create({ ...DEFAULT_RISK_MODEL, id: 'va-deq', version: 1, appliesTo: { jurisdictions: ['Virginia DEQ'] } }),
+            RiskModel.create({ ...DEFAULT_RISK_MODEL, id: 'va-deq', version: 2, appliesTo: { jurisdictions: ['Virginia DEQ'] } }),
+        ], DEFAULT_RISK_MODEL.id);
+
+        it('should select the jurisdiction model unless the site pins one', async () => {
+            registry = new SiteRegistryService(new InMemorySiteRepository(), undefined, riskModels);
+            const site = await registry.registerSite(registration);
+            const pinned = await registry.registerSite({ ...registration, riskModelId: 'va-deq', riskModelVersion: 1 });
+
+            expect(registry.getRiskModel(site).key).toBe('va-deq@2');
+            expect(registry.getRiskModel(pinned).key).toBe('va-deq@1');
+        });
+
+        it('should reject an unknown risk model', async () => {
+            registry = new SiteRegistryService(new InMemorySiteRepository(), undefined, riskModels);
+
+            await expect(registry.registerSite({ ...registration, riskModelId: 'va-deq', riskModelVersion: 3 }))
+                .rejects.toThrow('Unknown version 3 of risk model va-deq');
+        });
+    });
+
+    describe('file-backed persistence', () => {
+        it('should survive a new registry instance', async () => {
+            const filePath = path.join(mkdtempSync(path.join(tmpdir(), 'escacs-sites-')), 'sites.json');
+            const site = await new SiteRegistryService(new JsonFileSiteRepository(filePath)).registerSite(registration);
+
+            const reloaded = await new SiteRegistryService(new JsonFileSiteRepository(filePath)).getSite(site.id);
+
+            expect(reloaded?.name).toBe(site.name);
+            expect(reloaded?.createdAt.getTime()).toBe(site.createdAt.getTime());
+        });
+
+        it('should keep the BMP inventory with its inspection dates', async () => {
+            const filePath = path.join(mkdtempSync(path.join(tmpdir(), 'escacs-sites-')), 'sites.json');
+            const lastInspectionDate = new Date('2026-03-01T00:00:00Z');
+            const site = await new SiteRegistryService(new JsonFileSiteRepository(filePath)).registerSite({
+                ...registration,
+                bmpInventory: [{ type: 'silt_fence', count: 3, lastInspectionDate, conditionRating: 'poor' }],
+            });
+
+            const reloaded = await new SiteRegistryService(new JsonFileSiteRepository(filePath)).getSite(site.id);
+
+            expect(reloaded?.bmpInventory).toEqual(site.bmpInventory);
+            expect(reloaded?.bmpInventory[0].lastInspectionDate).toBeInstanceOf(Date);
+        });
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * AlertEscalationService Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AlertEscalationService } from '../../../src/lib/weather-engine/domain/services/AlertEscalationService';
+import { AlertScheduler } from '../../../src/lib/weather-engine/domain/services/AlertScheduler';
+import { WeatherAlert } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+import type { AlertRecipientType } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+import { InMemoryAlertRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryAlertRepository';
+import { HmacAcknowledgmentLinks } from '../../../src/lib/weather-engine/infrastructure/HmacAcknowledgmentLinks';
+import type { AlertContact, IAlertContactPort } from '../../../src/lib/weather-engine/ports/IAlertContactPort';
+
+const MINUTE = 60 * 1000;
+const CREATED_AT = new Date('2025-06-01T12:00:00Z');
+
+class StubContactPort implements IAlertContactPort {
+    private readonly contacts: Partial<Record<AlertRecipientType, AlertContact[]>> = {
+        superintendent: [{ name: 'Max Weber', phone: '+49301234567', email: 'max@example.com' }],
+        owner: [{ name: 'Berlin Bau GmbH', email: 'owner@example.com' }],
+        resident_engineer: [{ name: 'Jana Schulz', phone: '+49307654321' }],
+    };
+
+    async findContacts(_siteId: string, recipientType: AlertRecipientType): Promise<AlertContact[]> {
+        return this.contacts[recipientType] ?? [];
+    }
+}
+
+function createAlert(overrides: Partial<Parameters<typeof WeatherAlert.create>[0]> = {}): WeatherAlert {
+    return WeatherAlert.create({
+        id: 'alert-001',
+        siteId: 'site-1',
+        channel: 'sms',
+        recipient: '+49301234567',
+        recipientType: 'superintendent',
+        message: 'Rain alert: Deploy controls.',
+        priority: 'critical',
+        triggerEventId: 'storm-1',
+        createdAt: CREATED_AT,
+        ...overrides,
+    });
+}
+
+describe('AlertEscalationService', () => {
+    let repository: InMemoryAlertRepository;
+    let links: HmacAcknowledgmentLinks;
+    let service: AlertEscalationService;
+
+    beforeEach(() => {
+        repository = new InMemoryAlertRepository();
+        links = new HmacAcknowledgmentLinks('test-secret', 'https://escacs.example.com');
+        service = new AlertEscalationService(
+            repository,
+            new StubContactPort(),
+            new AlertScheduler([]),
+            links,
+            { acknowledgeWithinMinutes: 15, priorities: ['critical'] }
+        );
+    });
+
+    describe('escalateOverdue', () => {
+        it('should not escalate within the acknowledgment window', async () => {
+            await service.track([createAlert()]);
+
+            const escalations = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 10 * MINUTE));
+            expect(escalations).toHaveLength(0);
+        });
+
+        it('should re-send to the superintendent on another channel first', async () => {
+            await service.track([createAlert()]);
+
+            const escalations = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 16 * MINUTE));
+            expect(escalations).toHaveLength(1);
+            expect(escalations[0].channel).toBe('email');
+            expect(escalations[0].recipient).toBe('max@example.com');
+            expect(escalations[0].escalatedFromAlertId).toBe('alert-001');
+            expect(escalations[0].message).toContain('/api/alerts/');
+        });
+
+        it('should swap the original acknowledgment link for the escalation link', async () => {
+            const link = service.createAcknowledgmentLink(createAlert(), CREATED_AT) ?? '';
+            await service.track([createAlert({ message: `Rain alert: Deploy controls. Acknowledge: ${link}`, acknowledgmentLink: link })]);
+
+            const [escalation] = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 16 * MINUTE));
+            expect(escalation.message).not.toContain(link);
+            expect(escalation.message).toMatch(/^ESCALATED \(unacknowledged 15 min\): Rain alert: Deploy controls\. Acknowledge: \S+$/);
+            expect(escalation.message).toContain(escalation.acknowledgmentLink);
+        });
+
+        it('should escalate to owner and resident engineer next', async () => {
+            await service.track([createAlert()]);
+            await service.escalateOverdue(new Date(CREATED_AT.getTime() + 16 * MINUTE));
+
+            const escalations = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 31 * MINUTE));
+            expect(escalations.map(a => a.recipientType)).toEqual(['owner', 'resident_engineer']);
+            expect(escalations.map(a => a.channel)).toEqual(['email', 'sms']);
+        });
+
+        it('should not repeat a step that was already sent', async () => {
+            await service.track([createAlert()]);
+            await service.escalateOverdue(new Date(CREATED_AT.getTime() + 16 * MINUTE));
+
+            const escalations = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 20 * MINUTE));
+            expect(escalations).toHaveLength(0);
+        });
+
+        it('should stop after the last step', async () => {
+            await service.track([createAlert()]);
+            await service.escalateOverdue(new Date(CREATED_AT.getTime() + 31 * MINUTE));
+
+            const escalations = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 120 * MINUTE));
+            expect(escalations).toHaveLength(0);
+        });
+
+        it('should ignore non-critical alerts and other recipients', async () => {
+            await service.track([
+                createAlert({ id: 'alert-high', priority: 'high' }),
+                createAlert({ id: 'alert-owner', recipientType: 'owner', channel: 'email', recipient: 'owner@example.com' }),
+            ]);
+
+            const escalations = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 60 * MINUTE));
+            expect(escalations).toHaveLength(0);
+        });
+
+        it('should not escalate acknowledged alerts', async () => {
+            await service.track([createAlert()]);
+            await service.acknowledge('alert-001', 'Max Weber');
+
+            const escalations = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 60 * MINUTE));
+            expect(escalations).toHaveLength(0);
+        });
+    });
+
+    describe('acknowledge', () => {
+        it('should return null for unknown alerts', async () => {
+            expect(await service.acknowledge('missing', 'Max Weber')).toBeNull();
+        });
+
+        it('should stop the chain when an escalation is acknowledged', async () => {
+            await service.track([createAlert()]);
+            const [escalation] = await service.escalateOverdue(new Date(CREATED_AT.getTime() + 16 * MINUTE));
+
+            await service.acknowledge(escalation.id, 'Max Weber');
+
+            const original = await service.getAlert('alert-001');
+            expect(original?.isAcknowledged()).toBe(true);
+            expect(await service.escalateOverdue(new Date(CREATED_AT.getTime() + 60 * MINUTE))).toHaveLength(0);
+        });
+    });
+
+    describe('acknowledgment links', () => {
+        function paramsFrom(link: string) {
+            const url = new URL(link);
+            return {
+                expires: Number(url.searchParams.get('expires')),
+                signature: url.searchParams.get('signature') ?? '',
+            };
+        }
+
+        it('should issue links only for alerts that escalate', () => {
+            expect(service.createAcknowledgmentLink(createAlert(), CREATED_AT)).toContain('/api/alerts/alert-001/ack?');
+            expect(service.createAcknowledgmentLink(createAlert({ priority: 'high' }), CREATED_AT)).toBeNull();
+            expect(service.createAcknowledgmentLink(createAlert({ recipientType: 'owner' }), CREATED_AT)).toBeNull();
+        });
+
+        it('should verify a link issued for the alert', () => {
+            const params = paramsFrom(links.createLink('alert-001', CREATED_AT));
+            expect(links.verify('alert-001', params, CREATED_AT)).toBe(true);
+        });
+
+        it('should reject a link for another alert', () => {
+            const params = paramsFrom(links.createLink('alert-001', CREATED_AT));
+            expect(links.verify('alert-002', params, CREATED_AT)).toBe(false);
+        });
+
+        it('should reject an expired link', () => {
+            const params = paramsFrom(links.createLink('alert-001', CREATED_AT));
+            const later = new Date(CREATED_AT.getTime() + 73 * 60 * MINUTE);
+            expect(links.verify('alert-001', params, later)).toBe(false);
+        });
+    });
+});
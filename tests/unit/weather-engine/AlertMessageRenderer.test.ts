@@ -0,0 +1,140 @@
+/**
+ * AlertMessageRenderer Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AlertMessageRenderer } from '../../../src/lib/weather-engine/domain/services/AlertMessageRenderer';
+import type { AlertMessageContext } from '../../../src/lib/weather-engine/domain/services/AlertMessageRenderer';
+
+const context: AlertMessageContext = {
+    siteName: 'Berlin North Heights',
+    timeZone: 'Europe/Berlin',
+    priority: 'high',
+    stormStart: new Date('2025-06-01T13:00:00Z'),
+    hoursAhead: 3.4166,
+    maxIntensityInchesPerHour: 0.7,
+    accumulationInches: 2.8,
+    actions: ['Deploy additional inlet protection', 'Reinforce silt fence perimeter'],
+    inspectionDeadline: new Date('2025-06-02T17:00:00Z'),
+};
+
+describe('AlertMessageRenderer', () => {
+    const renderer = new AlertMessageRenderer();
+
+    describe('sms', () => {
+        it('should render a short message with the rounded lead time', () => {
+            const { text, subject } = renderer.render('sms', context);
+
+            expect(text).toContain('Rain alert: Deploy controls at Berlin North Heights');
+            expect(text).toContain('(in 3h)');
+            expect(text).toContain('2.80 in total');
+            expect(text).toContain('First: Deploy additional inlet protection');
+            expect(subject).toBeUndefined();
+        });
+
+        it('should show times in the site time zone', () => {
+            const { text } = renderer.render('sms', context);
+
+            expect(text).toContain('03:00 PM');
+            expect(text).toContain('07:00 PM');
+        });
+    });
+
+    describe('push', () => {
+        it('should render a title and body', () => {
+            const { subject, text } = renderer.render('push', context);
+
+            expect(subject).toBe('High rain alert: Berlin North Heights');
+            expect(text).toContain('0.70 in/hr');
+        });
+    });
+
+    describe('email', () => {
+        it('should render a subject, numbered text actions and an HTML body', () => {
+            const { subject, text, html } = renderer.render('email', context);
+
+            expect(subject).toMatch(/^\[High\] Rain expected at Berlin North Heights/);
+            expect(text).toContain('1. Deploy additional inlet protection\n2. Reinforce silt fence perimeter');
+            expect(html).toContain('<li>Reinforce silt fence perimeter</li>');
+        });
+
+        it('should escape values in the HTML body', () => {
+            const { html } = renderer.render('email', { ...context, siteName: 'Lot <7> & Sons' });
+
+            expect(html).toContain('Lot &lt;7&gt; &amp; Sons');
+            expect(html).not.toContain('<7>');
+        });
+    });
+
+    describe('acknowledgment links', () => {
+        const link = 'https://escacs.example.com/api/alerts/alert-1/ack?expires=1&signature=ab';
+
+        it('should end SMS and email text with the link', () => {
+            expect(renderer.render('sms', { ...context, acknowledgmentLink: link }).text).toMatch(/ Acknowledge: https:\S+signature=ab$/);
+            expect(renderer.render('email', { ...context, acknowledgmentLink: link }, 'de').text).toContain(`\n\nBestätigen: ${link}`);
+        });
+
+        it('should link the HTML body with an escaped URL', () => {
+            const { html } = renderer.render('email', { ...context, acknowledgmentLink: link });
+
+            expect(html).toContain('<a href="https://escacs.example.com/api/alerts/alert-1/ack?expires=1&amp;signature=ab">');
+        });
+
+        it('should leave messages without a link unchanged', () => {
+            const { text, html } = renderer.render('email', context);
+
+            expect(text).not.toContain('Acknowledge');
+            expect(html).not.toContain('{acknowledgeHtml}');
+            expect(renderer.render('push', { ...context, acknowledgmentLink: link }).text).not.toContain(link);
+        });
+    });
+
+    describe('inspection deadline', () => {
+        it('should state the deadline in SMS and email', () => {
+            expect(renderer.render('sms', context).text).toMatch(/ Inspect by .+07:00 PM.+\.$/);
+            expect(renderer.render('email', context).text).toMatch(/\n\nPost-storm inspection due by .+\.$/);
+            expect(renderer.render('email', context).html).toContain('<p><strong>Post-storm inspection due by');
+        });
+
+        it('should leave out the inspection line when no inspection is due', () => {
+            const noInspection = { ...context, inspectionDeadline: undefined };
+            const { text, html } = renderer.render('email', noInspection);
+
+            expect(renderer.render('sms', noInspection).text).toMatch(/First: Deploy additional inlet protection\.$/);
+            expect(text).toMatch(/2\. Reinforce silt fence perimeter$/);
+            expect(html).not.toContain('inspection');
+        });
+    });
+
+    describe('localization', () => {
+        it('should render German with translated actions', () => {
+            const { text } = renderer.render('sms', context, 'de');
+
+            expect(text).toContain('Regenwarnung');
+            expect(text).toContain('Zuerst: Zusätzlichen Einlaufschutz anbringen');
+            expect(text).toContain('15:00');
+            expect(text).toContain('2,80 in gesamt');
+        });
+
+        it('should render Spanish', () => {
+            const { subject } = renderer.render('email', context, 'es');
+
+            expect(subject).toMatch(/^\[Alta\] Lluvia prevista en Berlin North Heights/);
+        });
+
+        it('should fall back to the base language, then English', () => {
+            expect(renderer.render('sms', context, 'es-MX').text).toContain('Alerta de lluvia');
+            expect(renderer.render('sms', context, 'fr').text).toContain('Rain alert');
+        });
+
+        it('should use a generic action when none are known', () => {
+            const { text } = renderer.render('sms', { ...context, actions: [] }, 'de');
+
+            expect(text).toContain('Zuerst: Erosions- und Sedimentschutz aufbauen');
+        });
+
+        it('should list the supported languages', () => {
+            expect(renderer.getSupportedLanguages()).toEqual(['en', 'es', 'de']);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * AlertRoutingPolicy Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AlertRoutingPolicy } from '../../../src/lib/weather-engine/domain/services/AlertRoutingPolicy';
+import type { RecipientProfile } from '../../../src/lib/weather-engine/domain/services/AlertRoutingPolicy';
+
+describe('AlertRoutingPolicy', () => {
+    const policy = new AlertRoutingPolicy();
+
+    // 23:30 in Berlin (CEST, UTC+2)
+    const BERLIN_NIGHT = new Date('2025-06-01T21:30:00Z');
+    // 10:00 in Berlin
+    const BERLIN_DAY = new Date('2025-06-01T08:00:00Z');
+
+    const superintendent: RecipientProfile = {
+        contactId: 'c-1',
+        name: 'Sam Super',
+        role: 'superintendent',
+        phone: '+4930555010',
+        email: 'sam@example.com',
+    };
+
+    describe('route', () => {
+        it('should use role defaults when no channels are preferred', () => {
+            const routes = policy.route([superintendent], 'high', BERLIN_DAY);
+
+            expect(routes).toEqual([{ recipient: superintendent, channel: 'sms', address: '+4930555010' }]);
+        });
+
+        it('should use every preferred channel', () => {
+            const routes = policy.route([{ ...superintendent, channels: ['sms', 'email'] }], 'high', BERLIN_DAY);
+
+            expect(routes.map(r => r.address)).toEqual(['+4930555010', 'sam@example.com']);
+        });
+
+        it('should skip channels the contact has no address for', () => {
+            const routes = policy.route([{ ...superintendent, phone: undefined, channels: ['sms', 'email'] }], 'high', BERLIN_DAY);
+
+            expect(routes.map(r => r.channel)).toEqual(['email']);
+        });
+
+        it('should route custom roles by SMS when they have a phone, else email', () => {
+            const foreman: RecipientProfile = { contactId: 'c-9', name: 'Fritz', role: 'foreman', email: 'fritz@example.com' };
+
+            expect(policy.route([foreman], 'medium', BERLIN_DAY)[0].channel).toBe('email');
+            expect(policy.route([{ ...foreman, phone: '+4930555011' }], 'medium', BERLIN_DAY)[0].channel).toBe('sms');
+        });
+
+        it('should address push by email', () => {
+            const inspector: RecipientProfile = { contactId: 'c-2', name: 'Ida', role: 'inspector', email: 'ida@example.com' };
+
+            expect(policy.route([inspector], 'medium', BERLIN_DAY)[0]).toMatchObject({ channel: 'push', address: 'ida@example.com' });
+        });
+    });
+
+    describe('quiet hours', () => {
+        const sleeping: RecipientProfile = {
+            ...superintendent,
+            quietHours: { start: '22:00', end: '06:00', timeZone: 'Europe/Berlin' },
+        };
+
+        it('should hold non-critical alerts until quiet hours end', () => {
+            const [route] = policy.route([sleeping], 'high', BERLIN_NIGHT);
+
+            // 06:00 in Berlin
+            expect(route.notBefore).toEqual(new Date('2025-06-02T04:00:00Z'));
+        });
+
+        it('should still deliver critical alerts during quiet hours', () => {
+            const routes = policy.route([sleeping], 'critical', BERLIN_NIGHT);
+
+            expect(routes).toHaveLength(1);
+            expect(routes[0].notBefore).toBeUndefined();
+        });
+
+        it('should deliver outside quiet hours', () => {
+            expect(policy.route([sleeping], 'low', BERLIN_DAY)[0].notBefore).toBeUndefined();
+        });
+
+        it('should end quiet hours at the next local end time', () => {
+            const lunch = { start: '12:00', end: '13:00', timeZone: 'UTC' };
+
+            expect(policy.getQuietHoursEnd(lunch, new Date('2025-06-01T12:30:45Z'))).toEqual(new Date('2025-06-01T13:00:00Z'));
+            expect(policy.getQuietHoursEnd(lunch, new Date('2025-06-01T13:30:00Z'))).toBeNull();
+        });
+
+        it('should end quiet hours at the local end time on DST nights', () => {
+            const quiet = { start: '22:00', end: '06:00', timeZone: 'Europe/Berlin' };
+
+            // 23:30 CET before the spring change; 06:00 CEST is 04:00 UTC
+            expect(policy.getQuietHoursEnd(quiet, new Date('2025-03-29T22:30:00Z'))).toEqual(new Date('2025-03-30T04:00:00Z'));
+            // 23:30 CEST before the autumn change; 06:00 CET is 05:00 UTC
+            expect(policy.getQuietHoursEnd(quiet, new Date('2025-10-25T21:30:00Z'))).toEqual(new Date('2025-10-26T05:00:00Z'));
+        });
+
+        it('should handle ranges within a single day', () => {
+            const lunch = { start: '12:00', end: '13:00', timeZone: 'UTC' };
+
+            expect(policy.isQuietTime(lunch, new Date('2025-06-01T12:30:00Z'))).toBe(true);
+            expect(policy.isQuietTime(lunch, new Date('2025-06-01T13:00:00Z'))).toBe(false);
+        });
+
+        it('should evaluate quiet hours in the contact time zone', () => {
+            const quiet = { start: '22:00', end: '06:00', timeZone: 'America/New_York' };
+
+            // 23:30 in Berlin is 17:30 in New York
+            expect(policy.isQuietTime(quiet, BERLIN_NIGHT)).toBe(false);
+        });
+    });
+});
@@ -5,6 +5,38 @@
 import { describe, it, expect } from 'vitest';
 import { AlertScheduler } from '../../../src/lib/weather-engine/domain/services/AlertScheduler';
 import { WeatherAlert } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+import type { AlertChannel } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+import { InMemoryDeadLetterQueue } from '../../../src/lib/weather-engine/infrastructure/InMemoryDeadLetterQueue';
+import { InMemoryDeferredAlertQueue } from '../../../src/lib/weather-engine/infrastructure/InMemoryDeferredAlertQueue';
+import type { AlertDeliveryResult, IAlertChannelPort } from '../../../src/lib/weather-engine/ports/IAlertChannelPort';
+
+/**
+ * Channel that fails a fixed number of times before succeeding
+ */
+class FlakyChannel implements IAlertChannelPort {
+    sends = 0;
+
+    constructor(private readonly failures: number, private readonly mode: 'result' | 'throw' = 'result') {}
+
+    async sendAlert(alert: WeatherAlert): Promise<AlertDeliveryResult> {
+        this.sends++;
+        if (this.sends > this.failures) {
+            return { alertId: alert.id, channel: 'sms', success: true, deliveredAt: new Date() };
+        }
+        if (this.mode === 'throw') {
+            throw new Error('Gateway timeout');
+        }
+        return { alertId: alert.id, channel: 'sms', success: false, errorMessage: 'Carrier rejected' };
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return true;
+    }
+
+    getChannelType(): AlertChannel {
+        return 'sms';
+    }
+}
 
 describe('AlertScheduler', () => {
     const createAlert = (priority: 'low' | 'medium' | 'high' | 'critical') => {
@@ -83,4 +115,181 @@ describe('AlertScheduler', () => {
             expect(result).toHaveLength(0);
         });
     });
+
+    const START = new Date('2025-06-01T12:00:00Z');
+    // Timers are recorded instead of started; tests drain the retry queue themselves
+    const recordTimer = (timers: number[]) => (_callback: () => void, ms: number) => {
+        timers.push(ms);
+    };
+
+    /**
+     * Deliver queued retries a minute apart until none are left
+     */
+    const drainRetries = async (scheduler: AlertScheduler) => {
+        let now = START;
+        while ((await scheduler.getDeferred()).length > 0) {
+            now = new Date(now.getTime() + 60 * 1000);
+            await scheduler.deliverDue(now);
+        }
+    };
+
+    describe('processAlerts retries', () => {
+        it('should queue a failed delivery for a retry instead of waiting for it', async () => {
+            const channel = new FlakyChannel(1);
+            const timers: number[] = [];
+            const scheduler = new AlertScheduler([channel], { setTimer: recordTimer(timers) });
+            const alert = createAlert('high');
+
+            await scheduler.processAlerts([alert], START);
+
+            expect(channel.sends).toBe(1);
+            expect(alert.status).toBe('pending');
+            expect(alert.notBefore).toEqual(new Date(START.getTime() + 1000));
+            expect((await scheduler.getDeferred()).map(a => a.id)).toEqual([alert.id]);
+            expect(timers).toEqual([1000]);
+        });
+
+        it('should retry until delivery succeeds', async () => {
+            const channel = new FlakyChannel(2);
+            const scheduler = new AlertScheduler([channel], { setTimer: recordTimer([]) });
+            const alert = createAlert('high');
+
+            await scheduler.processAlerts([alert], START);
+            await drainRetries(scheduler);
+
+            expect(alert.status).toBe('delivered');
+            expect(alert.attemptCount).toBe(3);
+            expect(alert.deliveryAttempts.map(a => a.success)).toEqual([false, false, true]);
+        });
+
+        it('should back off exponentially between attempts', async () => {
+            const timers: number[] = [];
+            const scheduler = new AlertScheduler([new FlakyChannel(5)], {
+                setTimer: recordTimer(timers),
+                retryPolicies: { sms: { maxAttempts: 4, initialDelayMs: 100, backoffMultiplier: 2, maxDelayMs: 300 } },
+            });
+
+            await scheduler.processAlerts([createAlert('high')], START);
+            await drainRetries(scheduler);
+
+            expect(timers).toEqual([100, 200, 300]);
+        });
+
+        it('should keep the failure reason from the last attempt', async () => {
+            const scheduler = new AlertScheduler([new FlakyChannel(5, 'throw')], { setTimer: recordTimer([]) });
+            const alert = createAlert('high');
+
+            await scheduler.processAlerts([alert], START);
+            await drainRetries(scheduler);
+
+            expect(alert.status).toBe('failed');
+            expect(alert.failureReason).toBe('Gateway timeout');
+            expect(alert.deliveryAttempts.every(a => a.errorMessage === 'Gateway timeout')).toBe(true);
+        });
+
+        it('should fail without a configured channel', async () => {
+            const scheduler = new AlertScheduler([]);
+            const alert = createAlert('high');
+
+            await scheduler.processAlerts([alert]);
+
+            expect(alert.failureReason).toBe('No channel configured for sms');
+            expect(alert.attemptCount).toBe(0);
+        });
+    });
+
+    describe('quiet hours', () => {
+        // 06:00 in Berlin, when the recipient's quiet hours end
+        const QUIET_HOURS_END = new Date('2025-06-02T04:00:00Z');
+        const NIGHT = new Date('2025-06-01T21:30:00Z');
+
+        const createDeferredAlert = () => WeatherAlert.create({
+            id: 'alert-night',
+            siteId: 'site-001',
+            channel: 'sms',
+            recipient: '+15551234567',
+            recipientType: 'superintendent',
+            message: 'Test alert',
+            priority: 'high',
+            triggerEventId: 'event-001',
+            createdAt: NIGHT,
+            notBefore: QUIET_HOURS_END,
+        });
+
+        it('should hold an alert until its quiet hours end and then deliver it', async () => {
+            const channel = new FlakyChannel(0);
+            const deferred = new InMemoryDeferredAlertQueue();
+            const scheduler = new AlertScheduler([channel], { deferred });
+            const alert = createDeferredAlert();
+
+            await scheduler.processAlerts([alert], NIGHT);
+            expect(channel.sends).toBe(0);
+            expect((await scheduler.getDeferred()).map(a => a.id)).toEqual(['alert-night']);
+
+            expect(await scheduler.deliverDue(new Date(QUIET_HOURS_END.getTime() - 60 * 1000))).toHaveLength(0);
+
+            const delivered = await scheduler.deliverDue(QUIET_HOURS_END);
+            expect(delivered.map(a => [a.id, a.status])).toEqual([['alert-night', 'delivered']]);
+            expect(channel.sends).toBe(1);
+            expect(await scheduler.getDeferred()).toHaveLength(0);
+        });
+
+        it('should hold alerts in memory without a deferred queue', async () => {
+            const channel = new FlakyChannel(0);
+            const scheduler = new AlertScheduler([channel]);
+
+            await scheduler.processAlerts([createDeferredAlert()], NIGHT);
+            expect(channel.sends).toBe(0);
+
+            await scheduler.deliverDue(QUIET_HOURS_END);
+            expect(channel.sends).toBe(1);
+        });
+    });
+
+    describe('dead letters', () => {
+        const setTimer = recordTimer([]);
+
+        it('should park alerts that exhausted their retries', async () => {
+            const deadLetters = new InMemoryDeadLetterQueue();
+            const scheduler = new AlertScheduler([new FlakyChannel(5)], { setTimer, deadLetters });
+            const alert = createAlert('high');
+
+            await scheduler.processAlerts([alert], START);
+            await drainRetries(scheduler);
+
+            const parked = await scheduler.getDeadLetters();
+            expect(parked.map(a => a.id)).toEqual([alert.id]);
+        });
+
+        it('should not park delivered alerts', async () => {
+            const deadLetters = new InMemoryDeadLetterQueue();
+            const scheduler = new AlertScheduler([new FlakyChannel(1)], { setTimer, deadLetters });
+
+            await scheduler.processAlerts([createAlert('high')], START);
+            await drainRetries(scheduler);
+
+            expect(await scheduler.getDeadLetters()).toHaveLength(0);
+        });
+
+        it('should replay a dead letter and keep its attempt history', async () => {
+            const channel = new FlakyChannel(3);
+            const deadLetters = new InMemoryDeadLetterQueue();
+            const scheduler = new AlertScheduler([channel], { setTimer, deadLetters });
+            const alert = createAlert('high');
+            await scheduler.processAlerts([alert], START);
+            await drainRetries(scheduler);
+
+            const replayed = await scheduler.replayDeadLetter(alert.id);
+
+            expect(replayed?.status).toBe('delivered');
+            expect(replayed?.attemptCount).toBe(4);
+            expect(await scheduler.getDeadLetters()).toHaveLength(0);
+        });
+
+        it('should return null when replaying an unknown alert', async () => {
+            const scheduler = new AlertScheduler([], { deadLetters: new InMemoryDeadLetterQueue() });
+
+            expect(await scheduler.replayDeadLetter('missing')).toBeNull();
+        });
+    });
 });
@@ -0,0 +1,118 @@
+/**
+ * CachingWeatherDataAdapter Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CachingWeatherDataAdapter } from '../../../src/lib/weather-engine/infrastructure/CachingWeatherDataAdapter';
+import { InMemoryForecastCache } from '../../../src/lib/weather-engine/infrastructure/InMemoryForecastCache';
+import { MockNoaaAdapter } from '../../../src/lib/weather-engine/infrastructure/MockNoaaAdapter';
+import type { HourlyForecast } from '../../../src/lib/weather-engine/ports/IWeatherDataPort';
+
+const HOUR = 60 * 60 * 1000;
+
+class CountingSource extends MockNoaaAdapter {
+    calls = 0;
+    failing = false;
+
+    async getHourlyForecast(latitude: number, longitude: number, hoursAhead: number): Promise<HourlyForecast> {
+        this.calls++;
+        if (this.failing) throw new Error('NOAA API point lookup failed: Service Unavailable');
+        return super.getHourlyForecast(latitude, longitude, hoursAhead);
+    }
+}
+
+function forecastFetched(hoursAgo: number): HourlyForecast {
+    const fetchedAt = new Date(Date.now() - hoursAgo * HOUR);
+    return {
+        siteId: 'site-52.52-13.405',
+        latitude: 52.52,
+        longitude: 13.405,
+        forecasts: Array.from({ length: 72 }, (_, i) => ({
+            timestamp: new Date(fetchedAt.getTime() + i * HOUR),
+            precipitationInchesPerHour: i === 10 ? 0.8 : 0,
+            temperature: 60,
+            windSpeed: 5,
+            humidity: 70,
+        })),
+        fetchedAt,
+        expiresAt: new Date(fetchedAt.getTime() + HOUR),
+    };
+}
+
+describe('CachingWeatherDataAdapter', () => {
+    let source: CountingSource;
+    let cache: InMemoryForecastCache;
+    let adapter: CachingWeatherDataAdapter;
+
+    beforeEach(() => {
+        source = new CountingSource();
+        cache = new InMemoryForecastCache();
+        adapter = new CachingWeatherDataAdapter(source, cache);
+    });
+
+    it('should serve fresh forecasts from the cache', async () => {
+        await adapter.getHourlyForecast(52.52, 13.405, 72);
+        const second = await adapter.getHourlyForecast(52.52, 13.405, 24);
+
+        expect(source.calls).toBe(1);
+        expect(second.forecasts).toHaveLength(24);
+        expect(second.stale).toBeUndefined();
+    });
+
+    it('should share the cache between nearby coordinates', async () => {
+        await adapter.getHourlyForecast(52.5201, 13.4101, 72);
+        await adapter.getHourlyForecast(52.5198, 13.4098, 72);
+
+        expect(source.calls).toBe(1);
+    });
+
+    it('should refetch when the cache does not cover the requested hours', async () => {
+        await adapter.getHourlyForecast(52.52, 13.405, 24);
+        await adapter.getHourlyForecast(52.52, 13.405, 72);
+
+        expect(source.calls).toBe(2);
+    });
+
+    it('should refetch once the cached forecast expires', async () => {
+        await cache.set(adapter.getCacheKey(52.52, 13.405), forecastFetched(2));
+
+        const forecast = await adapter.getHourlyForecast(52.52, 13.405, 72);
+
+        expect(source.calls).toBe(1);
+        expect(forecast.stale).toBeUndefined();
+    });
+
+    it('should fall back to stale data with its age when the source fails', async () => {
+        await cache.set(adapter.getCacheKey(52.52, 13.405), forecastFetched(6));
+        source.failing = true;
+
+        const forecast = await adapter.getHourlyForecast(52.52, 13.405, 72);
+
+        expect(forecast.stale).toBe(true);
+        expect(forecast.ageMinutes).toBeGreaterThanOrEqual(360);
+        expect(forecast.warning).toBe('Using cached data (6h old)');
+    });
+
+    it('should drop hours that have already passed from stale data', async () => {
+        await cache.set(adapter.getCacheKey(52.52, 13.405), forecastFetched(6));
+        source.failing = true;
+
+        const forecast = await adapter.getHourlyForecast(52.52, 13.405, 72);
+
+        expect(forecast.forecasts).toHaveLength(66);
+        expect(forecast.forecasts[0].timestamp.getTime()).toBeGreaterThan(Date.now() - HOUR);
+    });
+
+    it('should rethrow when no cached forecast is recent enough', async () => {
+        await cache.set(adapter.getCacheKey(52.52, 13.405), forecastFetched(30));
+        source.failing = true;
+
+        await expect(adapter.getHourlyForecast(52.52, 13.405, 72)).rejects.toThrow('Service Unavailable');
+    });
+
+    it('should rethrow when nothing is cached', async () => {
+        source.failing = true;
+
+        await expect(adapter.getHourlyForecast(52.52, 13.405, 72)).rejects.toThrow('Service Unavailable');
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * CompositeWeatherDataAdapter Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CompositeWeatherDataAdapter } from '../../../src/lib/weather-engine/infrastructure/CompositeWeatherDataAdapter';
+import { NWS_COVERAGE, DWD_COVERAGE } from '../../../src/lib/weather-engine/infrastructure/weatherRegions';
+import type { IWeatherDataPort, HourlyForecast } from '../../../src/lib/weather-engine/ports/IWeatherDataPort';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 5, 1, 12);
+
+class StubProvider implements IWeatherDataPort {
+    calls = 0;
+    available = true;
+    failing = false;
+
+    constructor(private readonly precipitation: number, private readonly startHour = 0) {}
+
+    async getHourlyForecast(latitude: number, longitude: number, hoursAhead: number): Promise<HourlyForecast> {
+        this.calls++;
+        if (this.failing) throw new Error('503 Service Unavailable');
+        return {
+            siteId: `stub-${latitude}-${longitude}`,
+            latitude,
+            longitude,
+            forecasts: Array.from({ length: hoursAhead }, (_, i) => ({
+                timestamp: new Date(START + (this.startHour + i) * HOUR),
+                precipitationInchesPerHour: this.precipitation,
+                temperature: 60,
+                windSpeed: 10,
+                humidity: 80,
+            })),
+            fetchedAt: new Date(START),
+            expiresAt: new Date(START + (this.startHour + 1) * HOUR),
+        };
+    }
+
+    async getCurrentPrecipitation(): Promise<number> {
+        if (this.failing) throw new Error('503 Service Unavailable');
+        return this.precipitation;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return this.available;
+    }
+}
+
+describe('CompositeWeatherDataAdapter', () => {
+    let noaa: StubProvider;
+    let dwd: StubProvider;
+    let openMeteo: StubProvider;
+
+    beforeEach(() => {
+        noaa = new StubProvider(0.6);
+        dwd = new StubProvider(0.4);
+        openMeteo = new StubProvider(0.2);
+    });
+
+    function composite(mode: 'failover' | 'blend' = 'failover') {
+        return new CompositeWeatherDataAdapter([
+            { name: 'noaa', port: noaa, coverage: NWS_COVERAGE },
+            { name: 'dwd', port: dwd, coverage: DWD_COVERAGE, weight: 3 },
+            { name: 'open-meteo', port: openMeteo },
+        ], mode);
+    }
+
+    describe('failover', () => {
+        it('should pick the first provider covering the location', async () => {
+            const us = await composite().getHourlyForecast(37.54, -77.43, 6);
+            const germany = await composite().getHourlyForecast(52.52, 13.41, 6);
+
+            expect(us.forecasts[0].source).toBe('noaa');
+            expect(germany.forecasts[0].source).toBe('dwd');
+            expect(germany.forecasts[0].precipitationInchesPerHour).toBe(0.4);
+        });
+
+        it('should fall back to a global provider outside regional coverage', async () => {
+            const forecast = await composite().getHourlyForecast(-33.87, 151.21, 6);
+
+            expect(forecast.forecasts.every(f => f.source === 'open-meteo')).toBe(true);
+            expect(noaa.calls + dwd.calls).toBe(0);
+        });
+
+        it('should skip unavailable providers', async () => {
+            noaa.available = false;
+
+            const forecast = await composite().getHourlyForecast(37.54, -77.43, 6);
+
+            expect(noaa.calls).toBe(0);
+            expect(forecast.forecasts[0].source).toBe('open-meteo');
+        });
+
+        it('should fail over when a provider errors', async () => {
+            dwd.failing = true;
+
+            const forecast = await composite().getHourlyForecast(52.52, 13.41, 6);
+
+            expect(forecast.forecasts[0].source).toBe('open-meteo');
+            expect(await composite().getCurrentPrecipitation(52.52, 13.41)).toBe(0.2);
+        });
+
+        it('should report every provider failure when none answers', async () => {
+            dwd.failing = true;
+            openMeteo.available = false;
+
+            await expect(composite().getHourlyForecast(52.52, 13.41, 6))
+                .rejects.toThrow('All weather providers failed (dwd: 503 Service Unavailable; open-meteo: unavailable)');
+        });
+    });
+
+    describe('blend', () => {
+        it('should average covering providers by weight', async () => {
+            const forecast = await composite('blend').getHourlyForecast(52.52, 13.41, 6);
+
+            expect(forecast.forecasts).toHaveLength(6);
+            expect(forecast.forecasts[0].source).toBe('dwd+open-meteo');
+            expect(forecast.forecasts[0].precipitationInchesPerHour).toBeCloseTo((0.4 * 3 + 0.2) / 4, 6);
+            expect(noaa.calls).toBe(0);
+        });
+
+        it('should align rows by hour and keep the earliest expiry', async () => {
+            openMeteo = new StubProvider(0.2, 2);
+
+            const forecast = await composite('blend').getHourlyForecast(52.52, 13.41, 6);
+
+            expect(forecast.forecasts[0].source).toBe('dwd');
+            expect(forecast.forecasts[0].precipitationInchesPerHour).toBeCloseTo(0.4, 6);
+            expect(forecast.forecasts[2].source).toBe('dwd+open-meteo');
+            expect(forecast.expiresAt.getTime()).toBe(START + HOUR);
+        });
+
+        it('should use the remaining providers when one fails', async () => {
+            dwd.failing = true;
+
+            const forecast = await composite('blend').getHourlyForecast(52.52, 13.41, 6);
+
+            expect(forecast.forecasts[0].source).toBe('open-meteo');
+            expect(forecast.forecasts[0].precipitationInchesPerHour).toBe(0.2);
+        });
+    });
+
+    it('should be available while any provider is', async () => {
+        noaa.available = false;
+        dwd.available = false;
+
+        expect(await composite().isAvailable()).toBe(true);
+        openMeteo.available = false;
+        expect(await composite().isAvailable()).toBe(false);
+    });
+});
@@ -0,0 +1,70 @@
+// @vitest-environment node
+/**
+ * DwdBrightSkyAdapter Unit Tests
+ *
+ * Runs against a recorded Bright Sky response in tests/fixtures/brightsky.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { DwdBrightSkyAdapter } from '../../../src/lib/weather-engine/infrastructure/DwdBrightSkyAdapter';
+
+const WEATHER = readFileSync(new URL('../../fixtures/brightsky/weather-berlin.json', import.meta.url), 'utf-8');
+
+describe('DwdBrightSkyAdapter', () => {
+    let adapter: DwdBrightSkyAdapter;
+    let requests: URL[];
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2025-06-01T12:20:00Z'));
+
+        requests = [];
+        vi.stubGlobal('fetch', async (url: string) => {
+            const parsed = new URL(url);
+            requests.push(parsed);
+            return parsed.searchParams.get('lat') === '52.52'
+                ? new Response(WEATHER, { status: 200 })
+                : new Response('{"detail":"No sources match your criteria"}', { status: 404, statusText: 'Not Found' });
+        });
+        adapter = new DwdBrightSkyAdapter();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it('should request records from the current hour through the horizon', async () => {
+        await adapter.getHourlyForecast(52.52, 13.41, 6);
+
+        expect(requests[0].pathname).toBe('/weather');
+        expect(requests[0].searchParams.get('date')).toBe('2025-06-01T12:00:00.000Z');
+        expect(requests[0].searchParams.get('last_date')).toBe('2025-06-01T18:00:00.000Z');
+    });
+
+    it('should assign precipitation to the hour it fell in, in inches', async () => {
+        const { forecasts } = await adapter.getHourlyForecast(52.52, 13.41, 6);
+        const precipitation = forecasts.map(f => f.precipitationInchesPerHour);
+
+        expect(forecasts[0].timestamp.toISOString()).toBe('2025-06-01T12:00:00.000Z');
+        expect(precipitation).toHaveLength(6);
+        expect(precipitation[0]).toBe(0);
+        expect(precipitation[2]).toBeCloseTo(3.1 / 25.4, 6);
+        expect(precipitation[3]).toBeCloseTo(0.35, 2);
+        expect(precipitation[5]).toBe(0);
+    });
+
+    it('should convert temperature and wind speed', async () => {
+        const { forecasts } = await adapter.getHourlyForecast(52.52, 13.41, 6);
+
+        expect(forecasts[0].temperature).toBeCloseTo(68, 6);
+        expect(forecasts[3].windSpeed).toBeCloseTo(15.29, 2);
+        expect(forecasts[3].humidity).toBe(94);
+    });
+
+    it('should report locations outside DWD coverage as failures', async () => {
+        await expect(adapter.getHourlyForecast(37.54, -77.43, 6))
+            .rejects.toThrow('DWD Bright Sky fetch failed: 404');
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * GaugeIngestionService Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GaugeIngestionService } from '../../../src/lib/weather-engine/domain/services/GaugeIngestionService';
+import { RainfallEventDetector } from '../../../src/lib/weather-engine/domain/services/RainfallEventDetector';
+import { WeatherTriggerService } from '../../../src/lib/weather-engine/domain/services/WeatherTriggerService';
+import type { SitePermit } from '../../../src/lib/weather-engine/domain/services/WeatherTriggerService';
+import { MockNoaaAdapter } from '../../../src/lib/weather-engine/infrastructure/MockNoaaAdapter';
+import { InMemoryGaugeReadingRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryGaugeReadingRepository';
+import { InMemoryRainfallEventRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryRainfallEventRepository';
+import { InMemoryInspectionWindowRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryInspectionWindowRepository';
+
+const permit: SitePermit = {
+    siteId: 'site-001',
+    thresholdInchesPerHour: 0.5,
+    jurisdictionInspectionHours: 24,
+};
+
+describe('GaugeIngestionService', () => {
+    let readings: InMemoryGaugeReadingRepository;
+    let events: InMemoryRainfallEventRepository;
+    let service: GaugeIngestionService;
+
+    beforeEach(() => {
+        readings = new InMemoryGaugeReadingRepository();
+        events = new InMemoryRainfallEventRepository();
+        const detector = new RainfallEventDetector(
+            events,
+            new InMemoryInspectionWindowRepository(),
+            new WeatherTriggerService(new MockNoaaAdapter())
+        );
+        service = new GaugeIngestionService(readings, detector);
+    });
+
+    it('should store tip counts and interval totals as inches', async () => {
+        const result = await service.ingest(permit, {
+            deviceId: 'gauge-1',
+            inchesPerTip: 0.02,
+            observations: [
+                { observedAt: new Date('2025-06-01T10:05:00Z'), intervalMinutes: 5, tipCount: 3 },
+                { observedAt: new Date('2025-06-01T10:10:00Z'), intervalMinutes: 5, precipitationInches: 0.04 },
+            ],
+        }, new Date('2025-06-01T10:11:00Z'));
+
+        const stored = await readings.findBySite('site-001');
+        expect(result.accepted).toHaveLength(2);
+        expect(stored.map(r => r.precipitationInches)).toEqual([0.06, 0.04]);
+        expect((await events.findOngoing('site-001'))[0].totalAccumulationInches).toBeCloseTo(0.1, 6);
+    });
+
+    it('should skip readings that were already ingested', async () => {
+        const batch = {
+            deviceId: 'gauge-1',
+            observations: [{ observedAt: new Date('2025-06-01T10:05:00Z'), intervalMinutes: 5, tipCount: 10 }],
+        };
+        await service.ingest(permit, batch, new Date('2025-06-01T10:06:00Z'));
+
+        const result = await service.ingest(permit, batch, new Date('2025-06-01T10:07:00Z'));
+
+        expect(result.accepted).toHaveLength(0);
+        expect(result.duplicates).toBe(1);
+        expect((await events.findOngoing('site-001'))[0].totalAccumulationInches).toBeCloseTo(0.1, 6);
+    });
+
+    it('should require exactly one measurement per observation', async () => {
+        await expect(service.ingest(permit, {
+            deviceId: 'gauge-1',
+            observations: [{ observedAt: new Date(), intervalMinutes: 5, tipCount: 1, precipitationInches: 0.01 }],
+        })).rejects.toThrow('Each observation needs either tipCount or precipitationInches');
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * GaugeReading Entity Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GaugeReading } from '../../../src/lib/weather-engine/domain/entities/GaugeReading';
+
+describe('GaugeReading', () => {
+    const baseProps = () => ({
+        id: 'reading-001',
+        siteId: 'site-001',
+        deviceId: 'gauge-1',
+        observedAt: new Date('2025-06-01T12:15:00Z'),
+        intervalMinutes: 15,
+    });
+
+    it('should convert tipping-bucket counts to inches', () => {
+        const reading = GaugeReading.fromTips(baseProps(), 12, 0.01);
+
+        expect(reading.precipitationInches).toBeCloseTo(0.12, 6);
+        expect(reading.tipCount).toBe(12);
+    });
+
+    it('should derive interval start and intensity', () => {
+        const reading = GaugeReading.create({ ...baseProps(), precipitationInches: 0.1 });
+
+        expect(reading.intervalStart.toISOString()).toBe('2025-06-01T12:00:00.000Z');
+        expect(reading.getIntensityInchesPerHour()).toBeCloseTo(0.4, 6);
+        expect(reading.isWet()).toBe(true);
+    });
+
+    it('should reject invalid readings', () => {
+        expect(() => GaugeReading.create({ ...baseProps(), precipitationInches: -0.1 }))
+            .toThrow('Precipitation cannot be negative');
+        expect(() => GaugeReading.create({ ...baseProps(), intervalMinutes: 0, precipitationInches: 0 }))
+            .toThrow('Interval must be positive');
+        expect(() => GaugeReading.fromTips(baseProps(), 1.5, 0.01))
+            .toThrow('Tip count must be a non-negative integer');
+    });
+});
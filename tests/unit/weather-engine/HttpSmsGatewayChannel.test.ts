@@ -0,0 +1,109 @@
+// @vitest-environment node
+/**
+ * HttpSmsGatewayChannel Unit Tests
+ *
+ * Runs against an in-process HTTP gateway stand-in.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpSmsGatewayChannel } from '../../../src/lib/weather-engine/infrastructure/HttpSmsGatewayChannel';
+import { WeatherAlert } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+
+interface CapturedRequest {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+function createAlert(): WeatherAlert {
+    return WeatherAlert.create({
+        id: 'alert-001',
+        siteId: 'site-1',
+        channel: 'sms',
+        recipient: '+49301234567',
+        recipientType: 'superintendent',
+        message: 'Rain alert: Deploy controls.',
+        priority: 'critical',
+        triggerEventId: 'storm-1',
+        createdAt: new Date(),
+    });
+}
+
+describe('HttpSmsGatewayChannel', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: CapturedRequest[];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                requests.push({ path: req.url ?? '', headers: req.headers, body });
+                const failing = req.url === '/fail';
+                res.writeHead(failing ? 503 : 201, { 'Content-Type': 'text/plain' });
+                res.end(failing ? 'carrier unavailable' : 'queued');
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    it('should post a JSON message to the gateway', async () => {
+        const channel = new HttpSmsGatewayChannel({ endpoint: `${baseUrl}/send`, from: 'ESCACS', format: 'json' });
+
+        const result = await channel.sendAlert(createAlert());
+
+        expect(result.success).toBe(true);
+        expect(JSON.parse(requests[0].body)).toEqual({
+            to: '+49301234567',
+            from: 'ESCACS',
+            body: 'Rain alert: Deploy controls.',
+        });
+    });
+
+    it('should post Twilio-style form fields with basic auth', async () => {
+        const channel = new HttpSmsGatewayChannel({
+            endpoint: `${baseUrl}/Messages.json`,
+            from: '+15550000000',
+            format: 'form',
+            username: 'AC123',
+            password: 'secret',
+        });
+
+        await channel.sendAlert(createAlert());
+
+        const params = new URLSearchParams(requests[0].body);
+        expect(params.get('To')).toBe('+49301234567');
+        expect(params.get('From')).toBe('+15550000000');
+        expect(requests[0].headers.authorization).toBe(`Basic ${Buffer.from('AC123:secret').toString('base64')}`);
+    });
+
+    it('should report gateway errors with status and body', async () => {
+        const channel = new HttpSmsGatewayChannel({ endpoint: `${baseUrl}/fail`, from: 'ESCACS', format: 'json' });
+
+        const result = await channel.sendAlert(createAlert());
+
+        expect(result.success).toBe(false);
+        expect(result.errorMessage).toBe('SMS gateway responded 503: carrier unavailable');
+    });
+
+    it('should report connection errors', async () => {
+        const channel = new HttpSmsGatewayChannel({ endpoint: 'http://127.0.0.1:1/send', from: 'ESCACS', format: 'json' });
+
+        const result = await channel.sendAlert(createAlert());
+
+        expect(result.success).toBe(false);
+        expect(result.errorMessage).toBeTruthy();
+    });
+});
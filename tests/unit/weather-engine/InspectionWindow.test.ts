@@ -2,7 +2,7 @@
  * InspectionWindow Entity Unit Tests
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { InspectionWindow } from '../../../src/lib/weather-engine/domain/entities/InspectionWindow';
 
 describe('InspectionWindow', () => {
@@ -115,6 +115,47 @@ describe('InspectionWindow', () => {
         });
     });
 
+    describe('across DST transitions', () => {
+        const originalTz = process.env.TZ;
+
+        afterEach(() => {
+            vi.useRealTimers();
+            process.env.TZ = originalTz;
+        });
+
+        // US clocks spring forward at 02:00 on 2026-03-08
+        const stormEndTime = new Date('2026-03-07T17:00:00Z');
+
+        it('should not depend on the server time zone', () => {
+            process.env.TZ = 'America/New_York';
+            const window = InspectionWindow.create({
+                id: 'window-001',
+                siteId: 'site-001',
+                rainfallEventId: 'event-001',
+                jurisdictionHours: 24,
+                stormEndTime,
+            });
+
+            expect(window.deadlineTime.toISOString()).toBe('2026-03-08T17:00:00.000Z');
+        });
+
+        it('should count elapsed hours remaining with a pinned clock', () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date('2026-03-08T05:00:00Z')); // 00:00 EST, before the jump
+            const window = InspectionWindow.create({
+                id: 'window-001',
+                siteId: 'site-001',
+                rainfallEventId: 'event-001',
+                jurisdictionHours: 24,
+                stormEndTime,
+            });
+
+            expect(window.getRemainingHours()).toBe(12);
+            expect(window.getRemainingHours(new Date('2026-03-08T08:00:00Z'))).toBe(9);
+            expect(window.isOverdue(new Date('2026-03-08T17:00:01Z'))).toBe(true);
+        });
+    });
+
     describe('completeInspection', () => {
         it('should mark as completed', () => {
             const window = createWindow(0);
@@ -133,5 +174,37 @@ describe('InspectionWindow', () => {
             window.completeInspection('inspection-001');
             expect(window.inspectionCompletedAt).toBeInstanceOf(Date);
         });
+
+        it('should record the given completion time', () => {
+            const window = createWindow(0);
+            const completedAt = new Date('2026-01-10T15:00:00Z');
+            window.completeInspection('inspection-001', completedAt);
+            expect(window.inspectionCompletedAt).toEqual(completedAt);
+        });
+    });
+
+    describe('getStatus', () => {
+        it('should be open before the deadline', () => {
+            expect(createWindow(1).getStatus()).toBe('open');
+        });
+
+        it('should be overdue after the deadline without an inspection', () => {
+            expect(createWindow(25).getStatus()).toBe('overdue');
+        });
+
+        it('should be completed once inspected, even if late', () => {
+            const window = createWindow(25);
+            window.completeInspection('inspection-001');
+            expect(window.getStatus()).toBe('completed');
+        });
+    });
+
+    it('should keep the overdue alert time in its props', () => {
+        const window = createWindow(25);
+        const alertedAt = new Date();
+        window.markOverdueAlerted(alertedAt);
+
+        const restored = InspectionWindow.create(window.toProps());
+        expect(restored.overdueAlertedAt).toEqual(alertedAt);
     });
 });
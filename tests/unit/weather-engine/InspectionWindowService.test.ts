@@ -0,0 +1,183 @@
+/**
+ * InspectionWindowService Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InspectionWindowService } from '../../../src/lib/weather-engine/domain/services/InspectionWindowService';
+import { AlertScheduler } from '../../../src/lib/weather-engine/domain/services/AlertScheduler';
+import { AlertEscalationService } from '../../../src/lib/weather-engine/domain/services/AlertEscalationService';
+import { InspectionWindow } from '../../../src/lib/weather-engine/domain/entities/InspectionWindow';
+import type { AlertRecipientType } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+import { InMemoryInspectionWindowRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryInspectionWindowRepository';
+import { InMemoryAuditLog } from '../../../src/lib/weather-engine/infrastructure/InMemoryAuditLog';
+import { InMemoryAlertRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryAlertRepository';
+import { HmacAcknowledgmentLinks } from '../../../src/lib/weather-engine/infrastructure/HmacAcknowledgmentLinks';
+import type { AlertContact, IAlertContactPort } from '../../../src/lib/weather-engine/ports/IAlertContactPort';
+
+const HOUR = 60 * 60 * 1000;
+const STORM_END = new Date('2025-06-01T10:00:00Z');
+
+class StubContactPort implements IAlertContactPort {
+    private readonly contacts: Partial<Record<AlertRecipientType, AlertContact[]>> = {
+        superintendent: [{ name: 'Max Weber', phone: '+49301234567' }],
+        inspector: [{ name: 'Lena Vogel', email: 'lena@example.com' }],
+    };
+
+    async findContacts(_siteId: string, recipientType: AlertRecipientType): Promise<AlertContact[]> {
+        return this.contacts[recipientType] ?? [];
+    }
+}
+
+function createWindow(id: string, stormEndTime: Date = STORM_END, siteId = 'site-1'): InspectionWindow {
+    return InspectionWindow.create({
+        id,
+        siteId,
+        rainfallEventId: `rain-${id}`,
+        jurisdictionHours: 24,
+        stormEndTime,
+    });
+}
+
+describe('InspectionWindowService', () => {
+    let windows: InMemoryInspectionWindowRepository;
+    let auditLog: InMemoryAuditLog;
+    let service: InspectionWindowService;
+
+    beforeEach(() => {
+        windows = new InMemoryInspectionWindowRepository();
+        auditLog = new InMemoryAuditLog();
+        service = new InspectionWindowService(windows, auditLog, new StubContactPort(), new AlertScheduler([]));
+    });
+
+    describe('listWindows', () => {
+        it('should filter a site\'s windows by status', async () => {
+            await windows.save(createWindow('w-old', new Date(STORM_END.getTime() - 48 * HOUR)));
+            await windows.save(createWindow('w-new'));
+
+            const now = new Date(STORM_END.getTime() + 2 * HOUR);
+            expect((await service.listWindows('site-1', 'overdue', now)).map(w => w.id)).toEqual(['w-old']);
+            expect((await service.listWindows('site-1', 'open', now)).map(w => w.id)).toEqual(['w-new']);
+        });
+
+        it('should list open windows of every site without a site filter', async () => {
+            await windows.save(createWindow('w-1'));
+            await windows.save(createWindow('w-2', STORM_END, 'site-2'));
+
+            expect(await service.listWindows()).toHaveLength(2);
+        });
+    });
+
+    describe('recordInspection', () => {
+        it('should close open windows whose storm ended before the inspection', async () => {
+            await windows.save(createWindow('w-1'));
+            await windows.save(createWindow('w-later', new Date(STORM_END.getTime() + 6 * HOUR)));
+
+            const closed = await service.recordInspection('site-1', 'checklist-1', new Date(STORM_END.getTime() + 3 * HOUR));
+
+            expect(closed.map(w => w.id)).toEqual(['w-1']);
+            const window = await windows.findById('w-1');
+            expect(window?.inspectionId).toBe('checklist-1');
+            expect(window?.inspectionCompletedAt?.toISOString()).toBe('2025-06-01T13:00:00.000Z');
+            expect((await windows.findById('w-later'))?.isCompleted()).toBe(false);
+        });
+
+        it('should audit the closure and whether it was late', async () => {
+            await windows.save(createWindow('w-1'));
+
+            await service.recordInspection('site-1', 'checklist-1', new Date(STORM_END.getTime() + 30 * HOUR));
+
+            const trail = await service.getAuditTrail('w-1');
+            expect(trail).toHaveLength(1);
+            expect(trail[0].action).toBe('inspection_window.closed');
+            expect(trail[0].details).toEqual({
+                inspectionId: 'checklist-1',
+                completedAt: '2025-06-02T16:00:00.000Z',
+                late: true,
+            });
+        });
+
+        it('should ignore other sites', async () => {
+            await windows.save(createWindow('w-1', STORM_END, 'site-2'));
+
+            expect(await service.recordInspection('site-1', 'checklist-1', new Date(STORM_END.getTime() + HOUR)))
+                .toEqual([]);
+        });
+    });
+
+    describe('completeWindow', () => {
+        it('should refuse to close a window twice', async () => {
+            await windows.save(createWindow('w-1'));
+            await service.completeWindow('w-1', 'checklist-1');
+
+            await expect(service.completeWindow('w-1', 'checklist-2')).rejects.toThrow('already completed');
+        });
+
+        it('should return null for unknown windows', async () => {
+            expect(await service.completeWindow('missing', 'checklist-1')).toBeNull();
+        });
+    });
+
+    describe('sweepOverdue', () => {
+        it('should leave windows alone before their deadline', async () => {
+            await windows.save(createWindow('w-1'));
+
+            const result = await service.sweepOverdue(new Date(STORM_END.getTime() + 23 * HOUR));
+            expect(result.overdueWindows).toHaveLength(0);
+            expect(result.alerts).toHaveLength(0);
+        });
+
+        it('should alert superintendents and inspectors once a window is overdue', async () => {
+            await windows.save(createWindow('w-1'));
+            const now = new Date(STORM_END.getTime() + 25 * HOUR);
+
+            const result = await service.sweepOverdue(now);
+
+            expect(result.overdueWindows.map(w => w.id)).toEqual(['w-1']);
+            expect(result.alerts.map(a => [a.recipientType, a.channel, a.recipient])).toEqual([
+                ['superintendent', 'sms', '+49301234567'],
+                ['inspector', 'email', 'lena@example.com'],
+            ]);
+            expect(result.alerts[0].priority).toBe('critical');
+            expect(result.alerts[0].triggerEventId).toBe('w-1');
+            expect((await windows.findById('w-1'))?.overdueAlertedAt).toEqual(now);
+        });
+
+        it('should give the superintendent a one-click acknowledgment link', async () => {
+            const escalation = new AlertEscalationService(
+                new InMemoryAlertRepository(),
+                new StubContactPort(),
+                new AlertScheduler([]),
+                new HmacAcknowledgmentLinks('test-secret', 'https://escacs.example.com')
+            );
+            service = new InspectionWindowService(windows, auditLog, new StubContactPort(), new AlertScheduler([]), escalation);
+            await windows.save(createWindow('w-1'));
+
+            const [superintendent, inspector] = (await service.sweepOverdue(new Date(STORM_END.getTime() + 25 * HOUR))).alerts;
+
+            expect(superintendent.message).toContain(`Acknowledge: ${superintendent.acknowledgmentLink}`);
+            expect(superintendent.acknowledgmentLink).toContain(`/api/alerts/${superintendent.id}/ack?`);
+            expect(inspector.acknowledgmentLink).toBeNull();
+            expect(await escalation.getAlert(superintendent.id)).not.toBeNull();
+        });
+
+        it('should alert and audit each overdue window only once', async () => {
+            await windows.save(createWindow('w-1'));
+
+            await service.sweepOverdue(new Date(STORM_END.getTime() + 25 * HOUR));
+            const second = await service.sweepOverdue(new Date(STORM_END.getTime() + 26 * HOUR));
+
+            expect(second.alerts).toHaveLength(0);
+            const trail = await service.getAuditTrail('w-1');
+            expect(trail.map(e => e.action)).toEqual(['inspection_window.overdue']);
+            expect(trail[0].details).toEqual({ deadlineTime: '2025-06-02T10:00:00.000Z', alertsSent: 2 });
+        });
+
+        it('should skip completed windows', async () => {
+            await windows.save(createWindow('w-1'));
+            await service.recordInspection('site-1', 'checklist-1', new Date(STORM_END.getTime() + HOUR));
+
+            const result = await service.sweepOverdue(new Date(STORM_END.getTime() + 48 * HOUR));
+            expect(result.overdueWindows).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * MonitoringRun Entity Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MonitoringRun } from '../../../src/lib/weather-engine/domain/entities/MonitoringRun';
+
+describe('MonitoringRun', () => {
+    describe('start', () => {
+        it('should start an incomplete run', () => {
+            const run = MonitoringRun.start(new Date('2026-01-10T12:00:00Z'));
+
+            expect(run.id).toBeTruthy();
+            expect(run.completedAt).toBeNull();
+            expect(run.getDurationMs()).toBeNull();
+        });
+    });
+
+    describe('create', () => {
+        it('should reject completion before start', () => {
+            expect(() => MonitoringRun.create({
+                id: 'run-001',
+                startedAt: new Date('2026-01-10T12:00:00Z'),
+                completedAt: new Date('2026-01-10T11:00:00Z'),
+                outcomes: [],
+            })).toThrow();
+        });
+    });
+
+    describe('outcomes', () => {
+        it('should aggregate sites evaluated and alerts produced', () => {
+            const run = MonitoringRun.start();
+            run.recordSite('site-001', 4);
+            run.recordSite('site-002', 0);
+            run.recordSiteError('site-003', 'NOAA unavailable');
+
+            expect(run.getSitesEvaluated()).toBe(2);
+            expect(run.getAlertsProduced()).toBe(4);
+            expect(run.hasErrors()).toBe(true);
+        });
+    });
+
+    describe('complete', () => {
+        it('should compute duration', () => {
+            const run = MonitoringRun.start(new Date('2026-01-10T12:00:00Z'));
+            run.complete(new Date('2026-01-10T12:00:02.500Z'));
+
+            expect(run.getDurationMs()).toBe(2500);
+        });
+    });
+});
@@ -0,0 +1,114 @@
+// @vitest-environment node
+/**
+ * NoaaApiAdapter Unit Tests
+ *
+ * Runs against recorded NWS responses in tests/fixtures/nws.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { NoaaApiAdapter } from '../../../src/lib/weather-engine/infrastructure/NoaaApiAdapter';
+import { parseIsoDuration } from '../../../src/lib/weather-engine/infrastructure/nwsGridpoint';
+
+const fixture = (name: string) => readFileSync(new URL(`../../fixtures/nws/${name}`, import.meta.url), 'utf-8');
+
+const RESPONSES: Record<string, string> = {
+    'https://api.weather.gov/points/37.54,-77.43': fixture('points-akq.json'),
+    'https://api.weather.gov/gridpoints/AKQ/45,76': fixture('gridpoint-akq.json'),
+};
+
+describe('NoaaApiAdapter', () => {
+    let adapter: NoaaApiAdapter;
+    let requests: Array<{ url: string; headers: Record<string, string> }>;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2025-06-01T12:20:00Z'));
+
+        requests = [];
+        vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+            requests.push({ url, headers: init.headers as Record<string, string> });
+            const body = RESPONSES[url];
+            return body
+                ? new Response(body, { status: 200 })
+                : new Response('{}', { status: 500, statusText: 'Internal Server Error' });
+        });
+        adapter = new NoaaApiAdapter('ops@example.com');
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    describe('getHourlyForecast', () => {
+        it('should start at the current hour and return the requested hours', async () => {
+            const forecast = await adapter.getHourlyForecast(37.54, -77.43, 72);
+
+            expect(forecast.forecasts).toHaveLength(72);
+            expect(forecast.forecasts[0].timestamp.toISOString()).toBe('2025-06-01T12:00:00.000Z');
+            expect(forecast.forecasts[71].timestamp.toISOString()).toBe('2025-06-04T11:00:00.000Z');
+        });
+
+        it('should spread QPF totals across their interval in inches', async () => {
+            const { forecasts } = await adapter.getHourlyForecast(37.54, -77.43, 24);
+            const precipitation = forecasts.map(f => f.precipitationInchesPerHour);
+
+            expect(precipitation.slice(0, 6)).toEqual([0, 0, 0, 0, 0, 0]);
+            precipitation.slice(6, 12).forEach(p => expect(p).toBeCloseTo(0.2, 6));
+            expect(precipitation[12]).toBeCloseTo(1.0, 6);
+            precipitation.slice(13, 18).forEach(p => expect(p).toBeCloseTo(0.02, 6));
+        });
+
+        it('should treat missing QPF values as no precipitation', async () => {
+            const { forecasts } = await adapter.getHourlyForecast(37.54, -77.43, 24);
+
+            expect(forecasts.slice(18, 24).every(f => f.precipitationInchesPerHour === 0)).toBe(true);
+        });
+
+        it('should exceed realistic permit thresholds', async () => {
+            const { forecasts } = await adapter.getHourlyForecast(37.54, -77.43, 72);
+
+            expect(Math.max(...forecasts.map(f => f.precipitationInchesPerHour))).toBeGreaterThan(0.5);
+        });
+
+        it('should convert temperature, wind and humidity units', async () => {
+            const { forecasts } = await adapter.getHourlyForecast(37.54, -77.43, 24);
+
+            expect(forecasts[0].temperature).toBeCloseTo(68, 6);
+            expect(forecasts[2].temperature).toBeCloseTo(77, 6);
+            expect(forecasts[0].windSpeed).toBeCloseTo(10, 6);
+            expect(forecasts[0].humidity).toBe(64);
+            expect(forecasts[12].humidity).toBe(93);
+        });
+
+        it('should identify the application to NWS', async () => {
+            await adapter.getHourlyForecast(37.54, -77.43, 1);
+
+            expect(requests.map(r => r.url)).toEqual([
+                'https://api.weather.gov/points/37.54,-77.43',
+                'https://api.weather.gov/gridpoints/AKQ/45,76',
+            ]);
+            expect(requests[0].headers['User-Agent']).toBe('(escacs-platform, ops@example.com)');
+        });
+
+        it('should report upstream failures', async () => {
+            await expect(adapter.getHourlyForecast(40.0, -75.0, 24))
+                .rejects.toThrow('NOAA API point lookup failed: 500');
+        });
+    });
+
+    describe('parseIsoDuration', () => {
+        it('should parse hour, day and minute durations', () => {
+            expect(parseIsoDuration('PT6H')).toBe(6);
+            expect(parseIsoDuration('P1D')).toBe(24);
+            expect(parseIsoDuration('P1DT12H')).toBe(36);
+            expect(parseIsoDuration('PT30M')).toBe(0.5);
+        });
+
+        it('should reject malformed durations', () => {
+            expect(() => parseIsoDuration('6H')).toThrow('Unsupported ISO-8601 duration');
+            expect(() => parseIsoDuration('PT')).toThrow('Unsupported ISO-8601 duration');
+        });
+    });
+});
@@ -0,0 +1,72 @@
+// @vitest-environment node
+/**
+ * OpenMeteoAdapter Unit Tests
+ *
+ * Runs against a recorded Open-Meteo response in tests/fixtures/open-meteo.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { OpenMeteoAdapter } from '../../../src/lib/weather-engine/infrastructure/OpenMeteoAdapter';
+
+const FORECAST = readFileSync(new URL('../../fixtures/open-meteo/forecast-berlin.json', import.meta.url), 'utf-8');
+
+describe('OpenMeteoAdapter', () => {
+    let adapter: OpenMeteoAdapter;
+    let requests: URL[];
+    let failing: boolean;
+
+    beforeEach(() => {
+        requests = [];
+        failing = false;
+        vi.stubGlobal('fetch', async (url: string) => {
+            requests.push(new URL(url));
+            return failing
+                ? new Response('{"error":true}', { status: 429, statusText: 'Too Many Requests' })
+                : new Response(FORECAST, { status: 200 });
+        });
+        adapter = new OpenMeteoAdapter();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should request imperial units for the requested horizon', async () => {
+        await adapter.getHourlyForecast(52.52, 13.41, 6);
+
+        const params = requests[0].searchParams;
+        expect(requests[0].origin + requests[0].pathname).toBe('https://api.open-meteo.com/v1/forecast');
+        expect(params.get('precipitation_unit')).toBe('inch');
+        expect(params.get('temperature_unit')).toBe('fahrenheit');
+        expect(params.get('wind_speed_unit')).toBe('mph');
+        expect(params.get('forecast_hours')).toBe('6');
+    });
+
+    it('should map hourly arrays to forecasts', async () => {
+        const { forecasts } = await adapter.getHourlyForecast(52.52, 13.41, 6);
+
+        expect(forecasts).toHaveLength(6);
+        expect(forecasts[0].timestamp.toISOString()).toBe('2025-06-01T12:00:00.000Z');
+        expect(forecasts[3]).toMatchObject({
+            precipitationInchesPerHour: 0.35,
+            temperature: 64.8,
+            windSpeed: 15.3,
+            humidity: 94,
+        });
+    });
+
+    it('should treat missing values as zero', async () => {
+        const { forecasts } = await adapter.getHourlyForecast(52.52, 13.41, 6);
+
+        expect(forecasts[5].precipitationInchesPerHour).toBe(0);
+    });
+
+    it('should report upstream failures', async () => {
+        failing = true;
+
+        await expect(adapter.getHourlyForecast(52.52, 13.41, 6))
+            .rejects.toThrow('Open-Meteo forecast fetch failed: 429');
+        expect(await adapter.isAvailable()).toBe(false);
+    });
+});
@@ -79,4 +79,29 @@ describe('RainfallEvent', () => {
             expect(event.getDurationHours()).toBeNull();
         });
     });
+
+    describe('recordRainfall', () => {
+        it('should accumulate rain and keep the peak intensity', () => {
+            const event = RainfallEvent.create(createProps());
+
+            event.recordRainfall(new Date('2024-01-15T11:00:00Z'), 0.3, 0.3);
+            event.recordRainfall(new Date('2024-01-15T12:00:00Z'), 0.1, 0.1);
+
+            expect(event.totalAccumulationInches).toBeCloseTo(1.6, 6);
+            expect(event.intensityInchesPerHour).toBe(0.5);
+            expect(event.lastRainAt.toISOString()).toBe('2024-01-15T12:00:00.000Z');
+        });
+
+        it('should end at the last rain when closed', () => {
+            const event = RainfallEvent.create(createProps());
+            event.recordRainfall(new Date('2024-01-15T12:00:00Z'), 0.2, 0.2);
+
+            expect(event.hasBeenDryFor(6, new Date('2024-01-15T17:00:00Z'))).toBe(false);
+            expect(event.hasBeenDryFor(6, new Date('2024-01-15T18:00:00Z'))).toBe(true);
+            event.close();
+
+            expect(event.endTime?.toISOString()).toBe('2024-01-15T12:00:00.000Z');
+            expect(() => event.recordRainfall(new Date(), 0.1, 0.1)).toThrow('Cannot add rainfall to a closed event');
+        });
+    });
 });
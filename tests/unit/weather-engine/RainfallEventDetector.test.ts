@@ -0,0 +1,182 @@
+/**
+ * RainfallEventDetector Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RainfallEventDetector } from '../../../src/lib/weather-engine/domain/services/RainfallEventDetector';
+import { WeatherTriggerService } from '../../../src/lib/weather-engine/domain/services/WeatherTriggerService';
+import type { SitePermit } from '../../../src/lib/weather-engine/domain/services/WeatherTriggerService';
+import { GaugeReading } from '../../../src/lib/weather-engine/domain/entities/GaugeReading';
+import { MockNoaaAdapter } from '../../../src/lib/weather-engine/infrastructure/MockNoaaAdapter';
+import { InMemoryRainfallEventRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryRainfallEventRepository';
+import { InMemoryInspectionWindowRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryInspectionWindowRepository';
+
+const permit: SitePermit = {
+    siteId: 'site-001',
+    thresholdInchesPerHour: 0.5,
+    jurisdictionInspectionHours: 24,
+};
+
+function reading(observedAt: string, inches: number, deviceId = 'gauge-1'): GaugeReading {
+    return GaugeReading.create({
+        id: crypto.randomUUID(),
+        siteId: 'site-001',
+        deviceId,
+        observedAt: new Date(observedAt),
+        intervalMinutes: 60,
+        precipitationInches: inches,
+    });
+}
+
+describe('RainfallEventDetector', () => {
+    let events: InMemoryRainfallEventRepository;
+    let windows: InMemoryInspectionWindowRepository;
+    let detector: RainfallEventDetector;
+
+    beforeEach(() => {
+        events = new InMemoryRainfallEventRepository();
+        windows = new InMemoryInspectionWindowRepository();
+        detector = new RainfallEventDetector(
+            events,
+            windows,
+            new WeatherTriggerService(new MockNoaaAdapter()),
+            { dryPeriodHours: 6, qualifyingAccumulationInches: 0.25 }
+        );
+    });
+
+    it('should open an event when rain starts and keep accumulating', async () => {
+        const first = await detector.process(permit, [reading('2025-06-01T10:00:00Z', 0.1)],
+            new Date('2025-06-01T10:05:00Z'));
+        await detector.process(permit, [reading('2025-06-01T11:00:00Z', 0.3)],
+            new Date('2025-06-01T11:05:00Z'));
+
+        const [event] = await events.findOngoing('site-001');
+        expect(first.opened).toHaveLength(1);
+        expect(event.source).toBe('local_gauge');
+        expect(event.startTime.toISOString()).toBe('2025-06-01T09:00:00.000Z');
+        expect(event.totalAccumulationInches).toBeCloseTo(0.4, 6);
+        expect(event.intensityInchesPerHour).toBeCloseTo(0.3, 6);
+    });
+
+    it('should ignore dry readings while no event is open', async () => {
+        const result = await detector.process(permit, [reading('2025-06-01T10:00:00Z', 0)],
+            new Date('2025-06-01T10:05:00Z'));
+
+        expect(result.opened).toHaveLength(0);
+        expect(await events.findBySite('site-001')).toHaveLength(0);
+    });
+
+    it('should close the event after the dry period and open an inspection window', async () => {
+        await detector.process(permit, [
+            reading('2025-06-01T10:00:00Z', 0.2),
+            reading('2025-06-01T11:00:00Z', 0.2),
+            reading('2025-06-01T12:00:00Z', 0),
+        ], new Date('2025-06-01T12:05:00Z'));
+
+        const result = await detector.process(permit, [reading('2025-06-01T17:00:00Z', 0)],
+            new Date('2025-06-01T17:05:00Z'));
+
+        expect(result.closed).toHaveLength(1);
+        expect(result.closed[0].endTime?.toISOString()).toBe('2025-06-01T11:00:00.000Z');
+        expect(result.inspectionWindows).toHaveLength(1);
+        expect(result.inspectionWindows[0].rainfallEventId).toBe(result.closed[0].id);
+        expect(result.inspectionWindows[0].deadlineTime.toISOString()).toBe('2025-06-02T11:00:00.000Z');
+        expect(await windows.findBySite('site-001')).toHaveLength(1);
+    });
+
+    it('should not open a window for events below the qualifying accumulation', async () => {
+        await detector.process(permit, [reading('2025-06-01T10:00:00Z', 0.1)], new Date('2025-06-01T10:05:00Z'));
+
+        const result = await detector.process(permit, [], new Date('2025-06-01T16:00:00Z'));
+
+        expect(result.closed).toHaveLength(1);
+        expect(result.inspectionWindows).toHaveLength(0);
+    });
+
+    it('should start a new event when rain resumes after the dry period', async () => {
+        const result = await detector.process(permit, [
+            reading('2025-06-01T10:00:00Z', 0.3),
+            reading('2025-06-01T18:00:00Z', 0.05),
+        ], new Date('2025-06-01T18:05:00Z'));
+
+        expect(result.opened).toHaveLength(2);
+        expect(result.closed).toHaveLength(1);
+        expect(result.inspectionWindows).toHaveLength(1);
+        expect(await events.findOngoing('site-001')).toHaveLength(1);
+    });
+
+    it('should open one window when several gauges see the same storm', async () => {
+        await detector.process(permit, [
+            reading('2025-06-01T10:00:00Z', 0.3, 'gauge-1'),
+            reading('2025-06-01T11:00:00Z', 0.4, 'gauge-2'),
+        ], new Date('2025-06-01T11:05:00Z'));
+
+        const result = await detector.process(permit, [], new Date('2025-06-01T18:00:00Z'));
+
+        expect(result.closed).toHaveLength(2);
+        expect(result.inspectionWindows).toHaveLength(1);
+    });
+
+    describe('closeDryEvents', () => {
+        it('should close events that went dry without further readings', async () => {
+            await detector.process(permit, [
+                reading('2025-06-01T10:00:00Z', 0.2),
+                reading('2025-06-01T11:00:00Z', 0.2),
+            ], new Date('2025-06-01T11:05:00Z'));
+
+            const result = await detector.closeDryEvents(permit, new Date('2025-06-01T17:00:00Z'));
+
+            expect(result.closed).toHaveLength(1);
+            expect(result.inspectionWindows).toHaveLength(1);
+            expect(result.inspectionWindows[0].deadlineTime.toISOString()).toBe('2025-06-02T11:00:00.000Z');
+            expect(await events.findOngoing('site-001')).toHaveLength(0);
+        });
+
+        it('should leave events open within the dry period', async () => {
+            await detector.process(permit, [reading('2025-06-01T10:00:00Z', 0.3)], new Date('2025-06-01T10:05:00Z'));
+
+            const result = await detector.closeDryEvents(permit, new Date('2025-06-01T15:00:00Z'));
+
+            expect(result.closed).toHaveLength(0);
+            expect(await events.findOngoing('site-001')).toHaveLength(1);
+        });
+    });
+
+    describe('with an inspection policy', () => {
+        const stormEnd = '2025-06-01T10:00:00.000Z';
+
+        async function closeStorm(policyPermit: SitePermit) {
+            await detector.process(policyPermit, [reading('2025-06-01T10:00:00Z', 0.2)], new Date('2025-06-01T10:05:00Z'));
+            return detector.process(policyPermit, [], new Date('2025-06-01T17:00:00Z'));
+        }
+
+        it('should use the policy qualifying amount and deadline', async () => {
+            const result = await closeStorm({
+                ...permit,
+                inspectionPolicy: {
+                    qualifyingRainfallInches: 0.1,
+                    requiresStormInspection: () => true,
+                    getStormInspectionDeadline: end => new Date(end.getTime() + 48 * 60 * 60 * 1000),
+                },
+            });
+
+            expect(result.inspectionWindows).toHaveLength(1);
+            expect(result.inspectionWindows[0].stormEndTime.toISOString()).toBe(stormEnd);
+            expect(result.inspectionWindows[0].deadlineTime.toISOString()).toBe('2025-06-03T10:00:00.000Z');
+        });
+
+        it('should skip the window when the policy exempts the storm', async () => {
+            const result = await closeStorm({
+                ...permit,
+                inspectionPolicy: {
+                    qualifyingRainfallInches: 0.1,
+                    requiresStormInspection: () => false,
+                    getStormInspectionDeadline: end => end,
+                },
+            });
+
+            expect(result.closed).toHaveLength(1);
+            expect(result.inspectionWindows).toHaveLength(0);
+        });
+    });
+});
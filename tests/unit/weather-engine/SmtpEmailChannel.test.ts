@@ -0,0 +1,146 @@
+// @vitest-environment node
+/**
+ * SmtpEmailChannel Unit Tests
+ *
+ * Runs against a minimal in-process SMTP server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { SmtpEmailChannel } from '../../../src/lib/weather-engine/infrastructure/SmtpEmailChannel';
+import { WeatherAlert } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+import type { WeatherAlertProps } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+
+interface FakeSmtpServer {
+    port: number;
+    messages: string[];
+    close: () => Promise<void>;
+}
+
+const REJECTED_RECIPIENT = 'nobody@example.com';
+
+function startFakeSmtp(): Promise<FakeSmtpServer> {
+    const messages: string[] = [];
+
+    const server = net.createServer(socket => {
+        let buffer = '';
+        let data: string | null = null;
+        socket.write('220 fake.smtp ESMTP\r\n');
+
+        socket.on('data', chunk => {
+            buffer += chunk.toString();
+            let end: number;
+            while ((end = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, end);
+                buffer = buffer.slice(end + 2);
+
+                if (data !== null) {
+                    if (line === '.') {
+                        messages.push(data);
+                        data = null;
+                        socket.write('250 OK queued\r\n');
+                    } else {
+                        data += `${line}\n`;
+                    }
+                    continue;
+                }
+
+                const command = line.slice(0, 4).toUpperCase();
+                if (command === 'DATA') {
+                    data = '';
+                    socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+                } else if (command === 'QUIT') {
+                    socket.end('221 Bye\r\n');
+                } else if (command === 'RCPT' && line.includes(REJECTED_RECIPIENT)) {
+                    socket.write('550 No such user\r\n');
+                } else {
+                    socket.write('250 OK\r\n');
+                }
+            }
+        });
+    });
+
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            resolve({
+                port: (server.address() as AddressInfo).port,
+                messages,
+                close: () => new Promise(done => server.close(() => done())),
+            });
+        });
+    });
+}
+
+function createAlert(recipient: string, overrides: Partial<WeatherAlertProps> = {}): WeatherAlert {
+    return WeatherAlert.create({
+        id: 'alert-001',
+        siteId: 'site-1',
+        channel: 'email',
+        recipient,
+        recipientType: 'owner',
+        message: 'Rain alert: Deploy controls. 0.80 in/hr expected in 3h',
+        priority: 'high',
+        triggerEventId: 'storm-1',
+        createdAt: new Date(),
+        ...overrides,
+    });
+}
+
+describe('SmtpEmailChannel', () => {
+    let smtp: FakeSmtpServer;
+    let channel: SmtpEmailChannel;
+
+    beforeAll(async () => {
+        smtp = await startFakeSmtp();
+        channel = new SmtpEmailChannel({
+            host: '127.0.0.1',
+            port: smtp.port,
+            secure: false,
+            from: 'alerts@escacs.local',
+        });
+    });
+
+    afterAll(async () => {
+        await smtp.close();
+    });
+
+    it('should report the email channel type', () => {
+        expect(channel.getChannelType()).toBe('email');
+    });
+
+    it('should deliver the alert message to the recipient', async () => {
+        const result = await channel.sendAlert(createAlert('owner@example.com'));
+
+        expect(result.success).toBe(true);
+        const message = smtp.messages.at(-1) ?? '';
+        expect(message).toContain('To: owner@example.com');
+        expect(message).toContain('Subject: [HIGH] ESCACS weather alert for site site-1');
+        expect(message).toContain('Deploy controls');
+    });
+
+    it('should use the rendered subject and send the HTML body alongside the text', async () => {
+        await channel.sendAlert(createAlert('owner@example.com', {
+            subject: '[High] Rain expected at Berlin North Heights',
+            htmlMessage: '<h2>High rain alert</h2>',
+        }));
+
+        const message = smtp.messages.at(-1) ?? '';
+        expect(message).toContain('Subject: [High] Rain expected at Berlin North Heights');
+        expect(message).toContain('Content-Type: text/html');
+        expect(message).toContain('<h2>High rain alert</h2>');
+    });
+
+    it('should return the server error when the recipient is rejected', async () => {
+        const result = await channel.sendAlert(createAlert(REJECTED_RECIPIENT));
+
+        expect(result.success).toBe(false);
+        expect(result.errorMessage).toContain('550');
+    });
+
+    it('should report unavailable when the server cannot be reached', async () => {
+        const offline = new SmtpEmailChannel({ host: '127.0.0.1', port: 1, secure: false, from: 'a@b.c' });
+
+        expect(await offline.isAvailable()).toBe(false);
+    });
+});
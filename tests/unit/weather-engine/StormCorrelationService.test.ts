@@ -0,0 +1,123 @@
+/**
+ * StormCorrelationService Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StormCorrelationService } from '../../../src/lib/weather-engine/domain/services/StormCorrelationService';
+import type { Exceedance } from '../../../src/lib/weather-engine/domain/services/StormCorrelationService';
+import { InMemoryStormEventRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryStormEventRepository';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+function exceedance(overrides: Partial<Exceedance> = {}): Exceedance {
+    return {
+        siteId: 'site-001',
+        windowStart: new Date(NOW.getTime() + 6 * HOUR),
+        windowEnd: new Date(NOW.getTime() + 9 * HOUR),
+        maxIntensityInchesPerHour: 0.6,
+        priority: 'medium',
+        ...overrides,
+    };
+}
+
+describe('StormCorrelationService', () => {
+    let repository: InMemoryStormEventRepository;
+    let service: StormCorrelationService;
+
+    beforeEach(() => {
+        repository = new InMemoryStormEventRepository();
+        service = new StormCorrelationService(repository);
+    });
+
+    it('should alert on a new storm', async () => {
+        const decision = await service.correlate(exceedance(), NOW);
+
+        expect(decision.shouldAlert).toBe(true);
+        expect(decision.reason).toBe('new_storm');
+        expect(await repository.findBySite('site-001')).toHaveLength(1);
+    });
+
+    it('should suppress a repeated exceedance of the same window', async () => {
+        const first = await service.correlate(exceedance(), NOW);
+        const second = await service.correlate(exceedance(), new Date(NOW.getTime() + 0.25 * HOUR));
+
+        expect(second.shouldAlert).toBe(false);
+        expect(second.reason).toBe('duplicate');
+        expect(second.stormEventId).toBe(first.stormEventId);
+    });
+
+    it('should match a window that drifted within tolerance', async () => {
+        const first = await service.correlate(exceedance(), NOW);
+        const drifted = exceedance({
+            windowStart: new Date(NOW.getTime() + 10 * HOUR),
+            windowEnd: new Date(NOW.getTime() + 12 * HOUR),
+        });
+        const second = await service.correlate(drifted, NOW);
+
+        expect(second.stormEventId).toBe(first.stormEventId);
+    });
+
+    it('should treat a distant window as a new storm', async () => {
+        const first = await service.correlate(exceedance(), NOW);
+        const later = exceedance({
+            windowStart: new Date(NOW.getTime() + 30 * HOUR),
+            windowEnd: new Date(NOW.getTime() + 32 * HOUR),
+        });
+        const second = await service.correlate(later, NOW);
+
+        expect(second.reason).toBe('new_storm');
+        expect(second.stormEventId).not.toBe(first.stormEventId);
+    });
+
+    it('should re-alert when priority escalates', async () => {
+        await service.correlate(exceedance(), NOW);
+        const decision = await service.correlate(exceedance({ priority: 'critical' }), NOW);
+
+        expect(decision.shouldAlert).toBe(true);
+        expect(decision.reason).toBe('priority_escalated');
+    });
+
+    it('should not re-alert when priority drops', async () => {
+        await service.correlate(exceedance({ priority: 'high' }), NOW);
+        const decision = await service.correlate(exceedance({ priority: 'medium' }), NOW);
+
+        expect(decision.shouldAlert).toBe(false);
+    });
+
+    it('should re-alert when intensity changes materially', async () => {
+        await service.correlate(exceedance(), NOW);
+        const decision = await service.correlate(exceedance({ maxIntensityInchesPerHour: 0.9 }), NOW);
+
+        expect(decision.shouldAlert).toBe(true);
+        expect(decision.reason).toBe('intensity_changed');
+    });
+
+    it('should suppress minor intensity changes', async () => {
+        await service.correlate(exceedance(), NOW);
+        const decision = await service.correlate(exceedance({ maxIntensityInchesPerHour: 0.65 }), NOW);
+
+        expect(decision.shouldAlert).toBe(false);
+    });
+
+    it('should compare against the last alerted intensity, not the first', async () => {
+        await service.correlate(exceedance(), NOW);
+        await service.correlate(exceedance({ maxIntensityInchesPerHour: 0.9 }), NOW);
+        const decision = await service.correlate(exceedance({ maxIntensityInchesPerHour: 0.95 }), NOW);
+
+        expect(decision.shouldAlert).toBe(false);
+    });
+
+    it('should forget storms once their window has passed', async () => {
+        const first = await service.correlate(exceedance(), NOW);
+        const muchLater = new Date(NOW.getTime() + 20 * HOUR);
+        const second = await service.correlate(exceedance({
+            windowStart: new Date(muchLater.getTime() + 1 * HOUR),
+            windowEnd: new Date(muchLater.getTime() + 2 * HOUR),
+        }), muchLater);
+
+        expect(second.reason).toBe('new_storm');
+        expect(second.stormEventId).not.toBe(first.stormEventId);
+        expect(await repository.findBySite('site-001')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * TriggerRuleEvaluator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TriggerRuleEvaluator } from '../../../src/lib/weather-engine/domain/services/TriggerRuleEvaluator';
+import type { WeatherForecast } from '../../../src/lib/weather-engine/ports/IWeatherDataPort';
+
+const START = Date.UTC(2025, 5, 1, 12);
+const HOUR = 60 * 60 * 1000;
+
+function hourly(precipitation: number[]): WeatherForecast[] {
+    return precipitation.map((p, i) => ({
+        timestamp: new Date(START + i * HOUR),
+        precipitationInchesPerHour: p,
+        temperature: 60,
+        windSpeed: 5,
+        humidity: 80,
+    }));
+}
+
+const hour = (i: number) => new Date(START + i * HOUR).toISOString();
+
+describe('TriggerRuleEvaluator', () => {
+    const evaluator = new TriggerRuleEvaluator();
+
+    it('should match intensity rules on any hour above the threshold', () => {
+        const [match] = evaluator.evaluate(
+            [{ type: 'intensity', thresholdInchesPerHour: 0.5 }],
+            hourly([0, 0.6, 0.2, 0.9, 0])
+        );
+
+        expect(match.windowStart.toISOString()).toBe(hour(1));
+        expect(match.windowEnd.toISOString()).toBe(hour(3));
+        expect(match.observedValue).toBe(0.9);
+    });
+
+    it('should match accumulation rules on rolling-window totals', () => {
+        const forecasts = hourly([0, 0.1, 0.1, 0, 0, 0.1, 0, 0]);
+
+        const [match] = evaluator.evaluate([{ type: 'accumulation', thresholdInches: 0.25, windowHours: 6 }], forecasts);
+
+        expect(match.rule.type).toBe('accumulation');
+        expect(match.windowStart.toISOString()).toBe(hour(1));
+        expect(match.windowEnd.toISOString()).toBe(hour(5));
+        expect(match.observedValue).toBeCloseTo(0.3, 6);
+    });
+
+    it('should not match when rain is spread wider than the window', () => {
+        const forecasts = hourly([0.1, 0, 0, 0, 0.1, 0, 0, 0, 0.1]);
+
+        expect(evaluator.evaluate([{ type: 'accumulation', thresholdInches: 0.25, windowHours: 6 }], forecasts))
+            .toEqual([]);
+    });
+
+    it('should report every rule that fires', () => {
+        const matches = evaluator.evaluate([
+            { type: 'intensity', thresholdInchesPerHour: 0.5 },
+            { type: 'accumulation', thresholdInches: 0.5, windowHours: 24 },
+            { type: 'accumulation', thresholdInches: 2, windowHours: 24 },
+        ], hourly([0, 0.3, 0.3, 0, 0]));
+
+        expect(matches.map(m => m.rule)).toEqual([{ type: 'accumulation', thresholdInches: 0.5, windowHours: 24 }]);
+    });
+});
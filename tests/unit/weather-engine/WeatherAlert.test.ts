@@ -116,4 +116,87 @@ describe('WeatherAlert', () => {
             }
         });
     });
+
+    describe('acknowledgment', () => {
+        it('should record who acknowledged and when', () => {
+            const alert = WeatherAlert.create(validProps);
+            const at = new Date('2025-06-01T12:00:00Z');
+            alert.acknowledge('Max Weber', at);
+
+            expect(alert.status).toBe('acknowledged');
+            expect(alert.isAcknowledged()).toBe(true);
+            expect(alert.acknowledgedBy).toBe('Max Weber');
+            expect(alert.acknowledgedAt).toEqual(at);
+        });
+
+        it('should keep the first acknowledgment', () => {
+            const alert = WeatherAlert.create(validProps);
+            alert.acknowledge('Max Weber');
+            alert.acknowledge('Someone Else');
+
+            expect(alert.acknowledgedBy).toBe('Max Weber');
+        });
+
+        it('should stay acknowledged when delivery finishes afterwards', () => {
+            const delivered = WeatherAlert.create(validProps);
+            delivered.acknowledge('Max Weber');
+            delivered.markDelivered();
+            const failed = WeatherAlert.create(validProps);
+            failed.acknowledge('Max Weber');
+            failed.markFailed('Gateway timeout');
+
+            expect(delivered.isAcknowledged()).toBe(true);
+            expect(delivered.status).toBe('acknowledged');
+            expect(delivered.deliveredAt).toBeInstanceOf(Date);
+            expect(failed.isAcknowledged()).toBe(true);
+            expect(failed.failureReason).toBe('Gateway timeout');
+        });
+
+        it('should require an acknowledger', () => {
+            const alert = WeatherAlert.create(validProps);
+            expect(() => alert.acknowledge('')).toThrow('Acknowledger is required');
+        });
+
+        it('should only allow escalation level to increase', () => {
+            const alert = WeatherAlert.create(validProps);
+            alert.recordEscalation(1);
+
+            expect(alert.escalationLevel).toBe(1);
+            expect(() => alert.recordEscalation(1)).toThrow();
+        });
+
+        it('should round-trip state through props', () => {
+            const alert = WeatherAlert.create(validProps);
+            alert.acknowledge('Max Weber');
+
+            const restored = WeatherAlert.create(alert.toProps());
+            expect(restored.isAcknowledged()).toBe(true);
+            expect(restored.acknowledgedBy).toBe('Max Weber');
+        });
+    });
+
+    describe('delivery attempts', () => {
+        it('should number attempts in order', () => {
+            const alert = WeatherAlert.create(validProps);
+            alert.recordAttempt({ attemptedAt: new Date(), success: false, errorMessage: 'Timeout' });
+            alert.recordAttempt({ attemptedAt: new Date(), success: true });
+
+            expect(alert.attemptCount).toBe(2);
+            expect(alert.deliveryAttempts.map(a => a.attempt)).toEqual([1, 2]);
+        });
+
+        it('should requeue a failed alert', () => {
+            const alert = WeatherAlert.create(validProps);
+            alert.markFailed('Timeout');
+            alert.requeue();
+
+            expect(alert.isPending()).toBe(true);
+            expect(alert.failureReason).toBeNull();
+        });
+
+        it('should not requeue an alert that has not failed', () => {
+            const alert = WeatherAlert.create(validProps);
+            expect(() => alert.requeue()).toThrow('Only failed alerts can be requeued');
+        });
+    });
 });
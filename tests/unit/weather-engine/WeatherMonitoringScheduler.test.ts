@@ -0,0 +1,187 @@
+/**
+ * WeatherMonitoringScheduler Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WeatherMonitoringScheduler } from '../../../src/lib/weather-engine/domain/services/WeatherMonitoringScheduler';
+import { WeatherTriggerService } from '../../../src/lib/weather-engine/domain/services/WeatherTriggerService';
+import { AlertScheduler } from '../../../src/lib/weather-engine/domain/services/AlertScheduler';
+import { InspectionWindowService } from '../../../src/lib/weather-engine/domain/services/InspectionWindowService';
+import { RainfallEventDetector } from '../../../src/lib/weather-engine/domain/services/RainfallEventDetector';
+import { RainfallEvent } from '../../../src/lib/weather-engine/domain/entities/RainfallEvent';
+import { InMemoryRainfallEventRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryRainfallEventRepository';
+import { InMemoryInspectionWindowRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryInspectionWindowRepository';
+import { InMemoryAuditLog } from '../../../src/lib/weather-engine/infrastructure/InMemoryAuditLog';
+import { MockNoaaAdapter } from '../../../src/lib/weather-engine/infrastructure/MockNoaaAdapter';
+import { InMemoryMonitoringRunRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryMonitoringRunRepository';
+import type { IMonitoredSitePort, MonitoredSite } from '../../../src/lib/weather-engine/ports/IMonitoredSitePort';
+
+describe('WeatherMonitoringScheduler', () => {
+    let mockAdapter: MockNoaaAdapter;
+    let alertScheduler: AlertScheduler;
+    let runRepository: InMemoryMonitoringRunRepository;
+
+    const monitoredSite = (siteId: string): MonitoredSite => ({
+        siteId,
+        latitude: 37.5,
+        longitude: -77.4,
+        permit: {
+            siteId,
+            thresholdInchesPerHour: 0.5,
+            jurisdictionInspectionHours: 24,
+            superintendentPhone: '+15551234567',
+            inspectorEmails: ['inspector@example.com'],
+            ownerEmail: 'owner@example.com',
+        },
+    });
+
+    const createScheduler = (sites: MonitoredSite[]) => {
+        const sitePort: IMonitoredSitePort = {
+            listMonitoredSites: vi.fn().mockResolvedValue(sites),
+        };
+        return new WeatherMonitoringScheduler(
+            new WeatherTriggerService(mockAdapter),
+            alertScheduler,
+            sitePort,
+            runRepository,
+            { intervalMinutes: 15 }
+        );
+    };
+
+    beforeEach(() => {
+        mockAdapter = new MockNoaaAdapter();
+        alertScheduler = new AlertScheduler([]);
+        vi.spyOn(alertScheduler, 'processAlerts').mockResolvedValue();
+        runRepository = new InMemoryMonitoringRunRepository();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('runOnce', () => {
+        it('should evaluate every site and record the run', async () => {
+            mockAdapter.setMockScenario('storm');
+            const scheduler = createScheduler([monitoredSite('site-001'), monitoredSite('site-002')]);
+
+            const run = await scheduler.runOnce();
+
+            expect(run.getSitesEvaluated()).toBe(2);
+            expect(run.getAlertsProduced()).toBe(6);
+            expect(run.completedAt).toBeInstanceOf(Date);
+            expect(await runRepository.findRecent(10)).toHaveLength(1);
+        });
+
+        it('should hand alerts to the alert scheduler', async () => {
+            mockAdapter.setMockScenario('storm');
+            const scheduler = createScheduler([monitoredSite('site-001')]);
+
+            await scheduler.runOnce();
+
+            expect(alertScheduler.processAlerts).toHaveBeenCalledTimes(1);
+        });
+
+        it('should record sites without a permit as errors', async () => {
+            const scheduler = createScheduler([
+                { siteId: 'site-003', latitude: 0, longitude: 0, configurationError: 'No owner email' },
+            ]);
+
+            const run = await scheduler.runOnce();
+
+            expect(run.outcomes[0]).toEqual({ siteId: 'site-003', alertsProduced: 0, error: 'No owner email' });
+        });
+
+        it('should continue when one site fails', async () => {
+            vi.spyOn(mockAdapter, 'getHourlyForecast').mockRejectedValueOnce(new Error('NOAA unavailable'));
+            const scheduler = createScheduler([monitoredSite('site-001'), monitoredSite('site-002')]);
+
+            const run = await scheduler.runOnce();
+
+            expect(run.hasErrors()).toBe(true);
+            expect(run.getSitesEvaluated()).toBe(1);
+        });
+
+        it('should share an in-flight run between concurrent calls', async () => {
+            const scheduler = createScheduler([monitoredSite('site-001')]);
+
+            const [first, second] = await Promise.all([scheduler.runOnce(), scheduler.runOnce()]);
+
+            expect(first).toBe(second);
+            expect(await runRepository.findRecent(10)).toHaveLength(1);
+        });
+
+        it('should sweep overdue inspection windows after evaluating sites', async () => {
+            const windows = new InspectionWindowService(
+                new InMemoryInspectionWindowRepository(),
+                new InMemoryAuditLog(),
+                { findContacts: vi.fn().mockResolvedValue([]) },
+                alertScheduler
+            );
+            vi.spyOn(windows, 'sweepOverdue');
+            const scheduler = new WeatherMonitoringScheduler(
+                new WeatherTriggerService(mockAdapter),
+                alertScheduler,
+                { listMonitoredSites: vi.fn().mockResolvedValue([monitoredSite('site-001')]) },
+                runRepository,
+                { intervalMinutes: 15 },
+                undefined,
+                windows
+            );
+
+            await scheduler.runOnce();
+
+            expect(windows.sweepOverdue).toHaveBeenCalledTimes(1);
+        });
+
+        it('should close gauge events that went dry and open their inspection windows', async () => {
+            const events = new InMemoryRainfallEventRepository();
+            const windows = new InMemoryInspectionWindowRepository();
+            const lastRainAt = new Date(Date.now() - 7 * 60 * 60 * 1000);
+            await events.save(RainfallEvent.create({
+                id: 'evt-1',
+                siteId: 'site-001',
+                startTime: new Date(lastRainAt.getTime() - 2 * 60 * 60 * 1000),
+                intensityInchesPerHour: 0.3,
+                totalAccumulationInches: 0.6,
+                source: 'local_gauge',
+                deviceId: 'gauge-1',
+                lastRainAt,
+            }));
+            const triggerService = new WeatherTriggerService(mockAdapter);
+            const scheduler = new WeatherMonitoringScheduler(
+                triggerService,
+                alertScheduler,
+                { listMonitoredSites: vi.fn().mockResolvedValue([monitoredSite('site-001')]) },
+                runRepository,
+                { intervalMinutes: 15 },
+                undefined,
+                undefined,
+                new RainfallEventDetector(events, windows, triggerService, {
+                    dryPeriodHours: 6,
+                    qualifyingAccumulationInches: 0.25,
+                })
+            );
+
+            await scheduler.runOnce();
+
+            expect(await events.findOngoing('site-001')).toHaveLength(0);
+            const [window] = await windows.findBySite('site-001');
+            expect(window.rainfallEventId).toBe('evt-1');
+        });
+    });
+
+    describe('start/stop', () => {
+        it('should run on the configured cadence until stopped', async () => {
+            vi.useFakeTimers();
+            const scheduler = createScheduler([monitoredSite('site-001')]);
+
+            scheduler.start();
+            await vi.advanceTimersByTimeAsync(15 * 60 * 1000);
+            scheduler.stop();
+            await vi.advanceTimersByTimeAsync(30 * 60 * 1000);
+
+            expect(scheduler.isRunning()).toBe(false);
+            expect(await runRepository.findRecent(10)).toHaveLength(2);
+        });
+    });
+});
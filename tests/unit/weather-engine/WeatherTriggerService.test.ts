@@ -2,10 +2,20 @@
  * WeatherTriggerService Unit Tests
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { WeatherTriggerService } from '../../../src/lib/weather-engine/domain/services/WeatherTriggerService';
 import type { SitePermit } from '../../../src/lib/weather-engine/domain/services/WeatherTriggerService';
 import { MockNoaaAdapter } from '../../../src/lib/weather-engine/infrastructure/MockNoaaAdapter';
+import { StormCorrelationService } from '../../../src/lib/weather-engine/domain/services/StormCorrelationService';
+import { InMemoryStormEventRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryStormEventRepository';
+import type { IPreventiveActionPort } from '../../../src/lib/weather-engine/ports/IPreventiveActionPort';
+import { AlertEscalationService } from '../../../src/lib/weather-engine/domain/services/AlertEscalationService';
+import { AlertScheduler } from '../../../src/lib/weather-engine/domain/services/AlertScheduler';
+import { InMemoryAlertRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryAlertRepository';
+import { HmacAcknowledgmentLinks } from '../../../src/lib/weather-engine/infrastructure/HmacAcknowledgmentLinks';
+import { RulePackRegistry } from '../../../src/lib/jurisdiction-rules/domain/services/RulePackRegistry';
+import { BUILT_IN_RULE_PACKS } from '../../../src/lib/jurisdiction-rules/infrastructure/builtInRulePacks';
+import { BUILT_IN_HOLIDAY_CALENDARS } from '../../../src/lib/jurisdiction-rules/infrastructure/builtInHolidayCalendars';
 
 describe('WeatherTriggerService', () => {
     let service: WeatherTriggerService;
@@ -62,6 +72,39 @@ describe('WeatherTriggerService', () => {
         });
     });
 
+    describe('accumulation rules', () => {
+        const accumulationPermit: SitePermit = {
+            ...defaultPermit,
+            triggerRules: [
+                { type: 'intensity', thresholdInchesPerHour: 0.5 },
+                { type: 'accumulation', thresholdInches: 0.5, windowHours: 24 },
+            ],
+        };
+
+        it('should alert on cumulative rain that never exceeds the hourly threshold', async () => {
+            mockAdapter.setMockScenario('light_rain');
+
+            expect((await service.evaluateTriggers(defaultPermit, 37.5, -77.4)).shouldAlert).toBe(false);
+
+            const result = await service.evaluateTriggers(accumulationPermit, 37.5, -77.4);
+            expect(result.shouldAlert).toBe(true);
+            expect(result.firedRules?.map(m => m.rule.type)).toEqual(['accumulation']);
+            expect(result.firedRules?.[0].observedValue).toBeCloseTo(1.8, 6);
+            expect(result.triggerReason).toMatch(/^Rain forecast: 1\.80 in within 24h starting in \d+h$/);
+        });
+
+        it('should report each rule that fired with its window', async () => {
+            mockAdapter.setMockScenario('heavy_rain');
+
+            const result = await service.evaluateTriggers(accumulationPermit, 37.5, -77.4);
+
+            expect(result.firedRules?.map(m => m.rule.type)).toEqual(['intensity', 'accumulation']);
+            const [intensity] = result.firedRules ?? [];
+            expect(intensity.windowEnd.getTime() - intensity.windowStart.getTime()).toBe(3 * 60 * 60 * 1000);
+            expect(result.triggerReason?.split('; ')).toHaveLength(2);
+        });
+    });
+
     describe('determinePriority', () => {
         it('should return critical for intensity > 1.0', () => {
             expect(service.determinePriority(1.5, 10)).toBe('critical');
@@ -102,6 +145,82 @@ describe('WeatherTriggerService', () => {
 
             expect(result.alerts[0].message).toMatch(/\d+\.\d+ in\/hr/);
         });
+
+        it('should round the lead time and total the storm accumulation', async () => {
+            mockAdapter.setMockScenario('heavy_rain');
+            const result = await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+
+            expect(result.triggerReason).toMatch(/in \d+h$/);
+            expect(result.alerts[0].message).toMatch(/\(in \d+h\)/);
+            expect(result.alerts[0].message).toContain('2.80 in total');
+        });
+
+        it('should render channel-specific messages in the contact language', async () => {
+            mockAdapter.setMockScenario('heavy_rain');
+            const result = await service.evaluateTriggers({
+                ...defaultPermit,
+                siteName: 'Berlin North Heights',
+                timeZone: 'Europe/Berlin',
+                recipients: [
+                    { contactId: 'c-1', name: 'Max', role: 'superintendent', phone: '+4930555010', language: 'de' },
+                    { contactId: 'c-2', name: 'Ana', role: 'owner', email: 'ana@example.com', language: 'es' },
+                ],
+            }, 37.5, -77.4);
+
+            const [sms, email] = result.alerts;
+            expect(sms.message).toContain('Regenwarnung: Schutzmaßnahmen auf Berlin North Heights');
+            expect(sms.subject).toBeNull();
+            expect(email.subject).toContain('Lluvia prevista en Berlin North Heights');
+            expect(email.htmlMessage).toContain('<ol>');
+        });
+
+        it('should list the top preventive actions from the action port', async () => {
+            const actionPort: IPreventiveActionPort = {
+                getTopActions: async () => ['Deploy additional inlet protection', 'Reinforce silt fence perimeter'],
+            };
+            service = new WeatherTriggerService(mockAdapter, undefined, undefined, actionPort);
+            mockAdapter.setMockScenario('heavy_rain');
+
+            const result = await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+
+            const email = result.alerts.find(a => a.channel === 'email');
+            expect(result.alerts[0].message).toContain('First: Deploy additional inlet protection');
+            expect(email?.message).toContain('2. Reinforce silt fence perimeter');
+        });
+
+        it('should still alert when the action lookup fails', async () => {
+            const actionPort: IPreventiveActionPort = {
+                getTopActions: async () => { throw new Error('risk engine down'); },
+            };
+            service = new WeatherTriggerService(mockAdapter, undefined, undefined, actionPort);
+            mockAdapter.setMockScenario('heavy_rain');
+
+            const result = await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+
+            expect(result.alerts[0].message).toContain('First: Deploy erosion and sediment controls');
+        });
+    });
+
+    describe('acknowledgment links', () => {
+        it('should link SMS and email alerts that escalate unless acknowledged', async () => {
+            const escalation = new AlertEscalationService(
+                new InMemoryAlertRepository(),
+                { findContacts: async () => [] },
+                new AlertScheduler([]),
+                new HmacAcknowledgmentLinks('test-secret', 'https://escacs.example.com')
+            );
+            service = new WeatherTriggerService(mockAdapter, undefined, undefined, undefined, undefined, escalation);
+            mockAdapter.setMockScenario('storm');
+
+            const result = await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+
+            const sms = result.alerts.find(a => a.channel === 'sms');
+            expect(sms?.priority).toBe('critical');
+            expect(sms?.acknowledgmentLink).toContain(`/api/alerts/${sms?.id}/ack?`);
+            expect(sms?.message).toContain(`Acknowledge: ${sms?.acknowledgmentLink}`);
+            // Owner email and inspector push alerts never escalate
+            expect(result.alerts.filter(a => a.acknowledgmentLink)).toEqual([sms]);
+        });
     });
 
     describe('recipient routing', () => {
@@ -132,4 +251,145 @@ describe('WeatherTriggerService', () => {
             expect(emailAlert?.recipientType).toBe('owner');
         });
     });
+
+    describe('stale weather data', () => {
+        it('should surface the cache warning in the evaluation', async () => {
+            const staleAdapter = new MockNoaaAdapter();
+            staleAdapter.getHourlyForecast = async (lat, lon, hours) => ({
+                ...await mockAdapter.getHourlyForecast(lat, lon, hours),
+                stale: true,
+                ageMinutes: 360,
+                warning: 'Using cached data (6h old)',
+            });
+            service = new WeatherTriggerService(staleAdapter);
+
+            mockAdapter.setMockScenario('clear');
+            expect((await service.evaluateTriggers(defaultPermit, 37.5, -77.4)).dataWarning)
+                .toBe('Using cached data (6h old)');
+
+            mockAdapter.setMockScenario('storm');
+            const result = await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+            expect(result.shouldAlert).toBe(true);
+            expect(result.dataWarning).toBe('Using cached data (6h old)');
+        });
+    });
+
+    describe('contact profiles', () => {
+        it('should route alerts by stored profiles instead of fixed fields', async () => {
+            mockAdapter.setMockScenario('storm');
+            const result = await service.evaluateTriggers({
+                siteId: 'site-001',
+                thresholdInchesPerHour: 0.5,
+                jurisdictionInspectionHours: 24,
+                recipients: [
+                    { contactId: 'c-1', name: 'Fritz', role: 'foreman', phone: '+4930555011', channels: ['sms'], language: 'de' },
+                ],
+            }, 37.5, -77.4);
+
+            expect(result.alerts).toHaveLength(1);
+            expect(result.alerts[0]).toMatchObject({ channel: 'sms', recipientType: 'foreman', language: 'de' });
+        });
+
+        it('should hold non-critical alerts until the contact quiet hours end', async () => {
+            const hhmm = (offsetHours: number) => new Date(Date.now() + offsetHours * 60 * 60 * 1000).toISOString().slice(11, 16);
+            const quietHours = { start: hhmm(-1), end: hhmm(1), timeZone: 'UTC' };
+            mockAdapter.setMockScenario('heavy_rain');
+
+            const result = await service.evaluateTriggers({
+                siteId: 'site-001',
+                thresholdInchesPerHour: 0.5,
+                jurisdictionInspectionHours: 24,
+                recipients: [{
+                    contactId: 'c-1',
+                    name: 'Fritz',
+                    role: 'superintendent',
+                    phone: '+4930555011',
+                    quietHours,
+                }],
+            }, 37.5, -77.4);
+
+            const [alert] = result.alerts;
+            expect(alert.priority).toBe('high');
+            expect(alert.notBefore?.toISOString().slice(11, 16)).toBe(quietHours.end);
+            expect(alert.isDue()).toBe(false);
+        });
+    });
+
+    describe('inspection deadlines', () => {
+        const rulePacks = new RulePackRegistry(BUILT_IN_RULE_PACKS, BUILT_IN_HOLIDAY_CALENDARS);
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should alert without a deadline when the rule pack has no storm inspections', async () => {
+            mockAdapter.setMockScenario('heavy_rain');
+            const result = await service.evaluateTriggers({
+                ...defaultPermit,
+                inspectionPolicy: rulePacks.resolve('epa-cgp-7day').toInspectionPolicy(),
+            }, 37.5, -77.4);
+
+            const email = result.alerts.find(a => a.channel === 'email');
+            expect(result.shouldAlert).toBe(true);
+            expect(result.alerts[0].message).not.toContain('Inspect by');
+            expect(email?.message).not.toContain('Post-storm inspection');
+            expect(email?.htmlMessage).not.toContain('Post-storm inspection');
+        });
+
+        it('should leave out the deadline for a storm the winter exemption covers', async () => {
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+            mockAdapter.setMockScenario('heavy_rain');
+            const pack = rulePacks.resolve('epa-cgp-14day-storm');
+
+            const frozen = await service.evaluateTriggers({
+                ...defaultPermit,
+                inspectionPolicy: pack.toInspectionPolicy({ frozenGround: true }),
+            }, 37.5, -77.4);
+            const thawed = await service.evaluateTriggers({
+                ...defaultPermit,
+                inspectionPolicy: pack.toInspectionPolicy({ frozenGround: false }),
+            }, 37.5, -77.4);
+
+            expect(frozen.shouldAlert).toBe(true);
+            expect(frozen.alerts[0].message).not.toContain('Inspect by');
+            expect(thawed.alerts[0].message).toContain('Inspect by');
+        });
+    });
+
+    describe('storm deduplication', () => {
+        beforeEach(() => {
+            service = new WeatherTriggerService(
+                mockAdapter,
+                new StormCorrelationService(new InMemoryStormEventRepository())
+            );
+        });
+
+        it('should suppress alerts when the same storm is evaluated again', async () => {
+            mockAdapter.setMockScenario('storm');
+            const first = await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+            const second = await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+
+            expect(first.shouldAlert).toBe(true);
+            expect(second.shouldAlert).toBe(false);
+            expect(second.suppressed).toBe(true);
+            expect(second.alerts).toHaveLength(0);
+            expect(second.stormEventId).toBe(first.stormEventId);
+        });
+
+        it('should share the storm event id across alerts', async () => {
+            mockAdapter.setMockScenario('storm');
+            const result = await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+
+            expect(result.alerts.every(a => a.triggerEventId === result.stormEventId)).toBe(true);
+        });
+
+        it('should track storms per site', async () => {
+            mockAdapter.setMockScenario('storm');
+            await service.evaluateTriggers(defaultPermit, 37.5, -77.4);
+            const other = await service.evaluateTriggers({ ...defaultPermit, siteId: 'site-002' }, 37.5, -77.4);
+
+            expect(other.shouldAlert).toBe(true);
+        });
+    });
 });
@@ -0,0 +1,124 @@
+// @vitest-environment node
+/**
+ * WebPushChannel Unit Tests
+ *
+ * Runs against an in-process HTTP stand-in for the browser push service.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createECDH, randomBytes } from 'node:crypto';
+import webpush from 'web-push';
+import { WebPushChannel } from '../../../src/lib/weather-engine/infrastructure/WebPushChannel';
+import { InMemoryPushSubscriptionRepository } from '../../../src/lib/weather-engine/infrastructure/InMemoryPushSubscriptionRepository';
+import { WeatherAlert } from '../../../src/lib/weather-engine/domain/entities/WeatherAlert';
+import type { WebPushSubscription } from '../../../src/lib/weather-engine/ports/IPushSubscriptionRepositoryPort';
+
+interface CapturedRequest {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+}
+
+function browserKeys(): WebPushSubscription['keys'] {
+    const ecdh = createECDH('prime256v1');
+    ecdh.generateKeys();
+    return {
+        p256dh: ecdh.getPublicKey().toString('base64url'),
+        auth: randomBytes(16).toString('base64url'),
+    };
+}
+
+function createAlert(recipient: string): WeatherAlert {
+    return WeatherAlert.create({
+        id: 'alert-001',
+        siteId: 'site-1',
+        channel: 'push',
+        recipient,
+        recipientType: 'inspector',
+        message: 'Rain alert: Deploy controls.',
+        priority: 'critical',
+        triggerEventId: 'storm-1',
+        createdAt: new Date(),
+    });
+}
+
+describe('WebPushChannel', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: CapturedRequest[];
+    let subscriptions: InMemoryPushSubscriptionRepository;
+    let channel: WebPushChannel;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            req.resume();
+            req.on('end', () => {
+                requests.push({ path: req.url ?? '', headers: req.headers });
+                res.writeHead(req.url === '/gone' ? 410 : 201);
+                res.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        subscriptions = new InMemoryPushSubscriptionRepository();
+        channel = new WebPushChannel(subscriptions, {
+            subject: 'mailto:alerts@escacs.local',
+            ...webpush.generateVAPIDKeys(),
+        });
+    });
+
+    async function subscribe(recipient: string, path: string): Promise<void> {
+        await subscriptions.save({
+            recipient,
+            endpoint: `${baseUrl}${path}`,
+            keys: browserKeys(),
+            createdAt: new Date(),
+        });
+    }
+
+    it('should send an encrypted, VAPID-signed push to the subscription', async () => {
+        await subscribe('inspector@example.com', '/push/device-1');
+
+        const result = await channel.sendAlert(createAlert('inspector@example.com'));
+
+        expect(result.success).toBe(true);
+        expect(requests[0].path).toBe('/push/device-1');
+        expect(requests[0].headers['content-encoding']).toBe('aes128gcm');
+        expect(requests[0].headers.authorization).toMatch(/^vapid t=.+, k=.+/);
+        expect(requests[0].headers.urgency).toBe('high');
+    });
+
+    it('should fail when the recipient has no subscriptions', async () => {
+        const result = await channel.sendAlert(createAlert('nobody@example.com'));
+
+        expect(result.success).toBe(false);
+        expect(result.errorMessage).toContain('No push subscription');
+    });
+
+    it('should drop subscriptions the push service reports as gone', async () => {
+        await subscribe('inspector@example.com', '/gone');
+
+        const result = await channel.sendAlert(createAlert('inspector@example.com'));
+
+        expect(result.success).toBe(false);
+        expect(await subscriptions.findByRecipient('inspector@example.com')).toHaveLength(0);
+    });
+
+    it('should succeed if at least one device is reachable', async () => {
+        await subscribe('inspector@example.com', '/gone');
+        await subscribe('inspector@example.com', '/push/device-2');
+
+        const result = await channel.sendAlert(createAlert('inspector@example.com'));
+
+        expect(result.success).toBe(true);
+    });
+});